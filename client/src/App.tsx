@@ -15,6 +15,10 @@ import ScriptEditorPage from "@/pages/script-editor";
 import StoryboardPage from "@/pages/storyboard";
 import PerformancePage from "@/pages/performance";
 import ProductionPage from "@/pages/production";
+import BreakdownPage from "@/pages/breakdown";
+import BreakdownSheetsPage from "@/pages/breakdown-sheets";
+import SchedulePage from "@/pages/schedule";
+import DoodPage from "@/pages/dood";
 import ExportPage from "@/pages/export";
 import NotFound from "@/pages/not-found";
 
@@ -27,6 +31,10 @@ function Router() {
       <Route path="/script" component={ScriptEditorPage} />
       <Route path="/storyboard" component={StoryboardPage} />
       <Route path="/performance" component={PerformancePage} />
+      <Route path="/breakdown" component={BreakdownPage} />
+      <Route path="/breakdown/sheets" component={BreakdownSheetsPage} />
+      <Route path="/schedule" component={SchedulePage} />
+      <Route path="/schedule/dood" component={DoodPage} />
       <Route path="/production" component={ProductionPage} />
       <Route path="/export" component={ExportPage} />
       <Route component={NotFound} />
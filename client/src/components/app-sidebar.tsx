@@ -5,6 +5,8 @@ import {
   LayoutGrid,
   Image,
   Drama,
+  ListChecks,
+  CalendarDays,
   Shirt,
   Download,
   Home,
@@ -53,6 +55,16 @@ const workflowItems = [
     url: "/storyboard",
     icon: Image,
   },
+  {
+    title: "拆解",
+    url: "/breakdown",
+    icon: ListChecks,
+  },
+  {
+    title: "排期",
+    url: "/schedule",
+    icon: CalendarDays,
+  },
   {
     title: "服化道",
     url: "/production",
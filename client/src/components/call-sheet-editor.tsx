@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCallSheetScenes } from "@/hooks/use-call-sheet-scenes";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { CallSheet, CallSheetVersion, Scene } from "@shared/schema";
+
+export function callSheetRevisionLabel(revision: number): string {
+  return revision > 0 ? `修订版 #${revision}` : "原版";
+}
+
+function dateInputValue(value: Date | string | null): string {
+  return value ? new Date(value).toISOString().split("T")[0] : "";
+}
+
+interface CallSheetEditDialogProps {
+  callSheet: CallSheet | null;
+  scenes: Scene[];
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: (callSheet: CallSheet) => void;
+}
+
+export function CallSheetEditDialog({ callSheet, scenes, onOpenChange, onDeleted }: CallSheetEditDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [shootDate, setShootDate] = useState("");
+  const [generalCall, setGeneralCall] = useState("");
+  const [shootingCall, setShootingCall] = useState("");
+  const [notes, setNotes] = useState("");
+  const [sceneIds, setSceneIds] = useState<string[]>([]);
+  const [changeDescription, setChangeDescription] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Uploaded tables carry details too, but only generated call sheets are recomputed on save
+  const hasDetails = !!callSheet?.details;
+  const isGenerated = hasDetails && !callSheet?.fileMetadata;
+  const { links, linksFor } = useCallSheetScenes(callSheet?.projectId);
+
+  useEffect(() => {
+    if (!callSheet) return;
+    setTitle(callSheet.title);
+    setShootDate(dateInputValue(callSheet.shootDate));
+    setGeneralCall(callSheet.generalCall ?? "");
+    setShootingCall(callSheet.shootingCall ?? "");
+    setNotes(callSheet.details?.notes ?? "");
+    setSceneIds(linksFor(callSheet.id).map(link => link.sceneId));
+    setChangeDescription("");
+    setConfirmDelete(false);
+  }, [callSheet?.id, callSheet?.revision, links]);
+
+  const { data: versions } = useQuery<CallSheetVersion[]>({
+    queryKey: ["/api/call-sheets", callSheet?.id, "versions"],
+    enabled: !!callSheet?.id,
+    queryFn: async () => {
+      const response = await fetch(`/api/call-sheets/${callSheet?.id}/versions`);
+      if (!response.ok) throw new Error("Failed to fetch versions");
+      return response.json();
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/call-sheets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", callSheet?.projectId, "call-sheet-scenes"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<CallSheet>("PATCH", `/api/call-sheets/${callSheet?.id}`, {
+        title: title.trim(),
+        shootDate: shootDate || null,
+        sceneIds,
+        ...(hasDetails ? { generalCall: generalCall || undefined, shootingCall: shootingCall || undefined, notes } : {}),
+        changeDescription: changeDescription.trim() || undefined,
+      });
+    },
+    onSuccess: (revised) => {
+      invalidate();
+      toast({ title: "通告单已更新", description: `${revised.title} · ${callSheetRevisionLabel(revised.revision)}` });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "保存失败",
+        description: isGenerated ? "生成的通告单需要拍摄日期和至少一个场次" : "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/call-sheets/${callSheet?.id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "通告单已删除" });
+      if (callSheet) onDeleted?.(callSheet);
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "删除失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      return apiRequest<CallSheet>("POST", `/api/call-sheets/${callSheet?.id}/versions/${versionId}/restore`);
+    },
+    onSuccess: (revised) => {
+      invalidate();
+      toast({ title: "已恢复", description: `当前为${callSheetRevisionLabel(revised.revision)}` });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "恢复失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const toggleScene = (sceneId: string, checked: boolean) => {
+    setSceneIds(current => checked ? [...current, sceneId] : current.filter(id => id !== sceneId));
+  };
+
+  const isBusy = saveMutation.isPending || deleteMutation.isPending || restoreMutation.isPending;
+
+  return (
+    <Dialog open={!!callSheet} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            编辑通告单
+            {callSheet && <Badge variant="outline">{callSheetRevisionLabel(callSheet.revision)}</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            每次保存都会生成新的修订版，旧内容保留在修订历史中
+            {isGenerated && "；生成的通告单会按新的日期和场次重新计算通告时间"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-callsheet-title">标题</Label>
+              <Input
+                id="edit-callsheet-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                data-testid="input-edit-callsheet-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-callsheet-date">拍摄日期</Label>
+              <Input
+                id="edit-callsheet-date"
+                type="date"
+                value={shootDate}
+                onChange={(e) => setShootDate(e.target.value)}
+                data-testid="input-edit-callsheet-date"
+              />
+            </div>
+            {hasDetails && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-callsheet-general-call">全组集合</Label>
+                  <Input
+                    id="edit-callsheet-general-call"
+                    type="time"
+                    value={generalCall}
+                    onChange={(e) => setGeneralCall(e.target.value)}
+                    data-testid="input-edit-callsheet-general-call"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-callsheet-shooting-call">开机时间</Label>
+                  <Input
+                    id="edit-callsheet-shooting-call"
+                    type="time"
+                    value={shootingCall}
+                    onChange={(e) => setShootingCall(e.target.value)}
+                    data-testid="input-edit-callsheet-shooting-call"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>场次</Label>
+              <span className="text-xs text-muted-foreground">已选 {sceneIds.length} 场</span>
+            </div>
+            <ScrollArea className="h-44 border rounded-md">
+              <div className="p-2 space-y-1">
+                {scenes.filter(scene => !scene.isOmitted || sceneIds.includes(scene.id)).map(scene => (
+                  <label
+                    key={scene.id}
+                    className="flex items-center gap-2 px-2 py-1 rounded-md hover-elevate cursor-pointer text-sm"
+                  >
+                    <Checkbox
+                      checked={sceneIds.includes(scene.id)}
+                      onCheckedChange={(checked) => toggleScene(scene.id, checked === true)}
+                      data-testid={`checkbox-edit-callsheet-scene-${scene.id}`}
+                    />
+                    <span className={`font-medium shrink-0 ${scene.isOmitted ? "line-through text-muted-foreground" : ""}`}>
+                      {scene.sceneIdentifier || scene.sceneNumber}
+                    </span>
+                    <span className="text-muted-foreground truncate">{scene.title}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+
+          {hasDetails && (
+            <div className="space-y-2">
+              <Label htmlFor="edit-callsheet-notes">备注</Label>
+              <Textarea
+                id="edit-callsheet-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="textarea-edit-callsheet-notes"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-callsheet-change">修改说明（可选）</Label>
+            <Input
+              id="edit-callsheet-change"
+              placeholder="例如：因天气调整，3-2 改至明日"
+              value={changeDescription}
+              onChange={(e) => setChangeDescription(e.target.value)}
+              data-testid="input-edit-callsheet-change"
+            />
+          </div>
+
+          {versions && versions.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                修订历史
+              </Label>
+              <div className="border rounded-md divide-y">
+                {versions.map(version => (
+                  <div key={version.id} className="flex items-center justify-between gap-2 p-2 text-sm" data-testid={`callsheet-version-${version.id}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{callSheetRevisionLabel(version.revision)}</Badge>
+                        <span className="truncate">{version.title}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(version.createdAt), "yyyy-MM-dd HH:mm")} 被替换
+                        {version.changeDescription && ` · ${version.changeDescription}`}
+                        {` · ${version.sceneIdentifiers?.length ?? version.sceneNumbers?.length ?? 0} 场`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restoreMutation.mutate(version.id)}
+                      disabled={isBusy}
+                      data-testid={`button-restore-callsheet-version-${version.id}`}
+                    >
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                      恢复
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <Button
+            variant="destructive"
+            onClick={() => (confirmDelete ? deleteMutation.mutate() : setConfirmDelete(true))}
+            disabled={isBusy}
+            data-testid="button-delete-callsheet"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            {confirmDelete ? "确认删除" : "删除"}
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              取消
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={isBusy || !title.trim()}
+              data-testid="button-save-callsheet"
+            >
+              {saveMutation.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              保存修订
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
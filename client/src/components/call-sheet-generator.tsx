@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CalendarDays, RefreshCw, Sparkles } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatPageEighths } from "@shared/page-eighths";
+import type { CallSheet, Scene } from "@shared/schema";
+
+interface CallSheetGeneratorCardProps {
+  projectId: string;
+  scenes: Scene[];
+}
+
+export function downloadCallSheetPdf(callSheet: CallSheet) {
+  const a = document.createElement("a");
+  a.href = `/api/call-sheets/${callSheet.id}/pdf`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+export function CallSheetGeneratorCard({ projectId, scenes }: CallSheetGeneratorCardProps) {
+  const { toast } = useToast();
+  const [shootDate, setShootDate] = useState("");
+  const [title, setTitle] = useState("");
+  const [generalCall, setGeneralCall] = useState("07:00");
+  const [shootingCall, setShootingCall] = useState("");
+  const [notes, setNotes] = useState("");
+  const [selectedSceneIds, setSelectedSceneIds] = useState<string[]>([]);
+
+  const activeScenes = scenes.filter(scene => !scene.isOmitted);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<CallSheet>("POST", `/api/projects/${projectId}/call-sheets/generate`, {
+        shootDate,
+        sceneIds: selectedSceneIds.length > 0 ? selectedSceneIds : undefined,
+        title: title.trim() || undefined,
+        generalCall,
+        shootingCall: shootingCall || undefined,
+        notes,
+      });
+    },
+    onSuccess: (callSheet) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/call-sheets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "call-sheet-scenes"] });
+      setSelectedSceneIds([]);
+      setTitle("");
+      setNotes("");
+      toast({
+        title: "通告单已生成",
+        description: `${callSheet.title}，共 ${callSheet.details?.scenes.length ?? 0} 场`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "生成失败",
+        description: "请选择场次，或先在拍摄计划中为该日期排期",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScene = (sceneId: string, checked: boolean) => {
+    setSelectedSceneIds(current => checked ? [...current, sceneId] : current.filter(id => id !== sceneId));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-primary" />
+          生成通告单
+        </CardTitle>
+        <CardDescription>
+          按拍摄日期和场次生成完整通告单：集合与开机时间、场次、演员通告时间、群演、特殊要求和次日预告
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="callsheet-shoot-date">拍摄日期</Label>
+            <Input
+              id="callsheet-shoot-date"
+              type="date"
+              value={shootDate}
+              onChange={(e) => setShootDate(e.target.value)}
+              data-testid="input-callsheet-shoot-date"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="callsheet-generated-title">标题（可选）</Label>
+            <Input
+              id="callsheet-generated-title"
+              placeholder="默认：第N天通告 日期"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="input-callsheet-generated-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="callsheet-general-call">全组集合</Label>
+            <Input
+              id="callsheet-general-call"
+              type="time"
+              value={generalCall}
+              onChange={(e) => setGeneralCall(e.target.value)}
+              data-testid="input-callsheet-general-call"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="callsheet-shooting-call">开机时间（默认集合后1小时）</Label>
+            <Input
+              id="callsheet-shooting-call"
+              type="time"
+              value={shootingCall}
+              onChange={(e) => setShootingCall(e.target.value)}
+              data-testid="input-callsheet-shooting-call"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>拍摄场次（按勾选顺序拍摄）</Label>
+            <span className="text-xs text-muted-foreground">
+              {selectedSceneIds.length > 0 ? `已选 ${selectedSceneIds.length} 场` : "不选则使用拍摄计划中该日期的场次"}
+            </span>
+          </div>
+          <ScrollArea className="h-48 border rounded-md">
+            <div className="p-2 space-y-1">
+              {activeScenes.map(scene => (
+                <label
+                  key={scene.id}
+                  className="flex items-center gap-2 px-2 py-1 rounded-md hover-elevate cursor-pointer text-sm"
+                  data-testid={`callsheet-scene-${scene.id}`}
+                >
+                  <Checkbox
+                    checked={selectedSceneIds.includes(scene.id)}
+                    onCheckedChange={(checked) => toggleScene(scene.id, checked === true)}
+                  />
+                  <span className="font-medium shrink-0">{scene.sceneIdentifier || scene.sceneNumber}</span>
+                  <span className="text-muted-foreground truncate flex-1">{scene.title}</span>
+                  {scene.pageEighths && (
+                    <span className="text-xs text-muted-foreground shrink-0">{formatPageEighths(scene.pageEighths)} 页</span>
+                  )}
+                </label>
+              ))}
+              {activeScenes.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">暂无场次</p>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="callsheet-notes">备注</Label>
+          <Textarea
+            id="callsheet-notes"
+            placeholder="例如：今日转场，午饭12:30"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            data-testid="textarea-callsheet-notes"
+          />
+        </div>
+
+        <Button
+          onClick={() => generateMutation.mutate()}
+          disabled={!shootDate || !generalCall || generateMutation.isPending}
+          className="w-full"
+          data-testid="button-generate-callsheet"
+        >
+          {generateMutation.isPending ? (
+            <>
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              生成中...
+            </>
+          ) : (
+            <>
+              <Sparkles className="mr-2 h-4 w-4" />
+              生成通告单
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -59,6 +59,7 @@ import {
   type CharacterPoseType,
   type ImageProvider,
 } from "@shared/schema";
+import { assetThumbnailUrl } from "@shared/asset-url";
 
 const imageProviderLabels: Record<ImageProvider, string> = {
   openai: "OpenAI DALL-E",
@@ -560,7 +561,7 @@ export function CharacterReferences({ projectId }: CharacterReferencesProps) {
                 <div className="relative aspect-square rounded-md border overflow-hidden bg-muted/50">
                   {character.imageReferenceUrl ? (
                     <img
-                      src={character.imageReferenceUrl}
+                      src={assetThumbnailUrl(character.imageReferenceUrl)}
                       alt={character.name}
                       className="w-full h-full object-cover"
                     />
@@ -692,7 +693,7 @@ export function CharacterReferences({ projectId }: CharacterReferencesProps) {
                               className="relative w-16 h-16 rounded border overflow-hidden group"
                             >
                               <img
-                                src={asset.imageUrl}
+                                src={assetThumbnailUrl(asset.imageUrl)}
                                 alt={asset.description || assetType}
                                 className="w-full h-full object-cover"
                               />
@@ -894,7 +895,7 @@ export function CharacterReferences({ projectId }: CharacterReferencesProps) {
                   >
                     {variant?.status === "completed" && variant.imageUrl ? (
                       <img
-                        src={variant.imageUrl}
+                        src={assetThumbnailUrl(variant.imageUrl)}
                         alt={characterPoseTypeLabels[poseType]}
                         className="w-full h-full object-cover"
                       />
@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, GitCompare, RefreshCw, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+import type {
+  ScriptDiffLine,
+  ScriptDiffResult,
+  ScriptDiffSceneGroup,
+  ScriptDiffSceneStatus,
+  ScriptVersion,
+} from "@shared/schema";
+
+const CURRENT = "current";
+
+const sceneStatusLabels: Record<ScriptDiffSceneStatus, string> = {
+  unchanged: "未改动",
+  added: "新增",
+  removed: "删除",
+  modified: "修改",
+};
+
+const sceneStatusVariants: Record<ScriptDiffSceneStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  unchanged: "outline",
+  added: "default",
+  removed: "destructive",
+  modified: "secondary",
+};
+
+function DiffCell({ line, side }: { line: ScriptDiffLine; side: "old" | "new" }) {
+  const text = side === "old" ? line.oldText : line.newText;
+  const lineNumber = side === "old" ? line.oldLineNumber : line.newLineNumber;
+
+  if (text === null) {
+    return <div className="bg-muted/40 min-h-[1.5rem]" />;
+  }
+
+  const background =
+    line.type === "added" ? "bg-green-500/10" :
+    line.type === "removed" ? "bg-red-500/10" :
+    line.type === "changed" ? (side === "old" ? "bg-red-500/5" : "bg-green-500/5") :
+    "";
+
+  return (
+    <div className={`flex gap-2 px-2 py-0.5 min-h-[1.5rem] ${background}`}>
+      <span className="w-8 shrink-0 text-right text-xs text-muted-foreground select-none pt-0.5">
+        {lineNumber}
+      </span>
+      <span className="whitespace-pre-wrap break-all text-sm">
+        {line.segments
+          ? line.segments
+              .filter(segment => segment.type === "equal" || segment.type === (side === "old" ? "removed" : "added"))
+              .map((segment, index) => (
+                <span
+                  key={index}
+                  className={
+                    segment.type === "added" ? "bg-green-500/30 rounded-sm" :
+                    segment.type === "removed" ? "bg-red-500/30 line-through rounded-sm" :
+                    undefined
+                  }
+                >
+                  {segment.text}
+                </span>
+              ))
+          : text}
+      </span>
+    </div>
+  );
+}
+
+function SceneDiffGroup({ group, index }: { group: ScriptDiffSceneGroup; index: number }) {
+  const [open, setOpen] = useState(group.status !== "unchanged");
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-md" data-testid={`diff-scene-${index}`}>
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left hover-elevate">
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <span className="font-medium text-sm flex-1 truncate">
+          {group.heading || "场次之前的内容"}
+        </span>
+        <Badge variant={sceneStatusVariants[group.status]} className="text-xs">
+          {sceneStatusLabels[group.status]}
+        </Badge>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="grid grid-cols-2 divide-x border-t font-mono">
+          {group.lines.map((line, lineIndex) => (
+            <div key={lineIndex} className="contents">
+              <DiffCell line={line} side="old" />
+              <DiffCell line={line} side="new" />
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+interface ScriptDiffDialogProps {
+  scriptId: string | undefined;
+  versions: ScriptVersion[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialFrom?: string;
+  onRestore?: (versionId: string) => void;
+}
+
+export function ScriptDiffDialog({ scriptId, versions, open, onOpenChange, initialFrom, onRestore }: ScriptDiffDialogProps) {
+  const [from, setFrom] = useState<string>(initialFrom || versions[0]?.id || CURRENT);
+  const [to, setTo] = useState<string>(CURRENT);
+  const [onlyChanged, setOnlyChanged] = useState(true);
+
+  useEffect(() => {
+    if (open) {
+      setFrom(initialFrom || versions[0]?.id || CURRENT);
+      setTo(CURRENT);
+    }
+  }, [open, initialFrom]);
+
+  const { data: diff, isLoading } = useQuery<ScriptDiffResult>({
+    queryKey: ["/api/scripts", scriptId, "diff", from, to],
+    enabled: open && !!scriptId,
+    queryFn: async () => {
+      const response = await fetch(`/api/scripts/${scriptId}/diff?from=${from}&to=${to}`);
+      if (!response.ok) throw new Error("Failed to diff versions");
+      return response.json();
+    },
+  });
+
+  const visibleScenes = diff?.scenes.filter(group => !onlyChanged || group.status !== "unchanged") || [];
+  const changedSceneCount = diff?.scenes.filter(group => group.status !== "unchanged").length || 0;
+
+  const versionOptions = [
+    { value: CURRENT, label: "当前版本" },
+    ...versions.map(version => ({
+      value: version.id,
+      label: `v${version.version} · ${format(new Date(version.createdAt), "MM/dd HH:mm")}${version.changeDescription ? ` · ${version.changeDescription}` : ""}`,
+    })),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-primary" />
+            版本对比
+          </DialogTitle>
+          <DialogDescription>
+            按场次查看两个版本之间的改动，左侧为旧版本，右侧为新版本
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger className="w-64" data-testid="select-diff-from">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versionOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">→</span>
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger className="w-64" data-testid="select-diff-to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versionOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch id="diff-only-changed" checked={onlyChanged} onCheckedChange={setOnlyChanged} />
+            <Label htmlFor="diff-only-changed" className="text-sm">仅显示改动场次</Label>
+          </div>
+        </div>
+
+        {diff && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline">{changedSceneCount} 个场次有改动</Badge>
+            <Badge variant="outline" className="text-green-600">+{diff.stats.added} 行</Badge>
+            <Badge variant="outline" className="text-red-600">-{diff.stats.removed} 行</Badge>
+            <Badge variant="outline">~{diff.stats.changed} 行修改</Badge>
+          </div>
+        )}
+
+        <ScrollArea className="h-[60vh]">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              正在比较版本...
+            </div>
+          ) : visibleScenes.length > 0 ? (
+            <div className="space-y-2 pr-3">
+              {visibleScenes.map((group, index) => (
+                <SceneDiffGroup key={`${from}-${to}-${index}`} group={group} index={index} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              两个版本之间没有差异
+            </p>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            关闭
+          </Button>
+          {onRestore && from !== CURRENT && to === CURRENT && (
+            <Button onClick={() => onRestore(from)} data-testid="button-diff-restore">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              恢复到此版本
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, ImagePlus, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  imageProviderInfo,
+  type ImageProvider,
+  type Shot,
+  type ShotImageCandidate,
+} from "@shared/schema";
+import { assetThumbnailUrl } from "@shared/asset-url";
+
+const MAX_CANDIDATES_PER_REQUEST = 4;
+
+interface ShotImageCandidatesDialogProps {
+  shot: Shot | null;
+  provider: ImageProvider;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShotImageCandidatesDialog({ shot, provider, onOpenChange }: ShotImageCandidatesDialogProps) {
+  const { toast } = useToast();
+  const [count, setCount] = useState(2);
+
+  const { data: candidates, isLoading } = useQuery<ShotImageCandidate[]>({
+    queryKey: [`/api/shots/${shot?.id}/image-candidates`],
+    enabled: !!shot,
+  });
+
+  // The shot list and the per-scene counts both change with the candidates
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/shots"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/shots/${shot?.id}/image-candidates`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/scenes/${shot?.sceneId}/shot-image-candidates`] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/shots/${shot!.id}/generate-image`, { provider, count });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "候选图片已生成",
+        description: "最新的候选已设为分镜画面，可在下方对比后更换",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "生成失败",
+        description: "图片生成失败，请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (candidateId: string) => {
+      return apiRequest("POST", `/api/shots/${shot!.id}/image-candidates/${candidateId}/select`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "已选用",
+        description: "该候选已设为分镜画面",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "选用失败",
+        description: "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (candidateId: string) => {
+      return apiRequest("DELETE", `/api/shots/${shot!.id}/image-candidates/${candidateId}`);
+    },
+    onSuccess: () => {
+      refresh();
+    },
+    onError: () => {
+      toast({
+        title: "删除失败",
+        description: "当前选用的画面不能删除，请先选用其他候选",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!shot} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>镜头 #{shot?.shotNumber} 候选画面</DialogTitle>
+          <DialogDescription>
+            对比每次生成的候选图片，选用其中一张作为分镜画面，其余候选会保留以便之后更换
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(count)} onValueChange={(value) => setCount(parseInt(value, 10))}>
+            <SelectTrigger className="w-28" data-testid="select-candidate-count">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_CANDIDATES_PER_REQUEST }, (_, i) => i + 1).map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n} 张
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending}
+            data-testid="button-generate-candidates"
+          >
+            {generateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ImagePlus className="mr-2 h-4 w-4" />
+            )}
+            生成候选（{imageProviderInfo[provider].nameCN}）
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-[65vh] pr-3">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !candidates || candidates.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              暂无候选图片，生成后会显示在这里
+            </p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {candidates.map((candidate, index) => {
+                const selected = candidate.imageUrl === shot?.imageUrl;
+                return (
+                  <div
+                    key={candidate.id}
+                    className={`rounded-md border overflow-hidden ${selected ? "border-primary ring-2 ring-primary" : ""}`}
+                    data-testid={`shot-image-candidate-${candidate.id}`}
+                  >
+                    <div className="aspect-video bg-muted relative">
+                      <img
+                        src={assetThumbnailUrl(candidate.imageUrl)}
+                        alt={`候选 ${index + 1}`}
+                        className="w-full h-full object-contain"
+                      />
+                      <div className="absolute top-2 left-2 flex gap-1">
+                        <Badge variant="secondary" className="text-xs">候选 {index + 1}</Badge>
+                        {selected && <Badge className="text-xs">当前画面</Badge>}
+                      </div>
+                    </div>
+                    <div className="p-3 space-y-2">
+                      <div className="flex flex-wrap gap-1 text-xs text-muted-foreground">
+                        <span>{candidate.provider ? imageProviderInfo[candidate.provider].nameCN : "早期画面"}</span>
+                        {candidate.seed !== null && <span>· seed {candidate.seed}</span>}
+                        <span>· {new Date(candidate.createdAt).toLocaleString("zh-CN")}</span>
+                      </div>
+                      {candidate.prompt && (
+                        <p className="text-xs text-muted-foreground line-clamp-3" title={candidate.prompt}>
+                          {candidate.prompt}
+                        </p>
+                      )}
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant={selected ? "secondary" : "default"}
+                          className="flex-1"
+                          disabled={selected || selectMutation.isPending}
+                          onClick={() => selectMutation.mutate(candidate.id)}
+                          data-testid={`button-select-candidate-${candidate.id}`}
+                        >
+                          <Check className="mr-2 h-3 w-3" />
+                          {selected ? "已选用" : "选用"}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={selected || deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(candidate.id)}
+                          data-testid={`button-delete-candidate-${candidate.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
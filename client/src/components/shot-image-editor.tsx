@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Brush, Eraser, Loader2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { imageProviderInfo, imageProviders, type ImageProvider, type Shot } from "@shared/schema";
+
+// The mask is painted at a fixed width and stretched over the frame on the server,
+// which keeps the upload small whatever the frame's resolution
+const MASK_WIDTH = 512;
+
+const editProviders = imageProviders.filter(p => imageProviderInfo[p].available && imageProviderInfo[p].imageEdits);
+
+interface ShotImageEditorDialogProps {
+  shot: Shot | null;
+  onOpenChange: (open: boolean) => void;
+  onEdited?: (shot: Shot) => void;
+}
+
+export function ShotImageEditorDialog({ shot, onOpenChange, onEdited }: ShotImageEditorDialogProps) {
+  const { toast } = useToast();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [instruction, setInstruction] = useState("");
+  const [provider, setProvider] = useState<ImageProvider>(editProviders[0] ?? "openai");
+  const [hasMask, setHasMask] = useState(false);
+
+  useEffect(() => {
+    setInstruction("");
+    setHasMask(false);
+  }, [shot?.id]);
+
+  // Sized to the frame's ratio once the image has loaded
+  const resizeCanvas = (image: HTMLImageElement) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image.naturalWidth) return;
+    canvas.width = MASK_WIDTH;
+    canvas.height = Math.round(MASK_WIDTH * image.naturalHeight / image.naturalWidth);
+    setHasMask(false);
+  };
+
+  const pointOf = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  // Painted in opaque white on a transparent canvas, which the server reads as the edit area
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx || !lastPoint.current) return;
+    const point = pointOf(e);
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<Shot>("POST", `/api/shots/${shot!.id}/edit-image`, {
+        mask: canvasRef.current!.toDataURL("image/png"),
+        instruction,
+        provider,
+      });
+    },
+    onSuccess: (edited) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shots"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/shots/${shot?.id}/image-candidates`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/scenes/${shot?.sceneId}/shot-image-candidates`] });
+      onEdited?.(edited);
+      onOpenChange(false);
+      toast({
+        title: "局部重绘完成",
+        description: "结果已设为分镜画面并保存为新版本",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "重绘失败",
+        description: error.message || "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!shot} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>局部重绘 #{shot?.shotNumber}</DialogTitle>
+          <DialogDescription>
+            在画面上涂抹需要修改的区域并描述修改内容，未涂抹的部分保持不变
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-center bg-muted rounded-md overflow-hidden">
+            {shot?.imageUrl && (
+              <div className="relative">
+                <img
+                  src={shot.imageUrl}
+                  alt={`Shot ${shot.shotNumber}`}
+                  className="block max-h-[55vh] max-w-full select-none"
+                  draggable={false}
+                  onLoad={(e) => resizeCanvas(e.currentTarget)}
+                />
+                <canvas
+                  ref={canvasRef}
+                  className="absolute inset-0 w-full h-full opacity-60 cursor-crosshair touch-none"
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    lastPoint.current = pointOf(e);
+                    paint(e);
+                  }}
+                  onPointerMove={paint}
+                  onPointerUp={() => { lastPoint.current = null; }}
+                  onPointerLeave={() => { lastPoint.current = null; }}
+                  data-testid="canvas-edit-mask"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+              <Brush className="h-4 w-4 text-muted-foreground" />
+              <Slider
+                value={[brushSize]}
+                min={8}
+                max={120}
+                step={4}
+                onValueChange={([value]) => setBrushSize(value)}
+                data-testid="slider-brush-size"
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={clearMask} disabled={!hasMask} data-testid="button-clear-mask">
+              <Eraser className="mr-2 h-4 w-4" />
+              清除涂抹
+            </Button>
+            <Select value={provider} onValueChange={(value) => setProvider(value as ImageProvider)}>
+              <SelectTrigger className="w-40" data-testid="select-edit-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {editProviders.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {imageProviderInfo[p].nameCN}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="例如：把桌上的手机换成一本旧书；去掉背景里多出来的人"
+            rows={3}
+            data-testid="input-edit-instruction"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>取消</Button>
+          <Button
+            onClick={() => editMutation.mutate()}
+            disabled={!hasMask || !instruction.trim() || editMutation.isPending}
+            data-testid="button-submit-image-edit"
+          >
+            {editMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Wand2 className="mr-2 h-4 w-4" />
+            )}
+            开始重绘
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
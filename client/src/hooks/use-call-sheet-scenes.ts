@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { CallSheetScene } from "@shared/schema";
+
+// Scene membership of every call sheet in the project, in call sheet order
+export function useCallSheetScenes(projectId: string | undefined) {
+  const { data: links } = useQuery<CallSheetScene[]>({
+    queryKey: ["/api/projects", projectId, "call-sheet-scenes"],
+    enabled: !!projectId,
+    // Changes whenever a call sheet is saved, edited or deleted
+    refetchOnMount: "always",
+  });
+
+  return useMemo(() => {
+    const all = links ?? [];
+    const linkedSceneIds = new Set(all.map(link => link.sceneId));
+    return {
+      links: all,
+      isInAnyCallSheet: (sceneId: string) => linkedSceneIds.has(sceneId),
+      linksFor: (callSheetId: string) => all.filter(link => link.callSheetId === callSheetId),
+    };
+  }, [links]);
+}
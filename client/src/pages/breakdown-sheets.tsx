@@ -0,0 +1,202 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ClipboardList, Download, Printer } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAppStore } from "@/lib/store";
+import {
+  breakdownCategoryInfo,
+  sceneIntExtLabels,
+  type BreakdownSheet,
+  type BreakdownSheetItem,
+  type BreakdownSheetReport,
+  type Project,
+} from "@shared/schema";
+import { formatPageEighths } from "@shared/page-eighths";
+
+function itemText(item: BreakdownSheetItem): string {
+  return `${item.name}${item.quantity ? ` ×${item.quantity}` : ""}${item.notes ? `（${item.notes}）` : ""}`;
+}
+
+function SheetBox({ label, lines }: { label: string; lines: string[] }) {
+  return (
+    <div className="border border-foreground/40 p-2 min-h-[5rem]">
+      <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</div>
+      <div className="text-sm mt-1 space-y-0.5">
+        {lines.map((line, index) => (
+          <div key={index}>{line}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BreakdownSheetCard({ sheet, projectTitle }: { sheet: BreakdownSheet; projectTitle: string }) {
+  const dayNight = sheet.dayNight === "day" ? "日" : sheet.dayNight === "night" ? "夜" : "";
+  const boxes: [string, string[]][] = [
+    ["演员 Cast", sheet.cast.map(member => `${member.castId}. ${member.name}`)],
+    ["群演 Background", sheet.background.map(itemText)],
+    ["道具 Props", sheet.props.map(itemText)],
+    ["服装 Wardrobe", sheet.wardrobe.map(itemText)],
+    ["化妆/发型 Makeup/Hair", sheet.makeup.map(itemText)],
+    ["车辆 Vehicles", sheet.vehicles.map(itemText)],
+    ["特殊器材 Special Equipment", sheet.specialEquipment.map(itemText)],
+    ...sheet.other.map(group => [
+      `${breakdownCategoryInfo[group.category].nameCN} ${breakdownCategoryInfo[group.category].name}`,
+      group.items.map(itemText),
+    ] as [string, string[]]),
+  ];
+
+  return (
+    <div className="print-page-break bg-background border rounded-md p-6 print:border-0 print:rounded-none" data-testid={`breakdown-sheet-${sheet.sceneId}`}>
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold">剧本拆解表 Breakdown Sheet</h2>
+        <span className="text-xs text-muted-foreground">{projectTitle}</span>
+      </div>
+
+      <div className="grid grid-cols-4">
+        <SheetBox label="场次 Scene" lines={[sheet.sceneIdentifier]} />
+        <SheetBox label="内/外景 Int/Ext" lines={[sheet.intExt ? sceneIntExtLabels[sheet.intExt] : ""]} />
+        <SheetBox label="日/夜 D/N" lines={[dayNight ? `${dayNight}${sheet.timeOfDay && sheet.timeOfDay !== dayNight ? `（${sheet.timeOfDay}）` : ""}` : sheet.timeOfDay || ""]} />
+        <SheetBox label="页数 Pages" lines={[formatPageEighths(sheet.pageEighths)]} />
+      </div>
+      <SheetBox label="场景 Location" lines={[sheet.location || sheet.title]} />
+
+      {sheet.isOmitted ? (
+        <div className="border border-foreground/40 py-16 text-center">
+          <div className="text-3xl font-bold text-muted-foreground">OMITTED</div>
+          <div className="text-sm text-muted-foreground mt-2">本场已从锁定剧本中删除</div>
+        </div>
+      ) : (
+        <>
+          <SheetBox label="剧情 Synopsis" lines={[sheet.synopsis]} />
+          <div className="grid grid-cols-2 mt-2">
+            {boxes.map(([label, lines]) => (
+              <SheetBox key={label} label={label} lines={lines} />
+            ))}
+          </div>
+          {sheet.unconfirmedTags > 0 && (
+            <p className="text-xs text-amber-600 mt-2">含 {sheet.unconfirmedTags} 个未确认的AI标注</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function BreakdownSheetsPage() {
+  const { currentProject, setCurrentProject } = useAppStore();
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const { data: report, isLoading } = useQuery<BreakdownSheetReport>({
+    queryKey: ["/api/projects", currentProject?.id, "breakdown-sheets"],
+    enabled: !!currentProject?.id,
+  });
+
+  const handleDownloadPdf = () => {
+    if (!currentProject) return;
+    const a = document.createElement("a");
+    a.href = `/api/projects/${currentProject.id}/breakdown-sheets/pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden h-full">
+      <div className="flex items-center justify-between gap-4 p-4 border-b print:hidden">
+        <div className="flex items-center gap-3">
+          <Link href="/breakdown">
+            <Button size="icon" variant="ghost" data-testid="button-back-breakdown">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <ClipboardList className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <h1 className="text-lg font-semibold" data-testid="text-breakdown-sheets-title">拆解表</h1>
+            <p className="text-sm text-muted-foreground">每场一页的标准拆解表，可直接打印或导出PDF</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={currentProject?.id || ""} onValueChange={(id) => {
+            const project = projects?.find((p) => p.id === id);
+            if (project) setCurrentProject(project);
+          }}>
+            <SelectTrigger className="w-48" data-testid="select-project-breakdown-sheets">
+              <SelectValue placeholder="选择项目" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects?.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => window.print()} disabled={!report} data-testid="button-print-breakdown-sheets">
+            <Printer className="mr-2 h-4 w-4" />
+            打印
+          </Button>
+          <Button onClick={handleDownloadPdf} disabled={!currentProject} data-testid="button-download-breakdown-pdf">
+            <Download className="mr-2 h-4 w-4" />
+            导出PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="p-6 space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-96 w-full" />
+            ))}
+          </div>
+        ) : report ? (
+          <div className="print-area p-6 space-y-6 max-w-4xl mx-auto print:p-0 print:space-y-0">
+            <div className="print-page-break bg-background border rounded-md p-6 print:border-0">
+              <h2 className="text-xl font-semibold text-center">{report.projectTitle}</h2>
+              <p className="text-sm text-muted-foreground text-center mt-1">
+                剧本拆解表 · 演员编号 · 共 {report.sheets.length} 场
+              </p>
+              <div className="grid grid-cols-2 gap-x-8 gap-y-1 mt-6 text-sm">
+                {report.castList.map(member => (
+                  <div key={member.castId} className="flex gap-2">
+                    <span className="font-semibold w-6 text-right">{member.castId}.</span>
+                    <span>{member.name}</span>
+                    {!member.characterId && <Badge variant="outline" className="text-xs print:hidden">未建角色</Badge>}
+                  </div>
+                ))}
+              </div>
+              {report.castList.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center mt-6">暂无演员</p>
+              )}
+            </div>
+            {report.sheets.map(sheet => (
+              <BreakdownSheetCard key={sheet.sceneId} sheet={sheet} projectTitle={report.projectTitle} />
+            ))}
+          </div>
+        ) : (
+          <Card className="m-6">
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <ClipboardList className="h-16 w-16 text-muted-foreground/30" />
+              <h3 className="mt-4 text-lg font-medium">请先选择项目</h3>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
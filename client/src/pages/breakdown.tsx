@@ -0,0 +1,635 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import {
+  ListChecks,
+  Wand2,
+  RefreshCw,
+  Check,
+  CheckCheck,
+  Pencil,
+  Trash2,
+  Plus,
+  X,
+  Sparkles,
+  ClipboardList,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAppStore } from "@/lib/store";
+import {
+  breakdownCategories,
+  breakdownCategoryInfo,
+  type BreakdownCategory,
+  type Project,
+  type Scene,
+  type SceneBreakdown,
+  type SceneBreakdownTag,
+} from "@shared/schema";
+import { formatPageEighths } from "@shared/page-eighths";
+
+interface PendingSelection {
+  startOffset: number;
+  endOffset: number;
+  excerpt: string;
+}
+
+interface TextSegment {
+  start: number;
+  end: number;
+  tags: SceneBreakdownTag[];
+}
+
+// Split the scene text at every tag boundary so overlapping tags can share a span
+function segmentText(text: string, tags: SceneBreakdownTag[]): TextSegment[] {
+  const anchored = tags.filter(t => t.startOffset !== null && t.endOffset !== null);
+  const cuts = new Set([0, text.length]);
+  anchored.forEach(t => {
+    cuts.add(Math.min(t.startOffset!, text.length));
+    cuts.add(Math.min(t.endOffset!, text.length));
+  });
+  const points = Array.from(cuts).sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (start === end) continue;
+    segments.push({
+      start,
+      end,
+      tags: anchored.filter(t => t.startOffset! <= start && t.endOffset! >= end),
+    });
+  }
+  return segments;
+}
+
+// Character offset of a DOM position inside the rendered scene text
+function offsetWithin(container: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+export default function BreakdownPage() {
+  const { toast } = useToast();
+  const { currentProject, setCurrentProject } = useAppStore();
+  const textRef = useRef<HTMLDivElement>(null);
+
+  const [selectedScene, setSelectedScene] = useState<Scene | null>(null);
+  const [pending, setPending] = useState<PendingSelection | null>(null);
+  const [pendingCategory, setPendingCategory] = useState<BreakdownCategory>("props");
+  const [pendingName, setPendingName] = useState("");
+  const [editingTag, setEditingTag] = useState<SceneBreakdownTag | null>(null);
+  const [editForm, setEditForm] = useState({ category: "props" as BreakdownCategory, name: "", quantity: "", notes: "" });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const { data: scenes } = useQuery<Scene[]>({
+    queryKey: ["/api/scenes", currentProject?.id],
+    enabled: !!currentProject?.id,
+  });
+
+  const breakdownKey = [`/api/scenes/${selectedScene?.id}/breakdown`];
+  const { data: breakdown, isLoading: breakdownLoading } = useQuery<SceneBreakdown>({
+    queryKey: breakdownKey,
+    enabled: !!selectedScene?.id,
+  });
+
+  useEffect(() => {
+    if (scenes && scenes.length > 0 && !selectedScene) {
+      setSelectedScene(scenes[0]);
+    }
+  }, [scenes, selectedScene]);
+
+  useEffect(() => {
+    setPending(null);
+  }, [selectedScene?.id]);
+
+  const tags = breakdown?.tags || [];
+  const segments = useMemo(() => segmentText(breakdown?.text || "", tags), [breakdown]);
+  const suggestedCount = tags.filter(t => t.status === "suggested").length;
+
+  const tagsByCategory = breakdownCategories
+    .map(category => ({ category, tags: tags.filter(t => t.element.category === category) }))
+    .filter(group => group.tags.length > 0);
+
+  const invalidateBreakdown = () => {
+    queryClient.invalidateQueries({ queryKey: breakdownKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject?.id, "breakdown-elements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject?.id, "breakdown-sheets"] });
+  };
+
+  const autoTagMutation = useMutation({
+    mutationFn: async (sceneId: string) => {
+      return apiRequest<SceneBreakdown & { created: number; skipped: number }>("POST", `/api/scenes/${sceneId}/breakdown/auto-tag`);
+    },
+    onSuccess: (result) => {
+      invalidateBreakdown();
+      toast({
+        title: "AI预标注完成",
+        description: `新增 ${result.created} 个待确认标注${result.skipped > 0 ? `，跳过 ${result.skipped} 个重复项` : ""}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "预标注失败",
+        description: "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createTagMutation = useMutation({
+    mutationFn: async (data: { sceneId: string; category: BreakdownCategory; name: string; startOffset: number; endOffset: number }) => {
+      const { sceneId, ...body } = data;
+      return apiRequest("POST", `/api/scenes/${sceneId}/breakdown/tags`, body);
+    },
+    onSuccess: () => {
+      invalidateBreakdown();
+      setPending(null);
+      window.getSelection()?.removeAllRanges();
+    },
+    onError: () => {
+      toast({
+        title: "标注失败",
+        description: "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateTagMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; category?: BreakdownCategory; name?: string; status?: "confirmed"; quantity?: number | null; notes?: string | null }) => {
+      return apiRequest("PATCH", `/api/breakdown-tags/${id}`, updates);
+    },
+    onSuccess: () => {
+      invalidateBreakdown();
+      setEditingTag(null);
+    },
+    onError: () => {
+      toast({
+        title: "更新失败",
+        description: "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/breakdown-tags/${id}`);
+    },
+    onSuccess: () => {
+      invalidateBreakdown();
+    },
+  });
+
+  const confirmAllMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      for (const id of ids) {
+        await apiRequest("PATCH", `/api/breakdown-tags/${id}`, { status: "confirmed" });
+      }
+    },
+    onSuccess: () => {
+      invalidateBreakdown();
+    },
+  });
+
+  const handleTextMouseUp = () => {
+    const container = textRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    let startOffset = offsetWithin(container, range.startContainer, range.startOffset);
+    let endOffset = offsetWithin(container, range.endContainer, range.endOffset);
+    const text = breakdown?.text || "";
+    // Drop surrounding whitespace picked up by double-click or sloppy drags
+    while (startOffset < endOffset && /\s/.test(text[startOffset])) startOffset++;
+    while (endOffset > startOffset && /\s/.test(text[endOffset - 1])) endOffset--;
+    if (startOffset >= endOffset) return;
+
+    const excerpt = text.slice(startOffset, endOffset);
+    setPending({ startOffset, endOffset, excerpt });
+    setPendingName(excerpt.length <= 20 ? excerpt : "");
+  };
+
+  const handleCreateTag = () => {
+    if (!selectedScene || !pending || !pendingName.trim()) return;
+    createTagMutation.mutate({
+      sceneId: selectedScene.id,
+      category: pendingCategory,
+      name: pendingName.trim(),
+      startOffset: pending.startOffset,
+      endOffset: pending.endOffset,
+    });
+  };
+
+  const openEdit = (tag: SceneBreakdownTag) => {
+    setEditingTag(tag);
+    setEditForm({
+      category: tag.element.category,
+      name: tag.element.name,
+      quantity: tag.quantity?.toString() || "",
+      notes: tag.notes || "",
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingTag || !editForm.name.trim()) return;
+    const quantity = parseInt(editForm.quantity, 10);
+    updateTagMutation.mutate({
+      id: editingTag.id,
+      category: editForm.category,
+      name: editForm.name.trim(),
+      quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : null,
+      notes: editForm.notes.trim() || null,
+    });
+  };
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      <div className="w-72 border-r overflow-hidden flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="font-semibold">场次列表</h2>
+          <p className="text-xs text-muted-foreground mt-1">选择要拆解的场次</p>
+        </div>
+
+        <div className="p-4 border-b">
+          <Select value={currentProject?.id || ""} onValueChange={(id) => {
+            const project = projects?.find((p) => p.id === id);
+            if (project) {
+              setCurrentProject(project);
+              setSelectedScene(null);
+            }
+          }}>
+            <SelectTrigger data-testid="select-project-breakdown">
+              <SelectValue placeholder="选择项目" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects?.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="flex-1">
+          <div className="p-4 space-y-2">
+            {scenes && scenes.length > 0 ? (
+              scenes.map((scene) => (
+                <div
+                  key={scene.id}
+                  onClick={() => setSelectedScene(scene)}
+                  className={`p-3 border rounded-md cursor-pointer transition-colors ${
+                    selectedScene?.id === scene.id
+                      ? "border-primary bg-primary/5"
+                      : "hover-elevate"
+                  }`}
+                  data-testid={`scene-breakdown-${scene.id}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm">场次 {scene.sceneIdentifier || scene.sceneNumber}</span>
+                    {scene.isOmitted && (
+                      <Badge variant="outline" className="text-xs">已删除</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-start justify-between gap-2 mt-1">
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {scene.title}
+                    </p>
+                    {!scene.isOmitted && scene.pageEighths && (
+                      <span className="text-xs text-muted-foreground shrink-0">{formatPageEighths(scene.pageEighths)} 页</span>
+                    )}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-center py-8">
+                <ListChecks className="h-10 w-10 mx-auto text-muted-foreground/30" />
+                <p className="text-sm text-muted-foreground mt-3">
+                  {currentProject ? "暂无场次" : "请先选择项目"}
+                </p>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between gap-4 p-4 border-b">
+          <div className="flex items-center gap-3">
+            <ListChecks className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <h1 className="text-lg font-semibold" data-testid="text-breakdown-title">剧本拆解</h1>
+              {selectedScene && (
+                <p className="text-sm text-muted-foreground">
+                  场次 {selectedScene.sceneIdentifier || selectedScene.sceneNumber}: {selectedScene.title}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Link href="/breakdown/sheets">
+              <Button variant="outline" data-testid="button-open-breakdown-sheets">
+                <ClipboardList className="mr-2 h-4 w-4" />
+                拆解表
+              </Button>
+            </Link>
+            {suggestedCount > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => confirmAllMutation.mutate(tags.filter(t => t.status === "suggested").map(t => t.id))}
+                disabled={confirmAllMutation.isPending}
+                data-testid="button-confirm-all-breakdown"
+              >
+                <CheckCheck className="mr-2 h-4 w-4" />
+                全部确认 ({suggestedCount})
+              </Button>
+            )}
+            <Button
+              onClick={() => selectedScene && autoTagMutation.mutate(selectedScene.id)}
+              disabled={autoTagMutation.isPending || !selectedScene}
+              data-testid="button-auto-tag-breakdown"
+            >
+              {autoTagMutation.isPending ? (
+                <>
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  标注中...
+                </>
+              ) : (
+                <>
+                  <Wand2 className="mr-2 h-4 w-4" />
+                  AI预标注
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {autoTagMutation.isPending && (
+          <div className="px-4 py-3 border-b bg-muted/30 text-sm text-muted-foreground flex items-center gap-2">
+            <Sparkles className="h-4 w-4 text-primary animate-pulse" />
+            AI正在通读场次并标注演员、道具、车辆等拆解元素...
+          </div>
+        )}
+
+        {pending && (
+          <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b bg-muted/30" data-testid="breakdown-pending-selection">
+            <span className="text-sm max-w-xs truncate">
+              选中：<span className="font-medium">{pending.excerpt}</span>
+            </span>
+            <Select value={pendingCategory} onValueChange={(value) => setPendingCategory(value as BreakdownCategory)}>
+              <SelectTrigger className="w-36" data-testid="select-breakdown-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {breakdownCategories.map(category => (
+                  <SelectItem key={category} value={category}>
+                    {breakdownCategoryInfo[category].nameCN}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-48"
+              placeholder="元素名称"
+              value={pendingName}
+              onChange={(e) => setPendingName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreateTag()}
+              data-testid="input-breakdown-name"
+            />
+            <Button size="sm" onClick={handleCreateTag} disabled={!pendingName.trim() || createTagMutation.isPending} data-testid="button-create-breakdown-tag">
+              <Plus className="mr-1 h-4 w-4" />
+              添加标注
+            </Button>
+            <Button size="icon" variant="ghost" onClick={() => setPending(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="flex-1 flex overflow-hidden">
+          <ScrollArea className="flex-1">
+            <div className="p-6">
+              {breakdownLoading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3, 4].map((i) => (
+                    <Skeleton key={i} className="h-6 w-full" />
+                  ))}
+                </div>
+              ) : breakdown?.text ? (
+                <div
+                  ref={textRef}
+                  onMouseUp={handleTextMouseUp}
+                  className="text-sm leading-loose whitespace-pre-wrap font-mono select-text"
+                  data-testid="breakdown-scene-text"
+                >
+                  {segments.map(segment => {
+                    const text = breakdown.text.slice(segment.start, segment.end);
+                    if (segment.tags.length === 0) return <span key={segment.start}>{text}</span>;
+                    const top = segment.tags[segment.tags.length - 1];
+                    const color = breakdownCategoryInfo[top.element.category].color;
+                    return (
+                      <span
+                        key={segment.start}
+                        className="rounded-sm"
+                        style={{
+                          backgroundColor: `${color}33`,
+                          borderBottom: `2px ${top.status === "suggested" ? "dashed" : "solid"} ${color}`,
+                        }}
+                        title={segment.tags.map(t => `${breakdownCategoryInfo[t.element.category].nameCN}：${t.element.name}`).join("\n")}
+                      >
+                        {text}
+                      </span>
+                    );
+                  })}
+                </div>
+              ) : selectedScene ? (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-16">
+                    <ListChecks className="h-16 w-16 text-muted-foreground/30" />
+                    <h3 className="mt-4 text-lg font-medium">该场次没有剧本内容</h3>
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      请先在剧本页面上传或编辑剧本
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-16">
+                    <ListChecks className="h-16 w-16 text-muted-foreground/30" />
+                    <h3 className="mt-4 text-lg font-medium">请选择场次</h3>
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      从左侧选择一个场次，选中剧本文字即可标注拆解元素
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="w-80 border-l overflow-hidden flex flex-col">
+            <div className="p-4 border-b">
+              <h2 className="font-semibold">拆解元素</h2>
+              <p className="text-xs text-muted-foreground mt-1">
+                {tags.length} 个标注{suggestedCount > 0 ? `，${suggestedCount} 个待确认` : ""}
+              </p>
+            </div>
+            <ScrollArea className="flex-1">
+              <div className="p-4 space-y-4">
+                {tagsByCategory.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    暂无标注
+                  </p>
+                )}
+                {tagsByCategory.map(group => (
+                  <div key={group.category} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: breakdownCategoryInfo[group.category].color }} />
+                      <span className="text-sm font-medium">{breakdownCategoryInfo[group.category].nameCN}</span>
+                      <span className="text-xs text-muted-foreground">{group.tags.length}</span>
+                    </div>
+                    {group.tags.map(tag => (
+                      <div key={tag.id} className="border rounded-md p-2 text-sm" data-testid={`breakdown-tag-${tag.id}`}>
+                        <div className="flex items-center gap-1">
+                          <span className="font-medium flex-1 truncate">
+                            {tag.element.name}
+                            {tag.quantity ? <span className="text-muted-foreground"> ×{tag.quantity}</span> : null}
+                          </span>
+                          {tag.status === "suggested" && (
+                            <>
+                              <Badge variant="outline" className="text-xs">AI</Badge>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7"
+                                onClick={() => updateTagMutation.mutate({ id: tag.id, status: "confirmed" })}
+                                data-testid={`button-confirm-tag-${tag.id}`}
+                              >
+                                <Check className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEdit(tag)} data-testid={`button-edit-tag-${tag.id}`}>
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => deleteTagMutation.mutate(tag.id)}
+                            data-testid={`button-delete-tag-${tag.id}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                        {tag.excerpt && tag.excerpt !== tag.element.name && (
+                          <p className={`text-xs mt-1 line-clamp-2 ${tag.startOffset === null ? "text-amber-600" : "text-muted-foreground"}`}>
+                            {tag.startOffset === null ? "原文已变更：" : "“"}{tag.excerpt}{tag.startOffset === null ? "" : "”"}
+                          </p>
+                        )}
+                        {tag.notes && <p className="text-xs text-muted-foreground mt-1">{tag.notes}</p>}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={!!editingTag} onOpenChange={(open) => !open && setEditingTag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>编辑标注</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>类别</Label>
+              <Select value={editForm.category} onValueChange={(value) => setEditForm(f => ({ ...f, category: value as BreakdownCategory }))}>
+                <SelectTrigger data-testid="select-edit-breakdown-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {breakdownCategories.map(category => (
+                    <SelectItem key={category} value={category}>
+                      {breakdownCategoryInfo[category].nameCN}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>元素名称</Label>
+              <Input
+                value={editForm.name}
+                onChange={(e) => setEditForm(f => ({ ...f, name: e.target.value }))}
+                data-testid="input-edit-breakdown-name"
+              />
+              <p className="text-xs text-muted-foreground">同类别下同名的元素会在所有场次中合并为一个</p>
+            </div>
+            <div className="space-y-2">
+              <Label>数量</Label>
+              <Input
+                type="number"
+                min={1}
+                value={editForm.quantity}
+                onChange={(e) => setEditForm(f => ({ ...f, quantity: e.target.value }))}
+                data-testid="input-edit-breakdown-quantity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>备注</Label>
+              <Textarea
+                value={editForm.notes}
+                onChange={(e) => setEditForm(f => ({ ...f, notes: e.target.value }))}
+                data-testid="input-edit-breakdown-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingTag(null)}>
+              取消
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={!editForm.name.trim() || updateTagMutation.isPending} data-testid="button-save-breakdown-tag">
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
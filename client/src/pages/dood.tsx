@@ -0,0 +1,223 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, CalendarRange, Download } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAppStore } from "@/lib/store";
+import type { DoodCastRow, DoodDay, DoodMarker, DoodReport, Project } from "@shared/schema";
+
+const markerStyles: Record<DoodMarker, string> = {
+  SW: "bg-green-200 text-green-900",
+  W: "bg-blue-100 text-blue-900",
+  WF: "bg-red-200 text-red-900",
+  SWF: "bg-purple-200 text-purple-900",
+  H: "bg-amber-100 text-amber-900",
+  WD: "bg-slate-300 text-slate-900",
+  PW: "bg-teal-200 text-teal-900",
+  T: "bg-sky-200 text-sky-900",
+};
+
+const markerLegend: [DoodMarker, string][] = [
+  ["SW", "开工"],
+  ["W", "工作"],
+  ["WF", "杀青"],
+  ["SWF", "单日"],
+  ["H", "待命"],
+  ["WD", "工作后放假"],
+  ["PW", "放假后复工"],
+  ["T", "差旅"],
+];
+
+function dayHeader(day: DoodDay): string {
+  return day.date ? day.date.slice(5).replace("-", "/") : "未定";
+}
+
+export default function DoodPage() {
+  const { currentProject, setCurrentProject } = useAppStore();
+  const { toast } = useToast();
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const doodKey = ["/api/projects", currentProject?.id, "dood"];
+  const { data: report, isLoading } = useQuery<DoodReport>({
+    queryKey: doodKey,
+    enabled: !!currentProject?.id,
+    // Derived from scenes, breakdown and call sheets, which change on other pages
+    refetchOnMount: "always",
+  });
+
+  const travelMutation = useMutation({
+    mutationFn: async (data: { castKey: string; dayKey: string; travel: boolean }) => {
+      return apiRequest<DoodReport>("PUT", `/api/projects/${currentProject?.id}/dood/travel`, data);
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(doodKey, result);
+    },
+    onError: () => {
+      toast({ title: "保存失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  // Only days the actor is not working can become travel days
+  const toggleTravel = (row: DoodCastRow, day: DoodDay) => {
+    const marker = row.markers[day.dayNumber - 1];
+    if (marker && marker !== "H" && marker !== "T") return;
+    travelMutation.mutate({ castKey: row.castKey, dayKey: day.dayKey, travel: marker !== "T" });
+  };
+
+  const handleDownloadXlsx = () => {
+    if (!currentProject) return;
+    const a = document.createElement("a");
+    a.href = `/api/projects/${currentProject.id}/dood/xlsx`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden h-full">
+      <div className="flex items-center justify-between gap-4 p-4 border-b">
+        <div className="flex items-center gap-3">
+          <Link href="/schedule">
+            <Button size="icon" variant="ghost" data-testid="button-back-schedule">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <CalendarRange className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <h1 className="text-lg font-semibold" data-testid="text-dood-title">演员日程表</h1>
+            <p className="text-sm text-muted-foreground">
+              {report
+                ? report.source === "call_sheets" ? "按通告单拍摄日期统计" : "尚无带日期的通告单，按拍摄计划统计"
+                : "Day Out of Days：每位演员在各拍摄日的工作状态"}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={currentProject?.id || ""} onValueChange={(id) => {
+            const project = projects?.find((p) => p.id === id);
+            if (project) setCurrentProject(project);
+          }}>
+            <SelectTrigger className="w-48" data-testid="select-project-dood">
+              <SelectValue placeholder="选择项目" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects?.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleDownloadXlsx} disabled={!report || report.days.length === 0} data-testid="button-download-dood">
+            <Download className="mr-2 h-4 w-4" />
+            导出Excel
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="p-6 space-y-2">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : report && report.days.length > 0 ? (
+          <div className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {markerLegend.map(([marker, label]) => (
+                <span key={marker} className="flex items-center gap-1">
+                  <span className={`px-1.5 py-0.5 rounded font-mono ${markerStyles[marker]}`}>{marker}</span>
+                  {label}
+                </span>
+              ))}
+              <span className="text-muted-foreground ml-2">点击空白或待命格可标记差旅日</span>
+            </div>
+
+            <div className="overflow-x-auto border rounded-md">
+              <table className="text-xs border-collapse" data-testid="table-dood">
+                <thead>
+                  <tr className="bg-muted">
+                    <th className="sticky left-0 bg-muted px-2 py-1 text-left font-medium min-w-[10rem]">演员</th>
+                    {report.days.map(day => (
+                      <th key={day.dayKey} className="px-1 py-1 font-medium min-w-[3.5rem] border-l" title={day.sceneIdentifiers.join(", ")}>
+                        <div>第{day.dayNumber}天</div>
+                        <div className="text-muted-foreground font-normal">{dayHeader(day)}</div>
+                      </th>
+                    ))}
+                    {["工作", "待命", "差旅", "放假", "合计"].map(label => (
+                      <th key={label} className="px-2 py-1 font-medium border-l">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.cast.map(row => (
+                    <tr key={row.castKey} className="border-t" data-testid={`dood-row-${row.castId}`}>
+                      <td className="sticky left-0 bg-background px-2 py-1 whitespace-nowrap">
+                        <span className="font-mono mr-1">{row.castId}.</span>
+                        {row.name}
+                        {!row.characterId && <Badge variant="outline" className="ml-1 text-[10px]">未建角色</Badge>}
+                      </td>
+                      {report.days.map((day, index) => {
+                        const marker = row.markers[index];
+                        return (
+                          <td
+                            key={day.dayKey}
+                            onClick={() => toggleTravel(row, day)}
+                            className={`border-l text-center font-mono py-1 ${marker ? markerStyles[marker] : ""} ${!marker || marker === "H" || marker === "T" ? "cursor-pointer hover:ring-1 hover:ring-inset hover:ring-primary" : ""}`}
+                          >
+                            {marker ?? ""}
+                          </td>
+                        );
+                      })}
+                      <td className="border-l text-center">{row.workDays}</td>
+                      <td className="border-l text-center">{row.holdDays}</td>
+                      <td className="border-l text-center">{row.travelDays}</td>
+                      <td className="border-l text-center">{row.dropDays}</td>
+                      <td className="border-l text-center font-medium">{row.totalDays}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t bg-muted/50">
+                    <td className="sticky left-0 bg-muted px-2 py-1 text-muted-foreground">当日演员</td>
+                    {report.days.map(day => (
+                      <td key={day.dayKey} className="border-l text-center">{day.castCount}</td>
+                    ))}
+                    <td colSpan={5} className="border-l" />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            {report.cast.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center">拍摄日中没有识别到演员，请先完善剧本拆解</p>
+            )}
+          </div>
+        ) : (
+          <Card className="m-6">
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <CalendarRange className="h-16 w-16 text-muted-foreground/30" />
+              <h3 className="mt-4 text-lg font-medium">{currentProject ? "还没有拍摄日" : "请先选择项目"}</h3>
+              {currentProject && (
+                <p className="text-sm text-muted-foreground mt-1">上传带拍摄日期的通告单，或在拍摄计划中添加拍摄日</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
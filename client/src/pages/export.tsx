@@ -13,6 +13,7 @@ import {
   Shirt,
   Sparkles,
   ChevronRight,
+  CalendarRange,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -31,12 +32,18 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useCallSheetScenes } from "@/hooks/use-call-sheet-scenes";
 import { useAppStore } from "@/lib/store";
 import type { Project, Scene } from "@shared/schema";
 
 type ExportFormat = "pdf" | "excel" | "word";
 
+const formatExtensions: Record<ExportFormat, string> = {
+  pdf: "pdf",
+  excel: "xlsx",
+  word: "docx",
+};
+
 interface ExportModule {
   id: string;
   name: string;
@@ -50,6 +57,7 @@ const exportModules: ExportModule[] = [
   { id: "performance", name: "表演指导", icon: <Drama className="h-4 w-4" />, description: "角色表演提示" },
   { id: "production", name: "服化道", icon: <Shirt className="h-4 w-4" />, description: "服装化妆道具提示" },
   { id: "analysis", name: "戏剧分析", icon: <Sparkles className="h-4 w-4" />, description: "戏点和转场设计" },
+  { id: "dood", name: "演员日程表", icon: <CalendarRange className="h-4 w-4" />, description: "Day Out of Days（仅Excel）" },
 ];
 
 export default function ExportPage() {
@@ -72,6 +80,8 @@ export default function ExportPage() {
     enabled: !!currentProject?.id,
   });
 
+  const { isInAnyCallSheet } = useCallSheetScenes(currentProject?.id);
+
   const toggleModule = (moduleId: string) => {
     setSelectedModules((prev) =>
       prev.includes(moduleId)
@@ -106,41 +116,40 @@ export default function ExportPage() {
       sceneIds: string[];
       includeVersions: boolean;
     }) => {
-      const response = await apiRequest<{ success?: boolean; data?: Record<string, unknown>; projectTitle?: string; url?: string }>("POST", "/api/export", data);
-      return response;
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+      const disposition = res.headers.get("content-disposition") || "";
+      const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+      const fileName = encodedName
+        ? decodeURIComponent(encodedName)
+        : `${currentProject?.title || "export"}_${new Date().toISOString().split("T")[0]}.${formatExtensions[data.format]}`;
+      return { blob: await res.blob(), fileName };
     },
-    onSuccess: (response) => {
+    onSuccess: ({ blob, fileName }) => {
       setIsExporting(false);
       setExportProgress(100);
-      
-      if (response?.url) {
-        window.open(response.url, "_blank");
-        toast({
-          title: "导出完成",
-          description: "文件已准备就绪",
-        });
-      } else if (response?.success && response?.data) {
-        const jsonStr = JSON.stringify(response.data, null, 2);
-        const blob = new Blob([jsonStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${response.projectTitle || currentProject?.title || "export"}_${new Date().toISOString().split("T")[0]}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        toast({
-          title: "导出完成",
-          description: "文件已下载到本地",
-        });
-      } else {
-        toast({
-          title: "导出成功",
-          description: "数据已准备完成",
-        });
-      }
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "导出完成",
+        description: `${fileName} 已下载到本地`,
+      });
     },
     onError: (error: Error) => {
       setIsExporting(false);
@@ -320,7 +329,7 @@ export default function ExportPage() {
                             </Badge>
                             <span className="text-sm truncate">{scene.title}</span>
                           </div>
-                          {scene.isInCallSheet && (
+                          {isInAnyCallSheet(scene.id) && (
                             <Badge variant="outline" className="text-xs">通告</Badge>
                           )}
                         </div>
@@ -26,6 +26,7 @@ import {
   BookOpen,
   Brain,
   BarChart3,
+  Pencil,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -54,7 +55,14 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { useCallSheetScenes } from "@/hooks/use-call-sheet-scenes";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAppStore } from "@/lib/store";
 import type { 
@@ -68,8 +76,12 @@ import type {
   EmotionalChainData,
   CharacterPerformanceData,
   CallSheet,
+  CallSheetScene,
+  CallSheetSceneStatus,
 } from "@shared/schema";
+import { callSheetSceneStatuses, callSheetSceneStatusLabels } from "@shared/schema";
 import { CharacterReferences } from "@/components/character-references";
+import { CallSheetEditDialog } from "@/components/call-sheet-editor";
 
 export default function PerformancePage() {
   const { toast } = useToast();
@@ -77,6 +89,7 @@ export default function PerformancePage() {
 
   const [selectedScene, setSelectedScene] = useState<Scene | null>(null);
   const [selectedCallSheetId, setSelectedCallSheetId] = useState<string | null>(null);
+  const [isEditingCallSheet, setIsEditingCallSheet] = useState(false);
   const [isGeneratingGlobal, setIsGeneratingGlobal] = useState(false);
   const [isGeneratingScene, setIsGeneratingScene] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
@@ -102,16 +115,16 @@ export default function PerformancePage() {
     enabled: !!currentProject?.id,
   });
 
-  const filteredScenes = scenes?.filter((scene) => {
-    if (!selectedCallSheetId) return true;
-    const callSheet = callSheets?.find((cs) => cs.id === selectedCallSheetId);
-    if (!callSheet) return true;
-    // 优先使用 sceneIdentifiers 匹配，其次使用 sceneNumbers
-    if (callSheet.sceneIdentifiers && callSheet.sceneIdentifiers.length > 0 && scene.sceneIdentifier) {
-      return callSheet.sceneIdentifiers.includes(scene.sceneIdentifier);
-    }
-    return callSheet.sceneNumbers?.includes(scene.sceneNumber) ?? false;
-  });
+  const { linksFor } = useCallSheetScenes(currentProject?.id);
+  const selectedLinks = selectedCallSheetId ? linksFor(selectedCallSheetId) : [];
+
+  // 选中通告单时按通告单中的顺序列出场次
+  const filteredScenes = selectedCallSheetId && scenes
+    ? selectedLinks.flatMap((link) => {
+        const scene = scenes.find((s) => s.id === link.sceneId);
+        return scene ? [scene] : [];
+      })
+    : scenes;
 
   const groupedCallSheets = useMemo(() => {
     if (!callSheets) return { today: [], tomorrow: [], yesterday: [], upcoming: [], past: [], noDate: [] };
@@ -181,11 +194,23 @@ export default function PerformancePage() {
 
   useEffect(() => {
     if (filteredScenes && filteredScenes.length > 0 && !selectedScene) {
-      const sorted = [...filteredScenes].sort((a, b) => a.sceneNumber - b.sceneNumber);
+      const sorted = selectedCallSheetId ? filteredScenes : [...filteredScenes].sort((a, b) => a.sceneNumber - b.sceneNumber);
       setSelectedScene(sorted[0]);
     }
   }, [filteredScenes, selectedScene]);
 
+  const sceneStatusMutation = useMutation({
+    mutationFn: async ({ linkId, status }: { linkId: string; status: CallSheetSceneStatus }) => {
+      return apiRequest<CallSheetScene>("PATCH", `/api/call-sheet-scenes/${linkId}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject?.id, "call-sheet-scenes"] });
+    },
+    onError: () => {
+      toast({ title: "更新失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
   const generateGlobalMutation = useMutation({
     mutationFn: async (projectId: string) => {
       return apiRequest("POST", "/api/script-analysis-global/generate", { projectId });
@@ -264,7 +289,9 @@ export default function PerformancePage() {
     generateSceneMutation.mutate(selectedScene.id);
   };
 
-  const sortedScenes = filteredScenes ? [...filteredScenes].sort((a, b) => a.sceneNumber - b.sceneNumber) : [];
+  const sortedScenes = !filteredScenes
+    ? []
+    : selectedCallSheetId ? filteredScenes : [...filteredScenes].sort((a, b) => a.sceneNumber - b.sceneNumber);
 
   const hook = sceneGuide?.sceneHook as SceneHookData | null;
   const diagnosis = sceneGuide?.sceneDiagnosis as SceneDiagnosisData | null;
@@ -299,90 +326,111 @@ export default function PerformancePage() {
             </SelectContent>
           </Select>
 
-          <Select 
-            value={selectedCallSheetId || "all"} 
-            onValueChange={(value) => {
-              if (value === "all") {
-                setSelectedCallSheetId(null);
-              } else {
-                setSelectedCallSheetId(value);
-              }
-              setSelectedScene(null);
-            }}
-          >
-            <SelectTrigger data-testid="select-callsheet-performance">
-              <SelectValue placeholder="选择通告单" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">所有场次 (全剧本)</SelectItem>
+          <div className="flex items-center gap-2">
+            <Select 
+              value={selectedCallSheetId || "all"} 
+              onValueChange={(value) => {
+                if (value === "all") {
+                  setSelectedCallSheetId(null);
+                } else {
+                  setSelectedCallSheetId(value);
+                }
+                setSelectedScene(null);
+              }}
+            >
+              <SelectTrigger data-testid="select-callsheet-performance">
+                <SelectValue placeholder="选择通告单" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">所有场次 (全剧本)</SelectItem>
               
-              {groupedCallSheets.today.length > 0 && (
-                <SelectGroup>
-                  <SelectLabel>今天</SelectLabel>
-                  {groupedCallSheets.today.map((cs) => (
-                    <SelectItem key={cs.id} value={cs.id}>
-                      {cs.title} ({cs.sceneNumbers?.length || 0}场)
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              )}
+                {groupedCallSheets.today.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>今天</SelectLabel>
+                    {groupedCallSheets.today.map((cs) => (
+                      <SelectItem key={cs.id} value={cs.id}>
+                        {cs.title} ({cs.sceneNumbers?.length || 0}场)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               
-              {groupedCallSheets.tomorrow.length > 0 && (
-                <SelectGroup>
-                  <SelectLabel>明天</SelectLabel>
-                  {groupedCallSheets.tomorrow.map((cs) => (
-                    <SelectItem key={cs.id} value={cs.id}>
-                      {cs.title} ({cs.sceneNumbers?.length || 0}场)
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              )}
+                {groupedCallSheets.tomorrow.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>明天</SelectLabel>
+                    {groupedCallSheets.tomorrow.map((cs) => (
+                      <SelectItem key={cs.id} value={cs.id}>
+                        {cs.title} ({cs.sceneNumbers?.length || 0}场)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               
-              {groupedCallSheets.yesterday.length > 0 && (
-                <SelectGroup>
-                  <SelectLabel>昨天</SelectLabel>
-                  {groupedCallSheets.yesterday.map((cs) => (
-                    <SelectItem key={cs.id} value={cs.id}>
-                      {cs.title} ({cs.sceneNumbers?.length || 0}场)
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              )}
+                {groupedCallSheets.yesterday.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>昨天</SelectLabel>
+                    {groupedCallSheets.yesterday.map((cs) => (
+                      <SelectItem key={cs.id} value={cs.id}>
+                        {cs.title} ({cs.sceneNumbers?.length || 0}场)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               
-              {groupedCallSheets.upcoming.length > 0 && (
-                <SelectGroup>
-                  <SelectLabel>即将到来</SelectLabel>
-                  {groupedCallSheets.upcoming.map((cs) => (
-                    <SelectItem key={cs.id} value={cs.id}>
-                      {getDateLabel(new Date(cs.shootDate!))} · {cs.title} ({cs.sceneNumbers?.length || 0}场)
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              )}
+                {groupedCallSheets.upcoming.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>即将到来</SelectLabel>
+                    {groupedCallSheets.upcoming.map((cs) => (
+                      <SelectItem key={cs.id} value={cs.id}>
+                        {getDateLabel(new Date(cs.shootDate!))} · {cs.title} ({cs.sceneNumbers?.length || 0}场)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               
-              {groupedCallSheets.past.length > 0 && (
-                <SelectGroup>
-                  <SelectLabel>已过期</SelectLabel>
-                  {groupedCallSheets.past.map((cs) => (
-                    <SelectItem key={cs.id} value={cs.id}>
-                      {getDateLabel(new Date(cs.shootDate!))} · {cs.title} ({cs.sceneNumbers?.length || 0}场)
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              )}
+                {groupedCallSheets.past.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>已过期</SelectLabel>
+                    {groupedCallSheets.past.map((cs) => (
+                      <SelectItem key={cs.id} value={cs.id}>
+                        {getDateLabel(new Date(cs.shootDate!))} · {cs.title} ({cs.sceneNumbers?.length || 0}场)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
               
-              {groupedCallSheets.noDate.length > 0 && (
-                <SelectGroup>
-                  <SelectLabel>未设日期</SelectLabel>
-                  {groupedCallSheets.noDate.map((cs) => (
-                    <SelectItem key={cs.id} value={cs.id}>
-                      {cs.title} ({cs.sceneNumbers?.length || 0}场)
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              )}
-            </SelectContent>
-          </Select>
+                {groupedCallSheets.noDate.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>未设日期</SelectLabel>
+                    {groupedCallSheets.noDate.map((cs) => (
+                      <SelectItem key={cs.id} value={cs.id}>
+                        {cs.title} ({cs.sceneNumbers?.length || 0}场)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            {selectedCallSheetId && (
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={() => setIsEditingCallSheet(true)}
+                data-testid="button-edit-callsheet-performance"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <CallSheetEditDialog
+            callSheet={isEditingCallSheet ? callSheets?.find((cs) => cs.id === selectedCallSheetId) ?? null : null}
+            scenes={scenes || []}
+            onOpenChange={(open) => setIsEditingCallSheet(open)}
+            onDeleted={() => {
+              setSelectedCallSheetId(null);
+              setSelectedScene(null);
+            }}
+          />
         </div>
 
         <ScrollArea className="flex-1">
@@ -401,7 +449,36 @@ export default function PerformancePage() {
                 >
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">第{scene.sceneIdentifier || scene.sceneNumber}场</span>
-                    {scene.id === selectedScene?.id && <ChevronRight className="h-4 w-4" />}
+                    <div className="flex items-center gap-1">
+                      {(() => {
+                        const link = selectedLinks.find((l) => l.sceneId === scene.id);
+                        if (!link) return null;
+                        return (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                              <Badge
+                                variant={link.status === "shot" ? "default" : link.status === "partial" ? "secondary" : "outline"}
+                                className="text-[10px] cursor-pointer"
+                                data-testid={`badge-callsheet-scene-status-${scene.id}`}
+                              >
+                                {callSheetSceneStatusLabels[link.status]}
+                              </Badge>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                              {callSheetSceneStatuses.map((status) => (
+                                <DropdownMenuItem
+                                  key={status}
+                                  onClick={() => sceneStatusMutation.mutate({ linkId: link.id, status })}
+                                >
+                                  {callSheetSceneStatusLabels[status]}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        );
+                      })()}
+                      {scene.id === selectedScene?.id && <ChevronRight className="h-4 w-4" />}
+                    </div>
                   </div>
                   <p className="text-xs text-muted-foreground mt-1 line-clamp-1">
                     {scene.title || scene.location || "未命名"}
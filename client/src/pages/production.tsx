@@ -27,6 +27,7 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useCallSheetScenes } from "@/hooks/use-call-sheet-scenes";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAppStore } from "@/lib/store";
 import type { Project, Scene, Character, ProductionNotes } from "@shared/schema";
@@ -48,6 +49,8 @@ export default function ProductionPage() {
     enabled: !!currentProject?.id,
   });
 
+  const { isInAnyCallSheet } = useCallSheetScenes(currentProject?.id);
+
   const { data: characters } = useQuery<Character[]>({
     queryKey: ["/api/characters", currentProject?.id],
     enabled: !!currentProject?.id,
@@ -166,7 +169,7 @@ export default function ProductionPage() {
                 >
                   <div className="flex items-center justify-between">
                     <span className="font-medium text-sm">场次 {scene.sceneNumber}</span>
-                    {scene.isInCallSheet && (
+                    {isInAnyCallSheet(scene.id) && (
                       <Badge variant="secondary" className="text-xs">通告</Badge>
                     )}
                   </div>
@@ -0,0 +1,606 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import {
+  CalendarDays,
+  CalendarPlus,
+  CalendarRange,
+  GripVertical,
+  Pencil,
+  Trash2,
+  Flag,
+  Wand2,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAppStore } from "@/lib/store";
+import {
+  sceneIntExtLabels,
+  stripColors,
+  stripColorInfo,
+  type Project,
+  type ScheduleBoardStrip,
+  type ScheduleCost,
+  type ScheduleOptimization,
+  type ScheduleStrip,
+  type ShootDay,
+  type ShootingSchedule,
+  type StripColor,
+} from "@shared/schema";
+import { formatPageEighths } from "@shared/page-eighths";
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}分钟`;
+  return rest === 0 ? `${hours}小时` : `${hours}小时${rest}分`;
+}
+
+function formatShootDate(value: string | null): string {
+  if (!value) return "";
+  return new Date(value).toLocaleDateString("zh-CN", { month: "long", day: "numeric", weekday: "short" });
+}
+
+interface StripEditState {
+  strip: ScheduleStrip;
+  label: string;
+  color: StripColor | "auto";
+  shootDate: string;
+  estimatedMinutes: string;
+}
+
+function CostTable({ cost }: { cost: ScheduleCost }) {
+  return (
+    <div className="text-xs space-y-1">
+      {cost.items.filter(item => item.count > 0).map(item => (
+        <div key={item.key}>
+          <div className="flex justify-between gap-2">
+            <span>{item.label}</span>
+            <span className="font-mono text-muted-foreground">{item.count} × {item.weight} = {item.cost}</span>
+          </div>
+          {item.details.length > 0 && (
+            <div className="text-muted-foreground pl-2">{item.details.slice(0, 4).join("；")}{item.details.length > 4 ? ` 等 ${item.details.length} 项` : ""}</div>
+          )}
+        </div>
+      ))}
+      <div className="flex justify-between gap-2 border-t pt-1 font-medium">
+        <span>总成本</span>
+        <span className="font-mono">{cost.total}</span>
+      </div>
+    </div>
+  );
+}
+
+function SceneStripRow({ entry }: { entry: Extract<ScheduleBoardStrip, { kind: "scene" }> }) {
+  const { scene } = entry;
+  const dayNight = scene.dayNight === "day" ? "日" : scene.dayNight === "night" ? "夜" : "";
+  return (
+    <div
+      className={`flex items-center gap-3 px-2 py-1.5 text-sm text-neutral-900 border-b border-neutral-300 ${scene.isOmitted ? "opacity-50 line-through" : ""}`}
+      style={{ backgroundColor: stripColorInfo[scene.color].hex }}
+    >
+      <span className="w-14 font-mono font-semibold">{scene.sceneIdentifier}</span>
+      <span className="w-14 text-xs">{scene.intExt ? sceneIntExtLabels[scene.intExt] : ""}{dayNight && ` · ${dayNight}`}</span>
+      <span className="flex-1 min-w-0 truncate">{scene.location || scene.title}</span>
+      <span className="w-32 truncate text-xs font-mono">{scene.castIds.join(", ")}</span>
+      <span className="w-14 text-right">{formatPageEighths(scene.pageEighths)}</span>
+      <span className="w-20 text-right text-xs">{scene.isOmitted ? "OMITTED" : formatMinutes(scene.estimatedMinutes)}</span>
+    </div>
+  );
+}
+
+function DayBreakRow({ day }: { day: ShootDay | undefined }) {
+  return (
+    <div className="flex items-center gap-3 px-2 py-2 text-sm bg-neutral-900 text-white">
+      <span className="font-semibold">第 {day?.dayNumber ?? "?"} 天结束</span>
+      {day?.shootDate && <span className="text-xs text-neutral-300">{formatShootDate(day.shootDate)}</span>}
+      {day?.notes && <span className="text-xs text-neutral-300 truncate">{day.notes}</span>}
+      <span className="ml-auto text-xs">
+        {day ? `${day.sceneCount} 场 · ${formatPageEighths(day.pageEighths) || "0"} 页 · ${formatMinutes(day.estimatedMinutes)}` : ""}
+      </span>
+    </div>
+  );
+}
+
+function BannerRow({ strip }: { strip: ScheduleStrip }) {
+  return (
+    <div
+      className="px-2 py-1.5 text-sm font-semibold text-center text-neutral-900 border-b border-neutral-300"
+      style={{ backgroundColor: stripColorInfo[strip.color ?? "orange"].hex }}
+    >
+      {strip.label || "标题条"}
+    </div>
+  );
+}
+
+export default function SchedulePage() {
+  const { currentProject, setCurrentProject } = useAppStore();
+  const { toast } = useToast();
+  const [draftOrder, setDraftOrder] = useState<string[] | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<StripEditState | null>(null);
+  const [optimizerOpen, setOptimizerOpen] = useState(false);
+  const [maxPages, setMaxPages] = useState("5");
+  const [optimization, setOptimization] = useState<ScheduleOptimization | null>(null);
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const scheduleKey = ["/api/projects", currentProject?.id, "schedule"];
+  const { data: schedule, isLoading } = useQuery<ShootingSchedule>({
+    queryKey: scheduleKey,
+    enabled: !!currentProject?.id,
+    // Derived from scenes, breakdown and call sheets, which change on other pages
+    refetchOnMount: "always",
+  });
+
+  const stripById = useMemo(
+    () => new Map((schedule?.strips ?? []).map(entry => [entry.strip.id, entry])),
+    [schedule]
+  );
+  const dayByBreakId = useMemo(
+    () => new Map((schedule?.days ?? []).map(day => [day.dayBreakStripId, day])),
+    [schedule]
+  );
+  const board = draftOrder
+    ? draftOrder.flatMap(id => stripById.get(id) ?? [])
+    : schedule?.strips ?? [];
+  const lastDayBreakIndex = board.map(entry => entry.kind).lastIndexOf("day_break");
+
+  const reorderMutation = useMutation({
+    mutationFn: async (stripIds: string[]) => {
+      return apiRequest<ShootingSchedule>("PUT", `/api/projects/${currentProject?.id}/schedule/order`, { stripIds });
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(scheduleKey, result);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject?.id, "dood"] });
+      setDraftOrder(null);
+    },
+    onError: () => {
+      setDraftOrder(null);
+      queryClient.invalidateQueries({ queryKey: scheduleKey });
+      toast({
+        title: "排序保存失败",
+        description: "拍摄计划已在别处修改，已重新加载",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createStripMutation = useMutation({
+    mutationFn: async (data: { kind: "day_break" | "banner"; label?: string; color?: StripColor }) => {
+      // New strips go just below the last shoot day, ready to have scenes dragged above them
+      const lastDayBreak = schedule?.days[schedule.days.length - 1]?.dayBreakStripId ?? null;
+      return apiRequest<ShootingSchedule>("POST", `/api/projects/${currentProject?.id}/schedule/strips`, {
+        ...data,
+        afterStripId: lastDayBreak,
+      });
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(scheduleKey, result);
+    },
+    onError: () => {
+      toast({ title: "添加失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const updateStripMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; label?: string | null; color?: StripColor | null; shootDate?: string | null; estimatedMinutes?: number | null }) => {
+      return apiRequest("PATCH", `/api/schedule-strips/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduleKey });
+      setEditing(null);
+    },
+    onError: () => {
+      toast({ title: "保存失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const deleteStripMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/schedule-strips/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduleKey });
+    },
+    onError: () => {
+      toast({ title: "删除失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const optimizeMutation = useMutation({
+    mutationFn: async () => {
+      const maxPageEighthsPerDay = Math.max(1, Math.round((parseFloat(maxPages) || 5) * 8));
+      return apiRequest<ScheduleOptimization>("POST", `/api/projects/${currentProject?.id}/schedule/optimize`, { maxPageEighthsPerDay });
+    },
+    onSuccess: (result) => {
+      setOptimization(result);
+    },
+    onError: () => {
+      toast({ title: "自动排期失败", description: "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const applyProposalMutation = useMutation({
+    mutationFn: async (days: string[][]) => {
+      return apiRequest<ShootingSchedule>("POST", `/api/projects/${currentProject?.id}/schedule/apply`, { days });
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(scheduleKey, result);
+      setOptimizerOpen(false);
+      setOptimization(null);
+      toast({ title: "已应用排期方案", description: `共 ${result.totals.days} 个拍摄日` });
+    },
+    onError: () => {
+      toast({ title: "应用失败", description: "拍摄计划可能已变化，请重新计算", variant: "destructive" });
+    },
+  });
+
+  const handleDragOver = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) return;
+    const order = draftOrder ?? board.map(entry => entry.strip.id);
+    const from = order.indexOf(draggingId);
+    const to = order.indexOf(targetId);
+    if (from < 0 || to < 0) return;
+    const next = [...order];
+    next.splice(from, 1);
+    next.splice(to, 0, draggingId);
+    setDraftOrder(next);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    if (!draftOrder || !schedule) return;
+    const unchanged = draftOrder.every((id, index) => schedule.strips[index]?.strip.id === id);
+    if (unchanged) {
+      setDraftOrder(null);
+      return;
+    }
+    reorderMutation.mutate(draftOrder);
+  };
+
+  const openEdit = (strip: ScheduleStrip) => {
+    setEditing({
+      strip,
+      label: strip.label ?? "",
+      color: strip.color ?? "auto",
+      shootDate: strip.shootDate ? new Date(strip.shootDate).toISOString().split("T")[0] : "",
+      estimatedMinutes: strip.estimatedMinutes?.toString() ?? "",
+    });
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const { strip } = editing;
+    const minutes = parseInt(editing.estimatedMinutes, 10);
+    updateStripMutation.mutate({
+      id: strip.id,
+      color: editing.color === "auto" ? null : editing.color,
+      ...(strip.kind !== "scene" && { label: editing.label.trim() || null }),
+      ...(strip.kind === "day_break" && { shootDate: editing.shootDate || null }),
+      ...(strip.kind === "scene" && { estimatedMinutes: Number.isNaN(minutes) ? null : minutes }),
+    });
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden h-full">
+      <div className="flex items-center justify-between gap-4 p-4 border-b">
+        <div className="flex items-center gap-3">
+          <CalendarDays className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <h1 className="text-lg font-semibold" data-testid="text-schedule-title">拍摄计划</h1>
+            <p className="text-sm text-muted-foreground">
+              {schedule
+                ? `${schedule.totals.days} 个拍摄日 · ${schedule.totals.scenes} 场 · ${formatPageEighths(schedule.totals.pageEighths) || "0"} 页 · 预计 ${formatMinutes(schedule.totals.estimatedMinutes)}${schedule.totals.unscheduledScenes > 0 ? ` · ${schedule.totals.unscheduledScenes} 场未排期` : ""}`
+                : "拖动场次条排列拍摄顺序，分日条之前的场次为当天拍摄内容"}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={currentProject?.id || ""} onValueChange={(id) => {
+            const project = projects?.find((p) => p.id === id);
+            if (project) setCurrentProject(project);
+          }}>
+            <SelectTrigger className="w-48" data-testid="select-project-schedule">
+              <SelectValue placeholder="选择项目" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects?.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Link href="/schedule/dood">
+            <Button variant="outline" data-testid="button-open-dood">
+              <CalendarRange className="mr-2 h-4 w-4" />
+              演员日程表
+            </Button>
+          </Link>
+          <Button
+            variant="outline"
+            onClick={() => setOptimizerOpen(true)}
+            disabled={!schedule}
+            data-testid="button-optimize-schedule"
+          >
+            <Wand2 className="mr-2 h-4 w-4" />
+            自动排期
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => createStripMutation.mutate({ kind: "banner", label: "新标题条" })}
+            disabled={!schedule || createStripMutation.isPending}
+            data-testid="button-add-banner"
+          >
+            <Flag className="mr-2 h-4 w-4" />
+            添加标题条
+          </Button>
+          <Button
+            onClick={() => createStripMutation.mutate({ kind: "day_break" })}
+            disabled={!schedule || createStripMutation.isPending}
+            data-testid="button-add-shoot-day"
+          >
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            添加拍摄日
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="p-6 space-y-2">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : schedule ? (
+          <div className="p-6 max-w-5xl mx-auto">
+            <div className="flex items-center gap-3 px-2 pb-2 pl-9 text-xs text-muted-foreground">
+              <span className="w-14">场次</span>
+              <span className="w-14">内外/日夜</span>
+              <span className="flex-1">场景</span>
+              <span className="w-32">演员编号</span>
+              <span className="w-14 text-right">页数</span>
+              <span className="w-20 text-right">预计时长</span>
+              <span className="w-16" />
+            </div>
+            <div className="border rounded-md overflow-hidden" data-testid="stripboard">
+              {board.length === 0 && (
+                <div className="py-12 text-center text-sm text-muted-foreground">项目中还没有场次</div>
+              )}
+              {board.map((entry, index) => (
+                <div key={entry.strip.id}>
+                  {index === lastDayBreakIndex + 1 && lastDayBreakIndex >= 0 && (
+                    <div className="px-2 py-1 text-xs font-medium bg-muted text-muted-foreground">未排期</div>
+                  )}
+                  <div
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggingId(entry.strip.id);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      handleDragOver(entry.strip.id);
+                    }}
+                    onDrop={(e) => e.preventDefault()}
+                    onDragEnd={handleDragEnd}
+                    className={`group flex items-stretch ${draggingId === entry.strip.id ? "opacity-40" : ""}`}
+                    data-testid={`strip-${entry.strip.id}`}
+                  >
+                    <div className="flex items-center px-2 cursor-grab text-muted-foreground bg-muted/50">
+                      <GripVertical className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      {entry.kind === "scene" && <SceneStripRow entry={entry} />}
+                      {entry.kind === "day_break" && <DayBreakRow day={dayByBreakId.get(entry.strip.id)} />}
+                      {entry.kind === "banner" && <BannerRow strip={entry.strip} />}
+                    </div>
+                    <div className="flex items-center w-16 justify-end gap-1 px-1 invisible group-hover:visible">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEdit(entry.strip)} data-testid={`button-edit-strip-${entry.strip.id}`}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      {entry.kind !== "scene" && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => deleteStripMutation.mutate(entry.strip.id)}
+                          data-testid={`button-delete-strip-${entry.strip.id}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {schedule.castList.length > 0 && (
+              <div className="mt-4 flex flex-wrap gap-2 text-xs text-muted-foreground">
+                {schedule.castList.map(member => (
+                  <Badge key={member.castId} variant="outline">{member.castId}. {member.name}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <Card className="m-6">
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <CalendarDays className="h-16 w-16 text-muted-foreground/30" />
+              <h3 className="mt-4 text-lg font-medium">请先选择项目</h3>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={optimizerOpen} onOpenChange={setOptimizerOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>自动排期</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            按场景和演员集中排列全部场次，日戏与夜戏分开拍摄，尽量减少转场和演员等待日。应用方案会重排整个拍摄计划，多余的拍摄日将被删除。
+          </p>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label>每日页数上限</Label>
+              <Input
+                type="number"
+                min={0.125}
+                step={0.125}
+                value={maxPages}
+                onChange={(e) => setMaxPages(e.target.value)}
+                className="w-32"
+                data-testid="input-max-pages-per-day"
+              />
+            </div>
+            <Button onClick={() => optimizeMutation.mutate()} disabled={optimizeMutation.isPending} data-testid="button-run-optimizer">
+              {optimizeMutation.isPending ? "计算中..." : "生成方案"}
+            </Button>
+          </div>
+
+          {optimization && (
+            <div className="space-y-4">
+              {optimization.current && (
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="text-sm font-medium mb-2">当前计划</div>
+                    <CostTable cost={optimization.current} />
+                  </CardContent>
+                </Card>
+              )}
+              {optimization.proposals.map(proposal => (
+                <Card key={proposal.strategy} data-testid={`proposal-${proposal.strategy}`}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-sm font-medium">
+                        {proposal.label}
+                        <span className="ml-2 text-muted-foreground font-normal">{proposal.days.length} 个拍摄日</span>
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={() => applyProposalMutation.mutate(proposal.days.map(day => day.sceneIds))}
+                        disabled={applyProposalMutation.isPending}
+                        data-testid={`button-apply-proposal-${proposal.strategy}`}
+                      >
+                        应用此方案
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="text-xs space-y-1">
+                        {proposal.days.map(day => (
+                          <div key={day.dayNumber} className="flex gap-2">
+                            <span className="w-12 shrink-0 font-medium">第{day.dayNumber}天</span>
+                            <span className="w-4 shrink-0">{day.dayNight === "night" ? "夜" : day.dayNight === "day" ? "日" : ""}</span>
+                            <span className="flex-1 min-w-0">
+                              {day.sceneIdentifiers.join(", ")}
+                              <span className="text-muted-foreground"> · {day.locations.join(" → ")}</span>
+                            </span>
+                            <span className="shrink-0 text-muted-foreground">{formatPageEighths(day.pageEighths)} 页</span>
+                          </div>
+                        ))}
+                      </div>
+                      <CostTable cost={proposal.cost} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.strip.kind === "day_break" ? "编辑拍摄日" : editing?.strip.kind === "banner" ? "编辑标题条" : "编辑场次条"}
+            </DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              {editing.strip.kind === "day_break" && (
+                <div className="space-y-2">
+                  <Label>拍摄日期</Label>
+                  <Input
+                    type="date"
+                    value={editing.shootDate}
+                    onChange={(e) => setEditing({ ...editing, shootDate: e.target.value })}
+                    data-testid="input-strip-shoot-date"
+                  />
+                </div>
+              )}
+              {editing.strip.kind !== "scene" && (
+                <div className="space-y-2">
+                  <Label>{editing.strip.kind === "day_break" ? "备注" : "标题"}</Label>
+                  <Input
+                    value={editing.label}
+                    onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                    data-testid="input-strip-label"
+                  />
+                </div>
+              )}
+              {editing.strip.kind === "scene" && (
+                <div className="space-y-2">
+                  <Label>预计拍摄时长（分钟，留空按页数估算）</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={editing.estimatedMinutes}
+                    onChange={(e) => setEditing({ ...editing, estimatedMinutes: e.target.value })}
+                    data-testid="input-strip-minutes"
+                  />
+                </div>
+              )}
+              {editing.strip.kind !== "day_break" && (
+                <div className="space-y-2">
+                  <Label>颜色</Label>
+                  <Select value={editing.color} onValueChange={(value) => setEditing({ ...editing, color: value as StripColor | "auto" })}>
+                    <SelectTrigger data-testid="select-strip-color">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">{editing.strip.kind === "scene" ? "按内外景/日夜" : "默认"}</SelectItem>
+                      {stripColors.map(color => (
+                        <SelectItem key={color} value={color}>{stripColorInfo[color].nameCN}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>取消</Button>
+            <Button onClick={saveEdit} disabled={updateStripMutation.isPending} data-testid="button-save-strip">保存</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,6 +6,14 @@ import {
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLocation } from "wouter";
+import { formatPageEighths } from "@shared/page-eighths";
+
+interface ProjectAnalysis {
+  characterDialogue: { name: string; count: number }[];
+  sceneDurations: { sceneNumber: number; duration: number }[];
+  scenePages: { sceneNumber: number; sceneIdentifier: string; pageEighths: number }[];
+  totalPageEighths: number;
+}
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
 
@@ -13,7 +21,7 @@ export default function ScriptAnalysis({ params }: { params: { id: string } }) {
   const projectId = params.id;
   const [, setLocation] = useLocation();
 
-  const { data: analysis, isLoading } = useQuery({
+  const { data: analysis, isLoading } = useQuery<ProjectAnalysis>({
     queryKey: ["/api/projects", projectId, "analysis"],
     enabled: !!projectId,
   });
@@ -43,6 +51,7 @@ export default function ScriptAnalysis({ params }: { params: { id: string } }) {
             <h1 className="text-3xl font-bold tracking-tight">剧本数据分析</h1>
             <p className="text-muted-foreground">
               {project?.title || "项目"} 的可视化数据报告
+              {!!analysis?.totalPageEighths && `，全剧约 ${formatPageEighths(analysis.totalPageEighths)} 页`}
             </p>
           </div>
         </div>
@@ -54,7 +63,7 @@ export default function ScriptAnalysis({ params }: { params: { id: string } }) {
               <CardDescription>各主要角色在剧本中的对白出现次数占比</CardDescription>
             </CardHeader>
             <CardContent className="h-[400px]">
-              {analysis?.characterDialogue?.length > 0 ? (
+              {analysis && analysis.characterDialogue.length > 0 ? (
                 <ResponsiveContainer width="100%" height="100%">
                   <PieChart>
                     <Pie
@@ -94,7 +103,7 @@ export default function ScriptAnalysis({ params }: { params: { id: string } }) {
               <CardDescription>各场次预计拍摄时长（基于动作与对白量估算）</CardDescription>
             </CardHeader>
             <CardContent className="h-[400px]">
-              {analysis?.sceneDurations?.length > 0 ? (
+              {analysis && analysis.sceneDurations.length > 0 ? (
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart data={analysis.sceneDurations} margin={ { top: 20, right: 30, left: 20, bottom: 20 } }>
                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
@@ -122,6 +131,43 @@ export default function ScriptAnalysis({ params }: { params: { id: string } }) {
               )}
             </CardContent>
           </Card>
+
+          <Card className="hover-elevate md:col-span-2">
+            <CardHeader>
+              <CardTitle>场次页数</CardTitle>
+              <CardDescription>按标准剧本格式排版后的场次长度，以 1/8 页为单位，用于排期</CardDescription>
+            </CardHeader>
+            <CardContent className="h-[400px]">
+              {analysis && analysis.scenePages.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analysis.scenePages} margin={ { top: 20, right: 30, left: 20, bottom: 20 } }>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                    <XAxis 
+                      dataKey="sceneIdentifier" 
+                      label={ { value: '场次', position: 'insideBottom', offset: -10 } }
+                      stroke="hsl(var(--muted-foreground))"
+                    />
+                    <YAxis 
+                      allowDecimals={false}
+                      label={ { value: '1/8 页', angle: -90, position: 'insideLeft', offset: 10 } }
+                      stroke="hsl(var(--muted-foreground))"
+                    />
+                    <Tooltip 
+                      cursor={ { fill: 'hsl(var(--muted)/0.2)' } }
+                      contentStyle={ { backgroundColor: 'hsl(var(--card))', borderColor: 'hsl(var(--border))', borderRadius: '8px' } }
+                      formatter={(value: number) => [`${formatPageEighths(value)} 页`, "页数"]}
+                    />
+                    <Bar dataKey="pageEighths" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} name="页数" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex flex-col items-center justify-center h-full text-muted-foreground border-2 border-dashed rounded-lg">
+                  <p>暂无场景数据</p>
+                  <p className="text-xs">请先生成或解析剧本场次</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -17,6 +17,11 @@ import {
   File,
   ClipboardList,
   ArrowRight,
+  Download,
+  GitCompare,
+  Lock,
+  Unlock,
+  Pencil,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -36,10 +41,11 @@ import { Progress } from "@/components/ui/progress";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useCallSheetScenes } from "@/hooks/use-call-sheet-scenes";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAppStore } from "@/lib/store";
 import type { Project, Script, Scene, ProjectType, CallSheet, ScriptVersion } from "@shared/schema";
-import { projectTypes, projectTypeInfo } from "@shared/schema";
+import { projectTypes, projectTypeInfo, revisionColorInfo } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import {
   Dialog,
@@ -49,7 +55,17 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScriptDiffDialog } from "@/components/script-diff-viewer";
+import { CallSheetGeneratorCard, downloadCallSheetPdf } from "@/components/call-sheet-generator";
+import { CallSheetEditDialog, callSheetRevisionLabel } from "@/components/call-sheet-editor";
 import { format } from "date-fns";
+import { formatPageEighths } from "@shared/page-eighths";
 
 export default function ScriptEditorPage() {
   const [location] = useLocation();
@@ -71,10 +87,13 @@ export default function ScriptEditorPage() {
   const [callSheetText, setCallSheetText] = useState("");
   const [callSheetInputMode, setCallSheetInputMode] = useState<"upload" | "manual">("upload");
   const [isUploadingCallSheet, setIsUploadingCallSheet] = useState(false);
+  const [editingCallSheet, setEditingCallSheet] = useState<CallSheet | null>(null);
   const [, setLocation] = useLocation();
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<ScriptVersion | null>(null);
   const [confirmRestore, setConfirmRestore] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [diffFromVersionId, setDiffFromVersionId] = useState<string | undefined>(undefined);
 
   const projectId = new URLSearchParams(location.split("?")[1] || "").get("project");
 
@@ -92,6 +111,8 @@ export default function ScriptEditorPage() {
     enabled: !!currentProject?.id,
   });
 
+  const { isInAnyCallSheet } = useCallSheetScenes(currentProject?.id);
+
   const { data: callSheets } = useQuery<CallSheet[]>({
     queryKey: ["/api/call-sheets", currentProject?.id],
     enabled: !!currentProject?.id,
@@ -156,6 +177,30 @@ export default function ScriptEditorPage() {
     },
   });
 
+  const toggleLockMutation = useMutation({
+    mutationFn: async (lock: boolean) => {
+      if (!currentScript) return;
+      return apiRequest("POST", `/api/scripts/${currentScript.id}/${lock ? "lock" : "unlock"}`, {});
+    },
+    onSuccess: (_, lock) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scenes"] });
+      toast({
+        title: lock ? "剧本已锁定" : "剧本已解锁",
+        description: lock
+          ? "场次编号已冻结，后续修订将按颜色记录，新增场次自动添加 A/B 后缀"
+          : "场次编号不再冻结",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "操作失败",
+        description: "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleCallSheetUpload = async () => {
     if (!currentProject?.id || !callSheetTitle.trim()) {
       toast({
@@ -182,6 +227,7 @@ export default function ScriptEditorPage() {
         if (!response.ok) throw new Error("Upload failed");
         
         queryClient.invalidateQueries({ queryKey: ["/api/call-sheets"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject.id, "call-sheet-scenes"] });
         toast({
           title: "通告单上传成功",
           description: "已自动提取场次信息",
@@ -194,6 +240,7 @@ export default function ScriptEditorPage() {
         });
         
         queryClient.invalidateQueries({ queryKey: ["/api/call-sheets"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject.id, "call-sheet-scenes"] });
         toast({
           title: "通告单创建成功",
           description: "已自动提取场次信息",
@@ -309,11 +356,20 @@ export default function ScriptEditorPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/scenes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/characters"] });
 
-      toast({
-        title: "上传成功",
-        description: `剧本 "${result.fileName}" 已成功上传`,
-      });
+      if (result.locked) {
+        const colorName = result.revisionColor ? revisionColorInfo[result.revisionColor as keyof typeof revisionColorInfo].nameCN : "";
+        toast({
+          title: `${colorName}修订已导入`,
+          description: `${result.changedScenes?.length || 0} 个场次改动，新增 ${result.extractedScenes} 场，删除 ${result.omittedScenes?.length || 0} 场（编号保持不变）`,
+        });
+      } else {
+        toast({
+          title: "上传成功",
+          description: `剧本 "${result.fileName}" 已成功上传`,
+        });
+      }
 
       setUploadFile(null);
       setActiveTab("script");
@@ -375,6 +431,24 @@ export default function ScriptEditorPage() {
     });
   };
 
+  const handleExportScript = (exportFormat: "fountain" | "fdx") => {
+    if (!currentProject?.id) {
+      toast({
+        title: "请先选择项目",
+        description: "需要选择一个项目来导出剧本",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const a = document.createElement("a");
+    a.href = `/api/projects/${currentProject.id}/script/export?format=${exportFormat}`;
+    a.download = "";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   return (
     <div className="flex-1 flex overflow-hidden">
       <div className="flex-1 flex flex-col overflow-hidden">
@@ -404,10 +478,46 @@ export default function ScriptEditorPage() {
                 ))}
               </SelectContent>
             </Select>
+            {currentScript?.isLocked && currentScript.revisionColor && (
+              <Badge variant="outline" className="gap-1.5" data-testid="badge-revision-color">
+                <span
+                  className="h-3 w-3 rounded-full border"
+                  style={{ backgroundColor: revisionColorInfo[currentScript.revisionColor].hex }}
+                />
+                {revisionColorInfo[currentScript.revisionColor].nameCN}修订
+              </Badge>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => toggleLockMutation.mutate(!currentScript?.isLocked)}
+              disabled={!currentScript || toggleLockMutation.isPending}
+              data-testid="button-toggle-lock"
+            >
+              {currentScript?.isLocked ? <Unlock className="mr-2 h-4 w-4" /> : <Lock className="mr-2 h-4 w-4" />}
+              {currentScript?.isLocked ? "解锁" : "锁定剧本"}
+            </Button>
             <Button variant="outline" onClick={handleSave} disabled={saveScriptMutation.isPending} data-testid="button-save-script">
               <Save className="mr-2 h-4 w-4" />
               保存
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={!scripts?.some((s) => s.isActive)} data-testid="button-export-script">
+                  <Download className="mr-2 h-4 w-4" />
+                  导出
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExportScript("fountain")} data-testid="menu-export-fountain">
+                  <FileText className="mr-2 h-4 w-4" />
+                  Fountain (.fountain)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExportScript("fdx")} data-testid="menu-export-fdx">
+                  <File className="mr-2 h-4 w-4" />
+                  Final Draft (.fdx)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
 
@@ -567,7 +677,7 @@ export default function ScriptEditorPage() {
                         上传剧本文件
                       </CardTitle>
                       <CardDescription>
-                        上传已有的剧本文件，支持 .txt、.md、.fountain、.docx、.pdf 格式
+                        上传已有的剧本文件，支持 .txt、.md、.fountain、.fdx、.docx、.pdf 格式
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-6">
@@ -591,7 +701,7 @@ export default function ScriptEditorPage() {
                         <input
                           id="file-upload"
                           type="file"
-                          accept=".txt,.md,.fountain,.docx,.pdf"
+                          accept=".txt,.md,.fountain,.fdx,.docx,.pdf"
                           className="hidden"
                           onChange={(e) => {
                             const files = e.target.files;
@@ -625,7 +735,7 @@ export default function ScriptEditorPage() {
                             <Upload className="h-12 w-12 mx-auto text-muted-foreground" />
                             <p className="font-medium">点击选择或拖拽文件到此处</p>
                             <p className="text-sm text-muted-foreground">
-                              支持 .txt、.md、.fountain、.docx、.pdf 格式，最大 10MB
+                              支持 .txt、.md、.fountain、.fdx、.docx、.pdf 格式，最大 10MB
                             </p>
                           </div>
                         )}
@@ -743,6 +853,10 @@ export default function ScriptEditorPage() {
 
               <TabsContent value="callsheet" className="flex-1 overflow-auto p-4 mt-0">
                 <div className="max-w-3xl mx-auto space-y-6">
+                  {currentProject && (
+                    <CallSheetGeneratorCard projectId={currentProject.id} scenes={scenes || []} />
+                  )}
+
                   <Card>
                     <CardHeader>
                       <CardTitle className="flex items-center gap-2">
@@ -794,7 +908,7 @@ export default function ScriptEditorPage() {
                             id="callsheet-file-input"
                             type="file"
                             className="hidden"
-                            accept=".txt,.docx,.pdf"
+                            accept=".txt,.docx,.xlsx,.xls,.pdf"
                             onChange={(e) => setCallSheetFile(e.target.files?.[0] || null)}
                           />
                           {callSheetFile ? (
@@ -810,7 +924,7 @@ export default function ScriptEditorPage() {
                               <Upload className="h-12 w-12 mx-auto text-muted-foreground" />
                               <p className="font-medium">点击选择通告单文件</p>
                               <p className="text-sm text-muted-foreground">
-                                支持 .txt、.docx、.pdf 格式，最大 5MB
+                                支持 .txt、.docx、.xlsx、.pdf 格式，最大 5MB；Word/Excel 表格按列读取场次、演员和通告时间
                               </p>
                             </div>
                           )}
@@ -846,6 +960,12 @@ export default function ScriptEditorPage() {
                     </CardContent>
                   </Card>
 
+                  <CallSheetEditDialog
+                    callSheet={editingCallSheet}
+                    scenes={scenes || []}
+                    onOpenChange={(open) => !open && setEditingCallSheet(null)}
+                  />
+
                   {callSheets && callSheets.length > 0 && (
                     <Card>
                       <CardHeader>
@@ -861,15 +981,44 @@ export default function ScriptEditorPage() {
                             >
                               <div>
                                 <p className="font-medium">{sheet.title}</p>
+                                {sheet.shootDate && (
+                                  <p className="text-xs text-muted-foreground">
+                                    拍摄日期: {format(new Date(sheet.shootDate), "yyyy-MM-dd")}
+                                  </p>
+                                )}
                                 {sheet.sceneNumbers && sheet.sceneNumbers.length > 0 && (
                                   <p className="text-xs text-muted-foreground">
-                                    场次: {sheet.sceneNumbers.join(", ")}
+                                    场次: {sheet.sceneIdentifiers && sheet.sceneIdentifiers.length > 0 ? sheet.sceneIdentifiers.join(", ") : sheet.sceneNumbers.join(", ")}
                                   </p>
                                 )}
                               </div>
-                              <Badge variant="secondary">
-                                {sheet.sceneNumbers?.length || 0} 场
-                              </Badge>
+                              <div className="flex items-center gap-2">
+                                {sheet.details && (
+                                  <Badge variant="outline">{sheet.fileMetadata ? "表格导入" : "已生成"}</Badge>
+                                )}
+                                {sheet.revision > 0 && (
+                                  <Badge variant="outline">{callSheetRevisionLabel(sheet.revision)}</Badge>
+                                )}
+                                <Badge variant="secondary">
+                                  {sheet.sceneNumbers?.length || 0} 场
+                                </Badge>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => downloadCallSheetPdf(sheet)}
+                                  data-testid={`button-callsheet-pdf-${sheet.id}`}
+                                >
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => setEditingCallSheet(sheet)}
+                                  data-testid={`button-callsheet-edit-${sheet.id}`}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -895,7 +1044,14 @@ export default function ScriptEditorPage() {
               )}
 
               <div>
-                <h3 className="font-medium mb-3">场次列表</h3>
+                <h3 className="font-medium mb-3 flex items-center justify-between">
+                  场次列表
+                  {scenes && scenes.length > 0 && (
+                    <span className="text-xs font-normal text-muted-foreground" data-testid="text-total-pages">
+                      共 {formatPageEighths(scenes.filter(s => !s.isOmitted).reduce((sum, s) => sum + (s.pageEighths || 0), 0)) || 0} 页
+                    </span>
+                  )}
+                </h3>
                 {scenes && scenes.length > 0 ? (
                   <ScrollArea className="h-[400px]">
                     <div className="space-y-2">
@@ -906,14 +1062,25 @@ export default function ScriptEditorPage() {
                           data-testid={`scene-${scene.id}`}
                         >
                           <div className="flex items-center justify-between">
-                            <span className="font-medium text-sm">场次 {scene.sceneNumber}</span>
-                            {scene.isInCallSheet && (
+                            <span className={`font-medium text-sm ${scene.isOmitted ? "line-through text-muted-foreground" : ""}`}>
+                              场次 {scene.sceneIdentifier || scene.sceneNumber}
+                            </span>
+                            {scene.isOmitted ? (
+                              <Badge variant="outline" className="text-xs">已删除</Badge>
+                            ) : isInAnyCallSheet(scene.id) && (
                               <Badge variant="secondary" className="text-xs">通告</Badge>
                             )}
                           </div>
-                          <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                            {scene.title}
-                          </p>
+                          <div className="flex items-start justify-between gap-2 mt-1">
+                            <p className="text-xs text-muted-foreground line-clamp-2">
+                              {scene.title}
+                            </p>
+                            {!scene.isOmitted && scene.pageEighths && (
+                              <span className="text-xs text-muted-foreground shrink-0" data-testid={`text-page-eighths-${scene.id}`}>
+                                {formatPageEighths(scene.pageEighths)} 页
+                              </span>
+                            )}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -965,6 +1132,21 @@ export default function ScriptEditorPage() {
                       )}
                       保存当前版本
                     </Button>
+                    {scriptVersions && scriptVersions.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => {
+                          setDiffFromVersionId(undefined);
+                          setShowDiff(true);
+                        }}
+                        data-testid="button-compare-versions"
+                      >
+                        <GitCompare className="mr-2 h-3 w-3" />
+                        版本对比
+                      </Button>
+                    )}
                     
                     {scriptVersions && scriptVersions.length > 0 ? (
                       <ScrollArea className="h-48">
@@ -980,18 +1162,48 @@ export default function ScriptEditorPage() {
                               data-testid={`version-${version.id}`}
                             >
                               <div className="flex items-center justify-between">
-                                <Badge variant="secondary" className="text-xs">
-                                  v{version.version}
-                                </Badge>
-                                <span className="text-xs text-muted-foreground">
-                                  {format(new Date(version.createdAt), "MM/dd HH:mm")}
-                                </span>
+                                <div className="flex items-center gap-1">
+                                  <Badge variant="secondary" className="text-xs">
+                                    v{version.version}
+                                  </Badge>
+                                  {version.revisionColor && (
+                                    <span
+                                      className="h-3 w-3 rounded-full border"
+                                      title={`${revisionColorInfo[version.revisionColor].nameCN}修订`}
+                                      style={{ backgroundColor: revisionColorInfo[version.revisionColor].hex }}
+                                    />
+                                  )}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <span className="text-xs text-muted-foreground">
+                                    {format(new Date(version.createdAt), "MM/dd HH:mm")}
+                                  </span>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    title="与当前版本对比"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setDiffFromVersionId(version.id);
+                                      setShowDiff(true);
+                                    }}
+                                    data-testid={`button-diff-version-${version.id}`}
+                                  >
+                                    <GitCompare className="h-3 w-3" />
+                                  </Button>
+                                </div>
                               </div>
                               {version.changeDescription && (
                                 <p className="text-xs text-muted-foreground mt-1 line-clamp-1">
                                   {version.changeDescription}
                                 </p>
                               )}
+                              {version.changedScenes && version.changedScenes.length > 0 && (
+                                <p className="text-xs text-muted-foreground mt-1 line-clamp-1">
+                                  改动场次：{version.changedScenes.join("、")}
+                                </p>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -1013,6 +1225,21 @@ export default function ScriptEditorPage() {
         </div>
       </div>
 
+      <ScriptDiffDialog
+        scriptId={currentScript?.id}
+        versions={scriptVersions || []}
+        open={showDiff}
+        onOpenChange={setShowDiff}
+        initialFrom={diffFromVersionId}
+        onRestore={(versionId) => {
+          const version = scriptVersions?.find(v => v.id === versionId);
+          if (!version) return;
+          setShowDiff(false);
+          setSelectedVersion(version);
+          setConfirmRestore(true);
+        }}
+      />
+
       <Dialog open={confirmRestore} onOpenChange={setConfirmRestore}>
         <DialogContent>
           <DialogHeader>
@@ -14,6 +14,7 @@ import {
   Camera,
   Move,
   Eye,
+  Layers,
   Sparkles,
   Check,
   FileText,
@@ -22,6 +23,7 @@ import {
   Video,
   Play,
   CalendarIcon,
+  AlertTriangle,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -55,9 +57,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { useToast } from "@/hooks/use-toast";
+import { useCallSheetScenes } from "@/hooks/use-call-sheet-scenes";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAppStore } from "@/lib/store";
-import type { Project, Scene, Shot, DirectorStyle, VisualStyle, ShotType, CameraAngle, CameraMovement, AspectRatio, ShotVersion, CallSheet, VideoModel, ImageProvider } from "@shared/schema";
+import type { Project, Scene, Shot, DirectorStyle, VisualStyle, ShotType, CameraAngle, CameraMovement, AspectRatio, ShotVersion, CallSheet, VideoModel, ImageProvider, GeneratedShots, ShotFieldNormalization, ShotImageCandidate } from "@shared/schema";
 import {
   directorStyles,
   directorStyleInfo,
@@ -75,11 +78,25 @@ import {
   imageProviders,
   imageProviderInfo,
 } from "@shared/schema";
+import { checkShotCoverage, type ShotCheckWarning } from "@shared/shot-coverage";
+import { assetThumbnailUrl } from "@shared/asset-url";
 import { Input } from "@/components/ui/input";
+import { ShotImageCandidatesDialog } from "@/components/shot-image-candidates";
+import { ShotImageEditorDialog } from "@/components/shot-image-editor";
 import { format, isToday, isTomorrow, isYesterday, startOfDay } from "date-fns";
 import { zhCN } from "date-fns/locale";
 import { History, Save, ImagePlus, Loader2 } from "lucide-react";
 
+// "镜头3 景别：medium shot → 中景", or "未识别，已留空" when nothing matched
+function describeNormalization(change: ShotFieldNormalization): string {
+  const [label, name] = change.field === "shotType"
+    ? ["景别", change.value && shotTypeInfo[change.value as ShotType]?.nameCN]
+    : change.field === "cameraAngle"
+      ? ["角度", change.value && cameraAngleInfo[change.value as CameraAngle]?.nameCN]
+      : ["运动", change.value && cameraMovementInfo[change.value as CameraMovement]?.nameCN];
+  return `镜头${change.shotNumber} ${label}：${change.original} → ${name || "未识别，已留空"}`;
+}
+
 export default function StoryboardPage() {
   const { toast } = useToast();
   const { currentProject, setCurrentProject } = useAppStore();
@@ -122,6 +139,8 @@ export default function StoryboardPage() {
   } | null>(null);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [generatingImageId, setGeneratingImageId] = useState<string | null>(null);
+  const [candidatesShotId, setCandidatesShotId] = useState<string | null>(null);
+  const [imageEditShotId, setImageEditShotId] = useState<string | null>(null);
   const [isGeneratingAllImages, setIsGeneratingAllImages] = useState(false);
   const [imageGenProgress, setImageGenProgress] = useState(0);
   const [storyboardViewType, setStoryboardViewType] = useState<"image" | "text" | "video">("image");
@@ -141,6 +160,8 @@ export default function StoryboardPage() {
     enabled: !!currentProject?.id,
   });
 
+  const { isInAnyCallSheet, linksFor } = useCallSheetScenes(currentProject?.id);
+
   const { data: shots, isLoading: shotsLoading } = useQuery<Shot[]>({
     queryKey: ["/api/shots", selectedScene?.id, selectedDirectorStyle],
     queryFn: async () => {
@@ -156,6 +177,28 @@ export default function StoryboardPage() {
     enabled: !!selectedScene?.id,
   });
 
+  // Coverage and continuity warnings for the loaded shots, recomputed as shots are edited
+  const coverage = useMemo(() => {
+    if (!selectedScene || !shots || shots.length === 0) return null;
+    const report = checkShotCoverage(selectedScene, shots);
+    const byShot = new Map<string, ShotCheckWarning[]>();
+    report.warnings.forEach(warning => {
+      if (warning.shotId) byShot.set(warning.shotId, [...(byShot.get(warning.shotId) ?? []), warning]);
+    });
+    return { ...report, sceneWarnings: report.warnings.filter(warning => !warning.shotId), byShot };
+  }, [selectedScene, shots]);
+
+  const { data: sceneImageCandidates } = useQuery<ShotImageCandidate[]>({
+    queryKey: [`/api/scenes/${selectedScene?.id}/shot-image-candidates`],
+    enabled: !!selectedScene?.id,
+  });
+
+  const candidateCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    sceneImageCandidates?.forEach(candidate => counts.set(candidate.shotId, (counts.get(candidate.shotId) ?? 0) + 1));
+    return counts;
+  }, [sceneImageCandidates]);
+
   // Check if any shots are currently generating videos - poll main query for updates
   const hasGeneratingVideos = shots?.some(s => s.videoStatus === "generating");
   
@@ -219,16 +262,13 @@ export default function StoryboardPage() {
     return format(date, "M月d日", { locale: zhCN });
   };
 
-  const filteredScenes = scenes?.filter((scene) => {
-    if (!selectedCallSheetId) return true;
-    const callSheet = callSheets?.find((cs) => cs.id === selectedCallSheetId);
-    if (!callSheet) return true;
-    // 优先使用 sceneIdentifiers 匹配，其次使用 sceneNumbers
-    if (callSheet.sceneIdentifiers && callSheet.sceneIdentifiers.length > 0 && scene.sceneIdentifier) {
-      return callSheet.sceneIdentifiers.includes(scene.sceneIdentifier);
-    }
-    return callSheet.sceneNumbers?.includes(scene.sceneNumber) ?? false;
-  });
+  // 选中通告单时按通告单中的顺序列出场次
+  const filteredScenes = selectedCallSheetId && scenes
+    ? linksFor(selectedCallSheetId).flatMap((link) => {
+        const scene = scenes.find((s) => s.id === link.sceneId);
+        return scene ? [scene] : [];
+      })
+    : scenes;
 
   useEffect(() => {
     if (scenes && scenes.length > 0) {
@@ -251,15 +291,17 @@ export default function StoryboardPage() {
       aspectRatio: string;
       customAspectRatio?: string;
     }) => {
-      return apiRequest("POST", "/api/shots/generate", data);
+      return apiRequest<GeneratedShots>("POST", "/api/shots/generate", data);
     },
-    onSuccess: () => {
+    onSuccess: ({ normalizations }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/shots"] });
       setIsGenerating(false);
       setGenerationProgress(100);
       toast({
         title: "分镜生成完成",
-        description: "AI已为您生成分镜，点击可编辑调整",
+        description: normalizations.length > 0
+          ? `已规范化 ${normalizations.length} 个镜头参数：${normalizations.slice(0, 3).map(describeNormalization).join("；")}${normalizations.length > 3 ? " 等" : ""}`
+          : "AI已为您生成分镜，点击可编辑调整",
       });
     },
     onError: () => {
@@ -303,6 +345,7 @@ export default function StoryboardPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/shots"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/scenes/${selectedScene?.id}/shot-image-candidates`] });
       setGeneratingImageId(null);
       toast({
         title: "图片生成完成",
@@ -364,12 +407,14 @@ export default function StoryboardPage() {
             setImageGenProgress(data.progress);
             setImageGenProgressMessage(data.message);
             queryClient.invalidateQueries({ queryKey: ["/api/shots"] });
+            queryClient.invalidateQueries({ queryKey: [`/api/scenes/${selectedScene?.id}/shot-image-candidates`] });
             break;
           case "done":
             setImageGenProgress(100);
             setImageGenProgressMessage(data.message);
             setIsGeneratingAllImages(false);
             queryClient.invalidateQueries({ queryKey: ["/api/shots"] });
+            queryClient.invalidateQueries({ queryKey: [`/api/scenes/${selectedScene?.id}/shot-image-candidates`] });
             toast({
               title: "批量图片生成完成",
               description: `成功生成 ${data.totalGenerated}/${data.total} 张图片`,
@@ -596,6 +641,7 @@ export default function StoryboardPage() {
         // Invalidate queries to refresh the scene list
         await queryClient.invalidateQueries({ queryKey: ["/api/scenes", currentProject.id] });
         await queryClient.invalidateQueries({ queryKey: ["/api/call-sheets", currentProject.id] });
+        await queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject.id, "call-sheet-scenes"] });
       }
 
       toast({
@@ -693,6 +739,7 @@ export default function StoryboardPage() {
             onClick={() => {
               queryClient.invalidateQueries({ queryKey: ["/api/scenes", currentProject?.id] });
               queryClient.invalidateQueries({ queryKey: ["/api/call-sheets", currentProject?.id] });
+              queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject?.id, "call-sheet-scenes"] });
               toast({
                 title: "已刷新",
                 description: "场次列表已更新",
@@ -878,7 +925,7 @@ export default function StoryboardPage() {
                     selectedScene?.id === scene.id
                       ? "border-primary bg-primary/5"
                       : "hover-elevate"
-                  } ${scene.isInCallSheet ? "border-primary ring-1 ring-primary" : ""}`}
+                  } ${isInAnyCallSheet(scene.id) ? "border-primary ring-1 ring-primary" : ""}`}
                   data-testid={`scene-item-${scene.id}`}
                 >
                   <div className="flex items-center justify-between gap-2">
@@ -886,10 +933,10 @@ export default function StoryboardPage() {
                       {(scene as any).sceneIdentifier || `场次 ${scene.sceneNumber}`}
                     </span>
                     <div className="flex items-center gap-1">
-                      {scene.isInCallSheet && (
+                      {isInAnyCallSheet(scene.id) && (
                         <Badge variant="outline" className="text-[10px]">通告单</Badge>
                       )}
-                      {scene.isInCallSheet && !scene.description && !scene.dialogue && !scene.action && (
+                      {isInAnyCallSheet(scene.id) && !scene.description && !scene.dialogue && !scene.action && (
                         <Badge variant="default" className="text-xs bg-yellow-500 hover:bg-yellow-600 text-white border-none shadow-sm transition-all">识别中</Badge>
                       )}
                       <Button
@@ -1166,6 +1213,7 @@ export default function StoryboardPage() {
                   <div className="flex items-center gap-3">
                     <div className="text-sm text-muted-foreground">
                       共 {shots.length} 个镜头
+                      {coverage && ` · 总时长 ${coverage.totalSeconds} 秒 / 预估 ${coverage.estimatedSeconds} 秒`}
                     </div>
                     <div className="flex items-center border rounded-md overflow-hidden">
                       <Button
@@ -1286,7 +1334,7 @@ export default function StoryboardPage() {
 
                 {/* Video generation progress bar */}
                 {storyboardViewType === "video" && shots && shots.length > 0 && (() => {
-                  const shotsWithImages = shots.filter(s => s.imageBase64);
+                  const shotsWithImages = shots.filter(s => s.imageUrl);
                   const generatingCount = shots.filter(s => s.videoStatus === "generating").length;
                   const completedCount = shots.filter(s => s.videoUrl).length;
                   const totalForVideo = shotsWithImages.length;
@@ -1309,6 +1357,17 @@ export default function StoryboardPage() {
                   return null;
                 })()}
 
+                {coverage && coverage.sceneWarnings.length > 0 && (
+                  <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 space-y-1" data-testid="shot-coverage-scene-warnings">
+                    {coverage.sceneWarnings.map(warning => (
+                      <p key={warning.code} className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {warning.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
                 {/* Shots grid */}
                 <div className={viewMode === "grid" ? "grid gap-4 sm:grid-cols-2 lg:grid-cols-3" : "space-y-4"}>
                 {shots.map((shot) => (
@@ -1323,11 +1382,11 @@ export default function StoryboardPage() {
                   >
                     {storyboardViewType === "image" && (
                       <div className="aspect-video bg-muted relative">
-                        {shot.imageBase64 ? (
+                        {shot.imageUrl ? (
                           <img
-                            src={`data:image/png;base64,${shot.imageBase64}`}
+                            src={assetThumbnailUrl(shot.imageUrl)}
                             alt={`Shot ${shot.shotNumber}`}
-                            className="w-full h-full object-cover"
+                            className="w-full h-full object-contain"
                           />
                         ) : (
                           <div className="w-full h-full flex flex-col items-center justify-center gap-2">
@@ -1361,12 +1420,46 @@ export default function StoryboardPage() {
                             #{shot.shotNumber}
                           </Badge>
                         </div>
+                        {(candidateCounts.get(shot.id) ?? 0) > 1 && (
+                          <div className="absolute top-2 right-2">
+                            <Badge variant="secondary" className="text-xs" data-testid={`badge-candidates-${shot.id}`}>
+                              <Layers className="mr-1 h-3 w-3" />
+                              {candidateCounts.get(shot.id)}
+                            </Badge>
+                          </div>
+                        )}
                         <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                           <Button variant="secondary" size="sm">
                             <Eye className="mr-2 h-4 w-4" />
                             编辑
                           </Button>
-                          {!shot.imageBase64 && (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setCandidatesShotId(shot.id);
+                            }}
+                            data-testid={`button-image-candidates-${shot.id}`}
+                          >
+                            <Layers className="mr-2 h-4 w-4" />
+                            候选
+                          </Button>
+                          {shot.imageUrl && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setImageEditShotId(shot.id);
+                              }}
+                              data-testid={`button-edit-image-${shot.id}`}
+                            >
+                              <Wand2 className="mr-2 h-4 w-4" />
+                              重绘
+                            </Button>
+                          )}
+                          {!shot.imageUrl && (
                             <Button
                               variant="secondary"
                               size="sm"
@@ -1391,16 +1484,16 @@ export default function StoryboardPage() {
                         {shot.videoUrl ? (
                           <video
                             src={shot.videoUrl}
-                            className="w-full h-full object-cover"
+                            className="w-full h-full object-contain"
                             controls
                             onClick={(e) => e.stopPropagation()}
                           />
-                        ) : shot.imageBase64 ? (
+                        ) : shot.imageUrl ? (
                           <div className="w-full h-full relative">
                             <img
-                              src={`data:image/png;base64,${shot.imageBase64}`}
+                              src={assetThumbnailUrl(shot.imageUrl)}
                               alt={`Shot ${shot.shotNumber}`}
-                              className="w-full h-full object-cover opacity-50"
+                              className="w-full h-full object-contain opacity-50"
                             />
                             <div className="absolute inset-0 flex flex-col items-center justify-center gap-2">
                               {shot.videoStatus === "generating" ? (
@@ -1508,6 +1601,16 @@ export default function StoryboardPage() {
                           备注: {shot.notes}
                         </p>
                       )}
+                      {coverage?.byShot.get(shot.id)?.map(warning => (
+                        <p
+                          key={warning.code}
+                          className="flex items-start gap-1 text-xs text-amber-700 dark:text-amber-400 mt-2"
+                          data-testid={`shot-warning-${shot.id}-${warning.code}`}
+                        >
+                          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                          {warning.message}
+                        </p>
+                      ))}
                     </CardContent>
                   </Card>
                 ))}
@@ -1552,13 +1655,25 @@ export default function StoryboardPage() {
           </DialogHeader>
 
           <div className="space-y-4">
-            <div className="aspect-video bg-muted rounded-md overflow-hidden">
-              {shotEdits.imageBase64 ? (
-                <img
-                  src={`data:image/png;base64,${shotEdits.imageBase64}`}
-                  alt="Shot preview"
-                  className="w-full h-full object-cover"
-                />
+            <div className="aspect-video bg-muted rounded-md overflow-hidden relative">
+              {shotEdits.imageUrl ? (
+                <>
+                  <img
+                    src={shotEdits.imageUrl}
+                    alt="Shot preview"
+                    className="w-full h-full object-contain"
+                  />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="absolute bottom-2 right-2"
+                    onClick={() => editingShotId && setImageEditShotId(editingShotId)}
+                    data-testid="button-edit-shot-image"
+                  >
+                    <Wand2 className="mr-2 h-4 w-4" />
+                    局部重绘
+                  </Button>
+                </>
               ) : (
                 <div className="w-full h-full flex items-center justify-center">
                   <Camera className="h-16 w-16 text-muted-foreground/30" />
@@ -1733,6 +1848,22 @@ export default function StoryboardPage() {
         </DialogContent>
       </Dialog>
 
+      <ShotImageEditorDialog
+        shot={shots?.find(shot => shot.id === imageEditShotId) ?? null}
+        onOpenChange={(open) => !open && setImageEditShotId(null)}
+        onEdited={(edited) => {
+          if (edited.id === editingShotId) {
+            setShotEdits(prev => ({ ...prev, imageUrl: edited.imageUrl, version: edited.version }));
+          }
+        }}
+      />
+
+      <ShotImageCandidatesDialog
+        shot={shots?.find(shot => shot.id === candidatesShotId) ?? null}
+        provider={selectedImageProvider}
+        onOpenChange={(open) => !open && setCandidatesShotId(null)}
+      />
+
       <Dialog open={showCreateSceneDialog} onOpenChange={(open) => {
         setShowCreateSceneDialog(open);
         if (!open) {
@@ -1861,7 +1992,6 @@ export default function StoryboardPage() {
                     projectId: currentProject.id,
                     sceneNumber: parseInt(newSceneNumber),
                     title: newSceneTitle,
-                    isInCallSheet: true
                   });
                   queryClient.invalidateQueries({ queryKey: ["/api/scenes", currentProject.id] });
                   setSelectedScene(scene);
@@ -0,0 +1,31 @@
+import { extractSceneReferences, parseSceneHeading } from "../shared/scene-heading";
+import { sceneHeadingCorpus, sceneReferenceCorpus } from "../shared/scene-heading-corpus";
+
+// Runs the scene heading corpus against the parser (npm run check:scene-headings).
+// Exits non-zero when any sample no longer parses to its expected result.
+const failures: string[] = [];
+
+for (const { input, expected } of sceneHeadingCorpus) {
+  const parsed = parseSceneHeading(input);
+  const actual = parsed && {
+    identifier: parsed.identifier,
+    intExt: parsed.intExt,
+    location: parsed.location,
+    timeOfDay: parsed.timeOfDay,
+  };
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`parseSceneHeading(${JSON.stringify(input)})\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(actual)}`);
+  }
+}
+
+for (const { input, expected } of sceneReferenceCorpus) {
+  const actual = extractSceneReferences(input);
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`extractSceneReferences(${JSON.stringify(input)})\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(actual)}`);
+  }
+}
+
+const total = sceneHeadingCorpus.length + sceneReferenceCorpus.length;
+failures.forEach((failure) => console.error(failure));
+console.log(`[SceneHeadings] ${total - failures.length}/${total} samples passed`);
+process.exit(failures.length > 0 ? 1 : 0);
@@ -0,0 +1,34 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+
+// Removes duplicate rows that concurrent reads used to create, keeping the oldest scene strip
+// per scene and the first link per call sheet and scene (npm run db:dedupe). Run before
+// db:push adds the unique indexes on schedule_strips and call_sheet_scenes.
+async function dedupe() {
+  const strips = await db.execute(sql`
+    DELETE FROM schedule_strips a
+    USING schedule_strips b
+    WHERE a.scene_id IS NOT NULL
+      AND a.project_id = b.project_id
+      AND a.scene_id = b.scene_id
+      AND (a.created_at, a.id) > (b.created_at, b.id)
+  `);
+  const links = await db.execute(sql`
+    DELETE FROM call_sheet_scenes a
+    USING call_sheet_scenes b
+    WHERE a.call_sheet_id = b.call_sheet_id
+      AND a.scene_id = b.scene_id
+      AND (a.position, a.id) > (b.position, b.id)
+  `);
+  return { scheduleStrips: strips.rowCount ?? 0, callSheetScenes: links.rowCount ?? 0 };
+}
+
+dedupe()
+  .then((removed) => {
+    console.log("[Dedupe] Removed duplicate rows:", removed);
+    process.exit(0);
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
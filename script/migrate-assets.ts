@@ -0,0 +1,13 @@
+import { migrateLegacyAssets } from "../server/asset-migration";
+
+// Moves base64 images out of Postgres into the asset store (npm run assets:migrate).
+// Run after db:push has created the assets table; re-running only picks up what is left.
+migrateLegacyAssets()
+  .then((report) => {
+    console.log("[AssetMigration] Done:", report);
+    process.exit(report.failed > 0 ? 1 : 0);
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,104 @@
+import { Buffer } from "node:buffer";
+import { and, eq, isNotNull, isNull, like, notLike, or } from "drizzle-orm";
+import { db } from "./db";
+import {
+  characterAssetReferences,
+  characterImageVariants,
+  characters,
+  shotVersions,
+  shots,
+} from "@shared/schema";
+import { assetUrl } from "@shared/asset-url";
+import { decodeDataUrl, saveAsset } from "./asset-store";
+
+// Moves images that older versions stored in Postgres (bare base64 in shots and shot versions,
+// data URLs in the character tables) into the asset store. Runs at startup and from
+// npm run assets:migrate. Safe to re-run: only rows still holding base64 are read, one at a
+// time, and an image saved twice is stored once. A row whose imageUrl already points at the
+// asset store has a newer frame, so only its leftover base64 is dropped.
+
+const ASSET_URL_PREFIX = "/api/assets/%";
+
+export interface AssetMigrationReport {
+  shots: number;
+  shotVersions: number;
+  characters: number;
+  characterImageVariants: number;
+  characterAssetReferences: number;
+  failed: number;
+}
+
+async function toAssetUrl(value: string): Promise<string> {
+  const decoded = decodeDataUrl(value) ?? { mimeType: "image/png", data: Buffer.from(value, "base64") };
+  const asset = await saveAsset(decoded.data, decoded.mimeType);
+  return assetUrl(asset.id);
+}
+
+export async function migrateLegacyAssets(): Promise<AssetMigrationReport> {
+  const report: AssetMigrationReport = {
+    shots: 0,
+    shotVersions: 0,
+    characters: 0,
+    characterImageVariants: 0,
+    characterAssetReferences: 0,
+    failed: 0,
+  };
+
+  const migrate = async (table: Exclude<keyof AssetMigrationReport, "failed">, rows: { id: string }[], move: (id: string) => Promise<boolean>) => {
+    console.log(`[AssetMigration] ${table}: ${rows.length} rows to move`);
+    for (const { id } of rows) {
+      try {
+        if (await move(id)) report[table]++;
+      } catch (error) {
+        report.failed++;
+        console.error(`[AssetMigration] Failed to move ${table} ${id}:`, error);
+      }
+    }
+  };
+
+  await db.update(shots).set({ imageBase64: null })
+    .where(and(isNotNull(shots.imageBase64), like(shots.imageUrl, ASSET_URL_PREFIX)));
+  await db.update(shotVersions).set({ imageBase64: null })
+    .where(and(isNotNull(shotVersions.imageBase64), like(shotVersions.imageUrl, ASSET_URL_PREFIX)));
+
+  const legacyShots = and(isNotNull(shots.imageBase64), or(isNull(shots.imageUrl), notLike(shots.imageUrl, ASSET_URL_PREFIX)));
+  await migrate("shots", await db.select({ id: shots.id }).from(shots).where(legacyShots), async (id) => {
+    const [row] = await db.select({ imageBase64: shots.imageBase64 }).from(shots).where(and(eq(shots.id, id), legacyShots));
+    if (!row?.imageBase64) return false;
+    await db.update(shots).set({ imageUrl: await toAssetUrl(row.imageBase64), imageBase64: null })
+      .where(and(eq(shots.id, id), legacyShots));
+    return true;
+  });
+
+  const legacyVersions = and(isNotNull(shotVersions.imageBase64), or(isNull(shotVersions.imageUrl), notLike(shotVersions.imageUrl, ASSET_URL_PREFIX)));
+  await migrate("shotVersions", await db.select({ id: shotVersions.id }).from(shotVersions).where(legacyVersions), async (id) => {
+    const [row] = await db.select({ imageBase64: shotVersions.imageBase64 }).from(shotVersions).where(and(eq(shotVersions.id, id), legacyVersions));
+    if (!row?.imageBase64) return false;
+    await db.update(shotVersions).set({ imageUrl: await toAssetUrl(row.imageBase64), imageBase64: null })
+      .where(and(eq(shotVersions.id, id), legacyVersions));
+    return true;
+  });
+
+  await migrate("characters", await db.select({ id: characters.id }).from(characters).where(like(characters.imageReferenceUrl, "data:%")), async (id) => {
+    const [row] = await db.select({ imageReferenceUrl: characters.imageReferenceUrl }).from(characters).where(eq(characters.id, id));
+    if (!row?.imageReferenceUrl?.startsWith("data:")) return false;
+    await db.update(characters).set({ imageReferenceUrl: await toAssetUrl(row.imageReferenceUrl) }).where(eq(characters.id, id));
+    return true;
+  });
+
+  await migrate("characterImageVariants", await db.select({ id: characterImageVariants.id }).from(characterImageVariants).where(like(characterImageVariants.imageUrl, "data:%")), async (id) => {
+    const [row] = await db.select({ imageUrl: characterImageVariants.imageUrl }).from(characterImageVariants).where(eq(characterImageVariants.id, id));
+    if (!row?.imageUrl?.startsWith("data:")) return false;
+    await db.update(characterImageVariants).set({ imageUrl: await toAssetUrl(row.imageUrl) }).where(eq(characterImageVariants.id, id));
+    return true;
+  });
+
+  await migrate("characterAssetReferences", await db.select({ id: characterAssetReferences.id }).from(characterAssetReferences).where(like(characterAssetReferences.imageUrl, "data:%")), async (id) => {
+    const [row] = await db.select({ imageUrl: characterAssetReferences.imageUrl }).from(characterAssetReferences).where(eq(characterAssetReferences.id, id));
+    if (!row?.imageUrl.startsWith("data:")) return false;
+    await db.update(characterAssetReferences).set({ imageUrl: await toAssetUrl(row.imageUrl) }).where(eq(characterAssetReferences.id, id));
+    return true;
+  });
+
+  return report;
+}
@@ -0,0 +1,279 @@
+import sharp from "sharp";
+import path from "node:path";
+import { Buffer } from "node:buffer";
+import { createHash, createHmac } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { access, mkdir, rename, writeFile } from "node:fs/promises";
+import { Readable } from "node:stream";
+import type { ReadableStream } from "node:stream/web";
+import type { Asset } from "@shared/schema";
+import { assetIdFromUrl, assetUrl } from "@shared/asset-url";
+import { storage } from "./storage";
+
+// Images and videos are stored as files named by the SHA-256 of their content, with the
+// database only recording the key. Files go to the local disk unless ASSET_STORAGE=s3
+// selects an S3-compatible bucket (AWS, R2, MinIO); other backends implement the adapter.
+
+export interface AssetRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export interface AssetStorageAdapter {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  read(key: string, range?: AssetRange): Promise<Readable | null>;
+}
+
+export class LocalAssetAdapter implements AssetStorageAdapter {
+  constructor(private readonly root: string) {}
+
+  private file(key: string): string {
+    return path.join(this.root, key);
+  }
+
+  // Written to a temporary name first so a reader never sees half a file
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.file(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await writeFile(temporary, data);
+    await rename(temporary, file);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await access(this.file(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(key: string, range?: AssetRange): Promise<Readable | null> {
+    if (!(await this.exists(key))) return null;
+    return createReadStream(this.file(key), range);
+  }
+}
+
+export interface S3AssetConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Path-style requests signed with AWS Signature Version 4, which every S3-compatible store accepts
+export class S3AssetAdapter implements AssetStorageAdapter {
+  constructor(private readonly config: S3AssetConfig) {}
+
+  private async request(method: "GET" | "HEAD" | "PUT", key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config;
+    const url = new URL(`${endpoint.replace(/\/$/, "")}/${bucket}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const signed: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": createHash("sha256").update(body ?? "").digest("hex"),
+      "x-amz-date": amzDate,
+    };
+    for (const [name, value] of Object.entries(headers)) signed[name.toLowerCase()] = value;
+
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      names.map(name => `${name}:${signed[name].trim()}\n`).join(""),
+      names.join(";"),
+      signed["x-amz-content-sha256"],
+    ].join("\n");
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, createHash("sha256").update(canonicalRequest).digest("hex")].join("\n");
+    const signingKey = [date, region, "s3", "aws4_request"]
+      .reduce<Buffer | string>((key, part) => createHmac("sha256", key).update(part).digest(), `AWS4${secretAccessKey}`);
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host: _host, ...sent } = signed;
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...sent,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+      },
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    const response = await this.request("PUT", key, data, { "content-type": mimeType });
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request("HEAD", key);
+    return response.ok;
+  }
+
+  async read(key: string, range?: AssetRange): Promise<Readable | null> {
+    const response = await this.request("GET", key, undefined, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download of ${key} failed: ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as ReadableStream);
+  }
+}
+
+function createAssetAdapter(): AssetStorageAdapter {
+  if (process.env.ASSET_STORAGE === "s3") {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error("ASSET_STORAGE=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+    }
+    console.log(`[AssetStore] Using S3 bucket ${S3_BUCKET}`);
+    return new S3AssetAdapter({
+      endpoint: S3_ENDPOINT,
+      region: S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalAssetAdapter(path.resolve(process.env.ASSET_STORAGE_DIR || "data/assets"));
+}
+
+export const assetStore = createAssetAdapter();
+
+const THUMBNAIL_SIZE = 480;
+
+// Raster formats get dimensions and a thumbnail; anything else is stored as given
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+async function imageInfo(data: Buffer): Promise<{ mimeType: string; width: number | null; height: number | null } | null> {
+  try {
+    const { format, width, height } = await sharp(data).metadata();
+    const mimeType = format ? IMAGE_TYPES[format] : undefined;
+    return mimeType ? { mimeType, width: width ?? null, height: height ?? null } : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveAsset(data: Buffer, mimeType = "application/octet-stream"): Promise<Asset> {
+  const id = createHash("sha256").update(data).digest("hex");
+  const existing = await storage.getAsset(id);
+  if (existing) return existing;
+
+  const image = await imageInfo(data);
+  const storageKey = `${id.slice(0, 2)}/${id}`;
+  await assetStore.put(storageKey, data, image?.mimeType ?? mimeType);
+
+  let thumbnailKey: string | null = null;
+  if (image) {
+    thumbnailKey = `thumbnails/${id.slice(0, 2)}/${id}.webp`;
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    await assetStore.put(thumbnailKey, thumbnail, "image/webp");
+  }
+
+  return storage.createAsset({
+    id,
+    mimeType: image?.mimeType ?? mimeType,
+    byteSize: data.length,
+    width: image?.width ?? null,
+    height: image?.height ?? null,
+    storageKey,
+    thumbnailKey,
+  });
+}
+
+export function decodeDataUrl(value: string): { mimeType: string; data: Buffer } | null {
+  const match = value.match(/^data:([^;,]*)(;base64)?,([\s\S]*)$/);
+  if (!match) return null;
+  return {
+    mimeType: match[1] || "application/octet-stream",
+    data: match[2] ? Buffer.from(match[3], "base64") : Buffer.from(decodeURIComponent(match[3])),
+  };
+}
+
+// Provider downloads are bounded in time and size, so a slow or huge response cannot hold a job
+const REMOTE_MEDIA_LIMITS = { timeoutMs: 120_000, maxBytes: 500 * 1024 * 1024 };
+
+async function download(
+  url: string,
+  limits: { timeoutMs: number; maxBytes: number },
+  headers: Record<string, string> = {},
+): Promise<{ mimeType: string | undefined; data: Buffer }> {
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(limits.timeoutMs) });
+  if (!response.ok || !response.body) {
+    throw new Error(`Download of ${url} failed: ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length")) > limits.maxBytes) {
+    await response.body.cancel();
+    throw new Error(`Download of ${url} exceeds ${limits.maxBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const body = Readable.fromWeb(response.body as ReadableStream);
+  for await (const chunk of body) {
+    size += chunk.length;
+    if (size > limits.maxBytes) {
+      body.destroy();
+      throw new Error(`Download of ${url} exceeds ${limits.maxBytes} bytes`);
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+  const mimeType = response.headers.get("content-type")?.split(";")[0] || undefined;
+  return { mimeType, data: Buffer.concat(chunks) };
+}
+
+// Images sent by the client are data URLs, saved here as assets, or URLs of assets already
+// stored. Other links are refused rather than fetched, so a client cannot make the server
+// request addresses of its choosing. Null when the value is not one of these.
+export async function storeImageUrl(value: string): Promise<string | null> {
+  if (assetIdFromUrl(value)) return value;
+  const image = decodeDataUrl(value);
+  if (!image || !(await imageInfo(image.data))) return null;
+  const asset = await saveAsset(image.data, image.mimeType);
+  return assetUrl(asset.id);
+}
+
+// Provider links expire, so generated media is copied in
+export async function storeRemoteAsset(url: string, headers: Record<string, string> = {}): Promise<Asset> {
+  const { mimeType, data } = await download(url, REMOTE_MEDIA_LIMITS, headers);
+  return saveAsset(data, mimeType);
+}
+
+export async function readAsset(id: string): Promise<{ asset: Asset; data: Buffer } | null> {
+  const asset = await storage.getAsset(id);
+  const stream = asset ? await assetStore.read(asset.storageKey) : null;
+  if (!asset || !stream) return null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return { asset, data: Buffer.concat(chunks) };
+}
+
+// Bytes behind an image reference: an asset URL or a data URL. Remote links are not
+// followed; storeImageUrl copies them into the asset store when they are saved.
+export async function loadImageData(url: string): Promise<{ mimeType: string; data: Buffer } | null> {
+  const id = assetIdFromUrl(url);
+  if (id) {
+    const stored = await readAsset(id);
+    return stored && { mimeType: stored.asset.mimeType, data: stored.data };
+  }
+  return decodeDataUrl(url);
+}
@@ -0,0 +1,204 @@
+import {
+  characterRoleTypes,
+  type BreakdownCategory,
+  type BreakdownElement,
+  type BreakdownSheet,
+  type BreakdownSheetCastMember,
+  type BreakdownSheetItem,
+  type BreakdownSheetReport,
+  type BreakdownTag,
+  type Character,
+  type Project,
+  type ProductionNotes,
+  type Scene,
+} from "@shared/schema";
+import { sceneSortKey } from "@shared/scene-heading";
+import { calculatePageEighths } from "@shared/page-eighths";
+import { breakdownTextOf } from "./breakdown";
+import { sceneIdentifierOf } from "./script-lock";
+
+// Breakdown sheets gather what a scene needs from the breakdown tags, falling back
+// to production notes and dialogue cues for projects that were never tagged.
+
+export interface BreakdownSheetInput {
+  project: Pick<Project, "id" | "title">;
+  scenes: Scene[];
+  characters: Character[];
+  elements: BreakdownElement[];
+  tags: BreakdownTag[];
+  productionNotes: Map<string, ProductionNotes[]>;
+}
+
+const OTHER_CATEGORIES: BreakdownCategory[] = ["stunts", "animals", "sfx", "vfx", "set_dressing", "sound", "music"];
+
+const DAY_PATTERN = /日|白天|早|晨|午|黄昏|傍晚|DAY|MORNING|DAWN|AFTERNOON|DUSK|SUNSET|SUNRISE/i;
+const NIGHT_PATTERN = /夜|晚|凌晨|NIGHT|EVENING|MIDNIGHT/i;
+
+export function dayNightOf(timeOfDay: string | null): "day" | "night" | null {
+  if (!timeOfDay) return null;
+  // "傍晚" contains 晚 but dusk is shot in the daylight window
+  if (NIGHT_PATTERN.test(timeOfDay) && !/黄昏|傍晚|DUSK|SUNSET/i.test(timeOfDay)) return "night";
+  if (DAY_PATTERN.test(timeOfDay)) return "day";
+  return null;
+}
+
+function synopsisOf(scene: Scene): string {
+  const source = scene.description?.trim()
+    || scene.action?.trim()
+    || breakdownTextOf(scene).split(/\r?\n/).slice(1).find(line => line.trim())?.trim()
+    || "";
+  const firstSentence = source.split(/(?<=[。！？!?])\s*|\n/)[0] || source;
+  return firstSentence.length > 80 ? `${firstSentence.slice(0, 79)}…` : firstSentence;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Speaker cues: "秦天：" in Chinese scripts, a line holding only the name in screenplays
+function speaksIn(character: Character, text: string): boolean {
+  const name = escapeRegExp(character.name.trim());
+  if (!name) return false;
+  return new RegExp(`(^|\\n)\\s*${name}\\s*([（(][^）)\\n]*[）)])?\\s*([:：]|\\n)`, "i").test(text);
+}
+
+function addItem(items: BreakdownSheetItem[], name: string, quantity: number | null = null, notes: string | null = null) {
+  const key = name.replace(/\s+/g, "").toLowerCase();
+  if (!key) return;
+  const existing = items.find(item => item.name.replace(/\s+/g, "").toLowerCase() === key);
+  if (!existing) {
+    items.push({ name: name.trim(), quantity, notes });
+    return;
+  }
+  if (quantity !== null) existing.quantity = Math.max(existing.quantity ?? 0, quantity);
+  if (notes && !existing.notes?.includes(notes)) existing.notes = existing.notes ? `${existing.notes}；${notes}` : notes;
+}
+
+function roleRank(character: Character): number {
+  const index = character.roleType ? characterRoleTypes.indexOf(character.roleType) : -1;
+  return index >= 0 ? index : characterRoleTypes.length;
+}
+
+export function buildBreakdownSheets(input: BreakdownSheetInput): BreakdownSheetReport {
+  const { project, characters, elements, tags, productionNotes } = input;
+  const scenes = [...input.scenes].sort((a, b) =>
+    a.sortOrder - b.sortOrder || sceneSortKey(sceneIdentifierOf(a)) - sceneSortKey(sceneIdentifierOf(b))
+  );
+  const elementById = new Map(elements.map(element => [element.id, element]));
+  const characterById = new Map(characters.map(character => [character.id, character]));
+  const castCharacters = characters.filter(character => character.roleType !== "extra");
+  const omitted = new Set(scenes.filter(scene => scene.isOmitted).map(scene => scene.id));
+
+  // Cast per scene, keyed by character id or (for untracked cast elements) by name
+  const castByScene = new Map<string, Map<string, { name: string; characterId: string | null }>>();
+  for (const scene of scenes) {
+    const cast = new Map<string, { name: string; characterId: string | null }>();
+    castByScene.set(scene.id, cast);
+    if (scene.isOmitted) continue;
+
+    const text = breakdownTextOf(scene);
+    for (const character of castCharacters) {
+      if (speaksIn(character, text)) cast.set(character.id, { name: character.name, characterId: character.id });
+    }
+    for (const note of productionNotes.get(scene.id) || []) {
+      const character = note.characterId ? characterById.get(note.characterId) : undefined;
+      if (character && character.roleType !== "extra") cast.set(character.id, { name: character.name, characterId: character.id });
+    }
+  }
+  for (const tag of tags) {
+    const element = elementById.get(tag.elementId);
+    const cast = castByScene.get(tag.sceneId);
+    if (!element || !cast || element.category !== "cast" || omitted.has(tag.sceneId)) continue;
+    const character = element.characterId ? characterById.get(element.characterId) : undefined;
+    if (character) cast.set(character.id, { name: character.name, characterId: character.id });
+    else cast.set(`name:${element.name}`, { name: element.name, characterId: null });
+  }
+
+  // Cast ID numbers: leads first, then by how many scenes each appears in, then first appearance
+  const appearances = new Map<string, { name: string; characterId: string | null; scenes: number; first: number }>();
+  scenes.forEach((scene, index) => {
+    castByScene.get(scene.id)!.forEach((member, key) => {
+      const entry = appearances.get(key);
+      if (entry) entry.scenes++;
+      else appearances.set(key, { ...member, scenes: 1, first: index });
+    });
+  });
+  const rank = (characterId: string | null) => {
+    const character = characterId ? characterById.get(characterId) : undefined;
+    return character ? roleRank(character) : characterRoleTypes.length + 1;
+  };
+  const ordered = Array.from(appearances.entries())
+    .sort(([, a], [, b]) => rank(a.characterId) - rank(b.characterId) || b.scenes - a.scenes || a.first - b.first);
+  const castIdByKey = new Map(ordered.map(([key], index) => [key, index + 1]));
+  const castList: BreakdownSheetCastMember[] = ordered.map(([key, member]) => ({
+    castId: castIdByKey.get(key)!,
+    name: member.name,
+    characterId: member.characterId,
+  }));
+
+  const sheets: BreakdownSheet[] = scenes.map(scene => {
+    const sceneTags = tags.filter(tag => tag.sceneId === scene.id);
+    const byCategory = new Map<BreakdownCategory, BreakdownSheetItem[]>();
+    for (const tag of sceneTags) {
+      const element = elementById.get(tag.elementId);
+      if (!element || element.category === "cast") continue;
+      const items = byCategory.get(element.category) ?? [];
+      addItem(items, element.name, tag.quantity, tag.notes);
+      byCategory.set(element.category, items);
+    }
+    const itemsOf = (category: BreakdownCategory) => byCategory.get(category) ?? [];
+
+    const props = itemsOf("props");
+    const wardrobe = itemsOf("wardrobe");
+    const makeup = itemsOf("makeup_hair");
+    const background = itemsOf("extras");
+    for (const note of productionNotes.get(scene.id) || []) {
+      const character = note.characterId ? characterById.get(note.characterId) : undefined;
+      const owner = character?.name || "通用";
+      (note.propsRequired || []).forEach(prop => addItem(props, prop));
+      if (note.costumeNotes) addItem(wardrobe, owner, null, note.costumeNotes);
+      if (note.makeupNotes) addItem(makeup, owner, null, note.makeupNotes);
+    }
+    if (!scene.isOmitted) {
+      characters
+        .filter(character => character.roleType === "extra" && speaksIn(character, breakdownTextOf(scene)))
+        .forEach(character => addItem(background, character.name));
+    }
+
+    const cast = Array.from(castByScene.get(scene.id)!.entries())
+      .map(([key, member]) => ({ castId: castIdByKey.get(key)!, ...member }))
+      .sort((a, b) => a.castId - b.castId);
+
+    return {
+      sceneId: scene.id,
+      sceneIdentifier: sceneIdentifierOf(scene),
+      title: scene.title,
+      isOmitted: scene.isOmitted,
+      intExt: scene.intExt,
+      dayNight: dayNightOf(scene.timeOfDay),
+      timeOfDay: scene.timeOfDay,
+      location: scene.location,
+      pageEighths: scene.isOmitted ? null : scene.pageEighths ?? calculatePageEighths(breakdownTextOf(scene)),
+      synopsis: scene.isOmitted ? "" : synopsisOf(scene),
+      cast,
+      background,
+      props,
+      wardrobe,
+      makeup,
+      vehicles: itemsOf("vehicles"),
+      specialEquipment: itemsOf("special_equipment"),
+      other: OTHER_CATEGORIES
+        .map(category => ({ category, items: itemsOf(category) }))
+        .filter(group => group.items.length > 0),
+      unconfirmedTags: sceneTags.filter(tag => tag.status === "suggested").length,
+    };
+  });
+
+  return {
+    projectId: project.id,
+    projectTitle: project.title,
+    generatedAt: new Date().toISOString(),
+    castList,
+    sheets,
+  };
+}
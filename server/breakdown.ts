@@ -0,0 +1,69 @@
+import type {
+  BreakdownCategory,
+  BreakdownElement,
+  BreakdownTag,
+  Scene,
+  SceneBreakdownTag,
+} from "@shared/schema";
+
+// Script breakdown: tags are ranges of a scene's scriptContent pointing at
+// project-level elements. Scene text changes with every script revision, so the
+// stored excerpt is the source of truth and offsets are re-derived from it.
+
+export interface TextRange {
+  startOffset: number;
+  endOffset: number;
+}
+
+// Scenes created before scriptContent existed only carry the split fields
+export function breakdownTextOf(scene: Pick<Scene, "title" | "scriptContent" | "description" | "action" | "dialogue">): string {
+  if (scene.scriptContent?.trim()) return scene.scriptContent;
+  return [scene.title, scene.description, scene.action, scene.dialogue].filter(Boolean).join("\n\n");
+}
+
+export function elementKey(category: BreakdownCategory, name: string): string {
+  return `${category}|${name.replace(/\s+/g, " ").trim().toLowerCase()}`;
+}
+
+export function rangesOverlap(a: TextRange, b: TextRange): boolean {
+  return a.startOffset < b.endOffset && b.startOffset < a.endOffset;
+}
+
+// Every occurrence of the excerpt, preferring the one closest to `near`
+export function locateExcerpt(text: string, excerpt: string, near = 0, exclude: TextRange[] = []): TextRange | null {
+  const needle = excerpt.trim();
+  if (!needle) return null;
+
+  const candidates: TextRange[] = [];
+  let index = text.indexOf(needle);
+  while (index >= 0) {
+    const range = { startOffset: index, endOffset: index + needle.length };
+    if (!exclude.some(other => rangesOverlap(range, other))) candidates.push(range);
+    index = text.indexOf(needle, index + 1);
+  }
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((best, range) =>
+    Math.abs(range.startOffset - near) < Math.abs(best.startOffset - near) ? range : best
+  );
+}
+
+// Returns the offsets the tag should have in `text`, or undefined when they are still valid
+export function reanchorTag(text: string, tag: Pick<BreakdownTag, "startOffset" | "endOffset" | "excerpt">): TextRange | { startOffset: null; endOffset: null } | undefined {
+  const { startOffset, endOffset, excerpt } = tag;
+  if (!excerpt) return undefined;
+  if (startOffset !== null && endOffset !== null && text.slice(startOffset, endOffset) === excerpt) {
+    return undefined;
+  }
+  const located = locateExcerpt(text, excerpt, startOffset ?? 0);
+  if (located) return located;
+  return startOffset === null && endOffset === null ? undefined : { startOffset: null, endOffset: null };
+}
+
+export function attachElements(tags: BreakdownTag[], elements: BreakdownElement[]): SceneBreakdownTag[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  return tags
+    .filter(tag => byId.has(tag.elementId))
+    .map(tag => ({ ...tag, element: byId.get(tag.elementId)! }))
+    .sort((a, b) => (a.startOffset ?? Infinity) - (b.startOffset ?? Infinity));
+}
@@ -0,0 +1,27 @@
+import { callSheetSceneIds } from "./call-sheet";
+import { storage } from "./storage";
+
+// Links call sheets saved before scene links existed to the scenes in their own scene list.
+// Runs at startup so reads never write; call sheets that already have links are skipped,
+// and one whose list matches no scene is left unlinked.
+export async function backfillCallSheetScenes(): Promise<number> {
+  let linked = 0;
+  for (const project of await storage.getProjects()) {
+    const [callSheets, links] = await Promise.all([
+      storage.getCallSheets(project.id),
+      storage.getCallSheetScenes(project.id),
+    ]);
+    const withLinks = new Set(links.map(link => link.callSheetId));
+    const unlinked = callSheets.filter(callSheet => !withLinks.has(callSheet.id));
+    if (unlinked.length === 0) continue;
+
+    const scenes = await storage.getScenes(project.id);
+    for (const callSheet of unlinked) {
+      const sceneIds = callSheetSceneIds(callSheet, scenes);
+      if (sceneIds.length === 0) continue;
+      await storage.setCallSheetScenes(callSheet.id, project.id, sceneIds);
+      linked++;
+    }
+  }
+  return linked;
+}
@@ -0,0 +1,406 @@
+import mammoth from "mammoth";
+import * as XLSX from "@e965/xlsx";
+import { DOMParser, type Element } from "@xmldom/xmldom";
+import type {
+  CallSheetCastCall,
+  CallSheetDetails,
+  CallSheetSceneEntry,
+  Character,
+  Scene,
+} from "@shared/schema";
+import { extractSceneReferences, normalizeSceneIdentifier, parseHeadingDetails, sceneMainNumber } from "@shared/scene-heading";
+import { dayNightOf } from "./breakdown-sheet";
+import { formatClock } from "./call-sheet";
+import { sceneIdentifierOf } from "./script-lock";
+
+// Call sheets delivered as Word tables or Excel workbooks. Cells are read
+// structurally so phone numbers and call times never pass for scene numbers:
+// scenes only come from a column headed 场次/Scene, cast calls from a table
+// headed 演员/角色 with call time columns.
+
+// Rows of cell text; merged cells repeat their text down the rows they span
+export type CallSheetTable = string[][];
+
+function childElements(parent: Element, tagNames: string[]): Element[] {
+  const result: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === node.ELEMENT_NODE && tagNames.includes((node as Element).tagName.toLowerCase())) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+function cellText(cell: Element): string {
+  const paragraphs = childElements(cell, ["p"]);
+  const parts = paragraphs.length > 0 ? paragraphs.map(p => p.textContent || "") : [cell.textContent || ""];
+  return parts.map(part => part.replace(/\s+/g, " ").trim()).filter(Boolean).join("\n");
+}
+
+function spanOf(cell: Element, attribute: string): number {
+  const value = parseInt(cell.getAttribute(attribute) || "1", 10);
+  return isNaN(value) || value < 1 ? 1 : value;
+}
+
+// Nested tables become tables of their own rather than text inside a cell
+function htmlTable(table: Element): CallSheetTable {
+  const rows = childElements(table, ["tr"]);
+  for (const section of childElements(table, ["thead", "tbody", "tfoot"])) {
+    rows.push(...childElements(section, ["tr"]));
+  }
+
+  const grid: CallSheetTable = [];
+  rows.forEach((row, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    let column = 0;
+    for (const cell of childElements(row, ["td", "th"])) {
+      while (grid[rowIndex][column] !== undefined) column++;
+      const text = cellText(cell);
+      const colspan = spanOf(cell, "colspan");
+      const rowspan = spanOf(cell, "rowspan");
+      for (let r = 0; r < rowspan; r++) {
+        grid[rowIndex + r] = grid[rowIndex + r] || [];
+        for (let c = 0; c < colspan; c++) {
+          grid[rowIndex + r][column + c] = c === 0 ? text : "";
+        }
+      }
+      column += colspan;
+    }
+  });
+  return grid.map(row => Array.from(row, cell => cell ?? ""));
+}
+
+export async function readDocxTables(buffer: Buffer): Promise<CallSheetTable[]> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  const doc = new DOMParser().parseFromString(`<html><body>${html}</body></html>`, "text/html");
+  return Array.from(doc.getElementsByTagName("table"))
+    .map(table => htmlTable(table))
+    .filter(table => table.length > 0);
+}
+
+// Workbooks are untrusted uploads: this needs SheetJS 0.20.2 or later (CVE-2023-30533,
+// CVE-2024-22363). The "xlsx" package on npm stops at 0.18.5, so the pinned @e965/xlsx
+// republication of the official release is used instead
+export function readXlsxTables(buffer: Buffer): CallSheetTable[] {
+  const workbook = XLSX.read(buffer, { type: "buffer" });
+  return workbook.SheetNames.flatMap(name => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet["!ref"]) return [];
+    // raw: false keeps times and dates as displayed ("7:00", "2024/5/3") instead of serial numbers
+    const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "", blankrows: true })
+      .map(row => row.map(cell => String(cell).trim()));
+    const origin = XLSX.utils.decode_range(sheet["!ref"]).s;
+    for (const merge of sheet["!merges"] || []) {
+      const text = rows[merge.s.r - origin.r]?.[merge.s.c - origin.c] ?? "";
+      for (let r = merge.s.r + 1; r <= merge.e.r; r++) {
+        const row = rows[r - origin.r];
+        if (row) row[merge.s.c - origin.c] = text;
+      }
+    }
+    const table = rows.filter(row => row.some(Boolean));
+    return table.length > 0 ? [table] : [];
+  });
+}
+
+// Tab-separated rows, kept as rawText for display and AI matching
+export function callSheetTablesText(tables: CallSheetTable[]): string {
+  return tables.map(table => table.map(row => row.join("\t").trimEnd()).join("\n")).join("\n\n");
+}
+
+type SceneColumn = "scene" | "time" | "intExt" | "dayNight" | "location" | "synopsis" | "pages" | "cast";
+type CastColumn = "id" | "actor" | "character" | "pickup" | "makeup" | "onSet" | "remarks";
+
+// Header text is compared with spaces and punctuation removed ("D/N" -> "dn", "Sc. No." -> "scno")
+const SCENE_COLUMNS: [SceneColumn, RegExp][] = [
+  ["scene", /^(场次|场号|场|集场|场次号|scenes?|sc|sceneno|scno|scenenumber)$/],
+  ["time", /^(时间|预计时间|拍摄时间|开始时间|time|start|starttime|est)$/],
+  ["intExt", /^(内外|内外景|内景外景|景别|ie|intext)$/],
+  ["dayNight", /^(日夜|日夜景|日景夜景|时段|dn|daynight)$/],
+  ["synopsis", /^(内容|剧情|梗概|简介|场景内容|剧情梗概|剧情简介|主要内容|synopsis|description|content)$/],
+  ["location", /^(场景|地点|场地|拍摄地点|拍摄场景|景点|场景地点|location|set|setlocation)$/],
+  ["pages", /^(页数|页|长度|pages?|pgs?)$/],
+  ["cast", /^(演员|角色|人物|出场人物|出场角色|出场演员|演员编号|cast|castid|castno|characters?)$/],
+];
+
+const CAST_COLUMNS: [CastColumn, RegExp][] = [
+  ["id", /^(编号|序号|演员编号|no|id|castid|castno)$/],
+  ["actor", /^(演员|艺人|演员姓名|姓名|actor|cast|talent|name)$/],
+  ["character", /^(角色|饰演|人物|角色名|character|role)$/],
+  ["pickup", /^(接送|接送时间|出发|出发时间|pickup|pu)$/],
+  ["makeup", /^(化妆|妆发|化妆时间|妆发时间|makeup|hmu|hm|hairmakeup)$/],
+  ["onSet", /^(到场|到场时间|现场|到现场|通告时间|onset|set|setcall|call|calltime)$/],
+  ["remarks", /^(备注|说明|remarks?|notes?)$/],
+];
+
+function headerKey(text: string): string {
+  return text.toLowerCase().replace(/[\s.:：#()（）\/／_\-]/g, "");
+}
+
+function matchColumns<T extends string>(row: string[], patterns: [T, RegExp][]): Partial<Record<T, number>> {
+  const columns: Partial<Record<T, number>> = {};
+  row.forEach((cell, index) => {
+    const key = cell.trim() === "#" ? "no" : headerKey(cell);
+    const match = patterns.find(([column, pattern]) => columns[column] === undefined && pattern.test(key));
+    if (match) columns[match[0]] = index;
+  });
+  return columns;
+}
+
+function sceneHeader(row: string[]): Partial<Record<SceneColumn, number>> | null {
+  const columns = matchColumns(row, SCENE_COLUMNS);
+  return columns.scene !== undefined && Object.keys(columns).length >= 2 ? columns : null;
+}
+
+function castHeader(row: string[]): Partial<Record<CastColumn, number>> | null {
+  const columns = matchColumns(row, CAST_COLUMNS);
+  const hasName = columns.actor !== undefined || columns.character !== undefined;
+  const hasCall = columns.pickup !== undefined || columns.makeup !== undefined || columns.onSet !== undefined;
+  return hasName && hasCall ? columns : null;
+}
+
+// "7:30", "07：30", "7:30 PM", "下午2:00", "7点半"
+function tableClock(text: string): string | null {
+  const match = text.match(/(上午|早上|中午|下午|晚上)?\s*(\d{1,2})\s*(?:[:：]\s*(\d{2})|点\s*(半|\d{1,2})?\s*分?)\s*(am|pm)?/i);
+  if (!match) return null;
+  let hours = parseInt(match[2], 10);
+  const minutes = match[3] !== undefined ? parseInt(match[3], 10) : match[4] === "半" ? 30 : match[4] ? parseInt(match[4], 10) : 0;
+  if (hours > 23 || minutes > 59) return null;
+  const meridiem = (match[5] || match[1] || "").toLowerCase();
+  if ((meridiem === "pm" || meridiem === "下午" || meridiem === "晚上") && hours < 12) hours += 12;
+  if ((meridiem === "am" || meridiem === "早上" || meridiem === "上午") && hours === 12) hours = 0;
+  return formatClock(hours * 60 + minutes);
+}
+
+// "2024-05-03", "2024年5月3日", "2024/5/3", and Excel's default "5/3/24"
+function tableDate(text: string): string | null {
+  let year: number, month: number, day: number;
+  const ymd = text.match(/(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})/);
+  const mdy = text.match(/(?<!\d)(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?!\d)/);
+  if (ymd) {
+    [year, month, day] = [parseInt(ymd[1], 10), parseInt(ymd[2], 10), parseInt(ymd[3], 10)];
+  } else if (mdy) {
+    [month, day, year] = [parseInt(mdy[1], 10), parseInt(mdy[2], 10), parseInt(mdy[3], 10)];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split("T")[0];
+}
+
+// "1 3/8", "4/8", "1.5"
+function tablePageEighths(text: string): number | null {
+  const fraction = text.match(/^\s*(?:(\d+)\s+)?(\d)\s*\/\s*8/);
+  if (fraction) return (fraction[1] ? parseInt(fraction[1], 10) * 8 : 0) + parseInt(fraction[2], 10);
+  const decimal = text.match(/^\s*(\d+(?:\.\d+)?)/);
+  return decimal ? Math.round(parseFloat(decimal[1]) * 8) : null;
+}
+
+function splitNames(text: string): string[] {
+  return text.split(/[,，、;；\/／\n]+|\s{2,}/).map(name => name.trim()).filter(Boolean);
+}
+
+export interface TabularCallSheetScene {
+  sceneIdentifier: string;
+  startTime: string | null;
+  intExt: CallSheetSceneEntry["intExt"];
+  dayNight: CallSheetSceneEntry["dayNight"];
+  location: string | null;
+  synopsis: string;
+  pageEighths: number | null;
+  cast: string[]; // cast numbers or names as written
+}
+
+export interface TabularCallSheetCast {
+  castId: number | null;
+  actor: string | null;
+  character: string | null;
+  pickup: string | null;
+  makeup: string | null;
+  onSet: string | null;
+  remarks: string | null;
+}
+
+export interface TabularCallSheet {
+  shootDate: string | null;
+  generalCall: string | null;
+  shootingCall: string | null;
+  dayNumber: number | null;
+  totalDays: number | null;
+  scenes: TabularCallSheetScene[];
+  cast: TabularCallSheetCast[];
+}
+
+// Header fields written as "集合 | 07:00" in neighbouring cells or "集合：07:00" in one cell
+const LABELS: { field: "shootDate" | "generalCall" | "shootingCall"; pattern: RegExp; read: (text: string) => string | null }[] = [
+  { field: "shootDate", pattern: /^\s*(?:拍摄日期|日期|date)\s*[:：]?\s*/i, read: tableDate },
+  { field: "generalCall", pattern: /^\s*(?:全组集合时间|全组集合|集合时间|集合|general\s*call|crew\s*call)\s*[:：]?\s*/i, read: tableClock },
+  { field: "shootingCall", pattern: /^\s*(?:开机时间|开机|开拍时间|开拍|shooting\s*call|first\s*shot)\s*[:：]?\s*/i, read: tableClock },
+];
+
+export function parseCallSheetTables(tables: CallSheetTable[]): TabularCallSheet {
+  const result: TabularCallSheet = {
+    shootDate: null,
+    generalCall: null,
+    shootingCall: null,
+    dayNumber: null,
+    totalDays: null,
+    scenes: [],
+    cast: [],
+  };
+
+  for (const table of tables) {
+    let sceneColumns: Partial<Record<SceneColumn, number>> | null = null;
+    let castColumns: Partial<Record<CastColumn, number>> | null = null;
+
+    for (const row of table) {
+      // Cast tables often list each actor's scenes too, so call time columns decide
+      const castTableHeader = castHeader(row);
+      const header = castTableHeader ? null : sceneHeader(row);
+      if (header || castTableHeader) {
+        sceneColumns = header;
+        castColumns = castTableHeader;
+        continue;
+      }
+
+      row.forEach((cell, index) => {
+        for (const { field, pattern, read } of LABELS) {
+          if (result[field] || !pattern.test(cell)) continue;
+          const inline = read(cell.replace(pattern, ""));
+          const next = row.slice(index + 1).find(Boolean);
+          result[field] = inline ?? (next ? read(next) : null);
+        }
+        if (result.dayNumber === null) {
+          const day = cell.match(/第\s*(\d+)\s*天(?:\s*[\/／]?\s*共\s*(\d+)\s*天)?/) || cell.match(/\bday\s*(\d+)(?:\s*(?:of|\/)\s*(\d+))?/i);
+          if (day) {
+            result.dayNumber = parseInt(day[1], 10);
+            result.totalDays = day[2] ? parseInt(day[2], 10) : null;
+          }
+        }
+      });
+
+      if (sceneColumns) {
+        const columns = sceneColumns;
+        const cell = (column: SceneColumn) => (columns[column] !== undefined ? row[columns[column]!] ?? "" : "");
+        const single = normalizeSceneIdentifier(cell("scene"));
+        const identifiers = single && sceneMainNumber(single)! > 0 ? [single] : extractSceneReferences(cell("scene"));
+        for (const sceneIdentifier of identifiers) {
+          if (result.scenes.some(scene => scene.sceneIdentifier === sceneIdentifier)) continue;
+          const heading = parseHeadingDetails(`${cell("intExt")} ${cell("dayNight")}`);
+          result.scenes.push({
+            sceneIdentifier,
+            startTime: tableClock(cell("time")),
+            intExt: heading.intExt,
+            dayNight: dayNightOf(cell("dayNight") || null),
+            location: cell("location") || null,
+            synopsis: cell("synopsis"),
+            pageEighths: tablePageEighths(cell("pages")),
+            cast: splitNames(cell("cast")),
+          });
+        }
+      } else if (castColumns) {
+        const columns = castColumns;
+        const cell = (column: CastColumn) => (columns[column] !== undefined ? row[columns[column]!] ?? "" : "");
+        if (!cell("actor") && !cell("character")) continue;
+        const id = parseInt(cell("id"), 10);
+        result.cast.push({
+          castId: isNaN(id) ? null : id,
+          actor: cell("actor") || null,
+          character: cell("character") || null,
+          pickup: tableClock(cell("pickup")),
+          makeup: tableClock(cell("makeup")),
+          onSet: tableClock(cell("onSet")),
+          remarks: cell("remarks") || null,
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+export interface TabularCallSheetContext {
+  projectTitle: string;
+  scenes: Scene[];
+  characters: Character[];
+}
+
+// Scene ids are matched by identifier; scenes the project does not have keep an empty id.
+// Cast columns on the scene table may hold cast numbers or names from the cast table.
+export function tabularCallSheetDetails(parsed: TabularCallSheet, context: TabularCallSheetContext): { details: CallSheetDetails; sceneIds: string[] } {
+  const sceneByIdentifier = new Map<string, Scene>();
+  for (const scene of context.scenes) {
+    const identifier = normalizeSceneIdentifier(sceneIdentifierOf(scene));
+    if (identifier) sceneByIdentifier.set(identifier, scene);
+  }
+  const characterByName = new Map(context.characters.map(character => [character.name, character]));
+
+  let nextCastId = Math.max(0, ...parsed.cast.map(member => member.castId ?? 0)) + 1;
+  const cast: CallSheetCastCall[] = parsed.cast.map(member => {
+    const name = member.actor && member.character ? `${member.character}（${member.actor}）` : (member.character || member.actor)!;
+    const character = characterByName.get(member.character ?? "") ?? characterByName.get(member.actor ?? "");
+    return {
+      castId: member.castId ?? nextCastId++,
+      name,
+      characterId: character?.id ?? null,
+      status: null,
+      pickup: member.pickup ?? "",
+      makeup: member.makeup ?? "",
+      onSet: member.onSet ?? "",
+      remarks: member.remarks,
+    };
+  });
+  const castIdOf = (token: string): number => {
+    if (/^\d+$/.test(token)) return parseInt(token, 10);
+    const member = parsed.cast.find(entry => entry.actor === token || entry.character === token);
+    const existing = member ? cast[parsed.cast.indexOf(member)] : cast.find(call => call.name === token);
+    if (existing) return existing.castId;
+    // Listed on a scene but missing from the cast table
+    const character = characterByName.get(token);
+    const added: CallSheetCastCall = {
+      castId: nextCastId++,
+      name: token,
+      characterId: character?.id ?? null,
+      status: null,
+      pickup: "",
+      makeup: "",
+      onSet: "",
+      remarks: null,
+    };
+    cast.push(added);
+    return added.castId;
+  };
+
+  const scenes: CallSheetSceneEntry[] = parsed.scenes.map(entry => {
+    const scene = sceneByIdentifier.get(entry.sceneIdentifier);
+    return {
+      sceneId: scene?.id ?? "",
+      sceneIdentifier: entry.sceneIdentifier,
+      intExt: entry.intExt ?? scene?.intExt ?? null,
+      dayNight: entry.dayNight ?? dayNightOf(scene?.timeOfDay ?? null),
+      location: entry.location ?? scene?.location ?? null,
+      synopsis: entry.synopsis || scene?.title || "",
+      pageEighths: entry.pageEighths ?? scene?.pageEighths ?? null,
+      castIds: Array.from(new Set(entry.cast.map(castIdOf))),
+      startTime: entry.startTime ?? "",
+    };
+  });
+
+  cast.sort((a, b) => a.castId - b.castId);
+  return {
+    details: {
+      projectTitle: context.projectTitle,
+      dayNumber: parsed.dayNumber,
+      totalDays: parsed.totalDays,
+      scenes,
+      totalPageEighths: scenes.reduce((sum, scene) => sum + (scene.pageEighths ?? 0), 0),
+      cast,
+      background: [],
+      requirements: [],
+      advance: null,
+      notes: "",
+    },
+    sceneIds: Array.from(new Set(scenes.flatMap(scene => (scene.sceneId ? [scene.sceneId] : [])))),
+  };
+}
@@ -0,0 +1,252 @@
+import {
+  breakdownCategoryInfo,
+  sceneIntExtLabels,
+  type BreakdownSheet,
+  type BreakdownSheetItem,
+  type CallSheetAdvanceSchedule,
+  type CallSheetBackgroundCall,
+  type CallSheetCastCall,
+  type CallSheetDetails,
+  type CallSheetRequirement,
+  type CallSheetSceneEntry,
+  type Character,
+  type CallSheet,
+  type CharacterRoleType,
+  type ProductionNotes,
+  type Scene,
+} from "@shared/schema";
+import { formatPageEighths } from "@shared/page-eighths";
+import { normalizeSceneIdentifier, sceneMainNumber } from "@shared/scene-heading";
+import { MINUTES_PER_EIGHTH } from "./schedule";
+import { sceneIdentifierOf } from "./script-lock";
+
+// Generated call sheets: scene order is shooting order, scene start times are
+// estimated from page counts, and every cast call counts back from their first scene.
+
+const PICKUP_LEAD_MINUTES = 30;
+const BACKGROUND_LEAD_MINUTES = 60;
+
+// Hair, makeup and wardrobe time before an actor is ready on set
+const PREP_MINUTES: Partial<Record<CharacterRoleType, number>> = {
+  male_lead: 90,
+  female_lead: 90,
+  antagonist_1: 75,
+  antagonist_2: 75,
+  supporting: 60,
+};
+const DEFAULT_PREP_MINUTES = 45;
+
+// Scenes a call sheet lists, in call sheet order; older call sheets only stored scene numbers
+export function callSheetSceneIds(callSheet: Pick<CallSheet, "sceneIdentifiers" | "sceneNumbers">, scenes: Scene[]): string[] {
+  if (callSheet.sceneIdentifiers && callSheet.sceneIdentifiers.length > 0) {
+    const byIdentifier = new Map<string, Scene>();
+    for (const scene of scenes) {
+      const identifier = normalizeSceneIdentifier(sceneIdentifierOf(scene));
+      if (identifier) byIdentifier.set(identifier, scene);
+    }
+    const ids = callSheet.sceneIdentifiers.flatMap(reference => {
+      const scene = byIdentifier.get(normalizeSceneIdentifier(reference) || reference);
+      return scene ? [scene.id] : [];
+    });
+    return Array.from(new Set(ids));
+  }
+
+  const numbers = new Set(callSheet.sceneNumbers || []);
+  return scenes
+    .filter(scene => numbers.has(sceneMainNumber(sceneIdentifierOf(scene)) ?? scene.sceneNumber))
+    .map(scene => scene.id);
+}
+
+// Uploaded call sheets may carry details read from their tables, but only generated ones
+// are recomposed from the breakdown when edited
+export function isGeneratedCallSheet(callSheet: Pick<CallSheet, "details" | "fileMetadata">): boolean {
+  return !!callSheet.details && !callSheet.fileMetadata;
+}
+
+export function parseClock(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})[:：](\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+// Calls before midnight wrap to the previous evening
+export function formatClock(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(normalized / 60)).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
+
+function itemText(item: BreakdownSheetItem): string {
+  return `${item.name}${item.quantity ? ` ×${item.quantity}` : ""}${item.notes ? `（${item.notes}）` : ""}`;
+}
+
+export interface CallSheetBuildInput {
+  projectTitle: string;
+  shootingCall: string;
+  sheets: BreakdownSheet[]; // selected scenes in shooting order
+  characters: Character[];
+  productionNotes: Map<string, ProductionNotes[]>;
+  statusByCastKey: Map<string, string>;
+  dayNumber: number | null;
+  totalDays: number | null;
+  advance: CallSheetAdvanceSchedule | null;
+  notes: string;
+}
+
+export function buildCallSheetDetails(input: CallSheetBuildInput): CallSheetDetails {
+  const sheets = input.sheets.filter(sheet => !sheet.isOmitted);
+  const characterById = new Map(input.characters.map(character => [character.id, character]));
+  const shootingCall = parseClock(input.shootingCall) ?? 8 * 60;
+
+  let clock = shootingCall;
+  const scenes: CallSheetSceneEntry[] = sheets.map(sheet => {
+    const entry: CallSheetSceneEntry = {
+      sceneId: sheet.sceneId,
+      sceneIdentifier: sheet.sceneIdentifier,
+      intExt: sheet.intExt,
+      dayNight: sheet.dayNight,
+      location: sheet.location,
+      synopsis: sheet.synopsis,
+      pageEighths: sheet.pageEighths,
+      castIds: sheet.cast.map(member => member.castId),
+      startTime: formatClock(clock),
+    };
+    clock += (sheet.pageEighths ?? 1) * MINUTES_PER_EIGHTH;
+    return entry;
+  });
+  const startOf = (sceneId: string) => parseClock(scenes.find(scene => scene.sceneId === sceneId)!.startTime)!;
+
+  const castById = new Map<number, CallSheetCastCall>();
+  const castScenes = new Map<number, string[]>();
+  for (const sheet of sheets) {
+    for (const member of sheet.cast) {
+      castScenes.set(member.castId, [...(castScenes.get(member.castId) ?? []), sheet.sceneIdentifier]);
+      if (castById.has(member.castId)) continue;
+
+      const roleType = member.characterId ? characterById.get(member.characterId)?.roleType : null;
+      const onSet = startOf(sheet.sceneId);
+      const makeup = onSet - ((roleType && PREP_MINUTES[roleType]) ?? DEFAULT_PREP_MINUTES);
+      castById.set(member.castId, {
+        castId: member.castId,
+        name: member.name,
+        characterId: member.characterId,
+        status: input.statusByCastKey.get(member.characterId ?? `name:${member.name}`) ?? null,
+        pickup: formatClock(makeup - PICKUP_LEAD_MINUTES),
+        makeup: formatClock(makeup),
+        onSet: formatClock(onSet),
+        remarks: null,
+      });
+    }
+  }
+  const cast = Array.from(castById.values())
+    .sort((a, b) => a.castId - b.castId)
+    .map(call => ({ ...call, remarks: `场 ${castScenes.get(call.castId)!.join(", ")}` }));
+
+  const backgroundByName = new Map<string, CallSheetBackgroundCall>();
+  for (const sheet of sheets) {
+    for (const item of sheet.background) {
+      const existing = backgroundByName.get(item.name);
+      if (existing) {
+        existing.quantity = item.quantity !== null ? Math.max(existing.quantity ?? 0, item.quantity) : existing.quantity;
+        existing.sceneIdentifiers.push(sheet.sceneIdentifier);
+        continue;
+      }
+      backgroundByName.set(item.name, {
+        name: item.name,
+        quantity: item.quantity,
+        callTime: formatClock(startOf(sheet.sceneId) - BACKGROUND_LEAD_MINUTES),
+        sceneIdentifiers: [sheet.sceneIdentifier],
+        notes: item.notes,
+      });
+    }
+  }
+
+  // One line per item with the scenes that need it
+  const requirements: CallSheetRequirement[] = [];
+  const addRequirement = (label: string, pick: (sheet: BreakdownSheet) => BreakdownSheetItem[]) => {
+    const lines = new Map<string, string[]>();
+    for (const sheet of sheets) {
+      for (const item of pick(sheet)) {
+        const text = itemText(item);
+        lines.set(text, [...(lines.get(text) ?? []), sheet.sceneIdentifier]);
+      }
+    }
+    if (lines.size > 0) {
+      requirements.push({ label, items: Array.from(lines.entries()).map(([text, ids]) => `${text} — 场 ${ids.join(", ")}`) });
+    }
+  };
+  addRequirement("道具", sheet => sheet.props);
+  addRequirement("服装", sheet => sheet.wardrobe);
+  addRequirement("化妆/发型", sheet => sheet.makeup);
+  addRequirement("车辆", sheet => sheet.vehicles);
+  addRequirement("特殊器材", sheet => sheet.specialEquipment);
+  const otherCategories = Array.from(new Set(sheets.flatMap(sheet => sheet.other.map(group => group.category))));
+  for (const category of otherCategories) {
+    addRequirement(breakdownCategoryInfo[category].nameCN, sheet => sheet.other.find(group => group.category === category)?.items ?? []);
+  }
+
+  const continuity = sheets.flatMap(sheet => (input.productionNotes.get(sheet.sceneId) || [])
+    .filter(note => note.continuityNotes?.trim())
+    .map(note => {
+      const owner = note.characterId ? characterById.get(note.characterId)?.name : undefined;
+      return `场 ${sheet.sceneIdentifier}${owner ? ` ${owner}` : ""}：${note.continuityNotes!.trim()}`;
+    }));
+  if (continuity.length > 0) requirements.push({ label: "连戏", items: continuity });
+
+  return {
+    projectTitle: input.projectTitle,
+    dayNumber: input.dayNumber,
+    totalDays: input.totalDays,
+    scenes,
+    totalPageEighths: sheets.reduce((sum, sheet) => sum + (sheet.pageEighths ?? 0), 0),
+    cast,
+    background: Array.from(backgroundByName.values()),
+    requirements,
+    advance: input.advance,
+    notes: input.notes,
+  };
+}
+
+function dayNightText(dayNight: "day" | "night" | null): string {
+  return dayNight === "day" ? "日" : dayNight === "night" ? "夜" : "";
+}
+
+// Plain-text rendering kept in rawText, which scene matching and older views read
+export function callSheetText(title: string, shootDate: string | null, generalCall: string, shootingCall: string, details: CallSheetDetails): string {
+  const lines: string[] = [
+    title,
+    `${details.projectTitle}${details.dayNumber ? `  第${details.dayNumber}天${details.totalDays ? `/共${details.totalDays}天` : ""}` : ""}`,
+    `拍摄日期：${shootDate ?? "待定"}  全组集合：${generalCall}  开机：${shootingCall}`,
+    "",
+    "【场次】",
+    ...details.scenes.map(scene => [
+      `${scene.startTime} 第${scene.sceneIdentifier}场`,
+      scene.intExt ? sceneIntExtLabels[scene.intExt] : "",
+      dayNightText(scene.dayNight),
+      scene.location ?? "",
+      `${formatPageEighths(scene.pageEighths)}页`,
+      scene.castIds.length > 0 ? `演员 ${scene.castIds.join(",")}` : "",
+      scene.synopsis,
+    ].filter(Boolean).join("  ")),
+    `共 ${details.scenes.length} 场 ${formatPageEighths(details.totalPageEighths) || "0"} 页`,
+    "",
+    "【演员】",
+    ...details.cast.map(call => `${call.castId}. ${call.name}${call.status ? ` [${call.status}]` : ""}  接送 ${call.pickup}  化妆 ${call.makeup}  到场 ${call.onSet}  ${call.remarks ?? ""}`.trim()),
+  ];
+  if (details.background.length > 0) {
+    lines.push("", "【群演】", ...details.background.map(call => `${call.name}${call.quantity ? ` ×${call.quantity}` : ""}  ${call.callTime}  场 ${call.sceneIdentifiers.join(", ")}${call.notes ? `  ${call.notes}` : ""}`));
+  }
+  for (const requirement of details.requirements) {
+    lines.push("", `【${requirement.label}】`, ...requirement.items);
+  }
+  if (details.advance) {
+    lines.push("", `【预告：第${details.advance.dayNumber}天${details.advance.date ? ` ${details.advance.date}` : ""}】`, ...details.advance.scenes.map(scene =>
+      [`第${scene.sceneIdentifier}场`, scene.intExt ? sceneIntExtLabels[scene.intExt] : "", dayNightText(scene.dayNight), scene.location ?? "", `${formatPageEighths(scene.pageEighths)}页`].filter(Boolean).join("  ")
+    ));
+  }
+  if (details.notes.trim()) {
+    lines.push("", "【备注】", details.notes.trim());
+  }
+  return lines.join("\n");
+}
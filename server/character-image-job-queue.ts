@@ -1,5 +1,11 @@
 import type { CharacterPoseType, CharacterImageVariantStatus, ImageProvider } from "@shared/schema";
 import { generateImage } from "./image-providers";
+import { outputFrame } from "./output-frame";
+import { saveAsset } from "./asset-store";
+import { assetUrl } from "@shared/asset-url";
+
+// Character references are square; the prompt already describes their look
+const CHARACTER_FRAME = outputFrame("1:1");
 
 interface CharacterImageJob {
   id: string;
@@ -104,12 +110,12 @@ async function processJob(job: CharacterImageJob) {
   });
 
   try {
-    const result = await generateImage(job.prompt, job.provider);
-    const base64Image = `data:image/png;base64,${result.buffer.toString("base64")}`;
+    const result = await generateImage(job.prompt, job.provider, CHARACTER_FRAME);
+    const image = await saveAsset(result.buffer);
 
     console.log(`[CharacterImageJobQueue] Job ${job.id} completed successfully with ${result.provider}`);
     const updated = await updateVariantWithRetry(job.variantId, {
-      imageUrl: base64Image,
+      imageUrl: assetUrl(image.id),
       status: "completed" as CharacterImageVariantStatus,
       errorMessage: null,
     });
@@ -0,0 +1,183 @@
+import type {
+  BreakdownSheet,
+  BreakdownSheetCastMember,
+  CallSheet,
+  DoodCastRow,
+  DoodDay,
+  DoodMarker,
+  DoodReport,
+  DoodTravelDay,
+  Project,
+  ShootingSchedule,
+} from "@shared/schema";
+
+// Day Out of Days: cast per scene comes from the breakdown sheets, so cast ID
+// numbers match the breakdown sheets and the stripboard.
+
+// An actor may be dropped and picked up later only across a gap of more than ten days
+export const DROP_AFTER_DAYS = 10;
+
+export interface DoodDayInput {
+  dayKey: string;
+  date: string | null;
+  sceneIds: string[];
+}
+
+export function castKeyOf(member: Pick<BreakdownSheetCastMember, "characterId" | "name">): string {
+  return member.characterId ?? `name:${member.name}`;
+}
+
+function dateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export interface DoodCallSheetInput {
+  shootDate: CallSheet["shootDate"];
+  sceneIds: string[];
+}
+
+// Call sheets for the same date make one shoot day
+export function doodDaysFromCallSheets(callSheets: DoodCallSheetInput[]): DoodDayInput[] {
+  const days = new Map<string, Set<string>>();
+  for (const callSheet of callSheets) {
+    if (!callSheet.shootDate) continue;
+    const key = dateKey(new Date(callSheet.shootDate));
+    const sceneIds = days.get(key) ?? new Set<string>();
+    days.set(key, sceneIds);
+    callSheet.sceneIds.forEach(id => sceneIds.add(id));
+  }
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, sceneIds]) => ({ dayKey: key, date: key, sceneIds: Array.from(sceneIds) }));
+}
+
+export function doodDaysFromSchedule(schedule: ShootingSchedule): DoodDayInput[] {
+  return schedule.days.map(day => ({
+    dayKey: day.shootDate ? dateKey(new Date(day.shootDate)) : `day:${day.dayBreakStripId}`,
+    date: day.shootDate ? dateKey(new Date(day.shootDate)) : null,
+    sceneIds: day.strips.flatMap(entry => (entry.kind === "scene" && !entry.scene.isOmitted ? [entry.scene.sceneId] : [])),
+  }));
+}
+
+function gapDays(days: DoodDayInput[], from: number, to: number): number {
+  const start = days[from].date;
+  const end = days[to].date;
+  if (start && end) {
+    return Math.round((Date.parse(end) - Date.parse(start)) / 86_400_000) - 1;
+  }
+  return to - from - 1;
+}
+
+function castRow(member: BreakdownSheetCastMember, worked: Set<number>, travel: Set<number>, days: DoodDayInput[]): DoodCastRow {
+  const markers: (DoodMarker | null)[] = days.map(() => null);
+  const workIndexes = Array.from(worked).sort((a, b) => a - b);
+  let holdDays = 0;
+  let dropDays = 0;
+
+  // Work days followed by a gap long enough to drop the actor
+  const drops = new Set(workIndexes.filter((index, position) => {
+    const next = workIndexes[position + 1];
+    return next !== undefined && gapDays(days, index, next) > DROP_AFTER_DAYS;
+  }));
+
+  workIndexes.forEach((index, position) => {
+    const isFirst = position === 0;
+    const isLast = position === workIndexes.length - 1;
+    const pickedUp = !isFirst && drops.has(workIndexes[position - 1]);
+    if (isFirst) markers[index] = isLast ? "SWF" : "SW";
+    else if (isLast) markers[index] = "WF";
+    else if (drops.has(index)) markers[index] = "WD";
+    else markers[index] = pickedUp ? "PW" : "W";
+
+    const next = workIndexes[position + 1];
+    for (let i = index + 1; next !== undefined && i < next; i++) {
+      if (travel.has(i)) continue;
+      if (drops.has(index)) {
+        dropDays++;
+      } else {
+        markers[i] = "H";
+        holdDays++;
+      }
+    }
+  });
+
+  // Travel never overrides a work day
+  travel.forEach(index => {
+    if (!worked.has(index)) markers[index] = "T";
+  });
+
+  const travelDays = markers.filter(marker => marker === "T").length;
+  return {
+    castId: member.castId,
+    castKey: castKeyOf(member),
+    name: member.name,
+    characterId: member.characterId,
+    markers,
+    workDays: workIndexes.length,
+    holdDays,
+    travelDays,
+    dropDays,
+    totalDays: workIndexes.length + holdDays + travelDays,
+    startDay: workIndexes.length > 0 ? workIndexes[0] + 1 : null,
+    finishDay: workIndexes.length > 0 ? workIndexes[workIndexes.length - 1] + 1 : null,
+  };
+}
+
+export interface DoodInput {
+  project: Pick<Project, "id" | "title">;
+  source: DoodReport["source"];
+  days: DoodDayInput[];
+  sheets: BreakdownSheet[];
+  castList: BreakdownSheetCastMember[];
+  travel: Pick<DoodTravelDay, "castKey" | "dayKey">[];
+}
+
+export function buildDood(input: DoodInput): DoodReport {
+  const { days } = input;
+  const sheetBySceneId = new Map(input.sheets.map(sheet => [sheet.sceneId, sheet]));
+  const dayIndexByKey = new Map(days.map((day, index) => [day.dayKey, index]));
+
+  const worked = new Map<string, Set<number>>();
+  days.forEach((day, index) => {
+    for (const sceneId of day.sceneIds) {
+      const sheet = sheetBySceneId.get(sceneId);
+      if (!sheet || sheet.isOmitted) continue;
+      for (const member of sheet.cast) {
+        const key = castKeyOf(member);
+        worked.set(key, (worked.get(key) ?? new Set<number>()).add(index));
+      }
+    }
+  });
+
+  const travel = new Map<string, Set<number>>();
+  for (const entry of input.travel) {
+    const index = dayIndexByKey.get(entry.dayKey);
+    if (index === undefined) continue;
+    travel.set(entry.castKey, (travel.get(entry.castKey) ?? new Set<number>()).add(index));
+  }
+
+  const cast = input.castList
+    .filter(member => worked.has(castKeyOf(member)) || travel.has(castKeyOf(member)))
+    .map(member => castRow(member, worked.get(castKeyOf(member)) ?? new Set(), travel.get(castKeyOf(member)) ?? new Set(), days));
+
+  const doodDays: DoodDay[] = days.map((day, index) => ({
+    dayNumber: index + 1,
+    dayKey: day.dayKey,
+    date: day.date,
+    sceneIdentifiers: day.sceneIds.flatMap(sceneId => {
+      const sheet = sheetBySceneId.get(sceneId);
+      return sheet ? [sheet.sceneIdentifier] : [];
+    }),
+    castCount: cast.filter(row => row.markers[index] && row.markers[index] !== "H" && row.markers[index] !== "T").length,
+  }));
+
+  return {
+    projectId: input.project.id,
+    projectTitle: input.project.title,
+    generatedAt: new Date().toISOString(),
+    source: input.source,
+    days: doodDays,
+    cast,
+  };
+}
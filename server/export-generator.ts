@@ -0,0 +1,928 @@
+import { Buffer } from "node:buffer";
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import * as XLSX from "@e965/xlsx";
+import {
+  AlignmentType,
+  CharacterSet,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+import {
+  shotTypeInfo,
+  cameraAngleInfo,
+  cameraMovementInfo,
+  projectTypeInfo,
+  characterRoleTypeLabels,
+  breakdownCategoryInfo,
+  sceneIntExtLabels,
+  type Project,
+  type Script,
+  type Scene,
+  type Shot,
+  type Character,
+  type PerformanceGuide,
+  type ProductionNotes,
+  type SceneAnalysis,
+  type BreakdownSheet,
+  type BreakdownSheetItem,
+  type BreakdownSheetReport,
+  type DoodReport,
+  type CallSheet,
+  type CallSheetDetails,
+} from "@shared/schema";
+import { formatPageEighths } from "@shared/page-eighths";
+
+export type ExportFormat = "pdf" | "excel" | "word";
+
+export interface ExportScene extends Scene {
+  shots?: Shot[];
+  shotImages?: Record<string, Buffer>; // by shot id
+  performanceGuides?: PerformanceGuide[];
+  productionNotes?: ProductionNotes[];
+  analysis?: SceneAnalysis;
+}
+
+export interface ExportData {
+  project: Pick<Project, "id" | "title" | "type" | "description" | "createdAt">;
+  exportedAt: string;
+  format: ExportFormat;
+  includeVersions: boolean;
+  scripts?: Script[];
+  scenes?: ExportScene[];
+  characters: Character[];
+  dood?: DoodReport; // Excel only
+}
+
+export interface ExportFile {
+  buffer: Buffer;
+  mimeType: string;
+  extension: string;
+}
+
+const CJK_FONT_NAME = "Noto Sans SC";
+const FONT_PACKAGE_DIR = path.resolve(process.cwd(), "node_modules/@expo-google-fonts/noto-sans-sc");
+
+// EXPORT_CJK_FONT_PATH / EXPORT_CJK_BOLD_FONT_PATH allow swapping in a house font (TTF/OTF)
+const fontCache = new Map<string, Buffer>();
+
+function loadFont(weight: "regular" | "bold"): Buffer {
+  const cached = fontCache.get(weight);
+  if (cached) return cached;
+
+  const candidates = weight === "bold"
+    ? [process.env.EXPORT_CJK_BOLD_FONT_PATH, path.join(FONT_PACKAGE_DIR, "700Bold/NotoSansSC_700Bold.ttf")]
+    : [process.env.EXPORT_CJK_FONT_PATH, path.join(FONT_PACKAGE_DIR, "400Regular/NotoSansSC_400Regular.ttf")];
+
+  for (const candidate of candidates) {
+    if (candidate && fs.existsSync(candidate)) {
+      const buffer = fs.readFileSync(candidate);
+      fontCache.set(weight, buffer);
+      return buffer;
+    }
+  }
+
+  if (weight === "bold") {
+    return loadFont("regular");
+  }
+  throw new Error("未找到中文字体文件，请安装 @expo-google-fonts/noto-sans-sc 或设置 EXPORT_CJK_FONT_PATH");
+}
+
+export async function generateExportFile(data: ExportData): Promise<ExportFile> {
+  switch (data.format) {
+    case "pdf":
+      return { buffer: await renderPdf(buildDocumentBlocks(data)), mimeType: "application/pdf", extension: "pdf" };
+    case "word":
+      return {
+        buffer: await renderDocx(buildDocumentBlocks(data)),
+        mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        extension: "docx",
+      };
+    case "excel":
+      return {
+        buffer: renderXlsx(data),
+        mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+      };
+    default:
+      throw new Error(`Unknown export format: ${data.format}`);
+  }
+}
+
+// ============================================
+// 通用文档结构 (PDF / Word 共用)
+// ============================================
+
+type DocumentBlock =
+  | { kind: "title"; text: string }
+  | { kind: "heading"; level: 1 | 2 | 3; text: string }
+  | { kind: "fields"; fields: [string, string][] }
+  | { kind: "text"; text: string }
+  | { kind: "image"; data: Buffer; type: "png" | "jpg" };
+
+function formatDate(value: Date | string | null | undefined): string {
+  if (!value) return "";
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleString("zh-CN", { hour12: false });
+}
+
+function formatDuration(seconds: number | null | undefined): string {
+  if (!seconds) return "";
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}分${rest > 0 ? `${rest}秒` : ""}` : `${rest}秒`;
+}
+
+function sceneLabel(scene: Scene): string {
+  const identifier = scene.sceneIdentifier || String(scene.sceneNumber);
+  return `第${identifier}场 ${scene.isOmitted ? "（已删除 OMITTED）" : scene.title}`;
+}
+
+function characterName(characters: Character[], characterId: string | null): string {
+  if (!characterId) return "通用";
+  return characters.find(c => c.id === characterId)?.name || "未知角色";
+}
+
+function shotFields(shot: Shot): [string, string][] {
+  return compactFields([
+    ["景别", shot.shotType ? shotTypeInfo[shot.shotType]?.nameCN || shot.shotType : ""],
+    ["机位角度", shot.cameraAngle ? cameraAngleInfo[shot.cameraAngle]?.nameCN || shot.cameraAngle : ""],
+    ["运镜", shot.cameraMovement ? cameraMovementInfo[shot.cameraMovement]?.nameCN || shot.cameraMovement : ""],
+    ["时长", formatDuration(shot.duration)],
+    ["画幅", shot.aspectRatio === "custom" ? shot.customAspectRatio || "" : shot.aspectRatio || ""],
+    ["氛围", shot.atmosphere || ""],
+    ["备注", shot.notes || ""],
+  ]);
+}
+
+function compactFields(fields: [string, string][]): [string, string][] {
+  return fields.filter(([, value]) => value.trim().length > 0);
+}
+
+function decodeShotImage(data: Buffer | undefined): { data: Buffer; type: "png" | "jpg" } | null {
+  if (!data || data.length < 4) return null;
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return { data, type: "png" };
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return { data, type: "jpg" };
+  }
+  return null;
+}
+
+function buildDocumentBlocks(data: ExportData): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const { project, characters } = data;
+
+  blocks.push({ kind: "title", text: project.title });
+  blocks.push({
+    kind: "fields",
+    fields: compactFields([
+      ["项目类型", projectTypeInfo[project.type]?.nameCN || project.type],
+      ["项目简介", project.description || ""],
+      ["创建时间", formatDate(project.createdAt)],
+      ["导出时间", formatDate(data.exportedAt)],
+    ]),
+  });
+
+  if (characters.length > 0) {
+    blocks.push({ kind: "heading", level: 1, text: "角色表" });
+    for (const character of characters) {
+      const role = character.roleType ? characterRoleTypeLabels[character.roleType] : "";
+      blocks.push({ kind: "heading", level: 3, text: role ? `${character.name}（${role}）` : character.name });
+      if (character.description) {
+        blocks.push({ kind: "text", text: character.description });
+      }
+    }
+  }
+
+  if (data.scripts && data.scripts.length > 0) {
+    blocks.push({ kind: "heading", level: 1, text: "剧本" });
+    for (const script of data.scripts) {
+      if (data.scripts.length > 1) {
+        blocks.push({
+          kind: "heading",
+          level: 2,
+          text: `版本 v${script.version}${script.isActive ? "（当前）" : ""}`,
+        });
+      }
+      blocks.push({ kind: "text", text: script.content });
+    }
+  }
+
+  if (data.scenes && data.scenes.length > 0) {
+    blocks.push({ kind: "heading", level: 1, text: "场次详情" });
+    for (const scene of data.scenes) {
+      blocks.push({ kind: "heading", level: 2, text: sceneLabel(scene) });
+      blocks.push({
+        kind: "fields",
+        fields: compactFields([
+          ["地点", scene.location || ""],
+          ["时间", scene.timeOfDay || ""],
+          ["页数", formatPageEighths(scene.pageEighths)],
+          ["时长", formatDuration(scene.duration)],
+          ["场景描述", scene.description || ""],
+        ]),
+      });
+
+      if (scene.analysis) {
+        blocks.push({ kind: "heading", level: 3, text: "戏剧分析" });
+        blocks.push({
+          kind: "fields",
+          fields: compactFields([
+            ["戏点", scene.analysis.dramaticPoint || ""],
+            ["开场设计", scene.analysis.openingDesign || ""],
+            ["高潮点", scene.analysis.climaxPoint || ""],
+            ["节奏", scene.analysis.rhythmNotes || ""],
+            ["转入", scene.analysis.transitionIn || ""],
+            ["转出", scene.analysis.transitionOut || ""],
+          ]),
+        });
+      }
+
+      if (scene.shots && scene.shots.length > 0) {
+        blocks.push({ kind: "heading", level: 3, text: "分镜头" });
+        for (const shot of scene.shots) {
+          blocks.push({ kind: "text", text: `镜头 ${shot.shotNumber}：${shot.description}` });
+          const image = decodeShotImage(scene.shotImages?.[shot.id]);
+          if (image) {
+            blocks.push({ kind: "image", ...image });
+          }
+          blocks.push({ kind: "fields", fields: shotFields(shot) });
+        }
+      }
+
+      if (scene.performanceGuides && scene.performanceGuides.length > 0) {
+        blocks.push({ kind: "heading", level: 3, text: "表演指导" });
+        for (const guide of scene.performanceGuides) {
+          blocks.push({
+            kind: "fields",
+            fields: compactFields([
+              ["角色", characterName(characters, guide.characterId)],
+              ["情绪（前）", guide.emotionBefore || ""],
+              ["情绪（中）", guide.emotionDuring || ""],
+              ["情绪（后）", guide.emotionAfter || ""],
+              ["台词建议", guide.dialogueSuggestions || ""],
+              ["动作建议", guide.actionSuggestions || ""],
+              ["导演备注", guide.directorNotes || ""],
+            ]),
+          });
+          for (const option of guide.performanceOptions || []) {
+            const actions = option.actions.length > 0 ? `（${option.actions.join("、")}）` : "";
+            blocks.push({ kind: "text", text: `· ${option.option}：${option.description}${actions}` });
+          }
+        }
+      }
+
+      if (scene.productionNotes && scene.productionNotes.length > 0) {
+        blocks.push({ kind: "heading", level: 3, text: "服化道" });
+        for (const note of scene.productionNotes) {
+          blocks.push({
+            kind: "fields",
+            fields: compactFields([
+              ["角色", characterName(characters, note.characterId)],
+              ["服装", note.costumeNotes || ""],
+              ["化妆", note.makeupNotes || ""],
+              ["道具", (note.propsRequired || []).join("、")],
+              ["连戏", note.continuityNotes || ""],
+            ]),
+          });
+        }
+      }
+    }
+  }
+
+  return blocks;
+}
+
+// ============================================
+// PDF 渲染
+// ============================================
+
+function createPdfDocument(margin: number): { doc: PDFKit.PDFDocument; done: Promise<Buffer> } {
+  const doc = new PDFDocument({ size: "A4", margin, bufferPages: true });
+  doc.registerFont("cjk", loadFont("regular"));
+  doc.registerFont("cjk-bold", loadFont("bold"));
+  doc.font("cjk");
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+  return { doc, done };
+}
+
+function addPageNumbers(doc: PDFKit.PDFDocument) {
+  const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font("cjk").fontSize(8).fillColor("#888888").text(
+      `${i + 1} / ${range.count}`,
+      doc.page.margins.left,
+      doc.page.height - 30,
+      { width: contentWidth, align: "center" },
+    );
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+async function renderPdf(blocks: DocumentBlock[]): Promise<Buffer> {
+  const { doc, done } = createPdfDocument(50);
+  const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case "title":
+        doc.font("cjk-bold").fontSize(22).text(block.text, { align: "center" });
+        doc.moveDown();
+        break;
+      case "heading": {
+        const size = block.level === 1 ? 16 : block.level === 2 ? 13 : 11;
+        if (block.level === 1) doc.moveDown();
+        doc.font("cjk-bold").fontSize(size).text(block.text, doc.page.margins.left);
+        doc.moveDown(0.3);
+        break;
+      }
+      case "fields":
+        doc.fontSize(10);
+        for (const [label, value] of block.fields) {
+          doc.font("cjk-bold").text(`${label}：`, doc.page.margins.left, undefined, { continued: true });
+          doc.font("cjk").text(value);
+        }
+        doc.moveDown(0.5);
+        break;
+      case "text":
+        doc.font("cjk").fontSize(10).text(block.text, doc.page.margins.left, undefined, { lineGap: 2 });
+        doc.moveDown(0.3);
+        break;
+      case "image": {
+        const width = Math.min(contentWidth, 320);
+        const height = width * 0.75;
+        if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+          doc.addPage();
+        }
+        try {
+          doc.image(block.data, doc.page.margins.left, doc.y, { fit: [width, height] });
+          doc.y += height + 6;
+        } catch (error) {
+          console.warn("[Export] Skipping unreadable shot image:", error);
+        }
+        break;
+      }
+    }
+  }
+
+  addPageNumbers(doc);
+  doc.end();
+  return done;
+}
+
+// ============================================
+// 拆解表 PDF (Breakdown Sheets)
+// 封面为演员编号表，之后每个场次一页标准拆解表。
+// ============================================
+
+function sheetItemLines(items: BreakdownSheetItem[]): string {
+  return items
+    .map(item => `${item.name}${item.quantity ? ` ×${item.quantity}` : ""}${item.notes ? `（${item.notes}）` : ""}`)
+    .join("\n");
+}
+
+function dayNightLabel(sheet: BreakdownSheet): string {
+  if (sheet.dayNight === "day") return sheet.timeOfDay && sheet.timeOfDay !== "日" ? `日（${sheet.timeOfDay}）` : "日";
+  if (sheet.dayNight === "night") return sheet.timeOfDay && sheet.timeOfDay !== "夜" ? `夜（${sheet.timeOfDay}）` : "夜";
+  return sheet.timeOfDay || "";
+}
+
+function drawLabeledBox(doc: PDFKit.PDFDocument, x: number, y: number, width: number, height: number, label: string, value: string, valueSize = 10) {
+  doc.lineWidth(0.5).strokeColor("#444444").rect(x, y, width, height).stroke();
+  doc.font("cjk").fontSize(7).fillColor("#666666").text(label, x + 4, y + 3, { width: width - 8, lineBreak: false });
+  doc.font("cjk").fontSize(valueSize).fillColor("#000000").text(value, x + 4, y + 14, { width: width - 8, lineGap: 1 });
+}
+
+function drawBreakdownSheet(doc: PDFKit.PDFDocument, report: BreakdownSheetReport, sheet: BreakdownSheet) {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+
+  doc.font("cjk").fontSize(8).fillColor("#666666").text(report.projectTitle, left, doc.page.margins.top, { width, align: "right" });
+  doc.font("cjk-bold").fontSize(16).fillColor("#000000").text("剧本拆解表  BREAKDOWN SHEET", left, doc.page.margins.top, { width, align: "center" });
+  let y = doc.y + 10;
+
+  const headerCells: [string, string][] = [
+    ["场次 SCENE", sheet.sceneIdentifier],
+    ["内/外景 INT/EXT", sheet.intExt ? sceneIntExtLabels[sheet.intExt] : ""],
+    ["日/夜 D/N", dayNightLabel(sheet)],
+    ["页数 PAGES", formatPageEighths(sheet.pageEighths)],
+  ];
+  const cellWidth = width / headerCells.length;
+  headerCells.forEach(([label, value], index) => {
+    drawLabeledBox(doc, left + index * cellWidth, y, cellWidth, 36, label, value, 13);
+  });
+  y += 36;
+
+  drawLabeledBox(doc, left, y, width, 32, "场景 LOCATION", sheet.location || sheet.title);
+  y += 32;
+
+  if (sheet.isOmitted) {
+    doc.font("cjk-bold").fontSize(36).fillColor("#999999").text("OMITTED", left, y + 80, { width, align: "center" });
+    doc.font("cjk").fontSize(12).text("本场已从锁定剧本中删除", left, doc.y + 4, { width, align: "center" });
+    doc.fillColor("#000000");
+    return;
+  }
+
+  doc.font("cjk").fontSize(10);
+  const synopsisHeight = Math.max(36, doc.heightOfString(sheet.synopsis || " ", { width: width - 8 }) + 20);
+  drawLabeledBox(doc, left, y, width, synopsisHeight, "剧情 SYNOPSIS", sheet.synopsis);
+  y += synopsisHeight + 8;
+
+  const boxes: [string, string][] = [
+    ["演员 CAST", sheet.cast.map(member => `${member.castId}. ${member.name}`).join("\n")],
+    ["群演 BACKGROUND", sheetItemLines(sheet.background)],
+    ["道具 PROPS", sheetItemLines(sheet.props)],
+    ["服装 WARDROBE", sheetItemLines(sheet.wardrobe)],
+    ["化妆/发型 MAKEUP/HAIR", sheetItemLines(sheet.makeup)],
+    ["车辆 VEHICLES", sheetItemLines(sheet.vehicles)],
+    ["特殊器材 SPECIAL EQUIPMENT", sheetItemLines(sheet.specialEquipment)],
+    ...sheet.other.map(group => [
+      `${breakdownCategoryInfo[group.category].nameCN} ${breakdownCategoryInfo[group.category].name.toUpperCase()}`,
+      sheetItemLines(group.items),
+    ] as [string, string]),
+  ];
+  if (boxes.length % 2 === 1) boxes.push(["备注 NOTES", ""]);
+
+  const columnWidth = width / 2;
+  for (let i = 0; i < boxes.length; i += 2) {
+    const pair = boxes.slice(i, i + 2);
+    doc.font("cjk").fontSize(10);
+    const height = Math.max(70, ...pair.map(([, value]) => doc.heightOfString(value || " ", { width: columnWidth - 8, lineGap: 1 }) + 20));
+    if (y + height > bottom) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+    pair.forEach(([label, value], index) => drawLabeledBox(doc, left + index * columnWidth, y, columnWidth, height, label, value));
+    y += height;
+  }
+
+  if (sheet.unconfirmedTags > 0) {
+    doc.font("cjk").fontSize(8).fillColor("#B26A00").text(
+      `含 ${sheet.unconfirmedTags} 个未确认的AI标注`,
+      left,
+      Math.min(y + 6, bottom - 12),
+      { width },
+    );
+    doc.fillColor("#000000");
+  }
+}
+
+export async function generateBreakdownSheetPdf(report: BreakdownSheetReport): Promise<Buffer> {
+  const { doc, done } = createPdfDocument(40);
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  doc.font("cjk-bold").fontSize(22).text(report.projectTitle, { align: "center" });
+  doc.font("cjk").fontSize(12).text("剧本拆解表 · 演员编号", { align: "center" });
+  doc.fontSize(9).fillColor("#666666").text(`生成时间：${formatDate(report.generatedAt)}　共 ${report.sheets.length} 场`, { align: "center" });
+  doc.fillColor("#000000").moveDown(1.5);
+
+  for (const member of report.castList) {
+    doc.font("cjk-bold").fontSize(11).text(`${member.castId}.`, left, undefined, { continued: true, width });
+    doc.font("cjk").text(`  ${member.name}`);
+  }
+  if (report.castList.length === 0) {
+    doc.font("cjk").fontSize(10).fillColor("#666666").text("暂无演员", left);
+    doc.fillColor("#000000");
+  }
+
+  for (const sheet of report.sheets) {
+    doc.addPage();
+    drawBreakdownSheet(doc, report, sheet);
+  }
+
+  addPageNumbers(doc);
+  doc.end();
+  return done;
+}
+
+// ============================================
+// 通告单 PDF (Call Sheet)
+// 生成的通告单按表格排版；上传或粘贴的通告单只有原文，照原文打印。
+// ============================================
+
+interface TableColumn {
+  label: string;
+  width: number; // fraction of the content width
+}
+
+function drawSectionTitle(doc: PDFKit.PDFDocument, y: number, title: string): number {
+  const left = doc.page.margins.left;
+  if (y + 40 > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+    y = doc.page.margins.top;
+  }
+  doc.font("cjk-bold").fontSize(11).fillColor("#000000").text(title, left, y + 8);
+  return doc.y + 2;
+}
+
+function drawTable(doc: PDFKit.PDFDocument, y: number, columns: TableColumn[], rows: string[][]): number {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const widths = columns.map(column => column.width * width);
+  const xs = widths.map((_, index) => left + widths.slice(0, index).reduce((sum, w) => sum + w, 0));
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.font(header ? "cjk-bold" : "cjk").fontSize(header ? 8 : 9);
+    const height = Math.max(16, ...cells.map((value, index) => doc.heightOfString(value || " ", { width: widths[index] - 6 }) + 6));
+    if (y + height > bottom) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+    if (header) doc.rect(left, y, width, height).fill("#eeeeee");
+    doc.lineWidth(0.5).strokeColor("#444444");
+    cells.forEach((value, index) => {
+      doc.rect(xs[index], y, widths[index], height).stroke();
+      doc.fillColor("#000000").text(value, xs[index] + 3, y + 3, { width: widths[index] - 6 });
+    });
+    y += height;
+  };
+
+  drawRow(columns.map(column => column.label), true);
+  rows.forEach(row => drawRow(row, false));
+  return y;
+}
+
+function detailsDayNight(dayNight: "day" | "night" | null): string {
+  return dayNight === "day" ? "日" : dayNight === "night" ? "夜" : "";
+}
+
+function drawCallSheetDetails(doc: PDFKit.PDFDocument, callSheet: CallSheet, details: CallSheetDetails) {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+
+  const headerCells: [string, string][] = [
+    ["拍摄日期 DATE", callSheet.shootDate ? new Date(callSheet.shootDate).toISOString().split("T")[0] : "待定"],
+    ["拍摄日 DAY", details.dayNumber ? `第${details.dayNumber}天${details.totalDays ? ` / 共${details.totalDays}天` : ""}` : ""],
+    ["全组集合 GENERAL CALL", callSheet.generalCall ?? ""],
+    ["开机 SHOOTING CALL", callSheet.shootingCall ?? ""],
+  ];
+  let y = doc.y + 10;
+  const cellWidth = width / headerCells.length;
+  headerCells.forEach(([label, value], index) => {
+    drawLabeledBox(doc, left + index * cellWidth, y, cellWidth, 36, label, value, 13);
+  });
+  y += 36;
+
+  y = drawSectionTitle(doc, y, `场次 SCENES（共 ${details.scenes.length} 场 ${formatPageEighths(details.totalPageEighths) || "0"} 页）`);
+  y = drawTable(doc, y, [
+    { label: "时间", width: 0.08 },
+    { label: "场次", width: 0.08 },
+    { label: "内/外", width: 0.07 },
+    { label: "日/夜", width: 0.06 },
+    { label: "场景", width: 0.17 },
+    { label: "内容", width: 0.36 },
+    { label: "页数", width: 0.07 },
+    { label: "演员", width: 0.11 },
+  ], details.scenes.map(scene => [
+    scene.startTime,
+    scene.sceneIdentifier,
+    scene.intExt ? sceneIntExtLabels[scene.intExt] : "",
+    detailsDayNight(scene.dayNight),
+    scene.location ?? "",
+    scene.synopsis,
+    formatPageEighths(scene.pageEighths),
+    scene.castIds.join(", "),
+  ]));
+
+  y = drawSectionTitle(doc, y, "演员 CAST");
+  y = drawTable(doc, y, [
+    { label: "编号", width: 0.07 },
+    { label: "演员", width: 0.2 },
+    { label: "状态", width: 0.08 },
+    { label: "接送", width: 0.1 },
+    { label: "化妆", width: 0.1 },
+    { label: "到场", width: 0.1 },
+    { label: "备注", width: 0.35 },
+  ], details.cast.map(call => [String(call.castId), call.name, call.status ?? "", call.pickup, call.makeup, call.onSet, call.remarks ?? ""]));
+
+  if (details.background.length > 0) {
+    y = drawSectionTitle(doc, y, "群演 BACKGROUND");
+    y = drawTable(doc, y, [
+      { label: "群演", width: 0.3 },
+      { label: "人数", width: 0.1 },
+      { label: "到场", width: 0.1 },
+      { label: "场次", width: 0.2 },
+      { label: "备注", width: 0.3 },
+    ], details.background.map(call => [call.name, call.quantity ? String(call.quantity) : "", call.callTime, call.sceneIdentifiers.join(", "), call.notes ?? ""]));
+  }
+
+  if (details.requirements.length > 0) {
+    y = drawSectionTitle(doc, y, "特殊要求 REQUIREMENTS");
+    const columnWidth = width / 2;
+    for (let i = 0; i < details.requirements.length; i += 2) {
+      const pair = details.requirements.slice(i, i + 2);
+      doc.font("cjk").fontSize(9);
+      const height = Math.max(40, ...pair.map(requirement => doc.heightOfString(requirement.items.join("\n"), { width: columnWidth - 8, lineGap: 1 }) + 20));
+      if (y + height > bottom) {
+        doc.addPage();
+        y = doc.page.margins.top;
+      }
+      pair.forEach((requirement, index) => drawLabeledBox(doc, left + index * columnWidth, y, columnWidth, height, requirement.label, requirement.items.join("\n"), 9));
+      y += height;
+    }
+  }
+
+  if (details.advance) {
+    const advance = details.advance;
+    y = drawSectionTitle(doc, y, `预告 ADVANCE SCHEDULE：第${advance.dayNumber}天${advance.date ? ` ${advance.date}` : ""}`);
+    y = drawTable(doc, y, [
+      { label: "场次", width: 0.12 },
+      { label: "内/外", width: 0.1 },
+      { label: "日/夜", width: 0.08 },
+      { label: "场景", width: 0.4 },
+      { label: "页数", width: 0.1 },
+      { label: "演员", width: 0.2 },
+    ], advance.scenes.map(scene => [
+      scene.sceneIdentifier,
+      scene.intExt ? sceneIntExtLabels[scene.intExt] : "",
+      detailsDayNight(scene.dayNight),
+      scene.location ?? "",
+      formatPageEighths(scene.pageEighths),
+      scene.castIds.join(", "),
+    ]));
+  }
+
+  if (details.notes.trim()) {
+    y = drawSectionTitle(doc, y, "备注 NOTES");
+    doc.font("cjk").fontSize(10).fillColor("#000000").text(details.notes.trim(), left, y + 2, { width, lineGap: 2 });
+  }
+}
+
+export async function generateCallSheetPdf(callSheet: CallSheet): Promise<Buffer> {
+  const { doc, done } = createPdfDocument(36);
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  if (callSheet.details) {
+    doc.font("cjk").fontSize(8).fillColor("#666666").text(callSheet.details.projectTitle, left, doc.page.margins.top, { width, align: "right" });
+  }
+  doc.font("cjk-bold").fontSize(16).fillColor("#000000").text("通告单  CALL SHEET", left, doc.page.margins.top, { width, align: "center" });
+  doc.font("cjk").fontSize(11).text(callSheet.title, { width, align: "center" });
+
+  if (callSheet.details) {
+    drawCallSheetDetails(doc, callSheet, callSheet.details);
+  } else {
+    doc.moveDown();
+    doc.font("cjk").fontSize(10).text(callSheet.rawText || "", left, undefined, { width, lineGap: 2 });
+  }
+
+  addPageNumbers(doc);
+  doc.end();
+  return done;
+}
+
+// ============================================
+// Word 渲染
+// ============================================
+
+async function renderDocx(blocks: DocumentBlock[]): Promise<Buffer> {
+  const headingLevels = {
+    1: HeadingLevel.HEADING_1,
+    2: HeadingLevel.HEADING_2,
+    3: HeadingLevel.HEADING_3,
+  } as const;
+
+  const children: Paragraph[] = [];
+  for (const block of blocks) {
+    switch (block.kind) {
+      case "title":
+        children.push(new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, text: block.text }));
+        break;
+      case "heading":
+        children.push(new Paragraph({ heading: headingLevels[block.level], text: block.text }));
+        break;
+      case "fields":
+        for (const [label, value] of block.fields) {
+          children.push(new Paragraph({
+            children: [new TextRun({ text: `${label}：`, bold: true }), ...textRuns(value)],
+          }));
+        }
+        break;
+      case "text":
+        children.push(new Paragraph({ children: textRuns(block.text) }));
+        break;
+      case "image":
+        children.push(new Paragraph({
+          children: [new ImageRun({ type: block.type, data: block.data, transformation: { width: 400, height: 300 } })],
+        }));
+        break;
+    }
+  }
+
+  const doc = new Document({
+    fonts: [{ name: CJK_FONT_NAME, data: loadFont("regular"), characterSet: CharacterSet.GB_2312 }],
+    styles: {
+      default: {
+        document: {
+          run: { font: { ascii: CJK_FONT_NAME, eastAsia: CJK_FONT_NAME, hAnsi: CJK_FONT_NAME }, size: 21 },
+        },
+      },
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+// Word paragraphs do not honour "\n", so multi-line text is split into runs with breaks
+function textRuns(text: string): TextRun[] {
+  return text.split(/\r?\n/).map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined }));
+}
+
+// ============================================
+// Excel 渲染
+// ============================================
+
+// Excel caps a single cell at 32767 characters
+const MAX_CELL_LENGTH = 32767;
+
+function cell(value: string | number | null | undefined): string | number {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return value;
+  return value.length > MAX_CELL_LENGTH ? value.slice(0, MAX_CELL_LENGTH) : value;
+}
+
+function appendSheet(workbook: XLSX.WorkBook, name: string, rows: (string | number)[][], widths: number[]) {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = widths.map(wch => ({ wch }));
+  XLSX.utils.book_append_sheet(workbook, sheet, name);
+}
+
+function doodDayLabel(day: DoodReport["days"][number]): string {
+  return day.date ? `第${day.dayNumber}天 ${day.date.slice(5).replace("-", "/")}` : `第${day.dayNumber}天`;
+}
+
+function appendDoodSheet(workbook: XLSX.WorkBook, report: DoodReport) {
+  const dayLabel = (dayNumber: number | null) => {
+    const day = dayNumber ? report.days[dayNumber - 1] : undefined;
+    return day ? doodDayLabel(day) : "";
+  };
+  appendSheet(workbook, "演员日程表", [
+    ["编号", "演员", ...report.days.map(doodDayLabel), "工作", "待命", "差旅", "放假", "合计", "开工", "杀青"],
+    ["", "场次", ...report.days.map(day => cell(day.sceneIdentifiers.join(", "))), "", "", "", "", "", "", ""],
+    ...report.cast.map(row => [
+      row.castId,
+      cell(row.name),
+      ...row.markers.map(marker => marker ?? ""),
+      row.workDays,
+      row.holdDays,
+      row.travelDays,
+      row.dropDays,
+      row.totalDays,
+      dayLabel(row.startDay),
+      dayLabel(row.finishDay),
+    ]),
+    ["", "当日演员", ...report.days.map(day => day.castCount), "", "", "", "", "", "", ""],
+  ], [6, 14, ...report.days.map(() => 12), 6, 6, 6, 6, 6, 14, 14]);
+}
+
+export function generateDoodXlsx(report: DoodReport): Buffer {
+  const workbook = XLSX.utils.book_new();
+  appendDoodSheet(workbook, report);
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+function renderXlsx(data: ExportData): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const { project, characters } = data;
+  const scenes = data.scenes || [];
+
+  appendSheet(workbook, "项目信息", [
+    ["项目名称", cell(project.title)],
+    ["项目类型", cell(projectTypeInfo[project.type]?.nameCN || project.type)],
+    ["项目简介", cell(project.description)],
+    ["创建时间", cell(formatDate(project.createdAt))],
+    ["导出时间", cell(formatDate(data.exportedAt))],
+  ], [12, 80]);
+
+  if (characters.length > 0) {
+    appendSheet(workbook, "角色表", [
+      ["角色", "类型", "描述"],
+      ...characters.map(c => [
+        cell(c.name),
+        cell(c.roleType ? characterRoleTypeLabels[c.roleType] : ""),
+        cell(c.description),
+      ]),
+    ], [16, 10, 80]);
+  }
+
+  if (data.scripts && data.scripts.length > 0) {
+    const rows: (string | number)[][] = [["版本", "行号", "内容"]];
+    for (const script of data.scripts) {
+      script.content.split(/\r?\n/).forEach((line, index) => {
+        rows.push([`v${script.version}${script.isActive ? "（当前）" : ""}`, index + 1, cell(line)]);
+      });
+    }
+    appendSheet(workbook, "剧本", rows, [12, 8, 100]);
+  }
+
+  if (scenes.length > 0) {
+    appendSheet(workbook, "场次", [
+      ["场次", "标题", "地点", "时间", "页数", "页数(1/8页)", "时长(秒)", "场景描述"],
+      ...scenes.map(s => [
+        cell(s.sceneIdentifier || String(s.sceneNumber)),
+        cell(s.title),
+        cell(s.location),
+        cell(s.timeOfDay),
+        cell(formatPageEighths(s.pageEighths)),
+        cell(s.pageEighths),
+        cell(s.duration),
+        cell(s.description),
+      ]),
+    ], [8, 24, 16, 8, 8, 10, 10, 60]);
+  }
+
+  const shotRows = scenes.flatMap(s => (s.shots || []).map(shot => [
+    cell(s.sceneIdentifier || String(s.sceneNumber)),
+    shot.shotNumber,
+    cell(shot.description),
+    cell(shot.shotType ? shotTypeInfo[shot.shotType]?.nameCN || shot.shotType : ""),
+    cell(shot.cameraAngle ? cameraAngleInfo[shot.cameraAngle]?.nameCN || shot.cameraAngle : ""),
+    cell(shot.cameraMovement ? cameraMovementInfo[shot.cameraMovement]?.nameCN || shot.cameraMovement : ""),
+    cell(shot.duration),
+    cell(shot.atmosphere),
+    cell(shot.notes),
+  ]));
+  if (shotRows.length > 0) {
+    appendSheet(workbook, "分镜头", [
+      ["场次", "镜号", "画面描述", "景别", "机位角度", "运镜", "时长(秒)", "氛围", "备注"],
+      ...shotRows,
+    ], [8, 6, 60, 10, 10, 10, 10, 20, 30]);
+  }
+
+  const guideRows = scenes.flatMap(s => (s.performanceGuides || []).map(g => [
+    cell(s.sceneIdentifier || String(s.sceneNumber)),
+    cell(characterName(characters, g.characterId)),
+    cell(g.emotionBefore),
+    cell(g.emotionDuring),
+    cell(g.emotionAfter),
+    cell(g.dialogueSuggestions),
+    cell(g.actionSuggestions),
+    cell(g.directorNotes),
+  ]));
+  if (guideRows.length > 0) {
+    appendSheet(workbook, "表演指导", [
+      ["场次", "角色", "情绪（前）", "情绪（中）", "情绪（后）", "台词建议", "动作建议", "导演备注"],
+      ...guideRows,
+    ], [8, 12, 20, 20, 20, 40, 40, 40]);
+  }
+
+  const noteRows = scenes.flatMap(s => (s.productionNotes || []).map(n => [
+    cell(s.sceneIdentifier || String(s.sceneNumber)),
+    cell(characterName(characters, n.characterId)),
+    cell(n.costumeNotes),
+    cell(n.makeupNotes),
+    cell((n.propsRequired || []).join("、")),
+    cell(n.continuityNotes),
+  ]));
+  if (noteRows.length > 0) {
+    appendSheet(workbook, "服化道", [
+      ["场次", "角色", "服装", "化妆", "道具", "连戏"],
+      ...noteRows,
+    ], [8, 12, 40, 40, 40, 40]);
+  }
+
+  const analysisRows = scenes.filter(s => s.analysis).map(s => [
+    cell(s.sceneIdentifier || String(s.sceneNumber)),
+    cell(s.analysis!.dramaticPoint),
+    cell(s.analysis!.openingDesign),
+    cell(s.analysis!.climaxPoint),
+    cell(s.analysis!.rhythmNotes),
+    cell(s.analysis!.transitionIn),
+    cell(s.analysis!.transitionOut),
+  ]);
+  if (analysisRows.length > 0) {
+    appendSheet(workbook, "戏剧分析", [
+      ["场次", "戏点", "开场设计", "高潮点", "节奏", "转入", "转出"],
+      ...analysisRows,
+    ], [8, 40, 40, 40, 30, 30, 30]);
+  }
+
+  if (data.dood && data.dood.days.length > 0) {
+    appendDoodSheet(workbook, data.dood);
+  }
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
@@ -0,0 +1,110 @@
+import { DOMParser, type Element } from "@xmldom/xmldom";
+import type { ScreenplayElement, ScreenplayElementType } from "@shared/schema";
+import { buildScreenplay, type ParsedScreenplay } from "./screenplay";
+
+const paragraphTypeMap: Record<string, ScreenplayElementType> = {
+  "Scene Heading": "scene_heading",
+  "Action": "action",
+  "Character": "character",
+  "Parenthetical": "parenthetical",
+  "Dialogue": "dialogue",
+  "Transition": "transition",
+  "Shot": "shot",
+  "General": "general",
+};
+
+function childElements(parent: Element, tagName: string): Element[] {
+  const result: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === node.ELEMENT_NODE && (node as Element).tagName === tagName) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+// A paragraph's text is split over several <Text> runs (one per style change)
+function paragraphText(paragraph: Element): string {
+  return childElements(paragraph, "Text")
+    .map(text => text.textContent || "")
+    .join("")
+    .replace(/\r\n?/g, "\n")
+    .trim();
+}
+
+// Paragraphs inside <DualDialogue> are kept in document order (left speaker, then right)
+function collectParagraphs(container: Element): Element[] {
+  const result: Element[] = [];
+  for (let node = container.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType !== node.ELEMENT_NODE) continue;
+    const element = node as Element;
+    if (element.tagName === "Paragraph") {
+      result.push(element);
+      for (const dual of childElements(element, "DualDialogue")) {
+        result.push(...collectParagraphs(dual));
+      }
+    } else if (element.tagName === "DualDialogue") {
+      result.push(...collectParagraphs(element));
+    }
+  }
+  return result;
+}
+
+export function parseFdx(xml: string): ParsedScreenplay {
+  const errors: string[] = [];
+  const doc = new DOMParser({
+    onError: (level, message) => {
+      if (level !== "warning") errors.push(message);
+    },
+  }).parseFromString(xml, "text/xml");
+
+  const root = doc.documentElement;
+  if (!root || root.tagName !== "FinalDraft") {
+    throw new Error(`无效的 FDX 文件${errors.length > 0 ? `：${errors[0]}` : ""}`);
+  }
+
+  const content = childElements(root, "Content")[0];
+  if (!content) {
+    throw new Error("FDX 文件中没有剧本内容");
+  }
+
+  // The second speaker of each <DualDialogue> block is flagged so it can be written back side by side
+  const secondSpeakers = new Set<Element>();
+  for (const dual of Array.from(content.getElementsByTagName("DualDialogue"))) {
+    const cues = collectParagraphs(dual).filter(p => p.getAttribute("Type") === "Character");
+    if (cues[1]) secondSpeakers.add(cues[1]);
+  }
+
+  const elements: ScreenplayElement[] = [];
+  for (const paragraph of collectParagraphs(content)) {
+    const type = paragraphTypeMap[paragraph.getAttribute("Type") || ""] || "general";
+    const text = paragraphText(paragraph);
+    if (!text) continue;
+
+    const element: ScreenplayElement = { type, text };
+    const number = paragraph.getAttribute("Number");
+    if (type === "scene_heading" && number) {
+      element.sceneNumber = number;
+    }
+    if (secondSpeakers.has(paragraph)) {
+      element.dual = true;
+    }
+    elements.push(element);
+  }
+
+  let title: string | null = null;
+  const titlePage = childElements(root, "TitlePage")[0];
+  const titleContent = titlePage ? childElements(titlePage, "Content")[0] : undefined;
+  if (titleContent) {
+    for (const paragraph of collectParagraphs(titleContent)) {
+      const text = paragraphText(paragraph);
+      if (text) {
+        title = text;
+        break;
+      }
+    }
+  }
+
+  console.log(`[FDX Parser] Parsed ${elements.length} paragraphs`);
+  return buildScreenplay("fdx", title, elements);
+}
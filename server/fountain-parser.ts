@@ -0,0 +1,179 @@
+import type { ScreenplayElement } from "@shared/schema";
+import { buildScreenplay, type ParsedScreenplay } from "./screenplay";
+
+// Fountain (https://fountain.io/syntax) parser. Chinese scripts can use the
+// forcing marks ("." for headings, "@" for character cues) since CJK text has no
+// uppercase to trigger the implicit rules.
+
+const SCENE_HEADING_PATTERN = /^(?:INT\.?\/EXT|EXT\.?\/INT|INT|EXT|EST|I\/E)(?:\.|\s)/i;
+const SCENE_NUMBER_PATTERN = /\s*#([\w.\-]+)#\s*$/;
+const TRANSITION_PATTERN = /^[A-Z0-9 .'-]+TO:$/;
+
+function isUppercaseCue(line: string): boolean {
+  const name = line.replace(/\s*\^$/, "").replace(/\s*\([^)]*\)/g, "").trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[a-z]/.test(name);
+}
+
+function splitTitlePage(source: string): { title: string | null; body: string } {
+  const lines = source.split("\n");
+  if (!/^[A-Za-z][A-Za-z ]*:/.test(lines[0] || "")) {
+    return { title: null, body: source };
+  }
+
+  let title: string | null = null;
+  let currentKey = "";
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() === "") break;
+
+    const keyMatch = line.match(/^([A-Za-z][A-Za-z ]*):\s*(.*)$/);
+    if (keyMatch) {
+      currentKey = keyMatch[1].toLowerCase();
+      if (currentKey === "title" && keyMatch[2].trim()) {
+        title = keyMatch[2].trim();
+      }
+    } else if (currentKey === "title" && !title && line.trim()) {
+      title = line.trim();
+    }
+  }
+
+  return { title: title ? title.replace(/[*_]/g, "") : null, body: lines.slice(index + 1).join("\n") };
+}
+
+export function parseFountain(source: string): ParsedScreenplay {
+  let text = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").replace(/\t/g, "    ");
+
+  // Boneyard is commented-out material and never part of the script
+  text = text.replace(/\/\*[\s\S]*?\*\//g, "");
+
+  const { title, body } = splitTitlePage(text);
+
+  // Notes may span lines; pull them out as standalone elements at their position
+  const notes: string[] = [];
+  const withoutNotes = body.replace(/\[\[([\s\S]*?)\]\]/g, (_, note: string) => {
+    notes.push(note.trim());
+    return `\u0000NOTE${notes.length - 1}\u0000`;
+  });
+
+  const lines = withoutNotes.split("\n");
+  const elements: ScreenplayElement[] = [];
+  let inDialogue = false;
+
+  const pushNotes = (line: string): string => {
+    return line.replace(/\u0000NOTE(\d+)\u0000/g, (_, i: string) => {
+      elements.push({ type: "note", text: notes[parseInt(i, 10)] });
+      return "";
+    });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const line = pushNotes(raw).trimEnd();
+    const trimmed = line.trim();
+    const prevBlank = i === 0 || lines[i - 1].trim() === "";
+    const nextLine = lines[i + 1];
+    const nextBlank = nextLine === undefined || nextLine.trim() === "";
+
+    if (trimmed === "") {
+      // A line of exactly two spaces keeps a dialogue block going
+      if (!(inDialogue && raw === "  ")) {
+        inDialogue = false;
+      }
+      continue;
+    }
+
+    if (inDialogue) {
+      if (/^[（(].*[）)]$/.test(trimmed)) {
+        elements.push({ type: "parenthetical", text: trimmed });
+      } else if (trimmed.startsWith("~")) {
+        elements.push({ type: "lyric", text: trimmed.slice(1).trim() });
+      } else {
+        const last = elements[elements.length - 1];
+        if (last?.type === "dialogue") {
+          last.text += `\n${trimmed}`;
+        } else {
+          elements.push({ type: "dialogue", text: trimmed });
+        }
+      }
+      continue;
+    }
+
+    if (/^={3,}$/.test(trimmed)) {
+      elements.push({ type: "page_break", text: "" });
+      continue;
+    }
+
+    if (trimmed.startsWith("#")) {
+      const depth = trimmed.match(/^#+/)![0].length;
+      elements.push({ type: "section", text: trimmed.slice(depth).trim(), depth });
+      continue;
+    }
+
+    if (trimmed.startsWith("=")) {
+      elements.push({ type: "synopsis", text: trimmed.slice(1).trim() });
+      continue;
+    }
+
+    if (trimmed.startsWith("~")) {
+      elements.push({ type: "lyric", text: trimmed.slice(1).trim() });
+      continue;
+    }
+
+    if (/^>.*<$/.test(trimmed)) {
+      elements.push({ type: "centered", text: trimmed.slice(1, -1).trim() });
+      continue;
+    }
+
+    if (trimmed.startsWith("!")) {
+      elements.push({ type: "action", text: trimmed.slice(1) });
+      continue;
+    }
+
+    const forcedHeading = trimmed.startsWith(".") && !trimmed.startsWith("..");
+    if (prevBlank && (forcedHeading || SCENE_HEADING_PATTERN.test(trimmed))) {
+      const numberMatch = trimmed.match(SCENE_NUMBER_PATTERN);
+      const headingText = (forcedHeading ? trimmed.slice(1) : trimmed).replace(SCENE_NUMBER_PATTERN, "").trim();
+      const element: ScreenplayElement = { type: "scene_heading", text: headingText };
+      if (numberMatch) {
+        element.sceneNumber = numberMatch[1];
+      }
+      elements.push(element);
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      elements.push({ type: "transition", text: trimmed.slice(1).trim() });
+      continue;
+    }
+
+    if (prevBlank && nextBlank && TRANSITION_PATTERN.test(trimmed)) {
+      elements.push({ type: "transition", text: trimmed });
+      continue;
+    }
+
+    const forcedCue = trimmed.startsWith("@");
+    if (prevBlank && !nextBlank && (forcedCue || isUppercaseCue(trimmed))) {
+      const dual = /\^\s*$/.test(trimmed);
+      const cue = (forcedCue ? trimmed.slice(1) : trimmed).replace(/\s*\^\s*$/, "").trim();
+      const element: ScreenplayElement = { type: "character", text: cue };
+      if (dual) {
+        element.dual = true;
+      }
+      elements.push(element);
+      inDialogue = true;
+      continue;
+    }
+
+    // Consecutive action lines stay in one element so line breaks survive
+    const last = elements[elements.length - 1];
+    if (!prevBlank && last?.type === "action") {
+      last.text += `\n${line}`;
+    } else {
+      elements.push({ type: "action", text: line });
+    }
+  }
+
+  console.log(`[Fountain Parser] Parsed ${elements.length} elements`);
+  return buildScreenplay("fountain", title, elements);
+}
@@ -27,24 +27,40 @@ function createGeminiClient() {
 
 export const geminiClient = createGeminiClient();
 
-export async function generateCharacterImage(prompt: string): Promise<Buffer> {
+// An image passed alongside the prompt, e.g. a character's applied reference photo
+export interface ReferenceImage {
+  label: string; // tells the model what the image shows, e.g. "秦明 正脸近景"
+  mimeType: string;
+  data: string; // base64
+}
+
+// Each reference is preceded by its label so the prompt can refer to it by name
+export async function generateImageWithReferences(prompt: string, references: ReferenceImage[], aspectRatio: string, seed?: number): Promise<Buffer> {
   if (!geminiClient) {
     throw new Error("Gemini client is not configured. Please ensure Replit AI Integrations is set up.");
   }
   
   try {
-    console.log("[GeminiImageClient] Generating image with model: gemini-2.5-flash-image");
+    console.log(`[GeminiImageClient] Generating image with model: gemini-2.5-flash-image, ${aspectRatio}, ${references.length} reference images`);
     
     const response = await geminiClient.models.generateContent({
       model: "gemini-2.5-flash-image",
       contents: [
         {
           role: "user",
-          parts: [{ text: prompt }],
+          parts: [
+            ...references.flatMap(reference => [
+              { text: `Reference image: ${reference.label}` },
+              { inlineData: { mimeType: reference.mimeType, data: reference.data } },
+            ]),
+            { text: prompt },
+          ],
         },
       ],
       config: {
         responseModalities: [Modality.TEXT, Modality.IMAGE],
+        imageConfig: { aspectRatio },
+        seed,
       },
     });
     
@@ -0,0 +1,63 @@
+import sharp from "sharp";
+import { Buffer } from "node:buffer";
+
+// Region edits take a mask painted over the frame: painted (opaque or bright) pixels are
+// the area to change. Whatever the provider returns, only the painted area is copied back
+// onto the original, so the rest of the frame stays pixel-identical.
+
+const MASK_FEATHER = 3; // blur radius in pixels, hides the seam at the edge of the painted area
+
+export interface EditMask {
+  data: Buffer; // one byte per pixel at the image's size, 255 = edit
+  width: number;
+  height: number;
+  coverage: number; // painted share of the frame, 0..1
+}
+
+// Accepts a transparent canvas with painted strokes or a black-and-white mask, at any size;
+// it is stretched over the image it was painted on
+export async function prepareMask(mask: Buffer, image: Buffer): Promise<EditMask> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) throw new Error("Image has no dimensions");
+  const { channels } = await sharp(mask).stats();
+  // An alpha channel without transparent pixels carries no strokes, so the brightness is used
+  const alpha = channels.length === 2 ? 1 : channels.length === 4 ? 3 : null;
+  const resized = sharp(mask).resize({ width, height, fit: "fill" });
+  const channel = alpha !== null && channels[alpha].min < 255
+    ? resized.extractChannel(alpha)
+    : resized.toColourspace("b-w").extractChannel(0);
+  const data = await channel.threshold(128).raw().toBuffer();
+
+  let painted = 0;
+  for (let i = 0; i < data.length; i++) if (data[i] > 0) painted++;
+  return { data, width, height, coverage: painted / (width * height) };
+}
+
+export function maskToPng(mask: EditMask): Promise<Buffer> {
+  return sharp(mask.data, { raw: { width: mask.width, height: mask.height, channels: 1 } }).png().toBuffer();
+}
+
+// OpenAI edits the transparent area of its mask
+export function transparentMask(mask: EditMask): Promise<Buffer> {
+  const rgba = Buffer.alloc(mask.width * mask.height * 4);
+  for (let i = 0; i < mask.data.length; i++) rgba[i * 4 + 3] = 255 - mask.data[i];
+  return sharp(rgba, { raw: { width: mask.width, height: mask.height, channels: 4 } }).png().toBuffer();
+}
+
+export async function compositeMaskedEdit(original: Buffer, edited: Buffer, mask: EditMask): Promise<Buffer> {
+  const { width, height } = mask;
+  const [base, patch, weight] = await Promise.all([
+    sharp(original).resize({ width, height, fit: "fill" }).removeAlpha().toColourspace("srgb").raw().toBuffer(),
+    sharp(edited).resize({ width, height, fit: "fill" }).removeAlpha().toColourspace("srgb").raw().toBuffer(),
+    sharp(mask.data, { raw: { width, height, channels: 1 } }).blur(MASK_FEATHER).extractChannel(0).raw().toBuffer(),
+  ]);
+
+  for (let i = 0; i < weight.length; i++) {
+    const w = weight[i] / 255;
+    if (w === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      base[i * 3 + c] = Math.round(base[i * 3 + c] * (1 - w) + patch[i * 3 + c] * w);
+    }
+  }
+  return sharp(base, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
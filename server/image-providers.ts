@@ -1,25 +1,38 @@
 import { Buffer } from "node:buffer";
+import { randomInt } from "node:crypto";
 import { ImageProvider } from "@shared/schema";
-import { generateImageBuffer } from "./replit_integrations/image/client";
-import { generateCharacterImage as geminiGenerateImage } from "./gemini-image-client";
+import { editImageWithMask, generateImageBuffer } from "./replit_integrations/image/client";
+import { generateImageWithReferences, type ReferenceImage } from "./gemini-image-client";
+import { closestAspectRatio, fitImageToFrame, framePrompt, parseAspectRatio, type OutputFrame } from "./output-frame";
+import { compositeMaskedEdit, maskToPng, transparentMask, type EditMask } from "./image-mask";
 
 export interface ImageGenerationResult {
   buffer: Buffer;
   provider: ImageProvider;
+  seed: number | null; // null when the provider takes no seed
 }
 
+const OPENAI_SIZES = ["1024x1024", "1536x1024", "1024x1536"] as const;
+const GEMINI_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "9:16", "16:9", "21:9"] as const;
+
+// Providers without image inputs get the prompt only; callers describe the references in text too.
+// Each provider renders at its closest supported ratio and the result is cropped to the frame.
 export async function generateImage(
   prompt: string,
-  provider: ImageProvider = "openai"
+  provider: ImageProvider,
+  frame: OutputFrame,
+  references: ReferenceImage[] = []
 ): Promise<ImageGenerationResult> {
+  const framedPrompt = `${prompt}\n\n${framePrompt(frame)}`;
   switch (provider) {
     case "openai":
-      const openaiBuffer = await generateImageBuffer(prompt, "1024x1024");
-      return { buffer: openaiBuffer, provider: "openai" };
+      const openaiBuffer = await generateImageBuffer(framedPrompt, closestAspectRatio(frame.ratio, OPENAI_SIZES));
+      return { buffer: await fitImageToFrame(openaiBuffer, frame.ratio, "crop"), provider: "openai", seed: null };
       
     case "gemini":
-      const geminiBuffer = await geminiGenerateImage(prompt);
-      return { buffer: geminiBuffer, provider: "gemini" };
+      const seed = randomInt(2 ** 31 - 1);
+      const geminiBuffer = await generateImageWithReferences(framedPrompt, references, closestAspectRatio(frame.ratio, GEMINI_ASPECT_RATIOS), seed);
+      return { buffer: await fitImageToFrame(geminiBuffer, frame.ratio, "crop"), provider: "gemini", seed };
       
     case "jimeng":
     case "kling":
@@ -32,6 +45,49 @@ export async function generateImage(
   }
 }
 
+// Region edit of an existing frame. The image is letterboxed to the provider's closest ratio
+// so nothing is squeezed, the bars are cropped off again and only the masked area is kept.
+export async function editImageRegion(
+  image: Buffer,
+  mask: EditMask,
+  instruction: string,
+  provider: ImageProvider
+): Promise<ImageGenerationResult> {
+  const ratio = mask.width / mask.height;
+  const prompt = `Edit this film storyboard frame. Change only the masked area: ${instruction}
+Keep everything outside the mask unchanged, and match the frame's lighting, perspective, color and style.`;
+
+  switch (provider) {
+    case "openai": {
+      const size = closestAspectRatio(ratio, OPENAI_SIZES);
+      const target = parseAspectRatio(size)!;
+      const edited = await editImageWithMask(
+        await fitImageToFrame(image, target, "letterbox"),
+        await fitImageToFrame(await transparentMask(mask), target, "letterbox"),
+        prompt,
+        size
+      );
+      return { buffer: await compositeMaskedEdit(image, await fitImageToFrame(edited, ratio, "crop"), mask), provider: "openai", seed: null };
+    }
+
+    // No mask input, so the mask is sent as a second image the prompt refers to
+    case "gemini": {
+      const aspectRatio = closestAspectRatio(ratio, GEMINI_ASPECT_RATIOS);
+      const target = parseAspectRatio(aspectRatio)!;
+      const seed = randomInt(2 ** 31 - 1);
+      const references: ReferenceImage[] = [
+        { label: "frame to edit", mimeType: "image/png", data: (await fitImageToFrame(image, target, "letterbox")).toString("base64") },
+        { label: "mask, white marks the area to change", mimeType: "image/png", data: (await fitImageToFrame(await maskToPng(mask), target, "letterbox")).toString("base64") },
+      ];
+      const edited = await generateImageWithReferences(prompt, references, aspectRatio, seed);
+      return { buffer: await compositeMaskedEdit(image, await fitImageToFrame(edited, ratio, "crop"), mask), provider: "gemini", seed };
+    }
+
+    default:
+      throw new Error(`Provider "${provider}" does not support image edits. Please use openai or gemini.`);
+  }
+}
+
 export const providerLabels: Record<ImageProvider, string> = {
   openai: "OpenAI DALL-E",
   gemini: "NANO BANANA PRO (Gemini)",
@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { migrateLegacyAssets } from "./asset-migration";
+import { backfillCallSheetScenes } from "./call-sheet-migration";
+import { storage } from "./storage";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -33,6 +36,9 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Response bodies are logged for debugging, cut short so large payloads don't flood the log
+const MAX_LOG_LINE = 500;
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -51,6 +57,9 @@ app.use((req, res, next) => {
       if (capturedJsonResponse) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
+      if (logLine.length > MAX_LOG_LINE) {
+        logLine = `${logLine.slice(0, MAX_LOG_LINE - 1)}…`;
+      }
 
       log(logLine);
     }
@@ -95,4 +104,20 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Legacy base64 frames are no longer read, so they are moved into the asset store
+  // right away; rows already moved are skipped, so this is a no-op once done
+  migrateLegacyAssets()
+    .then((report) => log(`legacy asset migration: ${JSON.stringify(report)}`, "assets"))
+    .catch((error) => console.error("[AssetMigration] Failed:", error));
+
+  // Scenes saved before page lengths were stored get them once here, so reads never write
+  storage.backfillPageEighths()
+    .then((count) => log(`page lengths computed for ${count} scenes`, "scenes"))
+    .catch((error) => console.error("[PageEighths] Backfill failed:", error));
+
+  // Call sheets saved before scene links existed are linked once here, for the same reason
+  backfillCallSheetScenes()
+    .then((count) => log(`scene links created for ${count} call sheets`, "call-sheets"))
+    .catch((error) => console.error("[CallSheetScenes] Backfill failed:", error));
 })();
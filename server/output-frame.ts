@@ -0,0 +1,86 @@
+import sharp from "sharp";
+import { Buffer } from "node:buffer";
+import { visualStyleInfo, type Shot, type VisualStyle } from "@shared/schema";
+
+// Storyboard frames and videos are rendered at the shot's aspect ratio and visual style.
+// Providers only offer a few output ratios, so a request asks for the closest one and the
+// result is fitted afterwards: generated images are center-cropped to the exact ratio, and
+// images sent to video models are letterboxed so the whole composition survives.
+
+export interface OutputFrame {
+  aspectRatio: string; // as chosen for the shot, e.g. "2.35:1"
+  ratio: number; // width / height
+  style: string | null; // visual style for the prompt
+}
+
+export type FrameFit = "crop" | "letterbox";
+
+export const DEFAULT_ASPECT_RATIO = "16:9";
+
+const VISUAL_STYLE_PROMPTS: Record<Exclude<VisualStyle, "custom">, string> = {
+  realistic: "photorealistic, natural lighting and true-to-life color",
+  cinematic: "cinematic film look, dramatic lighting, shallow depth of field, color graded",
+  vintage_film: "vintage film stock, visible grain, faded warm color, soft halation",
+  neon_cyberpunk: "neon cyberpunk, saturated magenta and cyan light, night haze, reflective surfaces",
+  black_white: "black and white photography, rich contrast, no color",
+  dreamy_soft: "dreamy soft focus, diffused glowing light, pastel tones",
+  documentary: "documentary realism, available light, observational handheld framing",
+  animation_storyboard: "hand-drawn animation storyboard sketch, clean line art, flat shading",
+};
+
+// Accepts "2.35:1", "16:9", "16x9", "16/9" and bare numbers such as "2.39"
+export function parseAspectRatio(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(?:[:：xX×/]\s*(\d+(?:\.\d+)?))?$/);
+  if (!match) return null;
+  const ratio = parseFloat(match[1]) / (match[2] ? parseFloat(match[2]) : 1);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+}
+
+export function outputFrame(aspectRatio: string, style: string | null = null): OutputFrame {
+  const ratio = parseAspectRatio(aspectRatio);
+  return ratio
+    ? { aspectRatio, ratio, style }
+    : { aspectRatio: DEFAULT_ASPECT_RATIO, ratio: 16 / 9, style };
+}
+
+export function shotOutputFrame(shot: Pick<Shot, "aspectRatio" | "customAspectRatio" | "visualStyle" | "customVisualStyle">): OutputFrame {
+  const aspectRatio = shot.aspectRatio === "custom" ? shot.customAspectRatio : shot.aspectRatio;
+  const style = shot.visualStyle === "custom"
+    ? shot.customVisualStyle?.trim() || null
+    : shot.visualStyle ? `${visualStyleInfo[shot.visualStyle]?.name}: ${VISUAL_STYLE_PROMPTS[shot.visualStyle] ?? ""}` : null;
+  return outputFrame(aspectRatio || DEFAULT_ASPECT_RATIO, style);
+}
+
+// Compared on a log scale so 2:1 is as far from 1:1 as 1:2 is
+export function closestAspectRatio<T extends string>(ratio: number, supported: readonly T[]): T {
+  const distance = (option: T) => Math.abs(Math.log((parseAspectRatio(option) ?? 1) / ratio));
+  return supported.reduce((best, option) => distance(option) < distance(best) ? option : best);
+}
+
+export function framePrompt(frame: OutputFrame): string {
+  const orientation = frame.ratio > 1.05 ? "landscape" : frame.ratio < 0.95 ? "portrait" : "square";
+  return [
+    `Aspect ratio: ${frame.aspectRatio} (${orientation}); compose for this frame and keep the key subjects inside it`,
+    frame.style ? `Visual style: ${frame.style}` : "",
+  ].filter(Boolean).join("\n");
+}
+
+// Within 1% the image is left as generated
+export async function fitImageToFrame(image: Buffer, ratio: number, fit: FrameFit): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height || Math.abs(Math.log(width / height / ratio)) < 0.01) return image;
+
+  const wider = width / height > ratio;
+  const size = fit === "crop"
+    ? wider ? { width: Math.round(height * ratio), height } : { width, height: Math.round(width / ratio) }
+    : wider ? { width, height: Math.round(width / ratio) } : { width: Math.round(height * ratio), height };
+  return sharp(image)
+    .resize({
+      ...size,
+      fit: fit === "crop" ? "cover" : "contain",
+      position: "centre",
+      background: { r: 0, g: 0, b: 0, alpha: 1 },
+    })
+    .png()
+    .toBuffer();
+}
@@ -20,7 +20,7 @@ export const openai = createOpenAIClient();
  */
 export async function generateImageBuffer(
   prompt: string,
-  size: "1024x1024" | "512x512" | "256x256" = "1024x1024"
+  size: "1024x1024" | "1536x1024" | "1024x1536" = "1024x1024"
 ): Promise<Buffer> {
   if (!openai) {
     throw new Error("OpenAI client is not configured. Please set AI_INTEGRATIONS_OPENAI_API_KEY or OPENAI_API_KEY.");
@@ -72,3 +72,30 @@ export async function editImages(
 
   return imageBytes;
 }
+
+/**
+ * Repaint the transparent area of the mask, keeping the rest of the image.
+ * Uses OpenAI gpt-image-1 model via Replit AI Integrations.
+ */
+export async function editImageWithMask(
+  image: Buffer,
+  mask: Buffer,
+  prompt: string,
+  size: "1024x1024" | "1536x1024" | "1024x1536" = "1024x1024"
+): Promise<Buffer> {
+  if (!openai) {
+    throw new Error("OpenAI client is not configured. Please set AI_INTEGRATIONS_OPENAI_API_KEY or OPENAI_API_KEY.");
+  }
+  const { toFile } = await import("openai");
+
+  const response = await openai.images.edit({
+    model: "gpt-image-1",
+    image: await toFile(image, "image.png", { type: "image/png" }),
+    mask: await toFile(mask, "mask.png", { type: "image/png" }),
+    prompt,
+    size,
+  });
+
+  const imageBase64 = response.data?.[0]?.b64_json ?? "";
+  return Buffer.from(imageBase64, "base64");
+}
@@ -18,18 +18,49 @@ import {
   enqueueCharacterImageJob,
   getQueueStatus as getCharacterImageQueueStatus,
 } from "./character-image-job-queue";
+import {
+  generateExportFile,
+  generateBreakdownSheetPdf,
+  generateDoodXlsx,
+  generateCallSheetPdf,
+  type ExportData,
+  type ExportFormat,
+  type ExportScene,
+} from "./export-generator";
+import { parseFdx } from "./fdx-parser";
+import { parseFountain } from "./fountain-parser";
+import { buildExportElements, toFountain, toFdx } from "./screenplay-export";
+import { splitSluglineBody, type ParsedScreenplay } from "./screenplay";
+import { buildScriptDiff } from "./script-diff";
+import { nextRevisionColor, planLockedRevision, sceneIdentifierOf, type RevisionSceneInput } from "./script-lock";
+import { attachElements, breakdownTextOf, elementKey, locateExcerpt, rangesOverlap, reanchorTag } from "./breakdown";
+import { buildBreakdownSheets } from "./breakdown-sheet";
+import { buildShootingSchedule, isStripPermutation } from "./schedule";
+import { DEFAULT_MAX_EIGHTHS_PER_DAY, optimizeSchedule } from "./schedule-optimizer";
+import { buildDood, doodDaysFromCallSheets, doodDaysFromSchedule } from "./dood";
+import { buildCallSheetDetails, callSheetSceneIds, callSheetText, formatClock, isGeneratedCallSheet, parseClock } from "./call-sheet";
+import { callSheetTablesText, parseCallSheetTables, readDocxTables, readXlsxTables, tabularCallSheetDetails, type CallSheetTable } from "./call-sheet-tables";
+import { checkShotCoverage, estimateSceneSeconds } from "@shared/shot-coverage";
+import { normalizeShotField, normalizeShotFields, shotEnumFields, shotEnumValues } from "./shot-fields";
+import { charactersInShot, pickShotReferenceImages, shotReferencePrompt, toReferenceImage } from "./shot-references";
+import { shotOutputFrame } from "./output-frame";
+import { assetStore, decodeDataUrl, loadImageData, saveAsset, storeImageUrl, type AssetRange } from "./asset-store";
+import { prepareMask, type EditMask } from "./image-mask";
+import { assetUrl } from "@shared/asset-url";
+import type { ReferenceImage } from "./gemini-image-client";
+import type { ImageGenerationResult } from "./image-providers";
 
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 10 * 1024 * 1024 },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ["text/plain", "text/markdown", "application/octet-stream", "application/vnd.openxmlformats-officedocument.wordprocessingml.document", "application/pdf"];
-    const allowedExts = [".txt", ".md", ".fountain", ".docx", ".pdf"];
+    const allowedTypes = ["text/plain", "text/markdown", "application/octet-stream", "application/vnd.openxmlformats-officedocument.wordprocessingml.document", "application/pdf", "application/xml", "text/xml"];
+    const allowedExts = [".txt", ".md", ".fountain", ".fdx", ".docx", ".pdf"];
     const ext = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf("."));
     if (allowedTypes.includes(file.mimetype) || allowedExts.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error("不支持的文件格式。请上传 .txt, .md, .fountain, .docx 或 .pdf 格式的剧本文件"));
+      cb(new Error("不支持的文件格式。请上传 .txt, .md, .fountain, .fdx, .docx 或 .pdf 格式的剧本文件"));
     }
   },
 });
@@ -58,9 +89,38 @@ import {
   type ProjectType,
   characterPoseTypes,
   characterPoseTypeLabels,
+  imageProviderInfo,
+  imageProviders,
   type CharacterPoseType,
   type ImageProvider,
+  type SceneIntExt,
+  type Scene,
+  type Script,
+  revisionColorInfo,
+  breakdownCategories,
+  breakdownCategoryInfo,
+  breakdownTagStatuses,
+  stripColors,
+  callSheetSceneStatuses,
+  type BreakdownCategory,
+  type BreakdownElement,
+  type SceneBreakdown,
+  type ProductionNotes,
+  type BreakdownSheetReport,
+  type CallSheet,
+  type InsertCallSheet,
+  type ShootDay,
+  type ShootingSchedule,
+  type Shot,
+  type GeneratedShots,
+  type ShotFieldNormalization,
 } from "@shared/schema";
+import {
+  extractSceneReferences,
+  normalizeSceneIdentifier,
+  sceneMainNumber,
+  splitScriptIntoScenes,
+} from "@shared/scene-heading";
 
 const ScriptGenerationSchema = z.object({
   script: z.string().default(""),
@@ -93,6 +153,16 @@ const ShotsGenerationSchema = z.object({
   })).default([]),
 });
 
+// Follow-up answer when some shot fields could not be mapped onto the enums
+const ShotFieldsRetrySchema = z.object({
+  shots: z.array(z.object({
+    shotNumber: z.number(),
+    shotType: z.string().optional(),
+    cameraAngle: z.string().optional(),
+    cameraMovement: z.string().optional(),
+  })).default([]),
+});
+
 const PerformanceGuideSchema = z.object({
   emotionBefore: z.string().optional(),
   emotionDuring: z.string().optional(),
@@ -118,6 +188,16 @@ const ProductionNotesSchema = z.object({
   })).default([]),
 });
 
+const BreakdownTaggingSchema = z.object({
+  elements: z.array(z.object({
+    category: z.string().default("props"),
+    name: z.string().default(""),
+    excerpt: z.string().default(""),
+    quantity: z.number().int().positive().nullable().optional(),
+    description: z.string().optional(),
+  })).default([]),
+});
+
 const defaultFallbacks = {
   script: { script: "", scenes: [], characters: [], suggestions: "" },
   shots: { shots: [] },
@@ -136,68 +216,50 @@ const defaultFallbacks = {
 };
 
 // Standalone function to extract scene content from script
-// This function can be reused by call sheet parsing, scene preview, and scene creation
-export function extractSceneContentFromScript(scriptContent: string, sceneNum: number): { 
+// This function can be reused by call sheet parsing, scene preview, and scene creation.
+// Headings are located with the shared scene-heading parser, so "1-2" always resolves to
+// its own block; a bare number falls back to the first scene with that main number.
+export function extractSceneContentFromScript(scriptContent: string, sceneRef: number | string): { 
   title: string | null; 
   location: string | null; 
   timeOfDay: string | null; 
+  intExt: SceneIntExt | null;
   description: string | null; 
   dialogue: string | null; 
   action: string | null; 
 } {
+  const empty = { title: null, location: null, timeOfDay: null, intExt: null, description: null, dialogue: null, action: null };
   if (!scriptContent) {
-    console.log(`[Scene Extract] No script content available for scene ${sceneNum}`);
-    return { title: null, location: null, timeOfDay: null, description: null, dialogue: null, action: null };
-  }
-  
-  console.log(`[Scene Extract] Attempting to extract scene ${sceneNum} from script (${scriptContent.length} chars)`);
-  
-  // Match scene header line patterns, supporting multiple formats:
-  // 第1场, 1-1, 1.1, 场次1 etc.
-  const scenePatterns = [
-    // Most common: match "第X场" format (e.g., "第1场 医院走廊 日 内")
-    new RegExp(`(?:^|[\\n\\r])\\s*(第\\s*${sceneNum}\\s*[场集次][^\\n\\r]*)([\\s\\S]*?)(?=[\\n\\r]\\s*第\\s*[一二三四五六七八九十百\\d]+\\s*[场集次]|[\\n\\r]\\s*\\d+[-.]\\d+\\s|$)`, 'i'),
-    // Match "X-Y" or "X.Y" format (e.g., 1-1, 4-8, 4.1)
-    new RegExp(`(?:^|[\\n\\r])\\s*(${sceneNum}[-.]\\d+[^\\n\\r]*)([\\s\\S]*?)(?=[\\n\\r]\\s*\\d+[-.]\\d+\\s|[\\n\\r]\\s*第[一二三四五六七八九十百\\d]+[场集]|$)`, 'i'),
-    // Match plain "场次X" format
-    new RegExp(`(?:^|[\\n\\r])\\s*(场次\\s*${sceneNum}[^\\n\\r]*)([\\s\\S]*?)(?=[\\n\\r]\\s*场次\\s*\\d+|[\\n\\r]\\s*第\\d+场|$)`, 'i'),
-  ];
-  
-  let matchedContent = '';
-  let matchedTitle = '';
-  
-  for (let i = 0; i < scenePatterns.length; i++) {
-    const pattern = scenePatterns[i];
-    const match = scriptContent.match(pattern);
-    if (match) {
-      matchedTitle = match[1]?.trim() || '';
-      matchedContent = match[2]?.trim() || '';
-      console.log(`[Scene Extract] Pattern ${i + 1} matched for scene ${sceneNum}: title="${matchedTitle.substring(0, 50)}..."`);
-      break;
-    }
+    console.log(`[Scene Extract] No script content available for scene ${sceneRef}`);
+    return empty;
   }
   
-  if (!matchedContent && !matchedTitle) {
-    console.log(`[Scene Extract] No match found for scene ${sceneNum}`);
-    return { title: null, location: null, timeOfDay: null, description: null, dialogue: null, action: null };
+  console.log(`[Scene Extract] Attempting to extract scene ${sceneRef} from script (${scriptContent.length} chars)`);
+
+  const identifier = normalizeSceneIdentifier(String(sceneRef));
+  if (!identifier) {
+    console.log(`[Scene Extract] Unrecognized scene reference ${sceneRef}`);
+    return empty;
   }
-  
-  console.log(`[Scene Extract] Found content for scene ${sceneNum}: ${matchedContent.length} chars`);
-  
-  // Parse time and location (usually in the title line)
-  let location: string | null = null;
-  let timeOfDay: string | null = null;
-  
-  // Match location (usually in title, e.g., "医院走廊", "秦天家")
-  const locationMatch = matchedTitle.match(/([^\d\s年月日夜内外]+(?:家|院|室|厅|房|街|道|楼|场|店|局|处|所|馆|园|村|镇|城|区|河边|别墅|走廊|书房|卧室|办公室)[^\s]*)/);
-  if (locationMatch) {
-    location = locationMatch[1];
+
+  const blocks = splitScriptIntoScenes(scriptContent);
+  const block = blocks.find(b => b.identifier === identifier)
+    || (/^\d+$/.test(identifier) ? blocks.find(b => b.mainNumber === parseInt(identifier, 10)) : undefined);
+
+  if (!block) {
+    console.log(`[Scene Extract] No match found for scene ${identifier}`);
+    return empty;
   }
-  
-  // Match time (日、夜、黄昏 etc.)
-  const timeMatch = matchedTitle.match(/(日|夜|黄昏|清晨|傍晚|午后|凌晨)/);
-  if (timeMatch) {
-    timeOfDay = timeMatch[1];
+
+  const matchedTitle = block.title;
+  const matchedContent = block.body;
+  const { location, timeOfDay, intExt } = block.heading;
+  console.log(`[Scene Extract] Matched scene ${identifier} (${block.heading.format}): title="${matchedTitle.substring(0, 50)}...", ${matchedContent.length} chars`);
+
+  // English screenplay bodies put the cue on its own line above the speech
+  if (block.heading.format === "slugline") {
+    const { dialogue, action } = splitSluglineBody(matchedContent);
+    return { title: matchedTitle, location, timeOfDay, intExt, description: null, dialogue, action };
   }
   
   // Separate dialogue and action descriptions
@@ -242,12 +304,517 @@ export function extractSceneContentFromScript(scriptContent: string, sceneNum: n
     title: matchedTitle || null,
     location,
     timeOfDay,
+    intExt,
     description: descriptionLines.length > 0 ? descriptionLines.join('\n') : null,
     dialogue: dialogueLines.length > 0 ? dialogueLines.join('\n') : null,
     action: actionLines.length > 0 ? actionLines.join('\n') : null,
   };
 }
 
+// Persist scenes and characters from a structured screenplay (FDX/Fountain).
+// Scene order and numbering come straight from the document, so the regex
+// based extraction above is bypassed entirely.
+async function saveParsedScreenplay(projectId: string, scriptId: string, screenplay: ParsedScreenplay) {
+  const existingScenes = await storage.getScenes(projectId);
+  const createdScenes = [];
+  const updatedScenes = [];
+
+  for (let i = 0; i < screenplay.scenes.length; i++) {
+    const parsed = screenplay.scenes[i];
+    const existingScene = existingScenes.find(s =>
+      s.sceneIdentifier === parsed.identifier ||
+      (s.sceneNumber === parsed.mainNumber && !s.sceneIdentifier)
+    );
+
+    const sceneFields = {
+      scriptId,
+      sceneIdentifier: parsed.identifier,
+      sortOrder: i,
+      title: parsed.heading,
+      location: parsed.location,
+      timeOfDay: parsed.timeOfDay,
+      intExt: parsed.intExt,
+      dialogue: parsed.dialogue,
+      action: parsed.action,
+      scriptContent: parsed.scriptContent,
+    };
+
+    if (existingScene) {
+      await storage.updateScene(existingScene.id, sceneFields);
+      updatedScenes.push(existingScene);
+    } else {
+      const scene = await storage.createScene({
+        projectId,
+        sceneNumber: parsed.mainNumber,
+        ...sceneFields,
+      });
+      createdScenes.push(scene);
+    }
+  }
+
+  const createdCharacters = await saveScreenplayCharacters(projectId, screenplay.characters);
+
+  return { createdScenes, updatedScenes, createdCharacters };
+}
+
+async function saveScreenplayCharacters(projectId: string, names: string[]) {
+  const existingCharacters = await storage.getCharacters(projectId);
+  const existingNames = new Set(existingCharacters.map(c => c.name.toLowerCase()));
+  const createdCharacters = [];
+  for (const name of names) {
+    if (existingNames.has(name.toLowerCase())) continue;
+    existingNames.add(name.toLowerCase());
+    const character = await storage.createCharacter({
+      projectId,
+      name,
+      isAutoExtracted: true,
+    });
+    createdCharacters.push(character);
+  }
+  return createdCharacters;
+}
+
+// Scene inputs for a locked revision, from either a structured import or plain text
+function revisionInputsFromContent(content: string, screenplay: ParsedScreenplay | null): RevisionSceneInput[] {
+  if (screenplay) {
+    return screenplay.scenes.map(parsed => ({
+      identifier: parsed.identifier,
+      title: parsed.heading,
+      location: parsed.location,
+      timeOfDay: parsed.timeOfDay,
+      intExt: parsed.intExt,
+      description: null,
+      dialogue: parsed.dialogue,
+      action: parsed.action,
+      scriptContent: parsed.scriptContent,
+    }));
+  }
+
+  return splitScriptIntoScenes(content).map(block => {
+    const extracted = extractSceneContentFromScript(content, block.identifier);
+    return {
+      identifier: block.identifier,
+      title: block.title,
+      location: extracted.location,
+      timeOfDay: extracted.timeOfDay,
+      intExt: extracted.intExt,
+      description: extracted.description,
+      dialogue: extracted.dialogue,
+      action: extracted.action,
+      scriptContent: `${block.title}\n${block.body}`.trim(),
+    };
+  });
+}
+
+// Applies a new draft of a locked script: scene identifiers are preserved, inserted scenes
+// get A/B suffixes and removed scenes are marked omitted (their shots are left untouched).
+// The draft is recorded as a script version carrying the next revision color.
+async function saveLockedRevision(
+  previousScript: Script,
+  script: Script,
+  inputs: RevisionSceneInput[],
+  changedBy?: string,
+) {
+  const existingScenes = await storage.getScenes(script.projectId);
+  const plan = planLockedRevision(existingScenes, inputs);
+  const createdScenes: Scene[] = [];
+  const omittedScenes: Scene[] = [];
+
+  for (let i = 0; i < plan.entries.length; i++) {
+    const entry = plan.entries[i];
+    if (entry.kind === "omitted") {
+      if (!entry.previouslyOmitted) omittedScenes.push(entry.scene);
+      await storage.updateScene(entry.scene.id, { isOmitted: true, sortOrder: i });
+      continue;
+    }
+
+    const { identifier: _draftIdentifier, ...fields } = entry.input;
+    if (entry.kind === "kept") {
+      await storage.updateScene(entry.scene.id, {
+        ...fields,
+        scriptId: script.id,
+        sceneIdentifier: sceneIdentifierOf(entry.scene),
+        sortOrder: i,
+        isOmitted: false,
+      });
+    } else {
+      const scene = await storage.createScene({
+        ...fields,
+        projectId: script.projectId,
+        scriptId: script.id,
+        sceneNumber: sceneMainNumber(entry.identifier) ?? 0,
+        sceneIdentifier: entry.identifier,
+        sortOrder: i,
+      });
+      createdScenes.push(scene);
+    }
+  }
+
+  const revisionColor = nextRevisionColor(previousScript.revisionColor);
+  const updatedScript = await storage.updateScript(script.id, {
+    isLocked: true,
+    lockedAt: previousScript.lockedAt ?? new Date(),
+    revisionColor,
+  });
+
+  await storage.createScriptVersion({
+    scriptId: script.id,
+    projectId: script.projectId,
+    content: script.content,
+    version: script.version,
+    changeDescription: `${revisionColorInfo[revisionColor].nameCN}修订：${plan.changedScenes.length} 个场次改动`,
+    changedBy,
+    revisionColor,
+    changedScenes: plan.changedScenes,
+  });
+
+  console.log(`[Script Lock] ${revisionColorInfo[revisionColor].name} revision of script ${script.id}: changed ${plan.changedScenes.join(", ") || "none"}, inserted ${createdScenes.length}, omitted ${omittedScenes.length}`);
+  return { script: updatedScript ?? script, plan, createdScenes, omittedScenes };
+}
+
+// ============================================
+// 剧本拆解 (Script Breakdown)
+// ============================================
+
+async function findOrCreateBreakdownElement(
+  projectId: string,
+  category: BreakdownCategory,
+  name: string,
+  elements: BreakdownElement[],
+  description?: string | null,
+): Promise<BreakdownElement> {
+  const key = elementKey(category, name);
+  const existing = elements.find(e => elementKey(e.category, e.name) === key);
+  if (existing) return existing;
+
+  let characterId: string | null = null;
+  if (category === "cast") {
+    const characters = await storage.getCharacters(projectId);
+    characterId = characters.find(c => c.name.trim() === name.trim())?.id ?? null;
+  }
+  const element = await storage.createBreakdownElement({
+    projectId,
+    category,
+    name: name.trim(),
+    description: description || null,
+    characterId,
+  });
+  elements.push(element);
+  return element;
+}
+
+// Elements only exist through their tags; drop the ones no scene references any more
+async function pruneBreakdownElement(elementId: string): Promise<void> {
+  const remaining = await storage.getBreakdownTagsByElement(elementId);
+  if (remaining.length === 0) {
+    await storage.deleteBreakdownElement(elementId);
+  }
+}
+
+// Tag offsets index into scriptContent; scenes without it get the composed text persisted
+// the first time something is tagged so later offsets stay stable
+async function ensureBreakdownText(scene: Scene): Promise<string> {
+  const text = breakdownTextOf(scene);
+  if (!scene.scriptContent?.trim() && text) {
+    await storage.updateScene(scene.id, { scriptContent: text });
+  }
+  return text;
+}
+
+async function loadSceneBreakdown(scene: Scene): Promise<SceneBreakdown> {
+  const text = breakdownTextOf(scene);
+  const [tags, elements] = await Promise.all([
+    storage.getBreakdownTags(scene.id),
+    storage.getBreakdownElements(scene.projectId),
+  ]);
+
+  // Offsets are saved when the scene text is written; older tags are re-anchored here in memory
+  const anchored = tags.map(tag => ({ ...tag, ...reanchorTag(text, tag) }));
+
+  return { sceneId: scene.id, text, tags: attachElements(anchored, elements) };
+}
+
+function groupProductionNotes(notes: ProductionNotes[]): Map<string, ProductionNotes[]> {
+  const byScene = new Map<string, ProductionNotes[]>();
+  for (const note of notes) {
+    byScene.set(note.sceneId, [...(byScene.get(note.sceneId) ?? []), note]);
+  }
+  return byScene;
+}
+
+async function loadBreakdownSheetReport(projectId: string, sceneIds?: string[]) {
+  const project = await storage.getProject(projectId);
+  if (!project) return undefined;
+
+  const [allScenes, characters, elements, tags, notes] = await Promise.all([
+    storage.getScenes(projectId),
+    storage.getCharacters(projectId),
+    storage.getBreakdownElements(projectId),
+    storage.getBreakdownTagsByProject(projectId),
+    storage.getProductionNotesByProject(projectId),
+  ]);
+  const scenes = sceneIds && sceneIds.length > 0 ? allScenes.filter(s => sceneIds.includes(s.id)) : allScenes;
+
+  // Cast ID numbers are project-wide, so number against every scene and then filter
+  const productionNotes = groupProductionNotes(notes);
+  const report = buildBreakdownSheets({ project, scenes: allScenes, characters, elements, tags, productionNotes });
+  const wanted = new Set(scenes.map(s => s.id));
+  return { ...report, sheets: report.sheets.filter(sheet => wanted.has(sheet.sceneId)) };
+}
+
+// New scenes join the unscheduled end of the board in script order. Callers that already
+// loaded the project's breakdown report pass it in rather than having it built again.
+async function loadShootingSchedule(projectId: string, loadedReport?: BreakdownSheetReport) {
+  const report = loadedReport ?? await loadBreakdownSheetReport(projectId);
+  if (!report) return undefined;
+
+  let strips = await storage.getScheduleStrips(projectId);
+  const scheduled = new Set(strips.map(strip => strip.sceneId).filter(Boolean));
+  const missing = report.sheets.filter(sheet => !sheet.isOmitted && !scheduled.has(sheet.sceneId));
+  if (missing.length > 0) {
+    // Concurrent loads may both see the scenes as missing; the unique index keeps one strip each
+    const position = strips.reduce((max, strip) => Math.max(max, strip.position), -1) + 1;
+    await storage.createSceneStrips(projectId, missing.map(sheet => sheet.sceneId), position);
+    strips = await storage.getScheduleStrips(projectId);
+  }
+
+  return buildShootingSchedule({ projectId, strips, sheets: report.sheets, castList: report.castList });
+}
+
+// Scene membership follows the call sheet's own scene list unless the caller already resolved it
+async function linkCallSheetScenes(callSheet: CallSheet, sceneIds?: string[]) {
+  const ids = sceneIds ?? callSheetSceneIds(callSheet, await storage.getScenes(callSheet.projectId));
+  return storage.setCallSheetScenes(callSheet.id, callSheet.projectId, ids);
+}
+
+// Dated call sheets record what was actually shot; before any exist the stripboard stands in.
+// A call sheet being generated or edited counts as already saved with its new date and scenes.
+async function loadDoodReport(
+  projectId: string,
+  pending?: { callSheetId?: string; shootDate: Date; sceneIds: string[] },
+  loaded?: { report: BreakdownSheetReport; schedule: ShootingSchedule },
+) {
+  const report = loaded?.report ?? await loadBreakdownSheetReport(projectId);
+  if (!report) return undefined;
+
+  const [callSheets, links, travel] = await Promise.all([
+    storage.getCallSheets(projectId),
+    storage.getCallSheetScenes(projectId),
+    storage.getDoodTravelDays(projectId),
+  ]);
+  const dated = callSheets
+    .filter(callSheet => callSheet.shootDate && callSheet.id !== pending?.callSheetId)
+    .map(callSheet => ({
+      shootDate: callSheet.shootDate,
+      sceneIds: links.filter(link => link.callSheetId === callSheet.id).map(link => link.sceneId),
+    }));
+  if (pending) dated.push({ shootDate: pending.shootDate, sceneIds: pending.sceneIds });
+  const schedule = dated.length > 0 ? undefined : loaded?.schedule ?? await loadShootingSchedule(projectId, report);
+
+  return buildDood({
+    project: { id: report.projectId, title: report.projectTitle },
+    source: dated.length > 0 ? "call_sheets" : "schedule",
+    days: dated.length > 0 ? doodDaysFromCallSheets(dated) : schedule ? doodDaysFromSchedule(schedule) : [],
+    sheets: report.sheets,
+    castList: report.castList,
+    travel,
+  });
+}
+
+interface ComposeCallSheetOptions {
+  shootDate: string; // YYYY-MM-DD
+  sceneIds?: string[]; // defaults to the stripboard day with this date
+  title?: string;
+  generalCall: string;
+  shootingCall?: string; // defaults to an hour after general call
+  notes: string;
+}
+
+// Builds every stored field of a generated call sheet. Editing a generated call sheet
+// composes it again so call times, DOOD status and the advance schedule stay in step.
+async function composeCallSheet(projectId: string, options: ComposeCallSheetOptions, callSheetId?: string) {
+  const { shootDate, notes } = options;
+  const generalCall = formatClock(parseClock(options.generalCall)!);
+  const shootingCall = options.shootingCall
+    ? formatClock(parseClock(options.shootingCall)!)
+    : formatClock(parseClock(generalCall)! + 60);
+
+  const [report, characters, projectNotes] = await Promise.all([
+    loadBreakdownSheetReport(projectId),
+    storage.getCharacters(projectId),
+    storage.getProductionNotesByProject(projectId),
+  ]);
+  const schedule = report && await loadShootingSchedule(projectId, report);
+  if (!report || !schedule) return undefined;
+
+  const sceneIdsOf = (day: ShootDay) => day.strips.flatMap(entry => (entry.kind === "scene" && !entry.scene.isOmitted ? [entry.scene.sceneId] : []));
+  const dayIndex = schedule.days.findIndex(day => day.shootDate?.startsWith(shootDate));
+  const sceneIds = options.sceneIds && options.sceneIds.length > 0
+    ? options.sceneIds
+    : dayIndex >= 0 ? sceneIdsOf(schedule.days[dayIndex]) : [];
+
+  const sheetById = new Map(report.sheets.map(sheet => [sheet.sceneId, sheet]));
+  const sheets = sceneIds.flatMap(id => {
+    const sheet = sheetById.get(id);
+    return sheet && !sheet.isOmitted ? [sheet] : [];
+  });
+  if (sheets.length === 0) {
+    return { error: "请选择要拍摄的场次，或先在拍摄计划中为该日期排期" };
+  }
+
+  // Day number from the stripboard: the day with this date, or else the day holding these scenes
+  const selected = new Set(sheets.map(sheet => sheet.sceneId));
+  const matchedIndex = dayIndex >= 0
+    ? dayIndex
+    : schedule.days.findIndex(day => sceneIdsOf(day).some(id => selected.has(id)));
+  const nextDay = matchedIndex >= 0
+    ? schedule.days[matchedIndex + 1]
+    : schedule.days.find(day => day.shootDate && day.shootDate.slice(0, 10) > shootDate);
+  const advance = nextDay ? {
+    dayNumber: nextDay.dayNumber,
+    date: nextDay.shootDate ? nextDay.shootDate.slice(0, 10) : null,
+    scenes: nextDay.strips.flatMap(entry => (entry.kind === "scene" && !entry.scene.isOmitted ? [{
+      sceneIdentifier: entry.scene.sceneIdentifier,
+      intExt: entry.scene.intExt,
+      dayNight: entry.scene.dayNight,
+      location: entry.scene.location,
+      pageEighths: entry.scene.pageEighths,
+      castIds: entry.scene.castIds,
+    }] : [])),
+  } : null;
+
+  const productionNotes = groupProductionNotes(projectNotes.filter(note => selected.has(note.sceneId)));
+
+  const sceneIdentifiers = sheets.map(sheet => sheet.sceneIdentifier);
+  const sceneNumbers = Array.from(new Set(sceneIdentifiers
+    .map(identifier => sceneMainNumber(identifier))
+    .filter((num): num is number => num !== null)));
+  const draft = {
+    projectId,
+    shootDate: new Date(shootDate),
+    sceneIdentifiers,
+    sceneNumbers,
+    generalCall,
+    shootingCall,
+  };
+
+  // Cast status is the actor's Day Out of Days marker once this day is on the sheet
+  const dood = await loadDoodReport(projectId, {
+    callSheetId,
+    shootDate: draft.shootDate,
+    sceneIds: sheets.map(sheet => sheet.sceneId),
+  }, { report, schedule });
+  const statusByCastKey = new Map<string, string>();
+  const doodIndex = dood ? dood.days.findIndex(day => day.date === shootDate) : -1;
+  if (dood && doodIndex >= 0) {
+    for (const row of dood.cast) {
+      const marker = row.markers[doodIndex];
+      if (marker) statusByCastKey.set(row.castKey, marker);
+    }
+  }
+
+  const dayNumber = matchedIndex >= 0 ? schedule.days[matchedIndex].dayNumber : null;
+  const details = buildCallSheetDetails({
+    projectTitle: report.projectTitle,
+    shootingCall,
+    sheets,
+    characters,
+    productionNotes,
+    statusByCastKey,
+    dayNumber,
+    totalDays: schedule.days.length > 0 ? schedule.days.length : null,
+    advance,
+    notes,
+  });
+  const title = options.title || (dayNumber ? `第${dayNumber}天通告 ${shootDate}` : `${shootDate} 通告单`);
+
+  return {
+    sceneIds: sheets.map(sheet => sheet.sceneId),
+    values: {
+      ...draft,
+      title,
+      rawText: callSheetText(title, shootDate, generalCall, shootingCall, details),
+      details,
+    },
+  };
+}
+
+// Storyboard frame prompt for a shot, with the applied reference images of the characters it names
+async function loadShotImageRequest(shot: Shot, scene: Scene | undefined, provider: ImageProvider) {
+  const characters = scene ? await storage.getCharacters(scene.projectId) : [];
+  const entries = await Promise.all(charactersInShot(shot, characters).map(async character => ({
+    character,
+    variants: await storage.getCharacterImageVariants(character.id),
+    assets: await storage.getCharacterAssetReferences(character.id),
+  })));
+  const images = imageProviderInfo[provider]?.referenceImages ? pickShotReferenceImages(entries) : [];
+  const references = (await Promise.all(images.map(toReferenceImage)))
+    .filter((reference): reference is ReferenceImage => reference !== null);
+  const characterSection = shotReferencePrompt(entries, references.length > 0);
+
+  const prompt = `Film storyboard frame:
+Scene: ${scene?.title || ""}
+Location: ${scene?.location || ""}
+Time: ${scene?.timeOfDay || ""}
+
+Shot ${shot.shotNumber}: ${shot.description}
+Shot type: ${shot.shotType || "medium shot"}
+Camera angle: ${shot.cameraAngle || "eye level"}
+Camera movement: ${shot.cameraMovement || "static"}
+${shot.atmosphere ? `Atmosphere: ${shot.atmosphere}` : ""}
+${characterSection ? `\n${characterSection}\n` : ""}
+Requirements: Professional film cinematography, high quality`;
+
+  if (references.length > 0) {
+    console.log(`[Shot Image] Shot ${shot.id} uses references: ${references.map(reference => reference.label).join(", ")}`);
+  }
+  return { prompt, references, frame: shotOutputFrame(shot) };
+}
+
+const MAX_IMAGE_CANDIDATES = 4;
+
+// Every generated frame is kept as a candidate and the newest becomes the shot's frame.
+// A frame from before candidates were kept is added first so it can still be picked.
+async function addShotImageCandidate(shot: Shot, generated: ImageGenerationResult, prompt: string): Promise<Shot | undefined> {
+  const candidates = await storage.getShotImageCandidates(shot.id);
+  if (shot.imageUrl && !candidates.some(candidate => candidate.imageUrl === shot.imageUrl)) {
+    await storage.createShotImageCandidate({ shotId: shot.id, sceneId: shot.sceneId, imageUrl: shot.imageUrl });
+  }
+  const image = await saveAsset(generated.buffer);
+  await storage.createShotImageCandidate({
+    shotId: shot.id,
+    sceneId: shot.sceneId,
+    imageUrl: assetUrl(image.id),
+    provider: generated.provider,
+    prompt,
+    seed: generated.seed,
+  });
+  return storage.updateShot(shot.id, { imageUrl: assetUrl(image.id) });
+}
+
+// Shot images embedded in exports, by shot id
+async function loadShotImages(shots: Shot[]): Promise<Record<string, Buffer>> {
+  const images: Record<string, Buffer> = {};
+  await Promise.all(shots.map(async shot => {
+    try {
+      const image = shot.imageUrl ? await loadImageData(shot.imageUrl) : null;
+      if (image) images[shot.id] = image.data;
+    } catch (error) {
+      console.error(`Error loading image of shot ${shot.id}:`, error);
+    }
+  }));
+  return images;
+}
+
+// A single "bytes=" range; anything else is answered with the whole file
+function parseByteRange(header: string | undefined, size: number): AssetRange | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const start = match[1] ? parseInt(match[1], 10) : Math.max(0, size - parseInt(match[2], 10));
+  const end = match[1] && match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  return start <= end && start < size ? { start, end } : "unsatisfiable";
+}
+
 function safeParseJSON<T>(content: string, schema: z.ZodSchema<T>, fallbackKey?: keyof typeof defaultFallbacks): T {
   try {
     const parsed = JSON.parse(content);
@@ -283,6 +850,59 @@ export async function registerRoutes(
   
   registerImageRoutes(app);
   
+  // Stored images and videos. Ids are content hashes, so a response never changes and is cached for good
+  app.get(["/api/assets/:id", "/api/assets/:id/thumbnail"], async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      // Videos and other files have no thumbnail and are served whole
+      const thumbnailKey = req.path.endsWith("/thumbnail") ? asset.thumbnailKey : null;
+      const etag = `"${asset.id}${thumbnailKey ? "-thumbnail" : ""}"`;
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).set("ETag", etag).end();
+      }
+
+      const range = thumbnailKey ? null : parseByteRange(req.headers.range, asset.byteSize);
+      if (range === "unsatisfiable") {
+        return res.status(416).set("Content-Range", `bytes */${asset.byteSize}`).end();
+      }
+      const stream = await assetStore.read(thumbnailKey ?? asset.storageKey, range ?? undefined);
+      if (!stream) {
+        return res.status(404).json({ error: "Asset file not found" });
+      }
+
+      res.set({
+        "Content-Type": thumbnailKey ? "image/webp" : asset.mimeType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "ETag": etag,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; sandbox",
+      });
+      if (!thumbnailKey) {
+        res.set("Accept-Ranges", "bytes");
+      }
+      if (range) {
+        res.status(206).set({
+          "Content-Range": `bytes ${range.start}-${range.end}/${asset.byteSize}`,
+          "Content-Length": String(range.end - range.start + 1),
+        });
+      } else if (!thumbnailKey) {
+        res.set("Content-Length", String(asset.byteSize));
+      }
+      stream.on("error", (error) => {
+        console.error("Error streaming asset:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Error fetching asset:", error);
+      res.status(500).json({ error: "Failed to fetch asset" });
+    }
+  });
+
   app.get("/api/projects", async (req, res) => {
     try {
       const projects = await storage.getProjects();
@@ -359,11 +979,17 @@ export async function registerRoutes(
 
   app.post("/api/scripts", async (req, res) => {
     try {
+      const previousScript = (await storage.getScripts(req.body.projectId)).find(s => s.isActive);
       const script = await storage.createScript({
         projectId: req.body.projectId,
         content: req.body.content,
         isActive: true,
       });
+
+      if (previousScript?.isLocked) {
+        const revision = await saveLockedRevision(previousScript, script, revisionInputsFromContent(script.content, null));
+        return res.status(201).json(revision.script);
+      }
       res.status(201).json(script);
     } catch (error) {
       console.error("Error creating script:", error);
@@ -495,8 +1121,19 @@ export async function registerRoutes(
 
       const ext = req.file.originalname.toLowerCase().substring(req.file.originalname.lastIndexOf("."));
       let content: string;
+      let screenplay: ParsedScreenplay | null = null;
       
-      if (ext === ".docx") {
+      if (ext === ".fdx") {
+        try {
+          screenplay = parseFdx(req.file.buffer.toString("utf-8"));
+        } catch (parseError) {
+          return res.status(400).json({ error: (parseError as Error).message });
+        }
+        content = screenplay.plainText;
+      } else if (ext === ".fountain") {
+        screenplay = parseFountain(req.file.buffer.toString("utf-8"));
+        content = screenplay.plainText;
+      } else if (ext === ".docx") {
         const result = await mammoth.extractRawText({ buffer: req.file.buffer });
         content = result.value;
       } else if (ext === ".pdf") {
@@ -511,7 +1148,7 @@ export async function registerRoutes(
       let actualProjectId = projectId;
       if (!actualProjectId) {
         const project = await storage.createProject({
-          title: fileName || "上传的剧本",
+          title: screenplay?.title || fileName || "上传的剧本",
           type: "movie",
           description: `通过文件上传: ${req.file.originalname}`,
           targetDuration: 90 * 60,
@@ -519,98 +1156,54 @@ export async function registerRoutes(
         actualProjectId = project.id;
       }
 
+      const previousScript = projectId ? (await storage.getScripts(projectId)).find(s => s.isActive) : undefined;
       const script = await storage.createScript({
         projectId: actualProjectId,
         content,
         isActive: true,
+        sourceFormat: screenplay?.format ?? "plain",
+        elements: screenplay?.elements ?? null,
       });
 
-      // 自动提取所有场次 - 使用正则表达式从剧本中识别场次标记
-      // 存储场次标识符（字符串，如"1-1"）和对应的主序号（数字）
-      const extractedSceneData: { identifier: string; mainNumber: number; sortKey: number }[] = [];
-      
-      // 辅助函数：将中文数字转换为阿拉伯数字
-      const chineseToNumber = (str: string): number => {
-        const map: { [key: string]: number } = {
-          '零': 0, '一': 1, '二': 2, '三': 3, '四': 4,
-          '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
-          '十': 10, '百': 100, '千': 1000
-        };
-        let result = 0;
-        let temp = 0;
-        for (const char of str) {
-          const val = map[char];
-          if (val === undefined) continue;
-          if (val >= 10) {
-            if (temp === 0) temp = 1;
-            result += temp * val;
-            temp = 0;
-          } else {
-            temp = val;
-          }
-        }
-        return result + temp;
-      };
-
-      // 辅助函数：生成排序键（支持 X-Y 格式）
-      const getSortKey = (identifier: string): number => {
-        const dashMatch = identifier.match(/^(\d+)[-.](\d+)$/);
-        if (dashMatch) {
-          return parseInt(dashMatch[1]) * 1000 + parseInt(dashMatch[2]);
-        }
-        const num = parseInt(identifier);
-        return isNaN(num) ? 0 : num * 1000;
-      };
-
-      // 辅助函数：添加场次（避免重复）
-      const addScene = (identifier: string, mainNumber: number) => {
-        if (!extractedSceneData.find(s => s.identifier === identifier)) {
-          extractedSceneData.push({ 
-            identifier, 
-            mainNumber, 
-            sortKey: getSortKey(identifier) 
-          });
-        }
-      };
-
-      let match;
-      
-      // Pattern 1: X-Y 或 X.Y 格式（如 "1-1", "4-8"）- 完整保留标识符
-      const dashPattern = /(?:^|[\n\r])\s*(\d+)[-.](\d+)(?:\s|[：:.]|$)/gi;
-      while ((match = dashPattern.exec(content)) !== null) {
-        const main = parseInt(match[1], 10);
-        const sub = parseInt(match[2], 10);
-        if (!isNaN(main) && !isNaN(sub)) {
-          addScene(`${main}-${sub}`, main);
-        }
-      }
-
-      // Pattern 2: 第X场 with Arabic numbers
-      const arabicPattern = /(?:^|[\n\r])\s*第\s*(\d+)\s*[场集次]/gi;
-      while ((match = arabicPattern.exec(content)) !== null) {
-        const num = parseInt(match[1], 10);
-        if (!isNaN(num)) {
-          addScene(String(num), num);
-        }
+      // 剧本已锁定：保持场次编号，新增场次加 A/B 后缀，删除的场次标记为 OMITTED
+      if (previousScript?.isLocked) {
+        const revision = await saveLockedRevision(previousScript, script, revisionInputsFromContent(content, screenplay));
+        const createdCharacters = screenplay ? await saveScreenplayCharacters(actualProjectId, screenplay.characters) : [];
+        const activeEntries = revision.plan.entries.filter(entry => entry.kind !== "omitted");
+        const identifiers = activeEntries.map(entry => entry.kind === "inserted" ? entry.identifier : sceneIdentifierOf(entry.scene));
+        return res.json({
+          script: revision.script,
+          projectId: actualProjectId,
+          fileName: req.file.originalname,
+          extractedScenes: revision.createdScenes.length,
+          extractedCharacters: createdCharacters.length,
+          sceneNumbers: identifiers.map(id => sceneMainNumber(id) ?? 0),
+          sceneIdentifiers: identifiers,
+          locked: true,
+          revisionColor: revision.script.revisionColor,
+          changedScenes: revision.plan.changedScenes,
+          omittedScenes: revision.omittedScenes.map(sceneIdentifierOf),
+        });
       }
 
-      // Pattern 3: 第X场 with Chinese numbers (一二三...)
-      const chinesePattern = /(?:^|[\n\r])\s*第\s*([一二三四五六七八九十百千零]+)\s*[场集次]/gi;
-      while ((match = chinesePattern.exec(content)) !== null) {
-        const num = chineseToNumber(match[1]);
-        if (num > 0) {
-          addScene(String(num), num);
-        }
+      if (screenplay) {
+        const { createdScenes, updatedScenes, createdCharacters } = await saveParsedScreenplay(actualProjectId, script.id, screenplay);
+        console.log(`[Script Upload] Structured import (${ext}): created ${createdScenes.length} scenes, updated ${updatedScenes.length}, added ${createdCharacters.length} characters for project ${actualProjectId}`);
+        return res.json({
+          script,
+          projectId: actualProjectId,
+          fileName: req.file.originalname,
+          extractedScenes: createdScenes.length,
+          extractedCharacters: createdCharacters.length,
+          sceneNumbers: screenplay.scenes.map(s => s.mainNumber),
+          sceneIdentifiers: screenplay.scenes.map(s => s.identifier),
+        });
       }
 
-      // Pattern 4: 场次X format
-      const sceneNumPattern = /(?:^|[\n\r])\s*场次\s*[:：]?\s*(\d+)/gi;
-      while ((match = sceneNumPattern.exec(content)) !== null) {
-        const num = parseInt(match[1], 10);
-        if (!isNaN(num)) {
-          addScene(String(num), num);
-        }
-      }
+      // 自动提取所有场次 - 使用共享的场次标题解析器识别场次标记
+      // 存储场次标识符（字符串，如"1-1"）和对应的主序号（数字）
+      const extractedSceneData: { identifier: string; mainNumber: number; sortKey: number }[] = splitScriptIntoScenes(content)
+        .map(block => ({ identifier: block.identifier, mainNumber: block.mainNumber, sortKey: block.sortKey }));
 
       // 按排序键排序
       extractedSceneData.sort((a, b) => a.sortKey - b.sortKey);
@@ -625,7 +1218,7 @@ export async function registerRoutes(
       
       for (let i = 0; i < extractedSceneData.length; i++) {
         const sceneData = extractedSceneData[i];
-        const extracted = extractSceneContentFromScript(content, sceneData.mainNumber);
+        const extracted = extractSceneContentFromScript(content, sceneData.identifier);
         
         // 优先按sceneIdentifier匹配，其次按sceneNumber匹配
         const existingScene = existingScenes.find(s => 
@@ -642,6 +1235,7 @@ export async function registerRoutes(
             title: extracted.title || existingScene.title,
             location: extracted.location || existingScene.location,
             timeOfDay: extracted.timeOfDay || existingScene.timeOfDay,
+            intExt: extracted.intExt || existingScene.intExt,
             description: extracted.description || existingScene.description,
             dialogue: extracted.dialogue || existingScene.dialogue,
             action: extracted.action || existingScene.action,
@@ -658,6 +1252,7 @@ export async function registerRoutes(
             title: extracted.title || `场次 ${sceneData.identifier}`,
             location: extracted.location,
             timeOfDay: extracted.timeOfDay,
+            intExt: extracted.intExt,
             description: extracted.description,
             dialogue: extracted.dialogue,
             action: extracted.action,
@@ -682,6 +1277,41 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/projects/:projectId/script/export", async (req, res) => {
+    try {
+      const format = req.query.format as string;
+      if (format !== "fountain" && format !== "fdx") {
+        return res.status(400).json({ error: "format must be fountain or fdx" });
+      }
+
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const scripts = await storage.getScripts(project.id);
+      const activeScript = scripts.find(s => s.isActive);
+      if (!activeScript) {
+        return res.status(404).json({ error: "没有找到活动的剧本" });
+      }
+
+      const scenes = await storage.getScenes(project.id);
+      const elements = buildExportElements(activeScript, scenes);
+      const body = format === "fountain" ? toFountain(project.title, elements) : toFdx(project.title, elements);
+      const fileName = `${project.title}_v${activeScript.version}.${format}`;
+
+      res.setHeader("Content-Type", format === "fountain" ? "text/plain; charset=utf-8" : "application/xml; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="script.${format}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      );
+      res.send(body);
+    } catch (error) {
+      console.error("Error exporting script:", error);
+      res.status(500).json({ error: "Failed to export script" });
+    }
+  });
+
   app.get("/api/scenes", async (req, res) => {
     try {
       const projectId = req.query.projectId as string;
@@ -698,7 +1328,7 @@ export async function registerRoutes(
 
   app.post("/api/scenes/preview", async (req, res) => {
     try {
-      const { projectId, sceneNumber } = req.body as { projectId: string; sceneNumber: number };
+      const { projectId, sceneNumber, sceneIdentifier } = req.body as { projectId: string; sceneNumber: number; sceneIdentifier?: string };
       if (!projectId || !sceneNumber) {
         return res.status(400).json({ error: "projectId and sceneNumber are required" });
       }
@@ -719,7 +1349,7 @@ export async function registerRoutes(
         });
       }
 
-      const extracted = extractSceneContentFromScript(activeScript.content, sceneNumber);
+      const extracted = extractSceneContentFromScript(activeScript.content, sceneIdentifier || sceneNumber);
       
       if (!extracted.title && !extracted.description && !extracted.dialogue && !extracted.action) {
         return res.json({ 
@@ -848,7 +1478,7 @@ export async function registerRoutes(
       // Use AI to match call sheet references to scenes
       const matches = await matchCallSheetToScenesWithAI(callSheetText, scenesForMatching);
 
-      // Update scenes that are matched as being in call sheet
+      // Matching only previews scenes; membership is stored when the call sheet is saved
       const matchedSceneIds: string[] = [];
       for (const match of matches) {
         const matchedScene = existingScenes.find(s => 
@@ -856,7 +1486,6 @@ export async function registerRoutes(
           s.title === match.matchedSceneIdentifier
         );
         if (matchedScene) {
-          await storage.updateScene(matchedScene.id, { isInCallSheet: true });
           matchedSceneIds.push(matchedScene.id);
         }
       }
@@ -887,7 +1516,7 @@ export async function registerRoutes(
       let sceneData = { ...parsed.data };
       
       if (activeScript?.content) {
-        const extracted = extractSceneContentFromScript(activeScript.content, sceneNumber);
+        const extracted = extractSceneContentFromScript(activeScript.content, parsed.data.sceneIdentifier || sceneNumber);
         
         sceneData = {
           ...sceneData,
@@ -895,6 +1524,7 @@ export async function registerRoutes(
           title: title || extracted.title || `第 ${sceneNumber} 场`,
           location: sceneData.location || extracted.location,
           timeOfDay: sceneData.timeOfDay || extracted.timeOfDay,
+          intExt: sceneData.intExt || extracted.intExt,
           description: sceneData.description || extracted.description,
           dialogue: sceneData.dialogue || extracted.dialogue,
           action: sceneData.action || extracted.action,
@@ -1060,9 +1690,9 @@ ${buildRuleVariantsSection(directorRules)}
 ### 标志性技法
 ${directorRules!.signatures.map(s => `- ${s}`).join('\n')}`;
 
-      const sceneContentLength = (scene.description?.length || 0) + (scene.dialogue?.length || 0) + (scene.action?.length || 0) + ((scene as any).scriptContent?.length || 0);
-      const estimatedMinutes = Math.max(0.5, sceneContentLength / 300);
-      const estimatedSeconds = Math.round(estimatedMinutes * 60);
+      const sceneContentLength = (scene.description?.length || 0) + (scene.dialogue?.length || 0) + (scene.action?.length || 0) + (scene.scriptContent?.length || 0);
+      const estimatedSeconds = estimateSceneSeconds(scene);
+      const estimatedMinutes = estimatedSeconds / 60;
 
       const prompt = `你是一位专业的电影分镜师，精通${directorDescription}
 
@@ -1136,16 +1766,62 @@ ${directorRulesSection}
       console.log("[Shots Generate] OpenAI response:", content.substring(0, 500));
       const result = safeParseJSON(content, ShotsGenerationSchema, "shots");
       console.log("[Shots Generate] Parsed shots count:", result.shots.length);
+      // Zod defaults are applied at runtime, but the parsed type still marks them optional
+      const generatedShots = (result.shots ?? []).map(shot => ({ ...shot, shotNumber: shot.shotNumber ?? 1 }));
+
+      // 景别/角度/运动不在枚举内且无法按同义词映射时，追问一次模型；仍无效则置空
+      const unmapped = generatedShots.flatMap(shot => shotEnumFields
+        .filter(field => shot[field]?.trim() && !normalizeShotField(field, shot[field]))
+        .map(field => ({ shotNumber: shot.shotNumber, field, value: shot[field]! })));
+      if (unmapped.length > 0 && openai) {
+        console.log(`[Shots Generate] Re-asking for ${unmapped.length} unrecognized field values`);
+        try {
+          const retry = await openai.chat.completions.create({
+            model: "gpt-4o",
+            messages: [
+              { role: "user", content: prompt },
+              { role: "assistant", content },
+              {
+                role: "user",
+                content: `以下字段的取值不在允许范围内：
+${unmapped.map(entry => `- 镜头${entry.shotNumber} ${entry.field}: "${entry.value}"`).join("\n")}
+
+允许的取值：
+${shotEnumFields.map(field => `- ${field}: ${shotEnumValues[field].join("/")}`).join("\n")}
+
+请只返回这些镜头修正后的字段，JSON格式：{"shots": [{"shotNumber": 1, "shotType": "medium"}]}`,
+              },
+            ],
+            response_format: { type: "json_object" },
+            max_completion_tokens: 1024,
+          });
+          const corrected = safeParseJSON(retry.choices[0]?.message?.content || "{}", ShotFieldsRetrySchema);
+          for (const entry of unmapped) {
+            const value = corrected.shots?.find(shot => shot.shotNumber === entry.shotNumber)?.[entry.field];
+            const shot = generatedShots.find(shot => shot.shotNumber === entry.shotNumber);
+            if (shot && value && normalizeShotField(entry.field, value)) shot[entry.field] = value;
+          }
+        } catch (error) {
+          console.error("[Shots Generate] Re-ask for shot fields failed:", error);
+        }
+      }
 
       const createdShots = [];
-      for (const shot of result.shots) {
+      const normalizations: ShotFieldNormalization[] = [];
+      for (const shot of generatedShots) {
+        const { fields, changes } = normalizeShotFields(shot);
+        // Report against what the model first answered, not the re-asked value
+        normalizations.push(...changes.map(change => {
+          const first = unmapped.find(entry => entry.shotNumber === change.shotNumber && entry.field === change.field);
+          return first ? { ...change, original: first.value } : change;
+        }));
         const createdShot = await storage.createShot({
           sceneId,
           shotNumber: shot.shotNumber,
           description: shot.description,
-          shotType: shot.shotType,
-          cameraAngle: shot.cameraAngle,
-          cameraMovement: shot.cameraMovement,
+          shotType: fields.shotType,
+          cameraAngle: fields.cameraAngle,
+          cameraMovement: fields.cameraMovement,
           duration: shot.duration,
           directorStyle: isCustomDirector ? "custom" : directorStyle as DirectorStyle,
           customDirectorStyle: isCustomDirector ? customDirectorStyle : undefined,
@@ -1159,7 +1835,13 @@ ${directorRulesSection}
         createdShots.push(createdShot);
       }
 
-      res.json(createdShots);
+      const coverage = checkShotCoverage(scene, createdShots);
+      if (coverage.warnings.length > 0) {
+        console.log(`[Shots Generate] Coverage check: ${coverage.warnings.map(warning => warning.code).join(", ")}`);
+      }
+
+      const generated: GeneratedShots = { shots: createdShots, normalizations };
+      res.json(generated);
     } catch (error) {
       console.error("Error generating shots:", error);
       res.status(500).json({ error: "Failed to generate shots" });
@@ -1192,51 +1874,41 @@ ${directorRulesSection}
 
       const scene = await storage.getScene(shot.sceneId);
       const provider = (req.body?.provider as ImageProvider) || "openai";
+      // Several candidates can be generated at once for comparison; the last one becomes the frame
+      const count = Math.min(Math.max(parseInt(req.body?.count, 10) || 1, 1), MAX_IMAGE_CANDIDATES);
       
-      const imagePrompt = `Film storyboard frame, cinematic style:
-Scene: ${scene?.title || ""}
-Location: ${scene?.location || ""}
-Time: ${scene?.timeOfDay || ""}
-
-Shot ${shot.shotNumber}: ${shot.description}
-Shot type: ${shot.shotType || "medium shot"}
-Camera angle: ${shot.cameraAngle || "eye level"}
-Camera movement: ${shot.cameraMovement || "static"}
-${shot.atmosphere ? `Atmosphere: ${shot.atmosphere}` : ""}
-
-Requirements: Professional film cinematography, cinematic lighting, high quality, movie style, 16:9 aspect ratio`;
+      const { prompt: imagePrompt, references, frame } = await loadShotImageRequest(shot, scene, provider);
 
       const { generateImage } = await import("./image-providers");
       
-      let imageBuffer: Buffer | null = null;
-      let lastError: Error | null = null;
-      
-      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-        try {
-          console.log(`Generating image for shot ${shot.id} using ${provider}, attempt ${attempt}/${MAX_RETRIES}`);
-          const result = await generateImage(imagePrompt, provider);
-          imageBuffer = result.buffer;
-          break;
-        } catch (err) {
-          lastError = err as Error;
-          console.error(`Image generation attempt ${attempt} failed:`, err);
-          if (attempt < MAX_RETRIES) {
-            const delay = RETRY_DELAY_MS * Math.pow(1.5, attempt - 1);
-            console.log(`Retrying in ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+      let updatedShot: Shot | undefined = shot;
+      for (let index = 0; index < count && updatedShot; index++) {
+        let generated: ImageGenerationResult | null = null;
+        let lastError: Error | null = null;
+        
+        for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+          try {
+            console.log(`Generating image ${index + 1}/${count} for shot ${shot.id} using ${provider}, attempt ${attempt}/${MAX_RETRIES}`);
+            generated = await generateImage(imagePrompt, provider, frame, references);
+            break;
+          } catch (err) {
+            lastError = err as Error;
+            console.error(`Image generation attempt ${attempt} failed:`, err);
+            if (attempt < MAX_RETRIES) {
+              const delay = RETRY_DELAY_MS * Math.pow(1.5, attempt - 1);
+              console.log(`Retrying in ${delay}ms...`);
+              await new Promise(resolve => setTimeout(resolve, delay));
+            }
           }
         }
+        
+        // Candidates already generated are kept even if a later one fails
+        if (!generated) {
+          if (index === 0) throw lastError || new Error("Failed to generate image after all retries");
+          break;
+        }
+        updatedShot = await addShotImageCandidate(updatedShot, generated, imagePrompt);
       }
-      
-      if (!imageBuffer) {
-        throw lastError || new Error("Failed to generate image after all retries");
-      }
-      
-      const imageBase64 = imageBuffer.toString("base64");
-
-      const updatedShot = await storage.updateShot(shot.id, {
-        imageBase64: imageBase64,
-      });
 
       res.json(updatedShot);
     } catch (error) {
@@ -1245,20 +1917,165 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
     }
   });
 
-  // Generate images for all shots in a scene with SSE progress streaming
-  app.get("/api/scenes/:id/generate-all-images-stream", async (req, res) => {
-    const MAX_RETRIES = 5;
-    const RETRY_DELAY_MS = 2000;
-    
-    // Track connection state
-    let isConnectionClosed = false;
-    
-    // Set up SSE headers
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-    res.setHeader("X-Accel-Buffering", "no");
-    res.flushHeaders();
+  app.get("/api/shots/:id/image-candidates", async (req, res) => {
+    try {
+      const candidates = await storage.getShotImageCandidates(req.params.id);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error fetching shot image candidates:", error);
+      res.status(500).json({ error: "Failed to fetch shot image candidates" });
+    }
+  });
+
+  // All candidates of a scene, so the storyboard can show counts without a request per shot
+  app.get("/api/scenes/:id/shot-image-candidates", async (req, res) => {
+    try {
+      const candidates = await storage.getSceneShotImageCandidates(req.params.id);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error fetching scene shot image candidates:", error);
+      res.status(500).json({ error: "Failed to fetch shot image candidates" });
+    }
+  });
+
+  // Make a candidate the shot's frame; the other candidates are kept
+  app.post("/api/shots/:id/image-candidates/:candidateId/select", async (req, res) => {
+    try {
+      const candidate = await storage.getShotImageCandidate(req.params.candidateId);
+      if (!candidate || candidate.shotId !== req.params.id) {
+        return res.status(404).json({ error: "Image candidate not found" });
+      }
+      const shot = await storage.updateShot(req.params.id, { imageUrl: candidate.imageUrl });
+      if (!shot) {
+        return res.status(404).json({ error: "Shot not found" });
+      }
+      res.json(shot);
+    } catch (error) {
+      console.error("Error selecting shot image candidate:", error);
+      res.status(500).json({ error: "Failed to select shot image candidate" });
+    }
+  });
+
+  app.delete("/api/shots/:id/image-candidates/:candidateId", async (req, res) => {
+    try {
+      const [shot, candidate] = await Promise.all([
+        storage.getShot(req.params.id),
+        storage.getShotImageCandidate(req.params.candidateId),
+      ]);
+      if (!shot || !candidate || candidate.shotId !== shot.id) {
+        return res.status(404).json({ error: "Image candidate not found" });
+      }
+      if (candidate.imageUrl === shot.imageUrl) {
+        return res.status(400).json({ error: "The selected frame cannot be deleted; select another candidate first" });
+      }
+      await storage.deleteShotImageCandidate(candidate.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting shot image candidate:", error);
+      res.status(500).json({ error: "Failed to delete shot image candidate" });
+    }
+  });
+
+  // Repaints the painted area of the current frame. The result becomes the frame and a new
+  // shot version; the frame before the edit is saved as a version first if none holds it.
+  const EditShotImageSchema = z.object({
+    mask: z.string(),
+    instruction: z.string().trim().min(1, "An edit instruction is required"),
+    provider: z.enum(imageProviders).default("openai"),
+    changedBy: z.string().trim().min(1).max(100).optional(),
+  });
+
+  app.post("/api/shots/:id/edit-image", async (req, res) => {
+    try {
+      const parsed = EditShotImageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const shot = await storage.getShot(req.params.id);
+      if (!shot) {
+        return res.status(404).json({ error: "Shot not found" });
+      }
+      if (!shot.imageUrl) {
+        return res.status(400).json({ error: "Shot has no image to edit" });
+      }
+
+      const { instruction, provider, changedBy } = parsed.data;
+      const mask = decodeDataUrl(parsed.data.mask);
+      if (!imageProviderInfo[provider].imageEdits) {
+        return res.status(400).json({ error: `Provider "${provider}" does not support image edits` });
+      }
+      if (!mask || mask.mimeType !== "image/png") {
+        return res.status(400).json({ error: "Mask must be a PNG data URL" });
+      }
+
+      const image = await loadImageData(shot.imageUrl);
+      if (!image) {
+        return res.status(404).json({ error: "Shot image not found" });
+      }
+      let editMask: EditMask;
+      try {
+        editMask = await prepareMask(mask.data, image.data);
+      } catch (error) {
+        console.error("Error reading edit mask:", error);
+        return res.status(400).json({ error: "Mask could not be read as a PNG image" });
+      }
+      if (editMask.coverage === 0) {
+        return res.status(400).json({ error: "Mask is empty; paint the area to change" });
+      }
+
+      const { editImageRegion } = await import("./image-providers");
+      console.log(`Editing image of shot ${shot.id} using ${provider}, ${Math.round(editMask.coverage * 100)}% masked`);
+      const generated = await editImageRegion(image.data, editMask, instruction, provider);
+
+      const versions = await storage.getShotVersions(shot.id);
+      const snapshot = {
+        shotId: shot.id,
+        sceneId: shot.sceneId,
+        description: shot.description,
+        shotType: shot.shotType,
+        cameraAngle: shot.cameraAngle,
+        cameraMovement: shot.cameraMovement,
+        duration: shot.duration,
+        atmosphere: shot.atmosphere,
+        notes: shot.notes,
+      };
+      if (!versions.some(version => version.imageUrl === shot.imageUrl)) {
+        await storage.createNextShotVersion({
+          ...snapshot,
+          imageUrl: shot.imageUrl,
+          changeDescription: "局部重绘前自动保存",
+        });
+      }
+
+      const edited = await addShotImageCandidate(shot, generated, instruction);
+      await storage.createNextShotVersion({
+        ...snapshot,
+        imageUrl: edited?.imageUrl ?? null,
+        changeDescription: `局部重绘：${instruction}`,
+        changedBy,
+      });
+
+      res.json(await storage.getShot(shot.id));
+    } catch (error) {
+      console.error("Error editing shot image:", error);
+      res.status(500).json({ error: "Failed to edit shot image" });
+    }
+  });
+
+  // Generate images for all shots in a scene with SSE progress streaming
+  app.get("/api/scenes/:id/generate-all-images-stream", async (req, res) => {
+    const MAX_RETRIES = 5;
+    const RETRY_DELAY_MS = 2000;
+    
+    // Track connection state
+    let isConnectionClosed = false;
+    
+    // Set up SSE headers
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
     
     // Handle client disconnect
     req.on("close", () => {
@@ -1318,26 +2135,15 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
           message: `正在生成第 ${currentIndex}/${total} 张图片 (镜头 #${shot.shotNumber})...` 
         });
         
-        const imagePrompt = `Film storyboard frame, cinematic style:
-Scene: ${scene.title || ""}
-Location: ${scene.location || ""}
-Time: ${scene.timeOfDay || ""}
-
-Shot ${shot.shotNumber}: ${shot.description}
-Shot type: ${shot.shotType || "medium shot"}
-Camera angle: ${shot.cameraAngle || "eye level"}
-Camera movement: ${shot.cameraMovement || "static"}
-${shot.atmosphere ? `Atmosphere: ${shot.atmosphere}` : ""}
+        const { prompt: imagePrompt, references, frame } = await loadShotImageRequest(shot, scene, provider);
 
-Requirements: Professional film cinematography, cinematic lighting, high quality, movie style, 16:9 aspect ratio`;
-
-        let imageBuffer: Buffer | null = null;
+        let generated: ImageGenerationResult | null = null;
         
         for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
           try {
             console.log(`Generating image for shot ${shot.id} (${shot.shotNumber}) using ${provider}, attempt ${attempt}/${MAX_RETRIES}`);
-            const result = await generateImage(imagePrompt, provider);
-            imageBuffer = result.buffer;
+            const result = await generateImage(imagePrompt, provider, frame, references);
+            generated = result;
             break;
           } catch (err) {
             console.error(`Image generation attempt ${attempt} for shot ${shot.id} failed:`, err);
@@ -1356,11 +2162,8 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
           }
         }
         
-        if (imageBuffer) {
-          const imageBase64 = imageBuffer.toString("base64");
-          await storage.updateShot(shot.id, {
-            imageBase64: imageBase64,
-          });
+        if (generated) {
+          await addShotImageCandidate(shot, generated, imagePrompt);
           results.push({ id: shot.id, shotNumber: shot.shotNumber, success: true });
           sendProgress({ 
             type: "complete", 
@@ -1426,26 +2229,15 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
       const results = [];
       
       for (const shot of shots) {
-        const imagePrompt = `Film storyboard frame, cinematic style:
-Scene: ${scene.title || ""}
-Location: ${scene.location || ""}
-Time: ${scene.timeOfDay || ""}
-
-Shot ${shot.shotNumber}: ${shot.description}
-Shot type: ${shot.shotType || "medium shot"}
-Camera angle: ${shot.cameraAngle || "eye level"}
-Camera movement: ${shot.cameraMovement || "static"}
-${shot.atmosphere ? `Atmosphere: ${shot.atmosphere}` : ""}
+        const { prompt: imagePrompt, references, frame } = await loadShotImageRequest(shot, scene, provider);
 
-Requirements: Professional film cinematography, cinematic lighting, high quality, movie style, 16:9 aspect ratio`;
-
-        let imageBuffer: Buffer | null = null;
+        let generated: ImageGenerationResult | null = null;
         
         for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
           try {
             console.log(`Generating image for shot ${shot.id} (${shot.shotNumber}) using ${provider}, attempt ${attempt}/${MAX_RETRIES}`);
-            const result = await generateImage(imagePrompt, provider);
-            imageBuffer = result.buffer;
+            const result = await generateImage(imagePrompt, provider, frame, references);
+            generated = result;
             break;
           } catch (err) {
             console.error(`Image generation attempt ${attempt} for shot ${shot.id} failed:`, err);
@@ -1457,11 +2249,8 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
           }
         }
         
-        if (imageBuffer) {
-          const imageBase64 = imageBuffer.toString("base64");
-          await storage.updateShot(shot.id, {
-            imageBase64: imageBase64,
-          });
+        if (generated) {
+          await addShotImageCandidate(shot, generated, imagePrompt);
           results.push({ id: shot.id, shotNumber: shot.shotNumber, success: true });
         } else {
           console.error(`Failed to generate image for shot ${shot.id} after ${MAX_RETRIES} attempts`);
@@ -1486,7 +2275,7 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
         return res.status(404).json({ error: "Shot not found" });
       }
 
-      if (!shot.imageBase64) {
+      if (!shot.imageUrl) {
         return res.status(400).json({ error: "Shot must have an image before generating video" });
       }
 
@@ -1501,7 +2290,7 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
 
       // Enqueue job for async processing
       const { enqueueVideoJob } = await import("./video-job-queue");
-      const jobId = enqueueVideoJob(shot.id, model, shot.imageBase64, videoDescription, shot.duration || 5);
+      const jobId = enqueueVideoJob(shot.id, model, shot.imageUrl, videoDescription, shotOutputFrame(shot), shot.duration || 5);
 
       // Return immediately with job info
       res.json({ 
@@ -1527,7 +2316,7 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
       }
 
       const shots = await storage.getShots(req.params.id);
-      const shotsWithImages = shots.filter(s => s.imageBase64);
+      const shotsWithImages = shots.filter(s => s.imageUrl);
       
       if (shotsWithImages.length === 0) {
         return res.status(400).json({ error: "No shots with images to generate videos for" });
@@ -1547,7 +2336,7 @@ Requirements: Professional film cinematography, cinematic lighting, high quality
       // Enqueue all jobs (non-blocking)
       for (const shot of shotsWithImages) {
         const videoDescription = `${shot.description}. Camera: ${shot.cameraMovement || "static"}. ${shot.atmosphere || ""}. Scene: ${scene.title || ""}`;
-        const jobId = enqueueVideoJob(shot.id, model, shot.imageBase64!, videoDescription, shot.duration || 5);
+        const jobId = enqueueVideoJob(shot.id, model, shot.imageUrl!, videoDescription, shotOutputFrame(shot), shot.duration || 5);
         jobs.push({ jobId, shotId: shot.id, shotNumber: shot.shotNumber });
       }
 
@@ -1742,9 +2531,12 @@ ${activeScript.content}
         return res.status(400).json({ error: "imageBase64 is required" });
       }
 
-      const updated = await storage.updateCharacter(id, {
-        imageReferenceUrl: imageBase64,
-      });
+      const imageReferenceUrl = await storeImageUrl(imageBase64);
+      if (!imageReferenceUrl) {
+        return res.status(400).json({ error: "无法读取该图片" });
+      }
+
+      const updated = await storage.updateCharacter(id, { imageReferenceUrl });
       
       if (!updated) {
         return res.status(404).json({ error: "Character not found" });
@@ -1780,10 +2572,15 @@ ${activeScript.content}
         return res.status(400).json({ error: "assetType and imageUrl are required" });
       }
 
+      const storedUrl = await storeImageUrl(imageUrl);
+      if (!storedUrl) {
+        return res.status(400).json({ error: "无法读取该图片，请上传图片文件" });
+      }
+
       const asset = await storage.createCharacterAssetReference({
         characterId: id,
         assetType,
-        imageUrl,
+        imageUrl: storedUrl,
         description,
       });
       res.json(asset);
@@ -2291,251 +3088,1126 @@ ${scriptContent.substring(0, 8000)}
     }
   });
 
-  app.post("/api/export", async (req, res) => {
+  app.get("/api/scenes/:sceneId/breakdown", async (req, res) => {
     try {
-      const { projectId, modules, format, sceneIds, includeVersions } = req.body as {
-        projectId: string;
-        modules: string[];
-        format: "pdf" | "excel" | "word";
-        sceneIds: string[];
-        includeVersions: boolean;
-      };
-
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ error: "Project not found" });
+      const scene = await storage.getScene(req.params.sceneId);
+      if (!scene) {
+        return res.status(404).json({ error: "Scene not found" });
       }
+      res.json(await loadSceneBreakdown(scene));
+    } catch (error) {
+      console.error("Error fetching scene breakdown:", error);
+      res.status(500).json({ error: "Failed to fetch scene breakdown" });
+    }
+  });
 
-      const exportData: Record<string, unknown> = {
-        project: {
-          id: project.id,
-          title: project.title,
-          type: project.type,
-          description: project.description,
-          createdAt: project.createdAt,
-        },
-        exportedAt: new Date().toISOString(),
-        format,
-        includeVersions,
-      };
+  const CreateBreakdownTagSchema = z.object({
+    elementId: z.string().optional(),
+    category: z.enum(breakdownCategories).optional(),
+    name: z.string().trim().min(1).optional(),
+    description: z.string().nullable().optional(),
+    startOffset: z.number().int().min(0).nullable().optional(),
+    endOffset: z.number().int().min(0).nullable().optional(),
+    quantity: z.number().int().positive().nullable().optional(),
+    notes: z.string().nullable().optional(),
+  }).refine(data => !!data.elementId || (!!data.category && !!data.name), {
+    message: "elementId or category and name are required",
+  }).refine(data => (data.startOffset == null) === (data.endOffset == null) && (data.startOffset == null || data.startOffset < data.endOffset!), {
+    message: "Invalid text range",
+  });
 
-      if (modules.includes("script")) {
-        const scripts = await storage.getScripts(projectId);
-        exportData.scripts = includeVersions ? scripts : scripts.filter(s => s.isActive);
+  app.post("/api/scenes/:sceneId/breakdown/tags", async (req, res) => {
+    try {
+      const parsed = CreateBreakdownTagSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const scene = await storage.getScene(req.params.sceneId);
+      if (!scene) {
+        return res.status(404).json({ error: "Scene not found" });
       }
 
-      if (modules.includes("storyboard") || modules.includes("analysis") || modules.includes("performance") || modules.includes("production")) {
-        const scenes = await storage.getScenes(projectId);
-        const filteredScenes = sceneIds.length > 0 
-          ? scenes.filter(s => sceneIds.includes(s.id))
-          : scenes;
-        
-        exportData.scenes = await Promise.all(filteredScenes.map(async (scene) => {
-          const sceneData: Record<string, unknown> = { ...scene };
-          
-          if (modules.includes("storyboard")) {
-            sceneData.shots = await storage.getShots(scene.id);
-          }
-          
-          if (modules.includes("performance")) {
-            sceneData.performanceGuides = await storage.getPerformanceGuides(scene.id);
-          }
-          
-          if (modules.includes("production")) {
-            sceneData.productionNotes = await storage.getProductionNotes(scene.id);
-          }
-          
-          if (modules.includes("analysis")) {
-            sceneData.analysis = await storage.getSceneAnalysis(scene.id);
-          }
-          
-          return sceneData;
-        }));
+      const data = parsed.data;
+      const text = await ensureBreakdownText(scene);
+      if (data.endOffset != null && data.endOffset > text.length) {
+        return res.status(400).json({ error: "选中的文本超出场次内容范围" });
       }
 
-      const characters = await storage.getCharacters(projectId);
-      exportData.characters = characters;
+      const elements = await storage.getBreakdownElements(scene.projectId);
+      let element = data.elementId ? elements.find(e => e.id === data.elementId) : undefined;
+      if (data.elementId && !element) {
+        return res.status(404).json({ error: "Breakdown element not found" });
+      }
+      if (!element) {
+        element = await findOrCreateBreakdownElement(scene.projectId, data.category!, data.name!, elements, data.description);
+      }
 
-      res.json({
-        success: true,
-        message: `数据已准备完成（${format.toUpperCase()}格式）`,
-        projectTitle: project.title,
-        data: exportData,
+      const tag = await storage.createBreakdownTag({
+        elementId: element.id,
+        sceneId: scene.id,
+        startOffset: data.startOffset ?? null,
+        endOffset: data.endOffset ?? null,
+        excerpt: data.startOffset != null ? text.slice(data.startOffset, data.endOffset!) : null,
+        quantity: data.quantity ?? null,
+        notes: data.notes ?? null,
+        source: "manual",
+        status: "confirmed",
       });
+      res.status(201).json({ ...tag, element });
     } catch (error) {
-      console.error("Error exporting:", error);
-      res.status(500).json({ error: "Failed to export" });
+      console.error("Error creating breakdown tag:", error);
+      res.status(500).json({ error: "Failed to create breakdown tag" });
     }
   });
 
-  app.get("/api/call-sheets", async (req, res) => {
+  app.post("/api/scenes/:sceneId/breakdown/auto-tag", async (req, res) => {
     try {
-      const projectId = req.query.projectId as string;
-      if (!projectId) {
-        return res.status(400).json({ error: "projectId is required" });
+      const scene = await storage.getScene(req.params.sceneId);
+      if (!scene) {
+        return res.status(404).json({ error: "Scene not found" });
       }
-      const callSheets = await storage.getCallSheets(projectId);
-      res.json(callSheets);
-    } catch (error) {
-      console.error("Error fetching call sheets:", error);
-      res.status(500).json({ error: "Failed to fetch call sheets" });
+
+      const text = await ensureBreakdownText(scene);
+      if (!text.trim()) {
+        return res.status(400).json({ error: "该场次没有剧本内容，无法拆解" });
+      }
+
+      if (!openai) {
+        return res.status(500).json({ error: "OpenAI client not configured" });
+      }
+
+      const characters = await storage.getCharacters(scene.projectId);
+      const categoryList = breakdownCategories
+        .map(c => `- ${c}：${breakdownCategoryInfo[c].nameCN}（${breakdownCategoryInfo[c].name}）`)
+        .join("\n");
+
+      const prompt = `你是一位专业的副导演，负责为拍摄计划做剧本拆解（Script Breakdown）。
+
+请逐字阅读以下场次剧本，找出拍摄这一场需要准备的全部元素，并按类别标注：
+${categoryList}
+
+已知角色：${characters.map((c) => c.name).join("、") || "未定义"}
+
+场次${scene.sceneIdentifier || scene.sceneNumber}：${scene.title}
+剧本原文：
+${text.substring(0, 8000)}
+
+要求：
+1. excerpt 必须是剧本原文中逐字出现的片段（不要改写、不要加标点），用来在原文中定位
+2. 同一元素在本场多次出现时只需标注第一次出现
+3. 有台词或明确动作的角色归入 cast，没有台词的路人、人群归入 extras
+4. name 使用简短的统一名称（如"警车"而不是"一辆闪着警灯的警车"），cast 使用角色名
+5. 数量明确时填写 quantity（如群演人数）
+
+返回JSON格式：
+{
+  "elements": [
+    {
+      "category": "类别英文代码",
+      "name": "元素名称",
+      "excerpt": "原文片段",
+      "quantity": null,
+      "description": "补充说明（可选）"
     }
-  });
+  ]
+}`;
 
-  app.post("/api/call-sheets", async (req, res) => {
-    try {
-      const parsed = insertCallSheetSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.errors });
+      const response = await openai.chat.completions.create({
+        model: "gpt-5",
+        messages: [{ role: "user", content: prompt }],
+        response_format: { type: "json_object" },
+        max_completion_tokens: 4096,
+      });
+
+      // No fallback here: an unreadable response must not wipe the suggestions already on the scene
+      const content = response.choices[0]?.message?.content || "";
+      let result: z.infer<typeof BreakdownTaggingSchema>;
+      try {
+        result = BreakdownTaggingSchema.parse(JSON.parse(content));
+      } catch (error) {
+        console.error("Error parsing breakdown suggestions:", error);
+        return res.status(500).json({ error: "AI 返回的拆解结果无法解析，原有建议未改动" });
       }
-      const callSheet = await storage.createCallSheet(parsed.data);
-      res.status(201).json(callSheet);
+
+      // Re-running replaces earlier unconfirmed suggestions; confirmed and manual tags stay
+      const existingTags = await storage.getBreakdownTags(scene.id);
+      const staleSuggestions = existingTags.filter(t => t.source === "ai" && t.status === "suggested");
+      for (const tag of staleSuggestions) {
+        await storage.deleteBreakdownTag(tag.id);
+      }
+      for (const elementId of Array.from(new Set(staleSuggestions.map(t => t.elementId)))) {
+        await pruneBreakdownElement(elementId);
+      }
+      const keptTags = existingTags.filter(t => !staleSuggestions.includes(t));
+
+      const elements = await storage.getBreakdownElements(scene.projectId);
+      const sceneTags = [...keptTags];
+      const createdTags = [];
+      let skipped = 0;
+
+      for (const suggestion of result.elements ?? []) {
+        const category = (suggestion.category ?? "").trim().toLowerCase() as BreakdownCategory;
+        const name = (suggestion.name ?? "").trim();
+        const excerpt = (suggestion.excerpt ?? "").trim();
+        if (!breakdownCategories.includes(category) || !name) {
+          skipped++;
+          continue;
+        }
+
+        const element = await findOrCreateBreakdownElement(scene.projectId, category, name, elements, suggestion.description);
+        const sameElement = sceneTags.filter(t => t.elementId === element.id);
+        const occupied = sameElement.flatMap(t => t.startOffset !== null && t.endOffset !== null
+          ? [{ startOffset: t.startOffset, endOffset: t.endOffset }]
+          : []);
+        const range = locateExcerpt(text, excerpt, 0);
+
+        // Already tagged by hand (or earlier in this response) at the same place
+        if (range ? occupied.some(other => rangesOverlap(range, other)) : sameElement.length > 0) {
+          skipped++;
+          continue;
+        }
+
+        const tag = await storage.createBreakdownTag({
+          elementId: element.id,
+          sceneId: scene.id,
+          startOffset: range?.startOffset ?? null,
+          endOffset: range?.endOffset ?? null,
+          excerpt: range ? text.slice(range.startOffset, range.endOffset) : excerpt || null,
+          quantity: suggestion.quantity ?? null,
+          source: "ai",
+          status: "suggested",
+        });
+        sceneTags.push(tag);
+        createdTags.push(tag);
+      }
+
+      console.log(`[Breakdown] Scene ${scene.id}: ${createdTags.length} suggestions, ${skipped} skipped, ${staleSuggestions.length} replaced`);
+      res.json({ ...(await loadSceneBreakdown({ ...scene, scriptContent: text })), created: createdTags.length, skipped });
     } catch (error) {
-      console.error("Error creating call sheet:", error);
-      res.status(500).json({ error: "Failed to create call sheet" });
+      console.error("Error auto-tagging breakdown:", error);
+      res.status(500).json({ error: "Failed to auto-tag breakdown" });
     }
   });
 
-  const callSheetUpload = multer({
-    storage: multer.memoryStorage(),
-    limits: { fileSize: 5 * 1024 * 1024 },
-    fileFilter: (req, file, cb) => {
-      const allowedTypes = ["text/plain", "application/vnd.openxmlformats-officedocument.wordprocessingml.document", "application/pdf"];
-      const allowedExts = [".txt", ".docx", ".pdf"];
-      const ext = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf("."));
-      if (allowedTypes.includes(file.mimetype) || allowedExts.includes(ext)) {
-        cb(null, true);
-      } else {
-        cb(new Error("不支持的文件格式。请上传 .txt, .docx 或 .pdf 格式的通告单文件"));
-      }
-    },
+  const UpdateBreakdownTagSchema = z.object({
+    category: z.enum(breakdownCategories).optional(),
+    name: z.string().trim().min(1).optional(),
+    status: z.enum(breakdownTagStatuses).optional(),
+    startOffset: z.number().int().min(0).nullable().optional(),
+    endOffset: z.number().int().min(0).nullable().optional(),
+    quantity: z.number().int().positive().nullable().optional(),
+    notes: z.string().nullable().optional(),
   });
 
-  app.post("/api/call-sheets/upload", callSheetUpload.single("file"), async (req, res) => {
+  app.patch("/api/breakdown-tags/:id", async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ error: "未上传文件" });
+      const parsed = UpdateBreakdownTagSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
       }
-
-      const { projectId, title } = req.body;
-      if (!projectId || !title) {
-        return res.status(400).json({ error: "projectId和title是必需的" });
+      const tag = await storage.getBreakdownTag(req.params.id);
+      if (!tag) {
+        return res.status(404).json({ error: "Breakdown tag not found" });
+      }
+      const scene = await storage.getScene(tag.sceneId);
+      if (!scene) {
+        return res.status(404).json({ error: "Scene not found" });
       }
 
-      let rawText = "";
-      const ext = req.file.originalname.toLowerCase().substring(req.file.originalname.lastIndexOf("."));
+      const { category, name, startOffset, endOffset, ...rest } = parsed.data;
+      const updates: Parameters<typeof storage.updateBreakdownTag>[1] = { ...rest };
 
-      if (ext === ".txt") {
-        rawText = req.file.buffer.toString("utf-8");
-      } else if (ext === ".docx") {
-        const result = await mammoth.extractRawText({ buffer: req.file.buffer });
-        rawText = result.value;
-      } else if (ext === ".pdf") {
-        const pdfData = await pdfParse.default(req.file.buffer);
-        rawText = pdfData.text;
+      const elements = await storage.getBreakdownElements(scene.projectId);
+      const current = elements.find(e => e.id === tag.elementId);
+      if ((category || name) && current) {
+        const target = await findOrCreateBreakdownElement(scene.projectId, category ?? current.category, name ?? current.name, elements);
+        updates.elementId = target.id;
       }
 
-      // 辅助函数：将中文数字转换为阿拉伯数字
-      const chineseToNumber = (str: string): number => {
-        const chineseNums: Record<string, number> = {
-          '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9, '十': 10,
-          '零': 0, '壹': 1, '贰': 2, '叁': 3, '肆': 4, '伍': 5, '陆': 6, '柒': 7, '捌': 8, '玖': 9, '拾': 10
-        };
-        
-        if (/^\d+$/.test(str)) return parseInt(str);
-        
-        let result = 0;
-        let temp = 0;
-        for (let i = 0; i < str.length; i++) {
-          const char = str[i];
-          const val = chineseNums[char];
-          if (val === undefined) continue;
-          
-          if (val === 10) {
-            if (temp === 0) result += 10;
-            else result += temp * 10;
-            temp = 0;
-          } else {
-            temp = val;
-          }
+      if (startOffset !== undefined || endOffset !== undefined) {
+        const text = breakdownTextOf(scene);
+        if (startOffset == null || endOffset == null) {
+          Object.assign(updates, { startOffset: null, endOffset: null });
+        } else if (startOffset >= endOffset || endOffset > text.length) {
+          return res.status(400).json({ error: "Invalid text range" });
+        } else {
+          Object.assign(updates, { startOffset, endOffset, excerpt: text.slice(startOffset, endOffset) });
         }
-        return result + temp;
-      };
+      }
 
-      // 增强场次识别 - 支持多种格式，同时提取数字和完整标识符
-      const sceneNumbersFound: number[] = [];
-      const sceneIdentifiersFound: string[] = [];
-      
-      // 辅助函数：添加标识符（避免重复）
-      const addIdentifier = (identifier: string, mainNumber: number) => {
-        if (!sceneIdentifiersFound.includes(identifier)) {
-          sceneIdentifiersFound.push(identifier);
-        }
-        if (!sceneNumbersFound.includes(mainNumber)) {
-          sceneNumbersFound.push(mainNumber);
+      // Any manual edit of an AI suggestion counts as reviewing it
+      if (tag.source === "ai" && tag.status === "suggested" && !updates.status && Object.keys(updates).length > 0) {
+        updates.status = "confirmed";
+      }
+
+      const updated = await storage.updateBreakdownTag(tag.id, updates);
+      if (updates.elementId && updates.elementId !== tag.elementId) {
+        await pruneBreakdownElement(tag.elementId);
+      }
+      const element = elements.find(e => e.id === updated?.elementId);
+      res.json({ ...updated, element });
+    } catch (error) {
+      console.error("Error updating breakdown tag:", error);
+      res.status(500).json({ error: "Failed to update breakdown tag" });
+    }
+  });
+
+  app.delete("/api/breakdown-tags/:id", async (req, res) => {
+    try {
+      const tag = await storage.getBreakdownTag(req.params.id);
+      if (!tag) {
+        return res.status(404).json({ error: "Breakdown tag not found" });
+      }
+      await storage.deleteBreakdownTag(tag.id);
+      await pruneBreakdownElement(tag.elementId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting breakdown tag:", error);
+      res.status(500).json({ error: "Failed to delete breakdown tag" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/breakdown-elements", async (req, res) => {
+    try {
+      const elements = await storage.getBreakdownElements(req.params.projectId);
+      res.json(elements);
+    } catch (error) {
+      console.error("Error fetching breakdown elements:", error);
+      res.status(500).json({ error: "Failed to fetch breakdown elements" });
+    }
+  });
+
+  const UpdateBreakdownElementSchema = z.object({
+    category: z.enum(breakdownCategories).optional(),
+    name: z.string().trim().min(1).optional(),
+    description: z.string().nullable().optional(),
+    characterId: z.string().nullable().optional(),
+  });
+
+  app.patch("/api/breakdown-elements/:id", async (req, res) => {
+    try {
+      const parsed = UpdateBreakdownElementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const element = await storage.getBreakdownElement(req.params.id);
+      if (!element) {
+        return res.status(404).json({ error: "Breakdown element not found" });
+      }
+
+      // Renaming onto an existing element merges the two, so "警车" and "警 车" end up as one
+      const key = elementKey(parsed.data.category ?? element.category, parsed.data.name ?? element.name);
+      const elements = await storage.getBreakdownElements(element.projectId);
+      const duplicate = elements.find(e => e.id !== element.id && elementKey(e.category, e.name) === key);
+      if (duplicate) {
+        const tags = await storage.getBreakdownTagsByElement(element.id);
+        for (const tag of tags) {
+          await storage.updateBreakdownTag(tag.id, { elementId: duplicate.id });
         }
-      };
-      
-      // 格式1: X-Y 或 X.Y 格式（如 "1-1", "4-8"）- 优先匹配，保留完整标识符
-      const dashPattern = /(\d+)[-.](\d+)/g;
-      for (const match of rawText.matchAll(dashPattern)) {
-        const main = parseInt(match[1]);
-        const sub = parseInt(match[2]);
-        if (!isNaN(main) && !isNaN(sub) && main > 0) {
-          addIdentifier(`${main}-${sub}`, main);
+        await storage.deleteBreakdownElement(element.id);
+        return res.json(duplicate);
+      }
+
+      const updated = await storage.updateBreakdownElement(element.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating breakdown element:", error);
+      res.status(500).json({ error: "Failed to update breakdown element" });
+    }
+  });
+
+  app.delete("/api/breakdown-elements/:id", async (req, res) => {
+    try {
+      await storage.deleteBreakdownElement(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting breakdown element:", error);
+      res.status(500).json({ error: "Failed to delete breakdown element" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/breakdown-sheets", async (req, res) => {
+    try {
+      const sceneIds = typeof req.query.sceneIds === "string" ? req.query.sceneIds.split(",").filter(Boolean) : undefined;
+      const report = await loadBreakdownSheetReport(req.params.projectId, sceneIds);
+      if (!report) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error building breakdown sheets:", error);
+      res.status(500).json({ error: "Failed to build breakdown sheets" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/breakdown-sheets/pdf", async (req, res) => {
+    try {
+      const sceneIds = typeof req.query.sceneIds === "string" ? req.query.sceneIds.split(",").filter(Boolean) : undefined;
+      const report = await loadBreakdownSheetReport(req.params.projectId, sceneIds);
+      if (!report) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const buffer = await generateBreakdownSheetPdf(report);
+      const fileName = `${report.projectTitle}_拆解表_${new Date().toISOString().split("T")[0]}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="breakdown.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      );
+      res.setHeader("Content-Length", buffer.length);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error exporting breakdown sheets:", error);
+      res.status(500).json({ error: "Failed to export breakdown sheets" });
+    }
+  });
+
+  // ============================================
+  // 拍摄计划 (Stripboard Shooting Schedule)
+  // ============================================
+
+  app.get("/api/projects/:projectId/schedule", async (req, res) => {
+    try {
+      const schedule = await loadShootingSchedule(req.params.projectId);
+      if (!schedule) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error loading shooting schedule:", error);
+      res.status(500).json({ error: "Failed to load shooting schedule" });
+    }
+  });
+
+  const ReorderScheduleSchema = z.object({
+    stripIds: z.array(z.string()),
+  });
+
+  app.put("/api/projects/:projectId/schedule/order", async (req, res) => {
+    try {
+      const parsed = ReorderScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const strips = await storage.getScheduleStrips(req.params.projectId);
+      if (!isStripPermutation(strips, parsed.data.stripIds)) {
+        return res.status(409).json({ error: "Strip order is out of date, reload the schedule" });
+      }
+
+      await storage.reorderScheduleStrips(req.params.projectId, parsed.data.stripIds);
+      res.json(await loadShootingSchedule(req.params.projectId));
+    } catch (error) {
+      console.error("Error reordering schedule strips:", error);
+      res.status(500).json({ error: "Failed to reorder schedule strips" });
+    }
+  });
+
+  const ScheduleStripFieldsSchema = z.object({
+    label: z.string().trim().nullable().optional(),
+    color: z.enum(stripColors).nullable().optional(),
+    shootDate: z.coerce.date().nullable().optional(),
+    estimatedMinutes: z.number().int().min(0).nullable().optional(),
+  });
+
+  const CreateScheduleStripSchema = ScheduleStripFieldsSchema.extend({
+    kind: z.enum(["day_break", "banner"]),
+    afterStripId: z.string().nullable().optional(), // null inserts at the top, omitted appends
+  });
+
+  app.post("/api/projects/:projectId/schedule/strips", async (req, res) => {
+    try {
+      const parsed = CreateScheduleStripSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { projectId } = req.params;
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const { afterStripId, estimatedMinutes: _estimatedMinutes, ...fields } = parsed.data;
+      const strips = await storage.getScheduleStrips(projectId);
+      const created = await storage.createScheduleStrip({ ...fields, projectId, position: strips.length });
+
+      const order = strips.map(strip => strip.id);
+      if (afterStripId !== undefined) {
+        const index = afterStripId === null ? 0 : order.indexOf(afterStripId) + 1;
+        if (afterStripId !== null && index === 0) {
+          await storage.deleteScheduleStrip(created.id);
+          return res.status(400).json({ error: "Strip not found in this schedule" });
         }
+        order.splice(index, 0, created.id);
+        await storage.reorderScheduleStrips(projectId, order);
       }
-      
-      // 格式2: "第X场", "第X集", "X场" 等 (X可以是阿拉伯数字或中文数字)
-      const chineseScenePattern = /(?:第?\s*([一二三四五六七八九十百\d]+)\s*[场集次])/gi;
-      for (const match of rawText.matchAll(chineseScenePattern)) {
-        const num = chineseToNumber(match[1]);
-        if (!isNaN(num) && num > 0) {
-          addIdentifier(String(num), num);
+
+      res.status(201).json(await loadShootingSchedule(projectId));
+    } catch (error) {
+      console.error("Error creating schedule strip:", error);
+      res.status(500).json({ error: "Failed to create schedule strip" });
+    }
+  });
+
+  const OptimizeScheduleSchema = z.object({
+    maxPageEighthsPerDay: z.number().int().min(1).max(200).default(DEFAULT_MAX_EIGHTHS_PER_DAY),
+  });
+
+  app.post("/api/projects/:projectId/schedule/optimize", async (req, res) => {
+    try {
+      const parsed = OptimizeScheduleSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const schedule = await loadShootingSchedule(req.params.projectId);
+      if (!schedule) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(optimizeSchedule(schedule, parsed.data.maxPageEighthsPerDay));
+    } catch (error) {
+      console.error("Error optimizing shooting schedule:", error);
+      res.status(500).json({ error: "Failed to optimize shooting schedule" });
+    }
+  });
+
+  const ApplyScheduleSchema = z.object({
+    days: z.array(z.array(z.string()).min(1)),
+  });
+
+  // Rebuilds the board from a proposal: existing day breaks are reused in order so
+  // their dates and notes stay on the same day number, surplus ones are removed.
+  // A banner moves with the scene strip right after it; one that closes a day stays at the
+  // end of that day number.
+  app.post("/api/projects/:projectId/schedule/apply", async (req, res) => {
+    try {
+      const parsed = ApplyScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { projectId } = req.params;
+      const schedule = await loadShootingSchedule(projectId);
+      if (!schedule) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const stripBySceneId = new Map(
+        schedule.strips.flatMap(entry => (entry.kind === "scene" ? [[entry.scene.sceneId, entry.strip.id] as const] : []))
+      );
+      const planned = parsed.data.days.flat();
+      if (new Set(planned).size !== planned.length || planned.some(sceneId => !stripBySceneId.has(sceneId))) {
+        return res.status(400).json({ error: "Proposal does not match the scenes on this schedule" });
+      }
+
+      const bannersBefore = new Map<string, string[]>(); // scene strip id -> banners heading it
+      const bannersClosingDay = new Map<number, string[]>(); // day index -> banners before its day break
+      let pending: string[] = [];
+      let dayIndex = 0;
+      for (const entry of schedule.strips) {
+        if (entry.kind === "banner") {
+          pending.push(entry.strip.id);
+        } else if (entry.kind === "scene") {
+          if (pending.length > 0) bannersBefore.set(entry.strip.id, pending);
+          pending = [];
+        } else {
+          if (pending.length > 0) bannersClosingDay.set(dayIndex, pending);
+          pending = [];
+          dayIndex++;
         }
       }
-      
-      // 格式3: "场次: 1, 2, 3" 或 "场次：1、2、3" - 逗号/顿号分隔的数字列表
-      const listPattern = /场次[:：\s]?\s*([^。\n]+)/gi;
-      for (const match of rawText.matchAll(listPattern)) {
-        const numberList = match[1];
-        const tokens = numberList.split(/[,，、\s]+/).filter(s => s.trim());
-        for (const token of tokens) {
-          const trimmed = token.trim();
-          if (!trimmed) continue;
-          // 检查是否是 X-Y 格式
-          const dashMatch = trimmed.match(/^(\d+)[-.](\d+)$/);
-          if (dashMatch) {
-            addIdentifier(`${dashMatch[1]}-${dashMatch[2]}`, parseInt(dashMatch[1]));
-          } else {
-            const num = chineseToNumber(trimmed);
-            if (!isNaN(num) && num > 0) {
-              addIdentifier(String(num), num);
-            }
+      const withBanners = (stripId: string) => [...(bannersBefore.get(stripId) ?? []), stripId];
+
+      const dayBreaks = schedule.strips.filter(entry => entry.kind === "day_break").map(entry => entry.strip.id);
+      const order: string[] = [];
+      for (let i = 0; i < parsed.data.days.length; i++) {
+        order.push(...parsed.data.days[i].flatMap(sceneId => withBanners(stripBySceneId.get(sceneId)!)));
+        order.push(...(bannersClosingDay.get(i) ?? []));
+        const dayBreak = dayBreaks[i] ?? (await storage.createScheduleStrip({ projectId, kind: "day_break", position: 0 })).id;
+        order.push(dayBreak);
+      }
+      for (const surplus of dayBreaks.slice(parsed.data.days.length)) {
+        await storage.deleteScheduleStrip(surplus);
+      }
+
+      // Scenes the proposal left out go back to the unscheduled pool with their banners,
+      // followed by banners of removed days and those already at the end of the board
+      const placed = new Set(order);
+      schedule.strips
+        .filter(entry => entry.kind === "scene" && !placed.has(entry.strip.id))
+        .forEach(entry => order.push(...withBanners(entry.strip.id)));
+      order.push(...schedule.strips
+        .filter(entry => entry.kind === "banner" && !order.includes(entry.strip.id))
+        .map(entry => entry.strip.id));
+
+      await storage.reorderScheduleStrips(projectId, order);
+      res.json(await loadShootingSchedule(projectId));
+    } catch (error) {
+      console.error("Error applying schedule proposal:", error);
+      res.status(500).json({ error: "Failed to apply schedule proposal" });
+    }
+  });
+
+  // ============================================
+  // 演员日程表 (Day Out of Days)
+  // ============================================
+
+  app.get("/api/projects/:projectId/dood", async (req, res) => {
+    try {
+      const report = await loadDoodReport(req.params.projectId);
+      if (!report) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error building day out of days:", error);
+      res.status(500).json({ error: "Failed to build day out of days" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/dood/xlsx", async (req, res) => {
+    try {
+      const report = await loadDoodReport(req.params.projectId);
+      if (!report) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const buffer = generateDoodXlsx(report);
+      const fileName = `${report.projectTitle}_演员日程表_${new Date().toISOString().split("T")[0]}.xlsx`;
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="dood.xlsx"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      );
+      res.setHeader("Content-Length", buffer.length);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error exporting day out of days:", error);
+      res.status(500).json({ error: "Failed to export day out of days" });
+    }
+  });
+
+  const DoodTravelSchema = z.object({
+    castKey: z.string().min(1),
+    dayKey: z.string().min(1),
+    travel: z.boolean(),
+  });
+
+  app.put("/api/projects/:projectId/dood/travel", async (req, res) => {
+    try {
+      const parsed = DoodTravelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const { projectId } = req.params;
+      const { castKey, dayKey, travel } = parsed.data;
+
+      const existing = (await storage.getDoodTravelDays(projectId))
+        .filter(entry => entry.castKey === castKey && entry.dayKey === dayKey);
+      if (travel && existing.length === 0) {
+        await storage.createDoodTravelDay({ projectId, castKey, dayKey });
+      }
+      if (!travel) {
+        for (const entry of existing) await storage.deleteDoodTravelDay(entry.id);
+      }
+
+      const report = await loadDoodReport(projectId);
+      if (!report) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error updating travel day:", error);
+      res.status(500).json({ error: "Failed to update travel day" });
+    }
+  });
+
+  app.patch("/api/schedule-strips/:id", async (req, res) => {
+    try {
+      const parsed = ScheduleStripFieldsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const strip = await storage.getScheduleStrip(req.params.id);
+      if (!strip) {
+        return res.status(404).json({ error: "Schedule strip not found" });
+      }
+
+      // Keep each field on the kind of strip that uses it
+      const { label, color, shootDate, estimatedMinutes } = parsed.data;
+      const updates: Parameters<typeof storage.updateScheduleStrip>[1] = {};
+      if (color !== undefined) updates.color = color;
+      if (label !== undefined && strip.kind !== "scene") updates.label = label || null;
+      if (shootDate !== undefined && strip.kind === "day_break") updates.shootDate = shootDate;
+      if (estimatedMinutes !== undefined && strip.kind === "scene") updates.estimatedMinutes = estimatedMinutes;
+
+      const updated = await storage.updateScheduleStrip(strip.id, updates);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating schedule strip:", error);
+      res.status(500).json({ error: "Failed to update schedule strip" });
+    }
+  });
+
+  app.delete("/api/schedule-strips/:id", async (req, res) => {
+    try {
+      const strip = await storage.getScheduleStrip(req.params.id);
+      if (!strip) {
+        return res.status(404).json({ error: "Schedule strip not found" });
+      }
+      if (strip.kind === "scene") {
+        return res.status(400).json({ error: "Scene strips follow the script and cannot be removed" });
+      }
+      await storage.deleteScheduleStrip(strip.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting schedule strip:", error);
+      res.status(500).json({ error: "Failed to delete schedule strip" });
+    }
+  });
+
+  app.post("/api/export", async (req, res) => {
+    try {
+      const { projectId, modules, format, sceneIds, includeVersions } = req.body as {
+        projectId: string;
+        modules: string[];
+        format: ExportFormat;
+        sceneIds: string[];
+        includeVersions: boolean;
+      };
+
+      if (!["pdf", "excel", "word"].includes(format)) {
+        return res.status(400).json({ error: "不支持的导出格式" });
+      }
+
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const exportData: ExportData = {
+        project: {
+          id: project.id,
+          title: project.title,
+          type: project.type,
+          description: project.description,
+          createdAt: project.createdAt,
+        },
+        exportedAt: new Date().toISOString(),
+        format,
+        includeVersions,
+        characters: [],
+      };
+
+      if (modules.includes("script")) {
+        const scripts = await storage.getScripts(projectId);
+        exportData.scripts = includeVersions ? scripts : scripts.filter(s => s.isActive);
+      }
+
+      if (modules.includes("storyboard") || modules.includes("analysis") || modules.includes("performance") || modules.includes("production")) {
+        const scenes = await storage.getScenes(projectId);
+        const filteredScenes = sceneIds.length > 0 
+          ? scenes.filter(s => sceneIds.includes(s.id))
+          : scenes;
+        
+        exportData.scenes = await Promise.all(filteredScenes.map(async (scene) => {
+          const sceneData: ExportScene = { ...scene };
+          
+          if (modules.includes("storyboard")) {
+            sceneData.shots = await storage.getShots(scene.id);
+            sceneData.shotImages = await loadShotImages(sceneData.shots);
           }
-        }
+          
+          if (modules.includes("performance")) {
+            sceneData.performanceGuides = await storage.getPerformanceGuides(scene.id);
+          }
+          
+          if (modules.includes("production")) {
+            sceneData.productionNotes = await storage.getProductionNotes(scene.id);
+          }
+          
+          if (modules.includes("analysis")) {
+            sceneData.analysis = await storage.getSceneAnalysis(scene.id);
+          }
+          
+          return sceneData;
+        }));
       }
-      
-      // 格式4: 独立的 "场次 X" 格式
-      const standalonePattern = /场次\s*[:：]?\s*(\d+)/gi;
-      for (const match of rawText.matchAll(standalonePattern)) {
-        const num = parseInt(match[1]);
-        if (!isNaN(num) && num > 0) {
-          addIdentifier(String(num), num);
+
+      exportData.characters = await storage.getCharacters(projectId);
+
+      if (modules.includes("dood") && format === "excel") {
+        exportData.dood = await loadDoodReport(projectId);
+      }
+
+      const file = await generateExportFile(exportData);
+      const fileName = `${project.title}_${new Date().toISOString().split("T")[0]}.${file.extension}`;
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="export.${file.extension}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      );
+      res.setHeader("Content-Length", file.buffer.length);
+      res.send(file.buffer);
+    } catch (error) {
+      console.error("Error exporting:", error);
+      res.status(500).json({ error: "Failed to export" });
+    }
+  });
+
+  app.get("/api/call-sheets", async (req, res) => {
+    try {
+      const projectId = req.query.projectId as string;
+      if (!projectId) {
+        return res.status(400).json({ error: "projectId is required" });
+      }
+      const callSheets = await storage.getCallSheets(projectId);
+      res.json(callSheets);
+    } catch (error) {
+      console.error("Error fetching call sheets:", error);
+      res.status(500).json({ error: "Failed to fetch call sheets" });
+    }
+  });
+
+  app.post("/api/call-sheets", async (req, res) => {
+    try {
+      const parsed = insertCallSheetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const callSheet = await storage.createCallSheet(parsed.data);
+      await linkCallSheetScenes(callSheet);
+      res.status(201).json(callSheet);
+    } catch (error) {
+      console.error("Error creating call sheet:", error);
+      res.status(500).json({ error: "Failed to create call sheet" });
+    }
+  });
+
+  const GenerateCallSheetSchema = z.object({
+    shootDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    sceneIds: z.array(z.string()).optional(), // defaults to the stripboard day with this date
+    title: z.string().trim().optional(),
+    generalCall: z.string().refine(value => parseClock(value) !== null).default("07:00"),
+    shootingCall: z.string().refine(value => parseClock(value) !== null).optional(), // defaults to an hour after general call
+    notes: z.string().default(""),
+  });
+
+  app.post("/api/projects/:projectId/call-sheets/generate", async (req, res) => {
+    try {
+      const parsed = GenerateCallSheetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const result = await composeCallSheet(req.params.projectId, parsed.data);
+      if (!result) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const callSheet = await storage.createCallSheet(result.values);
+      await linkCallSheetScenes(callSheet, result.sceneIds);
+      res.status(201).json(callSheet);
+    } catch (error) {
+      console.error("Error generating call sheet:", error);
+      res.status(500).json({ error: "Failed to generate call sheet" });
+    }
+  });
+
+  app.get("/api/call-sheets/:id/pdf", async (req, res) => {
+    try {
+      const callSheet = await storage.getCallSheet(req.params.id);
+      if (!callSheet) {
+        return res.status(404).json({ error: "Call sheet not found" });
+      }
+
+      const buffer = await generateCallSheetPdf(callSheet);
+      const fileName = `${callSheet.title}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="call-sheet.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+      );
+      res.setHeader("Content-Length", buffer.length);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error exporting call sheet:", error);
+      res.status(500).json({ error: "Failed to export call sheet" });
+    }
+  });
+
+  const UpdateCallSheetSchema = z.object({
+    title: z.string().trim().min(1).optional(),
+    shootDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+    sceneIds: z.array(z.string()).optional(),
+    generalCall: z.string().refine(value => parseClock(value) !== null).optional(), // generated or table call sheets
+    shootingCall: z.string().refine(value => parseClock(value) !== null).optional(),
+    notes: z.string().optional(),
+    changeDescription: z.string().trim().optional(),
+  });
+
+  // Every edit keeps the replaced state as a version and bumps the revision number
+  const reviseCallSheet = async (callSheet: CallSheet, updates: Partial<InsertCallSheet>, changeDescription: string | null, sceneIds?: string[]) => {
+    await storage.createCallSheetVersion({
+      callSheetId: callSheet.id,
+      projectId: callSheet.projectId,
+      revision: callSheet.revision,
+      title: callSheet.title,
+      rawText: callSheet.rawText,
+      sceneNumbers: callSheet.sceneNumbers,
+      sceneIdentifiers: callSheet.sceneIdentifiers,
+      shootDate: callSheet.shootDate,
+      generalCall: callSheet.generalCall,
+      shootingCall: callSheet.shootingCall,
+      details: callSheet.details,
+      changeDescription,
+    });
+    const revised = await storage.updateCallSheet(callSheet.id, { ...updates, revision: callSheet.revision + 1 });
+    if (revised) await linkCallSheetScenes(revised, sceneIds);
+    return revised;
+  };
+
+  app.patch("/api/call-sheets/:id", async (req, res) => {
+    try {
+      const parsed = UpdateCallSheetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const callSheet = await storage.getCallSheet(req.params.id);
+      if (!callSheet) {
+        return res.status(404).json({ error: "Call sheet not found" });
+      }
+      const { title, changeDescription } = parsed.data;
+      let sceneIds = parsed.data.sceneIds;
+      const scenes = await storage.getScenes(callSheet.projectId);
+
+      const updates: Partial<InsertCallSheet> = {};
+      if (isGeneratedCallSheet(callSheet)) {
+        const shootDate = parsed.data.shootDate === undefined
+          ? callSheet.shootDate?.toISOString().split("T")[0] ?? null
+          : parsed.data.shootDate;
+        if (!shootDate) {
+          return res.status(400).json({ error: "生成的通告单必须有拍摄日期" });
+        }
+        const result = await composeCallSheet(callSheet.projectId, {
+          shootDate,
+          sceneIds: sceneIds ?? (await storage.getCallSheetScenes(callSheet.projectId))
+            .filter(link => link.callSheetId === callSheet.id)
+            .map(link => link.sceneId),
+          title: title ?? callSheet.title,
+          generalCall: parsed.data.generalCall ?? callSheet.generalCall ?? "07:00",
+          shootingCall: parsed.data.shootingCall ?? callSheet.shootingCall ?? undefined,
+          notes: parsed.data.notes ?? callSheet.details!.notes,
+        }, callSheet.id);
+        if (!result) {
+          return res.status(404).json({ error: "Project not found" });
+        }
+        if ("error" in result) {
+          return res.status(400).json({ error: result.error });
+        }
+        Object.assign(updates, result.values);
+        sceneIds = result.sceneIds;
+      } else {
+        if (title !== undefined) updates.title = title;
+        if (parsed.data.shootDate !== undefined) {
+          updates.shootDate = parsed.data.shootDate ? new Date(parsed.data.shootDate) : null;
+        }
+        if (sceneIds !== undefined) {
+          const sceneById = new Map(scenes.map(scene => [scene.id, scene]));
+          const identifiers = sceneIds.flatMap(id => {
+            const scene = sceneById.get(id);
+            return scene ? [sceneIdentifierOf(scene)] : [];
+          });
+          updates.sceneIdentifiers = identifiers;
+          updates.sceneNumbers = Array.from(new Set(identifiers
+            .map(identifier => sceneMainNumber(identifier))
+            .filter((num): num is number => num !== null)));
+        }
+        // Call times and notes read from an uploaded table are kept as written
+        if (parsed.data.generalCall !== undefined) updates.generalCall = formatClock(parseClock(parsed.data.generalCall)!);
+        if (parsed.data.shootingCall !== undefined) updates.shootingCall = formatClock(parseClock(parsed.data.shootingCall)!);
+        if (callSheet.details && parsed.data.notes !== undefined) {
+          updates.details = { ...callSheet.details, notes: parsed.data.notes };
         }
       }
-      
-      // 格式5: 中文数字列表格式 如 "一、二、三" 或 "第一、第二、第三"
-      const chineseListPattern = /[第]?([一二三四五六七八九十百]+)[、，,\s]+[第]?([一二三四五六七八九十百]+)/gi;
-      for (const match of rawText.matchAll(chineseListPattern)) {
-        const num1 = chineseToNumber(match[1]);
-        const num2 = chineseToNumber(match[2]);
-        if (!isNaN(num1) && num1 > 0) addIdentifier(String(num1), num1);
-        if (!isNaN(num2) && num2 > 0) addIdentifier(String(num2), num2);
+
+      const revised = await reviseCallSheet(callSheet, updates, changeDescription || null, sceneIds);
+      res.json(revised);
+    } catch (error) {
+      console.error("Error updating call sheet:", error);
+      res.status(500).json({ error: "Failed to update call sheet" });
+    }
+  });
+
+  app.delete("/api/call-sheets/:id", async (req, res) => {
+    try {
+      const callSheet = await storage.getCallSheet(req.params.id);
+      if (!callSheet) {
+        return res.status(404).json({ error: "Call sheet not found" });
       }
-      
+      await storage.deleteCallSheet(callSheet.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting call sheet:", error);
+      res.status(500).json({ error: "Failed to delete call sheet" });
+    }
+  });
+
+  app.get("/api/call-sheets/:id/versions", async (req, res) => {
+    try {
+      const versions = await storage.getCallSheetVersions(req.params.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching call sheet versions:", error);
+      res.status(500).json({ error: "Failed to fetch call sheet versions" });
+    }
+  });
+
+  app.post("/api/call-sheets/:id/versions/:versionId/restore", async (req, res) => {
+    try {
+      const callSheet = await storage.getCallSheet(req.params.id);
+      const version = await storage.getCallSheetVersion(req.params.versionId);
+      if (!callSheet || !version || version.callSheetId !== callSheet.id) {
+        return res.status(404).json({ error: "找不到对应版本或通告单" });
+      }
+
+      // Restoring is another revision, so the numbering only ever moves forward
+      const revised = await reviseCallSheet(callSheet, {
+        title: version.title,
+        rawText: version.rawText,
+        sceneNumbers: version.sceneNumbers,
+        sceneIdentifiers: version.sceneIdentifiers,
+        shootDate: version.shootDate,
+        generalCall: version.generalCall,
+        shootingCall: version.shootingCall,
+        details: version.details,
+      }, version.revision > 0 ? `恢复到修订版 #${version.revision}` : "恢复到原版");
+      res.json(revised);
+    } catch (error) {
+      console.error("Error restoring call sheet version:", error);
+      res.status(500).json({ error: "Failed to restore call sheet version" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/call-sheet-scenes", async (req, res) => {
+    try {
+      const links = await storage.getCallSheetScenes(req.params.projectId);
+      res.json(links);
+    } catch (error) {
+      console.error("Error fetching call sheet scenes:", error);
+      res.status(500).json({ error: "Failed to fetch call sheet scenes" });
+    }
+  });
+
+  const UpdateCallSheetSceneSchema = z.object({
+    status: z.enum(callSheetSceneStatuses),
+  });
+
+  app.patch("/api/call-sheet-scenes/:id", async (req, res) => {
+    try {
+      const parsed = UpdateCallSheetSceneSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const link = await storage.updateCallSheetScene(req.params.id, { status: parsed.data.status });
+      if (!link) {
+        return res.status(404).json({ error: "Call sheet scene not found" });
+      }
+      res.json(link);
+    } catch (error) {
+      console.error("Error updating call sheet scene:", error);
+      res.status(500).json({ error: "Failed to update call sheet scene" });
+    }
+  });
+
+  const callSheetUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 },
+    fileFilter: (req, file, cb) => {
+      const allowedTypes = [
+        "text/plain",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "application/pdf",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "application/vnd.ms-excel",
+      ];
+      const allowedExts = [".txt", ".docx", ".pdf", ".xlsx", ".xls"];
+      const ext = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf("."));
+      if (allowedTypes.includes(file.mimetype) || allowedExts.includes(ext)) {
+        cb(null, true);
+      } else {
+        cb(new Error("不支持的文件格式。请上传 .txt, .docx, .xlsx 或 .pdf 格式的通告单文件"));
+      }
+    },
+  });
+
+  app.post("/api/call-sheets/upload", callSheetUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "未上传文件" });
+      }
+
+      const { projectId, title } = req.body;
+      if (!projectId || !title) {
+        return res.status(400).json({ error: "projectId和title是必需的" });
+      }
+
+      let rawText = "";
+      let tables: CallSheetTable[] = [];
+      const ext = req.file.originalname.toLowerCase().substring(req.file.originalname.lastIndexOf("."));
+
+      if (ext === ".txt") {
+        rawText = req.file.buffer.toString("utf-8");
+      } else if (ext === ".docx") {
+        const result = await mammoth.extractRawText({ buffer: req.file.buffer });
+        rawText = result.value;
+        tables = await readDocxTables(req.file.buffer);
+      } else if (ext === ".xlsx" || ext === ".xls") {
+        tables = readXlsxTables(req.file.buffer);
+        rawText = callSheetTablesText(tables);
+      } else if (ext === ".pdf") {
+        const pdfData = await pdfParse.default(req.file.buffer);
+        rawText = pdfData.text;
+      }
+
+      // 表格通告单按列读取：场次只取"场次"列，演员通告时间取演员表，集合/开机时间和日期取标签旁的单元格。
+      // 表格里没有场次列时不再从文本里猜场次（电话、时间会被当成场次号），由用户在通告单里自行选择
+      const tabular = tables.length > 0 ? parseCallSheetTables(tables) : null;
+      let structured: Partial<InsertCallSheet> = {};
+      let sceneIds: string[] | undefined;
+      let sceneIdentifiersFound: string[];
+      if (tabular) {
+        const [project, scenes, characters] = await Promise.all([
+          storage.getProject(projectId),
+          storage.getScenes(projectId),
+          storage.getCharacters(projectId),
+        ]);
+        const result = tabularCallSheetDetails(tabular, {
+          projectTitle: project?.title ?? "",
+          scenes,
+          characters,
+        });
+        sceneIdentifiersFound = tabular.scenes.map(scene => scene.sceneIdentifier);
+        sceneIds = result.sceneIds;
+        structured = {
+          shootDate: tabular.shootDate ? new Date(tabular.shootDate) : null,
+          generalCall: tabular.generalCall,
+          shootingCall: tabular.shootingCall,
+          details: result.details,
+        };
+        console.log(`[Call Sheet Upload] Read ${tabular.scenes.length} scenes and ${tabular.cast.length} cast calls from tables in: ${req.file.originalname}`);
+      } else {
+        // 无表格的文本/PDF 通告单：场次识别与剧本上传共用同一套解析规则：场次标题行、"第X场"、"场次：1、2、3"、
+        // "Sc. 12A" 以及独立的 "X-Y" 编号，标识符统一规范化（"4.1" -> "4-1"）
+        sceneIdentifiersFound = extractSceneReferences(rawText);
+        console.log(`[Call Sheet Upload] Extracted scene identifiers: ${sceneIdentifiersFound.join(', ')} from file: ${req.file.originalname}`);
+      }
+      const sceneNumbersFound = sceneIdentifiersFound
+        .map(identifier => sceneMainNumber(identifier))
+        .filter((num): num is number => num !== null);
+
       const uniqueSceneNumbers = [...new Set(sceneNumbersFound)].sort((a, b) => a - b);
-      console.log(`[Call Sheet Upload] Extracted scene identifiers: ${sceneIdentifiersFound.join(', ')} from file: ${req.file.originalname}`);
 
       const callSheet = await storage.createCallSheet({
         projectId,
@@ -2543,12 +4215,14 @@ ${scriptContent.substring(0, 8000)}
         rawText,
         sceneNumbers: uniqueSceneNumbers,
         sceneIdentifiers: sceneIdentifiersFound,
+        ...structured,
         fileMetadata: {
           fileName: req.file.originalname,
           fileType: ext.slice(1),
           uploadedAt: new Date().toISOString(),
         },
       });
+      await linkCallSheetScenes(callSheet, sceneIds);
 
       res.status(201).json(callSheet);
     } catch (error) {
@@ -2588,15 +4262,15 @@ ${scriptContent.substring(0, 8000)}
 
         const matches = await matchCallSheetToScenesWithAI(rawText, scenesForMatching);
         
-        // 更新匹配的场次
+        // 记录匹配的场次，保存通告单后写入场次关联
         for (const match of matches) {
           const matchedScene = allProjectScenes.find(s => 
             s.sceneIdentifier === match.matchedSceneIdentifier ||
+            (!!s.sceneIdentifier && s.sceneIdentifier === normalizeSceneIdentifier(match.matchedSceneIdentifier)) ||
             s.title === match.matchedSceneIdentifier ||
             s.title.includes(match.matchedSceneIdentifier)
           );
           if (matchedScene) {
-            await storage.updateScene(matchedScene.id, { isInCallSheet: true });
             matchedSceneIds.push(matchedScene.id);
             extractedIdentifiers.push(match.matchedSceneIdentifier);
           }
@@ -2614,19 +4288,23 @@ ${scriptContent.substring(0, 8000)}
         }
       }
 
-      // 转换为数字数组以兼容旧格式
-      const sceneNumbers = extractedIdentifiers.map(id => {
-        const match = id.match(/^(\d+)/);
-        return match ? parseInt(match[1], 10) : 0;
-      }).filter(n => n > 0);
+      // AI 返回的标识符按共享规则规范化（"4.1" -> "4-1"），再转换为数字数组以兼容旧格式
+      extractedIdentifiers = extractedIdentifiers.map(id => normalizeSceneIdentifier(id) || id);
+      const sceneNumbers = extractedIdentifiers
+        .map(id => sceneMainNumber(id) ?? 0)
+        .filter(n => n > 0);
 
       const callSheet = await storage.createCallSheet({
         projectId,
         title,
         rawText,
         sceneNumbers: [...new Set(sceneNumbers)],
+        sceneIdentifiers: Array.from(new Set(extractedIdentifiers)),
         shootDate: shootDate ? new Date(shootDate) : null,
       });
+      // AI 匹配到但标识符对不上的场次（例如按标题匹配）排在后面
+      const listedSceneIds = callSheetSceneIds(callSheet, allProjectScenes);
+      await linkCallSheetScenes(callSheet, Array.from(new Set([...listedSceneIds, ...matchedSceneIds])));
 
       res.status(201).json({
         ...callSheet,
@@ -2663,6 +4341,7 @@ ${scriptContent.substring(0, 8000)}
         version: script.version,
         changeDescription: req.body.changeDescription,
         changedBy: req.body.changedBy,
+        revisionColor: script.isLocked ? script.revisionColor : null,
       });
 
       res.status(201).json(version);
@@ -2672,12 +4351,120 @@ ${scriptContent.substring(0, 8000)}
     }
   });
 
+  // Production lock: freezes scene numbering and starts the revision color cycle at White
+  app.post("/api/scripts/:id/lock", async (req, res) => {
+    try {
+      const script = await storage.getScript(req.params.id);
+      if (!script) {
+        return res.status(404).json({ error: "剧本不存在" });
+      }
+      if (script.isLocked) {
+        return res.status(400).json({ error: "剧本已锁定" });
+      }
+
+      // Every scene needs an explicit identifier once numbering is frozen
+      const scenes = await storage.getScenes(script.projectId);
+      for (const scene of scenes) {
+        if (!scene.sceneIdentifier) {
+          await storage.updateScene(scene.id, { sceneIdentifier: sceneIdentifierOf(scene) });
+        }
+      }
+
+      const revisionColor = nextRevisionColor(null);
+      const locked = await storage.updateScript(script.id, {
+        isLocked: true,
+        lockedAt: new Date(),
+        revisionColor,
+      });
+
+      await storage.createScriptVersion({
+        scriptId: script.id,
+        projectId: script.projectId,
+        content: script.content,
+        version: script.version,
+        changeDescription: `锁定剧本（${revisionColorInfo[revisionColor].nameCN}）`,
+        changedBy: req.body?.changedBy,
+        revisionColor,
+        changedScenes: [],
+      });
+
+      res.json(locked);
+    } catch (error) {
+      console.error("Error locking script:", error);
+      res.status(500).json({ error: "无法锁定剧本" });
+    }
+  });
+
+  app.post("/api/scripts/:id/unlock", async (req, res) => {
+    try {
+      const script = await storage.getScript(req.params.id);
+      if (!script) {
+        return res.status(404).json({ error: "剧本不存在" });
+      }
+      const unlocked = await storage.updateScript(script.id, { isLocked: false });
+      res.json(unlocked);
+    } catch (error) {
+      console.error("Error unlocking script:", error);
+      res.status(500).json({ error: "无法解锁剧本" });
+    }
+  });
+
+  // Diff between two snapshots; "current" (or an omitted side) is the live script content
+  app.get("/api/scripts/:id/diff", async (req, res) => {
+    try {
+      const script = await storage.getScript(req.params.id);
+      if (!script) {
+        return res.status(404).json({ error: "剧本不存在" });
+      }
+
+      const versions = await storage.getScriptVersions(script.id);
+      const resolveSide = (ref: unknown) => {
+        if (!ref || ref === "current") {
+          return {
+            versionId: null,
+            version: script.version,
+            label: `当前版本 v${script.version}`,
+            createdAt: null,
+            content: script.content,
+          };
+        }
+        const version = versions.find(v => v.id === ref);
+        if (!version) return null;
+        return {
+          versionId: version.id,
+          version: version.version,
+          label: version.changeDescription ? `v${version.version} ${version.changeDescription}` : `v${version.version}`,
+          createdAt: new Date(version.createdAt).toISOString(),
+          content: version.content,
+        };
+      };
+
+      const from = resolveSide(req.query.from);
+      const to = resolveSide(req.query.to);
+      if (!from || !to) {
+        return res.status(404).json({ error: "找不到对应版本" });
+      }
+
+      res.json(buildScriptDiff(from, to));
+    } catch (error) {
+      console.error("Error diffing script versions:", error);
+      res.status(500).json({ error: "无法比较剧本版本" });
+    }
+  });
+
   app.post("/api/scripts/:id/versions/:versionId/restore", async (req, res) => {
     try {
+      const previousScript = await storage.getScript(req.params.id);
       const restored = await storage.restoreScriptVersion(req.params.id, req.params.versionId);
-      if (!restored) {
+      if (!restored || !previousScript) {
         return res.status(404).json({ error: "找不到对应版本或剧本" });
       }
+
+      // Restoring a locked script is just another revision: numbering stays frozen
+      if (previousScript.isLocked) {
+        const revision = await saveLockedRevision(previousScript, restored, revisionInputsFromContent(restored.content, null));
+        return res.json(revision.script);
+      }
       res.json(restored);
     } catch (error) {
       console.error("Error restoring script version:", error);
@@ -2713,7 +4500,6 @@ ${scriptContent.substring(0, 8000)}
         atmosphere: shot.atmosphere,
         notes: shot.notes,
         imageUrl: shot.imageUrl,
-        imageBase64: shot.imageBase64,
         version: shot.version,
         changeDescription: req.body.changeDescription,
         changedBy: req.body.changedBy,
@@ -2767,9 +4553,21 @@ ${scriptContent.substring(0, 8000)}
         duration: scene.duration || (scene.action?.length || 0) / 10 + (scene.dialogue?.length || 0) / 5 || 30 // Fallback estimate in seconds
       }));
 
+      // Formatted script length in 1/8 pages, the unit schedules are built on
+      const scenePages = scenes
+        .filter(scene => !scene.isOmitted)
+        .map(scene => ({
+          sceneNumber: scene.sceneNumber,
+          sceneIdentifier: scene.sceneIdentifier || String(scene.sceneNumber),
+          pageEighths: scene.pageEighths || 0,
+        }));
+      const totalPageEighths = scenePages.reduce((sum, scene) => sum + scene.pageEighths, 0);
+
       res.json({
         characterDialogue,
-        sceneDurations
+        sceneDurations,
+        scenePages,
+        totalPageEighths
       });
     } catch (error) {
       console.error("Error analyzing project:", error);
@@ -0,0 +1,440 @@
+import type {
+  BreakdownSheetCastMember,
+  ProposedShootDay,
+  ScheduleCost,
+  ScheduleCostItem,
+  ScheduleCostKey,
+  ScheduleOptimization,
+  ScheduleProposal,
+  ScheduleSceneStrip,
+  ScheduleStrategy,
+  ShootingSchedule,
+} from "@shared/schema";
+import { sceneSortKey } from "@shared/scene-heading";
+
+// Deterministic schedule proposals: scenes are packed into shoot days by location
+// or by cast, under-filled days are merged, and the day order is then improved by
+// local search against the same cost function used to explain the result.
+
+export const DEFAULT_MAX_EIGHTHS_PER_DAY = 40; // five pages
+
+const COST_WEIGHTS: Record<ScheduleCostKey, number> = {
+  shoot_days: 100,
+  company_moves: 20,
+  location_changes: 5,
+  hold_days: 15,
+  turnarounds: 30,
+  day_night_conflicts: 50,
+  over_length: 40,
+};
+
+const COST_LABELS: Record<ScheduleCostKey, string> = {
+  shoot_days: "拍摄天数",
+  company_moves: "当日转场",
+  location_changes: "隔日换景",
+  hold_days: "演员等待日",
+  turnarounds: "夜戏后接日戏",
+  day_night_conflicts: "日夜戏混排",
+  over_length: "超出每日页数上限",
+};
+
+const STRATEGY_LABELS: Record<ScheduleStrategy, string> = {
+  location: "按场景集中",
+  cast: "按演员集中",
+};
+
+type DayNight = "day" | "night" | null;
+
+interface DayPlan {
+  scenes: ScheduleSceneStrip[];
+}
+
+function locationKey(scene: ScheduleSceneStrip): string {
+  const location = scene.location?.replace(/\s+/g, "").toLowerCase();
+  // Scenes without a location never count as sharing one
+  return location ? `loc:${location}` : `scene:${scene.sceneId}`;
+}
+
+function locationName(scene: ScheduleSceneStrip): string {
+  return scene.location?.trim() || scene.title;
+}
+
+function eighthsOf(scenes: ScheduleSceneStrip[]): number {
+  return scenes.reduce((sum, scene) => sum + scene.pageEighths, 0);
+}
+
+function dayNightOfDay(scenes: ScheduleSceneStrip[]): DayNight {
+  return scenes.find(scene => scene.dayNight)?.dayNight ?? null;
+}
+
+function castOf(scenes: ScheduleSceneStrip[]): Set<number> {
+  return new Set(scenes.flatMap(scene => scene.castIds));
+}
+
+// Location runs in shooting order; a change between consecutive scenes is a move
+function locationRuns(scenes: ScheduleSceneStrip[]): string[] {
+  const runs: string[] = [];
+  for (const scene of scenes) {
+    const key = locationKey(scene);
+    if (runs[runs.length - 1] !== key) runs.push(key);
+  }
+  return runs;
+}
+
+function costItem(key: ScheduleCostKey, count: number, details: string[]): ScheduleCostItem {
+  return { key, label: COST_LABELS[key], count, weight: COST_WEIGHTS[key], cost: count * COST_WEIGHTS[key], details };
+}
+
+export function scheduleCost(days: ScheduleSceneStrip[][], maxEighthsPerDay: number, castList: BreakdownSheetCastMember[] = []): ScheduleCost {
+  const castNames = new Map(castList.map(member => [member.castId, member.name]));
+  const moves: string[] = [];
+  const changes: string[] = [];
+  const turnarounds: string[] = [];
+  const conflicts: string[] = [];
+  const overLength: string[] = [];
+  let moveCount = 0;
+
+  days.forEach((scenes, index) => {
+    const day = index + 1;
+    const runs = locationRuns(scenes);
+    if (runs.length > 1) {
+      moveCount += runs.length - 1;
+      const names = runs.map(key => locationName(scenes.find(scene => locationKey(scene) === key)!));
+      moves.push(`第${day}天：${names.join(" → ")}`);
+    }
+    if (scenes.some(scene => scene.dayNight === "day") && scenes.some(scene => scene.dayNight === "night")) {
+      conflicts.push(`第${day}天`);
+    }
+    const eighths = eighthsOf(scenes);
+    if (eighths > maxEighthsPerDay) {
+      overLength.push(`第${day}天：${eighths}/8 页`);
+    }
+
+    const next = days[index + 1];
+    if (!next || scenes.length === 0 || next.length === 0) return;
+    const last = scenes[scenes.length - 1];
+    if (locationKey(last) !== locationKey(next[0])) {
+      changes.push(`第${day}→${day + 1}天：${locationName(last)} → ${locationName(next[0])}`);
+    }
+    if (scenes.some(scene => scene.dayNight === "night") && next.some(scene => scene.dayNight === "day")) {
+      turnarounds.push(`第${day}→${day + 1}天`);
+    }
+  });
+
+  // Hold days: days between an actor's first and last work day without their scenes
+  const worked = new Map<number, number[]>();
+  days.forEach((scenes, index) => {
+    castOf(scenes).forEach(castId => worked.set(castId, [...(worked.get(castId) ?? []), index]));
+  });
+  let holdCount = 0;
+  const holds: string[] = [];
+  Array.from(worked.entries())
+    .sort(([a], [b]) => a - b)
+    .forEach(([castId, dayIndexes]) => {
+      const idle = dayIndexes[dayIndexes.length - 1] - dayIndexes[0] + 1 - dayIndexes.length;
+      if (idle <= 0) return;
+      holdCount += idle;
+      holds.push(`${castId}. ${castNames.get(castId) ?? ""}：${idle} 天`);
+    });
+
+  const items = [
+    costItem("shoot_days", days.length, []),
+    costItem("company_moves", moveCount, moves),
+    costItem("location_changes", changes.length, changes),
+    costItem("hold_days", holdCount, holds),
+    costItem("turnarounds", turnarounds.length, turnarounds),
+    costItem("day_night_conflicts", conflicts.length, conflicts),
+    costItem("over_length", overLength.length, overLength),
+  ];
+  return { total: items.reduce((sum, item) => sum + item.cost, 0), items };
+}
+
+function groupKey(scene: ScheduleSceneStrip, strategy: ScheduleStrategy): string {
+  const anchor = strategy === "location"
+    ? locationKey(scene)
+    : `cast:${[...scene.castIds].sort((a, b) => a - b).join(",")}`;
+  return `${scene.dayNight ?? "any"}|${anchor}`;
+}
+
+function compatible(a: DayNight, b: DayNight): boolean {
+  return a === null || b === null || a === b;
+}
+
+// First-fit decreasing inside each group; an oversized scene gets a day of its own
+function packGroups(scenes: ScheduleSceneStrip[], strategy: ScheduleStrategy, maxEighths: number): DayPlan[] {
+  const groups = new Map<string, ScheduleSceneStrip[]>();
+  for (const scene of scenes) {
+    const key = groupKey(scene, strategy);
+    groups.set(key, [...(groups.get(key) ?? []), scene]);
+  }
+
+  const days: DayPlan[] = [];
+  const orderedGroups = Array.from(groups.entries())
+    .sort(([keyA, a], [keyB, b]) => eighthsOf(b) - eighthsOf(a) || keyA.localeCompare(keyB));
+  for (const [, members] of orderedGroups) {
+    const groupDays: DayPlan[] = [];
+    const bySize = [...members].sort((a, b) => b.pageEighths - a.pageEighths);
+    for (const scene of bySize) {
+      const target = groupDays.find(day => eighthsOf(day.scenes) + scene.pageEighths <= maxEighths);
+      if (target) target.scenes.push(scene);
+      else groupDays.push({ scenes: [scene] });
+    }
+    days.push(...groupDays);
+  }
+  return days;
+}
+
+interface MergeCandidate {
+  scenes: ScheduleSceneStrip[];
+  eighths: number;
+  dayNight: DayNight;
+  locations: Set<string>;
+  cast: Set<number>;
+}
+
+function mergeCandidate(scenes: ScheduleSceneStrip[]): MergeCandidate {
+  return {
+    scenes,
+    eighths: eighthsOf(scenes),
+    dayNight: dayNightOfDay(scenes),
+    locations: new Set(scenes.map(locationKey)),
+    cast: castOf(scenes),
+  };
+}
+
+// null when the two days cannot share a day
+function mergeScore(a: MergeCandidate, b: MergeCandidate, maxEighths: number): number | null {
+  if (!compatible(a.dayNight, b.dayNight) || a.eighths + b.eighths > maxEighths) return null;
+  let sharedLocations = 0;
+  b.locations.forEach(key => { if (a.locations.has(key)) sharedLocations++; });
+  let sharedCast = 0;
+  b.cast.forEach(castId => { if (a.cast.has(castId)) sharedCast++; });
+  return sharedLocations * 4 + sharedCast;
+}
+
+// A saved shoot day always outweighs the company move it may cost. Pair scores are
+// kept between merges; only the merged day's pairs are scored again.
+function mergeDays(days: DayPlan[], maxEighths: number): DayPlan[] {
+  const result = days.map(day => mergeCandidate([...day.scenes]));
+  const scores = result.map((a, i) => result.map((b, j) => (j > i ? mergeScore(a, b, maxEighths) : null)));
+  for (;;) {
+    let best: { i: number; j: number; score: number } | null = null;
+    for (let i = 0; i < result.length; i++) {
+      for (let j = i + 1; j < result.length; j++) {
+        const score = scores[i][j];
+        if (score !== null && (!best || score > best.score)) best = { i, j, score };
+      }
+    }
+    if (!best) return result.map(day => ({ scenes: day.scenes }));
+
+    result[best.i] = mergeCandidate([...result[best.i].scenes, ...result[best.j].scenes]);
+    result.splice(best.j, 1);
+    scores.splice(best.j, 1);
+    scores.forEach(row => row.splice(best!.j, 1));
+    for (let k = 0; k < result.length; k++) {
+      if (k < best.i) scores[k][best.i] = mergeScore(result[k], result[best.i], maxEighths);
+      if (k > best.i) scores[best.i][k] = mergeScore(result[best.i], result[k], maxEighths);
+    }
+  }
+}
+
+// Within a day: one block per location, blocks in first-appearance order, script order inside
+function arrangeDay(scenes: ScheduleSceneStrip[], scriptOrder: Map<string, number>, startLocation?: string): ScheduleSceneStrip[] {
+  const byScript = [...scenes].sort((a, b) => scriptOrder.get(a.sceneId)! - scriptOrder.get(b.sceneId)!);
+  const blocks = new Map<string, ScheduleSceneStrip[]>();
+  for (const scene of byScript) {
+    const key = locationKey(scene);
+    blocks.set(key, [...(blocks.get(key) ?? []), scene]);
+  }
+  const keys = Array.from(blocks.keys());
+  if (startLocation && blocks.has(startLocation)) {
+    keys.splice(keys.indexOf(startLocation), 1);
+    keys.unshift(startLocation);
+  }
+  return keys.flatMap(key => blocks.get(key)!);
+}
+
+function arrangeDays(days: DayPlan[], scriptOrder: Map<string, number>): ScheduleSceneStrip[][] {
+  const arranged: ScheduleSceneStrip[][] = [];
+  for (const day of days) {
+    const previous = arranged[arranged.length - 1];
+    const carryOver = previous?.length ? locationKey(previous[previous.length - 1]) : undefined;
+    arranged.push(arrangeDay(day.scenes, scriptOrder, carryOver));
+  }
+  return arranged;
+}
+
+// What day ordering can change: location changes and turnarounds between neighbouring days,
+// and actors' hold days. Moves, day/night mixes and over-length days stay with their day.
+interface DayProfile {
+  plan: DayPlan;
+  locations: string[]; // location blocks in first-appearance script order
+  locationSet: Set<string>;
+  hasDay: boolean;
+  hasNight: boolean;
+  cast: number[];
+}
+
+// Caps the local search; each evaluation is linear in the days and cast calls
+const MAX_ORDER_EVALUATIONS = 100_000;
+
+function dayProfile(plan: DayPlan, scriptOrder: Map<string, number>): DayProfile {
+  const locations = locationRuns(arrangeDay(plan.scenes, scriptOrder));
+  return {
+    plan,
+    locations,
+    locationSet: new Set(locations),
+    hasDay: plan.scenes.some(scene => scene.dayNight === "day"),
+    hasNight: plan.scenes.some(scene => scene.dayNight === "night"),
+    cast: Array.from(castOf(plan.scenes)),
+  };
+}
+
+// Mirrors arrangeDay: the location carried over from the previous day is shot first
+function lastLocation(day: DayProfile, carryOver: string | undefined): string {
+  const { locations } = day;
+  const last = locations[locations.length - 1];
+  return carryOver === last && locations.length > 1 && locations[0] !== carryOver
+    ? locations[locations.length - 2]
+    : last;
+}
+
+function boundaryCost(previousLast: string, previous: DayProfile, next: DayProfile): number {
+  return (next.locationSet.has(previousLast) ? 0 : COST_WEIGHTS.location_changes)
+    + (previous.hasNight && next.hasDay ? COST_WEIGHTS.turnarounds : 0);
+}
+
+function holdCost(order: DayProfile[]): number {
+  const spans = new Map<number, { first: number; last: number; count: number }>();
+  order.forEach((day, index) => {
+    day.cast.forEach(castId => {
+      const span = spans.get(castId);
+      if (span) {
+        span.last = index;
+        span.count++;
+      } else {
+        spans.set(castId, { first: index, last: index, count: 1 });
+      }
+    });
+  });
+  let idle = 0;
+  spans.forEach(span => { idle += span.last - span.first + 1 - span.count; });
+  return idle * COST_WEIGHTS.hold_days;
+}
+
+// Boundary costs up to each day and each day's last location, so a move is only
+// rescored from the first day it touches
+function orderPrefix(order: DayProfile[]): { costs: number[]; lasts: string[] } {
+  const costs = [0];
+  const lasts: string[] = [];
+  order.forEach((day, index) => {
+    if (index > 0) costs.push(costs[index - 1] + boundaryCost(lasts[index - 1], order[index - 1], day));
+    lasts.push(lastLocation(day, lasts[index - 1]));
+  });
+  return { costs, lasts };
+}
+
+function orderCostFrom(order: DayProfile[], start: number, prefix: { costs: number[]; lasts: string[] }): number {
+  let cost = start > 0 ? prefix.costs[start - 1] : 0;
+  let carryOver = start > 0 ? prefix.lasts[start - 1] : undefined;
+  for (let index = start; index < order.length; index++) {
+    if (index > 0) cost += boundaryCost(carryOver!, order[index - 1], order[index]);
+    carryOver = lastLocation(order[index], carryOver);
+  }
+  return cost + holdCost(order);
+}
+
+// Relocate single days while the cost strictly drops, within a fixed evaluation budget
+function orderDays(days: DayPlan[], scriptOrder: Map<string, number>): ScheduleSceneStrip[][] {
+  const nightRank = (day: DayPlan) => ({ day: 0, null: 1, night: 2 })[dayNightOfDay(day.scenes) ?? "null"];
+  let order = [...days]
+    .sort((a, b) =>
+      nightRank(a) - nightRank(b)
+      || Math.min(...a.scenes.map(scene => scriptOrder.get(scene.sceneId)!)) - Math.min(...b.scenes.map(scene => scriptOrder.get(scene.sceneId)!))
+    )
+    .map(day => dayProfile(day, scriptOrder));
+  let prefix = orderPrefix(order);
+  let bestCost = orderCostFrom(order, 0, prefix);
+  let evaluations = 0;
+
+  for (let pass = 0; pass < 20 && evaluations < MAX_ORDER_EVALUATIONS; pass++) {
+    let improved = false;
+    for (let from = 0; from < order.length && evaluations < MAX_ORDER_EVALUATIONS; from++) {
+      for (let to = 0; to < order.length; to++) {
+        if (from === to) continue;
+        const candidate = [...order];
+        const [moved] = candidate.splice(from, 1);
+        candidate.splice(to, 0, moved);
+        evaluations++;
+        const cost = orderCostFrom(candidate, Math.min(from, to), prefix);
+        if (cost < bestCost) {
+          order = candidate;
+          prefix = orderPrefix(order);
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return arrangeDays(order.map(day => day.plan), scriptOrder);
+}
+
+function toProposedDays(days: ScheduleSceneStrip[][]): ProposedShootDay[] {
+  return days.map((scenes, index) => ({
+    dayNumber: index + 1,
+    dayNight: dayNightOfDay(scenes),
+    sceneIds: scenes.map(scene => scene.sceneId),
+    sceneIdentifiers: scenes.map(scene => scene.sceneIdentifier),
+    locations: locationRuns(scenes).map(key => locationName(scenes.find(scene => locationKey(scene) === key)!)),
+    pageEighths: eighthsOf(scenes),
+    estimatedMinutes: scenes.reduce((sum, scene) => sum + scene.estimatedMinutes, 0),
+    castIds: Array.from(castOf(scenes)).sort((a, b) => a - b),
+  }));
+}
+
+export function proposeSchedule(
+  scenes: ScheduleSceneStrip[],
+  strategy: ScheduleStrategy,
+  maxEighthsPerDay: number,
+  castList: BreakdownSheetCastMember[] = [],
+): ScheduleProposal {
+  const scriptOrder = new Map(scenes.map((scene, index) => [scene.sceneId, index]));
+  const packed = mergeDays(packGroups(scenes, strategy, maxEighthsPerDay), maxEighthsPerDay);
+  const days = orderDays(packed, scriptOrder);
+  return {
+    strategy,
+    label: STRATEGY_LABELS[strategy],
+    days: toProposedDays(days),
+    cost: scheduleCost(days, maxEighthsPerDay, castList),
+  };
+}
+
+// Every non-omitted scene on the board is planned, whether or not it is scheduled yet
+export function optimizeSchedule(schedule: ShootingSchedule, maxEighthsPerDay = DEFAULT_MAX_EIGHTHS_PER_DAY): ScheduleOptimization {
+  const scenes = schedule.strips
+    .flatMap(entry => (entry.kind === "scene" && !entry.scene.isOmitted ? [entry.scene] : []))
+    .sort((a, b) => sceneSortKey(a.sceneIdentifier) - sceneSortKey(b.sceneIdentifier));
+
+  const currentDays = schedule.days
+    .map(day => day.strips.flatMap(entry => (entry.kind === "scene" && !entry.scene.isOmitted ? [entry.scene] : [])))
+    .filter(day => day.length > 0);
+
+  // Strategies often converge on small boards; only distinct plans are worth comparing
+  const seen = new Set<string>();
+  const proposals = (["location", "cast"] as const)
+    .map(strategy => proposeSchedule(scenes, strategy, maxEighthsPerDay, schedule.castList))
+    .sort((a, b) => a.cost.total - b.cost.total)
+    .filter(proposal => {
+      const signature = proposal.days.map(day => day.sceneIds.join(",")).join("|");
+      if (seen.has(signature)) return false;
+      seen.add(signature);
+      return true;
+    });
+
+  return {
+    maxPageEighthsPerDay: maxEighthsPerDay,
+    current: currentDays.length > 0 ? scheduleCost(currentDays, maxEighthsPerDay, schedule.castList) : null,
+    proposals,
+  };
+}
@@ -0,0 +1,115 @@
+import type {
+  BreakdownSheet,
+  BreakdownSheetCastMember,
+  SceneIntExt,
+  ScheduleBoardStrip,
+  ScheduleStrip,
+  ShootDay,
+  ShootingSchedule,
+  StripColor,
+} from "@shared/schema";
+
+// The stripboard is one ordered list per project. Day breaks close a shoot day;
+// scene strips after the last day break form the unscheduled pool.
+
+// Rough shooting pace: one page takes two hours including setups
+export const MINUTES_PER_EIGHTH = 15;
+
+export function stripColorOf(intExt: SceneIntExt | null, dayNight: "day" | "night" | null): StripColor {
+  const exterior = intExt === "EXT" || intExt === "INT/EXT";
+  if (dayNight === "night") return exterior ? "green" : "blue";
+  return exterior ? "yellow" : "white";
+}
+
+export function estimatedMinutesOf(strip: Pick<ScheduleStrip, "estimatedMinutes">, pageEighths: number): number {
+  return strip.estimatedMinutes ?? pageEighths * MINUTES_PER_EIGHTH;
+}
+
+export interface ShootingScheduleInput {
+  projectId: string;
+  strips: ScheduleStrip[];
+  sheets: BreakdownSheet[];
+  castList: BreakdownSheetCastMember[];
+}
+
+export function buildShootingSchedule(input: ShootingScheduleInput): ShootingSchedule {
+  const sheetBySceneId = new Map(input.sheets.map(sheet => [sheet.sceneId, sheet]));
+  const ordered = [...input.strips].sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+
+  const board: ScheduleBoardStrip[] = [];
+  for (const strip of ordered) {
+    if (strip.kind === "day_break" || strip.kind === "banner") {
+      board.push({ kind: strip.kind, strip });
+      continue;
+    }
+    const sheet = strip.sceneId ? sheetBySceneId.get(strip.sceneId) : undefined;
+    if (!sheet) continue;
+    const pageEighths = sheet.isOmitted ? 0 : sheet.pageEighths ?? 0;
+    board.push({
+      kind: "scene",
+      strip,
+      scene: {
+        stripId: strip.id,
+        sceneId: sheet.sceneId,
+        sceneIdentifier: sheet.sceneIdentifier,
+        title: sheet.title,
+        location: sheet.location,
+        intExt: sheet.intExt,
+        dayNight: sheet.dayNight,
+        isOmitted: sheet.isOmitted,
+        pageEighths,
+        estimatedMinutes: sheet.isOmitted ? 0 : estimatedMinutesOf(strip, pageEighths),
+        castIds: sheet.cast.map(member => member.castId),
+        color: strip.color ?? stripColorOf(sheet.intExt, sheet.dayNight),
+      },
+    });
+  }
+
+  const days: ShootDay[] = [];
+  let pending: ScheduleBoardStrip[] = [];
+  for (const entry of board) {
+    if (entry.kind !== "day_break") {
+      pending.push(entry);
+      continue;
+    }
+    const scenes = pending.flatMap(item => (item.kind === "scene" && !item.scene.isOmitted ? [item.scene] : []));
+    days.push({
+      dayNumber: days.length + 1,
+      dayBreakStripId: entry.strip.id,
+      shootDate: entry.strip.shootDate ? entry.strip.shootDate.toISOString() : null,
+      notes: entry.strip.label,
+      strips: pending,
+      sceneCount: scenes.length,
+      pageEighths: scenes.reduce((sum, scene) => sum + scene.pageEighths, 0),
+      estimatedMinutes: scenes.reduce((sum, scene) => sum + scene.estimatedMinutes, 0),
+    });
+    pending = [];
+  }
+
+  return {
+    projectId: input.projectId,
+    strips: board,
+    days,
+    unscheduled: pending,
+    castList: input.castList,
+    totals: {
+      days: days.length,
+      scenes: days.reduce((sum, day) => sum + day.sceneCount, 0),
+      pageEighths: days.reduce((sum, day) => sum + day.pageEighths, 0),
+      estimatedMinutes: days.reduce((sum, day) => sum + day.estimatedMinutes, 0),
+      unscheduledScenes: pending.filter(item => item.kind === "scene" && !item.scene.isOmitted).length,
+    },
+  };
+}
+
+// Validates a full reordering: every strip of the project exactly once
+export function isStripPermutation(strips: Pick<ScheduleStrip, "id">[], stripIds: string[]): boolean {
+  if (stripIds.length !== strips.length) return false;
+  const known = new Set(strips.map(strip => strip.id));
+  const seen = new Set<string>();
+  for (const id of stripIds) {
+    if (!known.has(id) || seen.has(id)) return false;
+    seen.add(id);
+  }
+  return true;
+}
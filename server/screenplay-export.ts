@@ -0,0 +1,291 @@
+import type { Scene, Script, ScreenplayElement } from "@shared/schema";
+import { buildScreenplay } from "./screenplay";
+
+// Serializes the active script back into industry formats. Imported FDX/Fountain
+// scripts keep their element tree and are written from it; scripts that were
+// typed or edited in the app are rebuilt from the scenes table.
+
+const SCENE_HEADING_PATTERN = /^(?:INT\.?\/EXT|EXT\.?\/INT|INT|EXT|EST|I\/E)(?:\.|\s)/i;
+const TRANSITION_PATTERN = /^[A-Z0-9 .'-]+TO:$/;
+const DIALOGUE_LINE_PATTERN = /^([^\s△▲●○◆◇【】\[\]：:（][^△▲【】\[\]：:（]{0,29}?)\s*(?:（([^）]*)）)?\s*[:：]\s*(.*)$/;
+
+function sceneHeadingText(scene: Scene): string {
+  if (scene.title) return scene.title;
+  return [scene.location, scene.timeOfDay].filter(Boolean).join(" - ") || `场次 ${scene.sceneIdentifier || scene.sceneNumber}`;
+}
+
+// Turns the app's plain scene text ("角色（括注）：台词", "△动作") back into elements
+export function textToElements(text: string): ScreenplayElement[] {
+  const elements: ScreenplayElement[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (TRANSITION_PATTERN.test(line)) {
+      elements.push({ type: "transition", text: line });
+      continue;
+    }
+
+    const dialogue = line.match(DIALOGUE_LINE_PATTERN);
+    if (dialogue && !/^人物$/.test(dialogue[1])) {
+      elements.push({ type: "character", text: dialogue[1] });
+      if (dialogue[2]) {
+        elements.push({ type: "parenthetical", text: `(${dialogue[2]})` });
+      }
+      elements.push({ type: "dialogue", text: dialogue[3] });
+      continue;
+    }
+
+    const action = line.replace(/^[△▲]\s*/, "");
+    const last = elements[elements.length - 1];
+    if (last?.type === "action") {
+      last.text += `\n${action}`;
+    } else {
+      elements.push({ type: "action", text: action });
+    }
+  }
+  return elements;
+}
+
+function scriptContentToElements(scriptContent: string, headingText: string): ScreenplayElement[] {
+  const lines = scriptContent.split(/\r?\n/);
+  // scriptContent normally starts with the heading line itself
+  if (lines[0]?.trim() === headingText.trim()) lines.shift();
+  return textToElements(lines.join("\n"));
+}
+
+function sceneToElements(scene: Scene): ScreenplayElement[] {
+  const heading: ScreenplayElement = {
+    type: "scene_heading",
+    text: sceneHeadingText(scene),
+    sceneNumber: scene.sceneIdentifier || String(scene.sceneNumber),
+  };
+
+  // Locked scripts keep the number of a removed scene with an OMITTED placeholder
+  if (scene.isOmitted) {
+    return [{ ...heading, text: "OMITTED" }];
+  }
+
+  let body: ScreenplayElement[];
+  if (scene.scriptContent) {
+    body = scriptContentToElements(scene.scriptContent, heading.text);
+  } else {
+    body = [
+      ...textToElements(scene.description || ""),
+      ...textToElements(scene.action || ""),
+      ...textToElements(scene.dialogue || ""),
+    ];
+  }
+
+  return [heading, ...body];
+}
+
+// Each imported heading belongs to the scene the import created for it: same script, same
+// identifier. Scenes renumbered since then take the remaining headings in order. Scene numbers
+// come from the scenes table, and a scene whose text was edited in the app replaces the
+// imported body with the edited text.
+function importedToElements(script: Script, elements: ScreenplayElement[], scenes: Scene[]): ScreenplayElement[] {
+  const imported = buildScreenplay(script.sourceFormat ?? "fountain", null, elements).scenes;
+  const unmatched = [...scenes];
+  const take = (scene: Scene | undefined) => {
+    if (scene) unmatched.splice(unmatched.indexOf(scene), 1);
+    return scene;
+  };
+  const byIdentifier = imported.map(parsed => take(unmatched.find(scene => scene.sceneIdentifier === parsed.identifier)));
+  const paired = byIdentifier.map(scene => scene ?? unmatched.shift());
+
+  const result: ScreenplayElement[] = [];
+  let sceneIndex = -1;
+  let replaced = false;
+  for (const element of elements) {
+    if (element.type !== "scene_heading") {
+      if (!replaced) result.push(element);
+      continue;
+    }
+
+    const scene = paired[++sceneIndex];
+    const sceneNumber = scene?.sceneIdentifier || element.sceneNumber;
+    result.push(sceneNumber ? { ...element, sceneNumber } : element);
+
+    replaced = !!scene?.scriptContent && scene.scriptContent !== imported[sceneIndex].scriptContent;
+    if (replaced) result.push(...scriptContentToElements(scene!.scriptContent!, element.text));
+  }
+  return result;
+}
+
+export function buildExportElements(script: Script, scenes: Scene[]): ScreenplayElement[] {
+  const ordered = [...scenes].sort((a, b) => a.sortOrder - b.sortOrder || a.sceneNumber - b.sceneNumber);
+
+  if (script.elements && script.elements.length > 0) {
+    return importedToElements(script, script.elements, ordered.filter(scene => scene.scriptId === script.id && !scene.isOmitted));
+  }
+
+  if (ordered.length === 0) {
+    return textToElements(script.content);
+  }
+
+  return ordered.flatMap(sceneToElements);
+}
+
+// ============================================
+// Fountain
+// ============================================
+
+function isUppercase(text: string): boolean {
+  return /[A-Z]/.test(text) && !/[a-z]/.test(text);
+}
+
+export function toFountain(title: string, elements: ScreenplayElement[]): string {
+  const out: string[] = [`Title: ${title}`, `Draft date: ${new Date().toISOString().split("T")[0]}`, ""];
+  let inDialogue = false;
+
+  const block = (text: string) => {
+    if (out[out.length - 1] !== "") out.push("");
+    out.push(text);
+    inDialogue = false;
+  };
+
+  for (const element of elements) {
+    switch (element.type) {
+      case "scene_heading": {
+        const forced = SCENE_HEADING_PATTERN.test(element.text) ? "" : ".";
+        const number = element.sceneNumber ? ` #${element.sceneNumber}#` : "";
+        block(`${forced}${element.text}${number}`);
+        break;
+      }
+      case "character": {
+        const cue = element.text.replace(/\s*\([^)]*\)/g, "");
+        const forced = isUppercase(cue) ? "" : "@";
+        block(`${forced}${element.text}${element.dual ? " ^" : ""}`);
+        inDialogue = true;
+        break;
+      }
+      case "parenthetical":
+      case "dialogue":
+      case "lyric": {
+        let text = element.text;
+        if (element.type === "parenthetical" && !/^[（(].*[）)]$/.test(text)) text = `(${text})`;
+        if (element.type === "lyric") text = `~${text}`;
+        if (inDialogue) {
+          out.push(text);
+        } else {
+          block(text);
+        }
+        break;
+      }
+      case "transition":
+        block(TRANSITION_PATTERN.test(element.text) ? element.text : `> ${element.text}`);
+        break;
+      case "centered":
+        block(`> ${element.text} <`);
+        break;
+      case "section":
+        block(`${"#".repeat(element.depth || 1)} ${element.text}`);
+        break;
+      case "synopsis":
+        block(`= ${element.text}`);
+        break;
+      case "note":
+        block(`[[${element.text}]]`);
+        break;
+      case "page_break":
+        block("===");
+        break;
+      default: {
+        // Action that would otherwise read as a heading, cue or transition is forced with "!"
+        const firstLine = element.text.split("\n")[0];
+        const ambiguous = SCENE_HEADING_PATTERN.test(firstLine) || isUppercase(firstLine) || /^[.@>~=#!]/.test(firstLine);
+        block(`${ambiguous ? "!" : ""}${element.text}`);
+      }
+    }
+  }
+
+  return out.join("\n").replace(/\n{3,}/g, "\n\n") + "\n";
+}
+
+// ============================================
+// Final Draft (FDX)
+// ============================================
+
+const fdxParagraphTypes: Partial<Record<ScreenplayElement["type"], string>> = {
+  scene_heading: "Scene Heading",
+  action: "Action",
+  character: "Character",
+  parenthetical: "Parenthetical",
+  dialogue: "Dialogue",
+  lyric: "Dialogue",
+  transition: "Transition",
+  shot: "Shot",
+  general: "General",
+  centered: "Action",
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function fdxParagraph(element: ScreenplayElement): string | null {
+  const type = fdxParagraphTypes[element.type];
+  if (!type) return null;
+
+  const attributes = [`Type="${type}"`];
+  if (element.type === "scene_heading" && element.sceneNumber) {
+    attributes.unshift(`Number="${escapeXml(element.sceneNumber)}"`);
+  }
+  if (element.type === "centered") {
+    attributes.push(`Alignment="Center"`);
+  }
+  return `    <Paragraph ${attributes.join(" ")}>\n      <Text>${escapeXml(element.text)}</Text>\n    </Paragraph>`;
+}
+
+export function toFdx(title: string, elements: ScreenplayElement[]): string {
+  // Group each cue with its dialogue so dual-dialogue pairs can be wrapped together
+  const blocks: { paragraphs: string[]; dialogue: boolean; dual: boolean }[] = [];
+  for (const element of elements) {
+    const paragraph = fdxParagraph(element);
+    if (!paragraph) continue;
+
+    const last = blocks[blocks.length - 1];
+    if (element.type === "character") {
+      blocks.push({ paragraphs: [paragraph], dialogue: true, dual: !!element.dual });
+    } else if (last?.dialogue && (element.type === "parenthetical" || element.type === "dialogue" || element.type === "lyric")) {
+      last.paragraphs.push(paragraph);
+    } else {
+      blocks.push({ paragraphs: [paragraph], dialogue: false, dual: false });
+    }
+  }
+
+  const body: string[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    const next = blocks[i + 1];
+    if (blocks[i].dialogue && next?.dialogue && next.dual) {
+      body.push("    <Paragraph>\n      <DualDialogue>");
+      body.push(...blocks[i].paragraphs, ...next.paragraphs);
+      body.push("      </DualDialogue>\n    </Paragraph>");
+      i++;
+    } else {
+      body.push(...blocks[i].paragraphs);
+    }
+  }
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>`,
+    `<FinalDraft DocumentType="Script" Template="No" Version="5">`,
+    `  <Content>`,
+    ...body,
+    `  </Content>`,
+    `  <TitlePage>`,
+    `    <Content>`,
+    `      <Paragraph Alignment="Center" Type="Action">`,
+    `        <Text>${escapeXml(title)}</Text>`,
+    `      </Paragraph>`,
+    `    </Content>`,
+    `  </TitlePage>`,
+    `</FinalDraft>`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,239 @@
+import type { SceneIntExt, ScreenplayElement, ScriptSourceFormat } from "@shared/schema";
+import { normalizeSceneIdentifier, parseHeadingDetails, parseSceneHeading, sceneMainNumber } from "@shared/scene-heading";
+
+// Structured screenplay model shared by the FDX and Fountain importers.
+// Parsers produce a flat element list; scenes and characters are derived from it
+// deterministically so uploads in these formats never go through the heuristic
+// Chinese scene-heading extraction.
+
+export interface ParsedScreenplayScene {
+  identifier: string;
+  mainNumber: number;
+  heading: string;
+  location: string | null;
+  timeOfDay: string | null;
+  intExt: SceneIntExt | null;
+  dialogue: string | null;
+  action: string | null;
+  scriptContent: string;
+  characters: string[];
+}
+
+export interface ParsedScreenplay {
+  format: ScriptSourceFormat;
+  title: string | null;
+  elements: ScreenplayElement[];
+  scenes: ParsedScreenplayScene[];
+  characters: string[];
+  plainText: string;
+}
+
+// "JOHN (V.O.)", "JOHN (CONT'D)", "张三（画外音）" -> "JOHN" / "张三"
+export function normalizeCharacterCue(cue: string): string {
+  return cue
+    .replace(/\s*[（(][^）)]*[）)]\s*/g, " ")
+    .replace(/\s*\^\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parseHeadingParts(heading: string): {
+  location: string | null;
+  timeOfDay: string | null;
+  intExt: SceneIntExt | null;
+} {
+  const text = heading.replace(/\s*#[^#]+#\s*$/, "").trim();
+  const { location, timeOfDay, intExt } = parseSceneHeading(text) ?? parseHeadingDetails(text);
+  return { location, timeOfDay, intExt };
+}
+
+// English screenplay body: an uppercase cue line followed by its speech until a blank line.
+// Dialogue is flattened to the app's "角色（括注）：台词" form; everything else is action.
+export function splitSluglineBody(body: string): { dialogue: string | null; action: string | null } {
+  const dialogueLines: string[] = [];
+  const actionLines: string[] = [];
+  const lines = body.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    if (/^[^\s△▲【】\[\]]+[:：]/.test(line)) {
+      dialogueLines.push(line);
+      continue;
+    }
+
+    const next = lines[i + 1]?.trim();
+    const isCue = /[A-Z]/.test(line) && !/[a-z]/.test(line) && line.length <= 40 && !/TO:$/.test(line) && !!next;
+    if (isCue) {
+      const speaker = line.replace(/\s*\^$/, "");
+      let parenthetical = "";
+      const speech: string[] = [];
+      while (i + 1 < lines.length && lines[i + 1].trim()) {
+        const speechLine = lines[++i].trim();
+        if (/^\(.*\)$/.test(speechLine) && speech.length === 0) {
+          parenthetical = `（${speechLine.slice(1, -1)}）`;
+        } else {
+          speech.push(speechLine);
+        }
+      }
+      dialogueLines.push(`${speaker}${parenthetical}：${speech.join(" ")}`);
+      continue;
+    }
+
+    actionLines.push(line.replace(/^[△▲]\s*/, ""));
+  }
+
+  return {
+    dialogue: dialogueLines.length > 0 ? dialogueLines.join("\n") : null,
+    action: actionLines.length > 0 ? actionLines.join("\n") : null,
+  };
+}
+
+// Renders elements in the inline "角色（括注）：台词" layout the rest of the app already understands
+export function renderElementsAsText(elements: ScreenplayElement[]): string {
+  const lines: string[] = [];
+  let speaker: string | null = null;
+  let parenthetical: string | null = null;
+
+  for (const element of elements) {
+    switch (element.type) {
+      case "scene_heading":
+        if (lines.length > 0) lines.push("");
+        lines.push(element.text);
+        speaker = null;
+        break;
+      case "character":
+        speaker = element.text;
+        parenthetical = null;
+        break;
+      case "parenthetical":
+        parenthetical = element.text.replace(/^[（(]|[）)]$/g, "");
+        break;
+      case "section":
+      case "synopsis":
+      case "note":
+      case "page_break":
+        break;
+      case "dialogue":
+        if (speaker) {
+          lines.push(`${speaker}${parenthetical ? `（${parenthetical}）` : ""}：${element.text}`);
+          parenthetical = null;
+        } else {
+          lines.push(element.text);
+        }
+        break;
+      default:
+        lines.push(element.text);
+        speaker = null;
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function buildScreenplay(
+  format: ScriptSourceFormat,
+  title: string | null,
+  elements: ScreenplayElement[],
+): ParsedScreenplay {
+  const scenes: ParsedScreenplayScene[] = [];
+  const allCharacters: string[] = [];
+
+  let current: { heading: ScreenplayElement; body: ScreenplayElement[] } | null = null;
+
+  // Numbers written in the script are reserved up front, so a scene numbered by position
+  // never takes one that appears later; repeated numbers get a letter suffix like inserts
+  const writtenNumber = (heading: ScreenplayElement): string | null => {
+    const explicitNumber = heading.sceneNumber?.trim();
+    return (explicitNumber && (normalizeSceneIdentifier(explicitNumber) || explicitNumber))
+      || parseSceneHeading(heading.text)?.identifier
+      || null;
+  };
+  const written = new Set(elements.flatMap(element => {
+    const number = element.type === "scene_heading" ? writtenNumber(element) : null;
+    return number ? [number] : [];
+  }));
+  const used = new Set<string>();
+  const uniqueIdentifier = (number: string | null, index: number): string => {
+    if (number && !used.has(number)) return number;
+    const base = number ?? String(index);
+    if (!number && !written.has(base) && !used.has(base)) return base;
+    for (let k = 0; ; k++) {
+      const suffix = (k >= 26 ? String.fromCharCode(64 + Math.floor(k / 26)) : "") + String.fromCharCode(65 + (k % 26));
+      const candidate = `${base}${suffix}`;
+      if (!written.has(candidate) && !used.has(candidate)) return candidate;
+    }
+  };
+
+  const flush = () => {
+    if (!current) return;
+    const index = scenes.length + 1;
+    const identifier = uniqueIdentifier(writtenNumber(current.heading), index);
+    used.add(identifier);
+    const mainNumber = sceneMainNumber(identifier);
+    const { location, timeOfDay, intExt } = parseHeadingParts(current.heading.text);
+
+    const dialogueLines: string[] = [];
+    const actionLines: string[] = [];
+    const sceneCharacters: string[] = [];
+    let speaker: string | null = null;
+    let parenthetical: string | null = null;
+
+    for (const element of current.body) {
+      if (element.type === "character") {
+        speaker = normalizeCharacterCue(element.text);
+        parenthetical = null;
+        if (speaker && !sceneCharacters.includes(speaker)) sceneCharacters.push(speaker);
+        if (speaker && !allCharacters.includes(speaker)) allCharacters.push(speaker);
+      } else if (element.type === "parenthetical") {
+        parenthetical = element.text.replace(/^[（(]|[）)]$/g, "");
+      } else if (element.type === "dialogue") {
+        dialogueLines.push(`${speaker || ""}${parenthetical ? `（${parenthetical}）` : ""}：${element.text}`);
+        parenthetical = null;
+      } else if (element.type === "action" || element.type === "shot" || element.type === "general" || element.type === "centered") {
+        actionLines.push(element.text);
+        speaker = null;
+      } else if (element.type === "lyric") {
+        dialogueLines.push(`${speaker || ""}：${element.text}`);
+      } else if (element.type === "transition") {
+        speaker = null;
+      }
+    }
+
+    scenes.push({
+      identifier,
+      mainNumber: mainNumber ?? index,
+      heading: current.heading.text,
+      location,
+      timeOfDay,
+      intExt,
+      dialogue: dialogueLines.length > 0 ? dialogueLines.join("\n") : null,
+      action: actionLines.length > 0 ? actionLines.join("\n") : null,
+      scriptContent: renderElementsAsText([current.heading, ...current.body]),
+      characters: sceneCharacters,
+    });
+  };
+
+  for (const element of elements) {
+    if (element.type === "scene_heading") {
+      flush();
+      current = { heading: element, body: [] };
+    } else if (current) {
+      current.body.push(element);
+    } else if (element.type === "character") {
+      const name = normalizeCharacterCue(element.text);
+      if (name && !allCharacters.includes(name)) allCharacters.push(name);
+    }
+  }
+  flush();
+
+  return {
+    format,
+    title,
+    elements,
+    scenes,
+    characters: allCharacters,
+    plainText: renderElementsAsText(elements),
+  };
+}
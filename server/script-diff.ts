@@ -0,0 +1,236 @@
+import type {
+  ScriptDiffLine,
+  ScriptDiffResult,
+  ScriptDiffSceneGroup,
+  ScriptDiffSegment,
+  ScriptDiffSide,
+} from "@shared/schema";
+import { parseSceneHeading } from "@shared/scene-heading";
+
+// Line/word level diff between two script snapshots, grouped by scene so a
+// revision can be reviewed scene by scene before it is restored or locked.
+
+export type EditOp = { type: "equal" | "added" | "removed"; oldIndex: number; newIndex: number };
+
+// Beyond this edit distance the middle of the file is reported as a plain replacement;
+// keeps memory bounded when two unrelated scripts are compared
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers O(ND) diff over two token arrays
+export function diffSequences(a: string[], b: string[]): EditOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: EditOp[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: "equal", oldIndex: i, newIndex: i });
+  ops.push(...myersMiddle(a, b, start, endA, start, endB));
+  for (let i = 0; i < a.length - endA; i++) {
+    ops.push({ type: "equal", oldIndex: endA + i, newIndex: endB + i });
+  }
+  return ops;
+}
+
+function myersMiddle(a: string[], b: string[], startA: number, endA: number, startB: number, endB: number): EditOp[] {
+  const n = endA - startA;
+  const m = endB - startB;
+  const replaceAll = (): EditOp[] => [
+    ...Array.from({ length: n }, (_, i) => ({ type: "removed" as const, oldIndex: startA + i, newIndex: -1 })),
+    ...Array.from({ length: m }, (_, i) => ({ type: "added" as const, oldIndex: -1, newIndex: startB + i })),
+  ];
+  if (n === 0 || m === 0) return replaceAll();
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= max && found < 0; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[startA + x] === b[startB + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+  if (found < 0) return replaceAll();
+
+  // Walk the trace backwards to recover the edit script
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = prev[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: "equal", oldIndex: startA + x, newIndex: startB + y });
+    }
+    if (x === prevX) {
+      y--;
+      ops.push({ type: "added", oldIndex: -1, newIndex: startB + y });
+    } else {
+      x--;
+      ops.push({ type: "removed", oldIndex: startA + x, newIndex: -1 });
+    }
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    ops.push({ type: "equal", oldIndex: startA + x, newIndex: startB + y });
+  }
+  return ops.reverse();
+}
+
+// Latin words stay whole; CJK text is compared character by character
+function tokenizeWords(text: string): string[] {
+  return text.match(/[A-Za-z0-9_']+|\s+|[^\sA-Za-z0-9_']/g) || [];
+}
+
+export function diffWords(oldText: string, newText: string): ScriptDiffSegment[] {
+  const a = tokenizeWords(oldText);
+  const b = tokenizeWords(newText);
+  const segments: ScriptDiffSegment[] = [];
+  for (const op of diffSequences(a, b)) {
+    const text = op.type === "added" ? b[op.newIndex] : a[op.oldIndex];
+    const last = segments[segments.length - 1];
+    if (last?.type === op.type) {
+      last.text += text;
+    } else {
+      segments.push({ type: op.type, text });
+    }
+  }
+  return segments;
+}
+
+function similarity(segments: ScriptDiffSegment[]): number {
+  let equal = 0;
+  let total = 0;
+  for (const segment of segments) {
+    const length = segment.text.trim().length;
+    total += length;
+    if (segment.type === "equal") equal += length;
+  }
+  return total === 0 ? 1 : equal / total;
+}
+
+export function diffLines(oldContent: string, newContent: string): ScriptDiffLine[] {
+  const oldLines = oldContent.split(/\r?\n/);
+  const newLines = newContent.split(/\r?\n/);
+  const ops = diffSequences(oldLines, newLines);
+  const lines: ScriptDiffLine[] = [];
+
+  let i = 0;
+  while (i < ops.length) {
+    const op = ops[i];
+    if (op.type === "equal") {
+      lines.push({
+        type: "equal",
+        oldLineNumber: op.oldIndex + 1,
+        newLineNumber: op.newIndex + 1,
+        oldText: oldLines[op.oldIndex],
+        newText: newLines[op.newIndex],
+      });
+      i++;
+      continue;
+    }
+
+    // Collect one hunk of removals/additions and pair similar lines into "changed"
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (i < ops.length && ops[i].type !== "equal") {
+      if (ops[i].type === "removed") removed.push(ops[i].oldIndex);
+      else added.push(ops[i].newIndex);
+      i++;
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    const pending: ScriptDiffLine[] = [];
+    for (let p = 0; p < paired; p++) {
+      const oldText = oldLines[removed[p]];
+      const newText = newLines[added[p]];
+      const segments = diffWords(oldText, newText);
+      if (similarity(segments) >= 0.4) {
+        lines.push(...pending.splice(0));
+        lines.push({ type: "changed", oldLineNumber: removed[p] + 1, newLineNumber: added[p] + 1, oldText, newText, segments });
+      } else {
+        pending.push(
+          { type: "removed", oldLineNumber: removed[p] + 1, newLineNumber: null, oldText, newText: null },
+          { type: "added", oldLineNumber: null, newLineNumber: added[p] + 1, oldText: null, newText },
+        );
+      }
+    }
+    lines.push(...pending);
+    for (const index of removed.slice(paired)) {
+      lines.push({ type: "removed", oldLineNumber: index + 1, newLineNumber: null, oldText: oldLines[index], newText: null });
+    }
+    for (const index of added.slice(paired)) {
+      lines.push({ type: "added", oldLineNumber: null, newLineNumber: index + 1, oldText: null, newText: newLines[index] });
+    }
+  }
+
+  return lines;
+}
+
+// A new group starts at every scene heading, on whichever side the heading exists
+export function groupDiffByScene(lines: ScriptDiffLine[]): ScriptDiffSceneGroup[] {
+  const groups: ScriptDiffSceneGroup[] = [];
+  let current: ScriptDiffSceneGroup = { identifier: null, heading: null, status: "unchanged", lines: [] };
+
+  for (const line of lines) {
+    const text = line.newText ?? line.oldText ?? "";
+    const heading = parseSceneHeading(text);
+    if (heading) {
+      if (current.lines.length > 0) groups.push(current);
+      current = { identifier: heading.identifier, heading: heading.raw, status: "unchanged", lines: [] };
+    }
+    current.lines.push(line);
+  }
+  if (current.lines.length > 0) groups.push(current);
+
+  for (const group of groups) {
+    const contentLines = group.lines.filter(l => (l.newText ?? l.oldText ?? "").trim() !== "");
+    if (contentLines.every(l => l.type === "equal")) group.status = "unchanged";
+    else if (contentLines.every(l => l.type === "added")) group.status = "added";
+    else if (contentLines.every(l => l.type === "removed")) group.status = "removed";
+    else group.status = "modified";
+  }
+
+  return groups;
+}
+
+export function buildScriptDiff(
+  from: ScriptDiffSide & { content: string },
+  to: ScriptDiffSide & { content: string },
+): ScriptDiffResult {
+  const lines = diffLines(from.content, to.content);
+  const stats = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const line of lines) {
+    if (line.type === "equal") stats.unchanged++;
+    else stats[line.type]++;
+  }
+
+  const { content: _fromContent, ...fromSide } = from;
+  const { content: _toContent, ...toSide } = to;
+  return { from: fromSide, to: toSide, stats, scenes: groupDiffByScene(lines) };
+}
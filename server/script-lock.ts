@@ -0,0 +1,190 @@
+import { revisionColors, type RevisionColor, type Scene, type SceneIntExt } from "@shared/schema";
+import { parseHeadingDetails, parseSceneHeading, sceneMainNumber, sceneSortKey } from "@shared/scene-heading";
+import { diffSequences } from "./script-diff";
+
+// Production lock: once a script is locked its scene numbers never change.
+// A new draft is aligned against the locked scenes by heading, so kept scenes
+// keep their identifier, new scenes get A/B suffixes ("12A", or "A1" before the
+// first scene) and scenes missing from the draft are marked omitted.
+
+export interface RevisionSceneInput {
+  identifier: string | null; // number written in the new draft, informational only
+  title: string;
+  location: string | null;
+  timeOfDay: string | null;
+  intExt: SceneIntExt | null;
+  description: string | null;
+  dialogue: string | null;
+  action: string | null;
+  scriptContent: string | null;
+}
+
+export type LockedRevisionEntry =
+  | { kind: "kept"; scene: Scene; input: RevisionSceneInput; changed: boolean }
+  | { kind: "inserted"; identifier: string; input: RevisionSceneInput }
+  | { kind: "omitted"; scene: Scene; previouslyOmitted: boolean };
+
+export interface LockedRevisionPlan {
+  entries: LockedRevisionEntry[]; // final scene order, omitted scenes included
+  changedScenes: string[];
+}
+
+export function sceneIdentifierOf(scene: Scene): string {
+  return scene.sceneIdentifier || String(scene.sceneNumber);
+}
+
+export function nextRevisionColor(current: RevisionColor | null | undefined): RevisionColor {
+  if (!current) return revisionColors[0];
+  return revisionColors[(revisionColors.indexOf(current) + 1) % revisionColors.length];
+}
+
+// Heading without its number: what the writer sees as "the same scene"
+function headingKey(title: string, fallback: { location: string | null; timeOfDay: string | null; intExt: SceneIntExt | null }): string {
+  const parsed = parseSceneHeading(title) ?? parseHeadingDetails(title);
+  const location = parsed.location ?? fallback.location;
+  const timeOfDay = parsed.timeOfDay ?? fallback.timeOfDay;
+  const intExt = parsed.intExt ?? fallback.intExt;
+  return [intExt, location, timeOfDay].map(part => (part || "").replace(/\s+/g, " ").trim().toUpperCase()).join("|");
+}
+
+function bodyText(scene: Pick<Scene, "description" | "dialogue" | "action">): string {
+  return [scene.description, scene.dialogue, scene.action].filter(Boolean).join("\n");
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, "");
+}
+
+function lineSimilarity(a: string, b: string): number {
+  const linesA = new Set(a.split("\n").map(normalizeText).filter(Boolean));
+  const linesB = new Set(b.split("\n").map(normalizeText).filter(Boolean));
+  if (linesA.size === 0 && linesB.size === 0) return 1;
+  let shared = 0;
+  linesA.forEach(line => {
+    if (linesB.has(line)) shared++;
+  });
+  return shared / Math.max(linesA.size, linesB.size);
+}
+
+function nextSuffix(suffix: string): string {
+  if (!suffix) return "A";
+  const last = suffix[suffix.length - 1];
+  if (last === "Z") return nextSuffix(suffix.slice(0, -1)) + "A";
+  return suffix.slice(0, -1) + String.fromCharCode(last.charCodeAt(0) + 1);
+}
+
+// "12" -> "12A" -> "12B"; before the first scene "A1" -> "B1"; skips identifiers already in use
+export function nextInsertedIdentifier(previous: string | null, first: string | null, taken: Set<string>): string {
+  let candidate: string;
+  const prefixed = previous?.match(/^([A-Z])(\d+)$/);
+  if (!previous || prefixed) {
+    const main = prefixed ? prefixed[2] : String(sceneMainNumber(first || "1") ?? 1);
+    let letter = prefixed ? nextSuffix(prefixed[1]) : "A";
+    candidate = `${letter}${main}`;
+    while (taken.has(candidate) && letter.length === 1) {
+      letter = nextSuffix(letter);
+      candidate = `${letter}${main}`;
+    }
+    if (!taken.has(candidate)) return candidate;
+    previous = first || "1";
+  }
+
+  const match = previous.match(/^(.*?\d)([A-Z]*)$/);
+  const base = match ? match[1] : previous;
+  let suffix = match ? match[2] : "";
+  do {
+    suffix = nextSuffix(suffix);
+    candidate = `${base}${suffix}`;
+  } while (taken.has(candidate));
+  return candidate;
+}
+
+export function planLockedRevision(scenes: Scene[], inputs: RevisionSceneInput[]): LockedRevisionPlan {
+  const ordered = [...scenes].sort((a, b) => a.sortOrder - b.sortOrder || sceneSortKey(sceneIdentifierOf(a)) - sceneSortKey(sceneIdentifierOf(b)));
+  const active = ordered.filter(s => !s.isOmitted);
+  const taken = new Set(ordered.map(sceneIdentifierOf));
+  const firstIdentifier = active[0] ? sceneIdentifierOf(active[0]) : null;
+
+  const oldKeys = active.map(s => headingKey(s.title, s));
+  const newKeys = inputs.map(input => headingKey(input.title, input));
+  const ops = diffSequences(oldKeys, newKeys);
+
+  const entries: LockedRevisionEntry[] = [];
+  const changedScenes: string[] = [];
+  let previousIdentifier: string | null = null;
+
+  const keep = (scene: Scene, input: RevisionSceneInput) => {
+    const changed = normalizeText(scene.title) !== normalizeText(input.title)
+      || normalizeText(bodyText(scene)) !== normalizeText(bodyText(input));
+    entries.push({ kind: "kept", scene, input, changed });
+    previousIdentifier = sceneIdentifierOf(scene);
+    if (changed) changedScenes.push(previousIdentifier);
+  };
+
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === "equal") {
+      keep(active[ops[i].oldIndex], inputs[ops[i].newIndex]);
+      i++;
+      continue;
+    }
+
+    // A hunk of removed/added headings: a removed scene whose body survives under a
+    // rewritten heading is still the same scene; everything else is omitted or inserted
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (i < ops.length && ops[i].type !== "equal") {
+      if (ops[i].type === "removed") removed.push(ops[i].oldIndex);
+      else added.push(ops[i].newIndex);
+      i++;
+    }
+
+    const pairs = new Map<number, number>(); // added index -> removed index
+    for (const oldIndex of removed) {
+      let best = -1;
+      let bestScore = 0.3;
+      for (const newIndex of added) {
+        if (pairs.has(newIndex)) continue;
+        const score = lineSimilarity(bodyText(active[oldIndex]), bodyText(inputs[newIndex]));
+        if (score >= bestScore) {
+          best = newIndex;
+          bestScore = score;
+        }
+      }
+      if (best >= 0) pairs.set(best, oldIndex);
+    }
+
+    const pairedOld = new Set(Array.from(pairs.values()));
+    for (const oldIndex of removed) {
+      if (pairedOld.has(oldIndex)) continue;
+      const scene = active[oldIndex];
+      entries.push({ kind: "omitted", scene, previouslyOmitted: false });
+      previousIdentifier = sceneIdentifierOf(scene);
+      changedScenes.push(previousIdentifier);
+    }
+    for (const newIndex of added) {
+      const oldIndex = pairs.get(newIndex);
+      if (oldIndex !== undefined) {
+        keep(active[oldIndex], inputs[newIndex]);
+        continue;
+      }
+      const identifier = nextInsertedIdentifier(previousIdentifier, firstIdentifier, taken);
+      taken.add(identifier);
+      entries.push({ kind: "inserted", identifier, input: inputs[newIndex] });
+      previousIdentifier = identifier;
+      changedScenes.push(identifier);
+    }
+  }
+
+  // Scenes omitted in earlier revisions keep their slot next to their numeric neighbours
+  for (const scene of ordered.filter(s => s.isOmitted)) {
+    const key = sceneSortKey(sceneIdentifierOf(scene));
+    const identifierOf = (entry: LockedRevisionEntry) => entry.kind === "inserted" ? entry.identifier : sceneIdentifierOf(entry.scene);
+    const index = entries.findIndex(entry => sceneSortKey(identifierOf(entry)) > key);
+    const entry: LockedRevisionEntry = { kind: "omitted", scene, previouslyOmitted: true };
+    if (index < 0) entries.push(entry);
+    else entries.splice(index, 0, entry);
+  }
+
+  return { entries, changedScenes };
+}
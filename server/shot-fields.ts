@@ -0,0 +1,127 @@
+import {
+  cameraAngleInfo,
+  cameraAngles,
+  cameraMovementInfo,
+  cameraMovements,
+  shotTypeInfo,
+  shotTypes,
+  type CameraAngle,
+  type CameraMovement,
+  type ShotEnumField,
+  type ShotFieldNormalization,
+  type ShotType,
+} from "@shared/schema";
+
+// The model is asked for enum keys but often answers with labels ("中景", "Medium Shot")
+// or common abbreviations ("MCU", "OTS"). Values are matched on a normalized key against
+// the enum key, the English and Chinese labels, and the synonyms below.
+
+const SHOT_TYPE_SYNONYMS: Record<ShotType, string[]> = {
+  extreme_wide: ["大远景", "极远景", "超远景", "extreme long shot", "extreme wide", "els", "ews", "xls", "xws"],
+  wide: ["远景", "wide shot", "long shot", "ws", "ls"],
+  full: ["全景", "全身", "full shot", "full body", "fs"],
+  medium: ["中景", "中近景", "中全景", "medium shot", "mid shot", "medium", "ms", "mws"],
+  close_up: ["近景", "close up", "closeup", "medium close up", "cu", "mcu"],
+  extreme_close_up: ["特写", "大特写", "极特写", "extreme close up", "extreme closeup", "ecu", "xcu", "bcu"],
+  over_shoulder: ["过肩", "过肩镜头", "过肩拍摄", "over the shoulder", "over shoulder", "ots", "os"],
+  pov: ["主观", "主观镜头", "主观视角", "point of view", "pov shot"],
+};
+
+const CAMERA_ANGLE_SYNONYMS: Record<CameraAngle, string[]> = {
+  eye_level: ["平视", "平拍", "平角", "水平", "eye level", "eyelevel", "straight on"],
+  low_angle: ["仰拍", "仰视", "仰角", "低角度", "low angle", "low"],
+  high_angle: ["俯拍", "俯视", "俯角", "高角度", "high angle", "high"],
+  bird_eye: ["鸟瞰", "俯瞰", "顶拍", "顶视", "正俯", "航拍", "bird eye", "birds eye", "bird eye view", "overhead", "top down", "top shot"],
+  dutch_angle: ["倾斜", "倾斜角度", "斜角", "荷兰角", "dutch", "dutch tilt", "canted", "canted angle", "oblique"],
+  worm_eye: ["蚁视", "虫视", "极低角度", "地面仰拍", "worm eye", "worms eye", "worm eye view"],
+};
+
+const CAMERA_MOVEMENT_SYNONYMS: Record<CameraMovement, string[]> = {
+  static: ["固定", "固定镜头", "静止", "静态", "不动", "static shot", "locked off", "lock off", "fixed", "still"],
+  pan: ["摇", "摇镜", "摇镜头", "横摇", "左右摇", "panning", "pan left", "pan right", "whip pan"],
+  tilt: ["俯仰", "纵摇", "上下摇", "直摇", "tilt up", "tilt down"],
+  dolly: ["推", "拉", "推拉", "推镜", "推镜头", "拉镜头", "缓推", "缓拉", "轨道推拉", "dolly in", "dolly out", "push in", "pull out", "pull back"],
+  tracking: ["跟", "跟拍", "跟踪", "跟镜头", "移", "移动", "移镜头", "横移", "track", "tracking shot", "truck", "trucking", "follow"],
+  crane: ["升降", "摇臂", "升", "降", "crane shot", "jib", "boom", "crane up", "crane down"],
+  handheld: ["手持", "手持摄影", "hand held", "handheld camera"],
+  steadicam: ["斯坦尼康", "稳定器", "斯坦尼康跟拍", "gimbal", "stabilizer"],
+  zoom: ["变焦", "推拉变焦", "变焦推", "变焦拉", "zoom in", "zoom out", "crash zoom"],
+};
+
+function fieldKey(value: string): string {
+  return value.toLowerCase()
+    .replace(/['’]s?\b/g, "")
+    .replace(/[\s_\-./（）()]+/g, " ")
+    .trim()
+    .replace(/ ?(shot|镜头|拍摄)$/, "")
+    .trim();
+}
+
+function buildLookup<T extends string>(values: readonly T[], info: Record<T, { name: string; nameCN: string }>, synonyms: Record<T, string[]>) {
+  const exact = new Map<string, T>();
+  const chinese: [string, T][] = [];
+  for (const value of values) {
+    for (const text of [value, info[value].name, info[value].nameCN, ...synonyms[value]]) {
+      exact.set(fieldKey(text), value);
+      exact.set(fieldKey(text).replace(/ /g, ""), value);
+      // Single characters ("推", "摇") only count as the whole answer
+      if (/[\u4e00-\u9fff]/.test(text) && text.length > 1) chinese.push([text, value]);
+    }
+  }
+  // Longest first so "推拉变焦" wins over "推拉" and "大特写" over "特写"
+  chinese.sort((a, b) => b[0].length - a[0].length);
+  return (raw: string): T | null => {
+    const key = fieldKey(raw);
+    const found = exact.get(key) ?? exact.get(key.replace(/ /g, ""));
+    if (found) return found;
+    // Chinese answers often carry extra words ("中景（两人）", "缓慢推镜头")
+    return chinese.find(([text]) => raw.includes(text))?.[1] ?? null;
+  };
+}
+
+const lookups: Record<ShotEnumField, (raw: string) => string | null> = {
+  shotType: buildLookup(shotTypes, shotTypeInfo, SHOT_TYPE_SYNONYMS),
+  cameraAngle: buildLookup(cameraAngles, cameraAngleInfo, CAMERA_ANGLE_SYNONYMS),
+  cameraMovement: buildLookup(cameraMovements, cameraMovementInfo, CAMERA_MOVEMENT_SYNONYMS),
+};
+
+export const shotEnumFields: ShotEnumField[] = ["shotType", "cameraAngle", "cameraMovement"];
+
+export const shotEnumValues: Record<ShotEnumField, readonly string[]> = {
+  shotType: shotTypes,
+  cameraAngle: cameraAngles,
+  cameraMovement: cameraMovements,
+};
+
+export function normalizeShotField(field: ShotEnumField, raw: string | null | undefined): string | null {
+  const text = raw?.trim();
+  return text ? lookups[field](text) : null;
+}
+
+type RawShotFields = { shotNumber: number } & Partial<Record<ShotEnumField, string>>;
+
+export interface NormalizedShotFields {
+  shotType: ShotType | null;
+  cameraAngle: CameraAngle | null;
+  cameraMovement: CameraMovement | null;
+}
+
+// Every value that was not already an enum key is reported, mapped or not
+export function normalizeShotFields(shot: RawShotFields): { fields: NormalizedShotFields; changes: ShotFieldNormalization[] } {
+  const changes: ShotFieldNormalization[] = [];
+  const normalized = (field: ShotEnumField) => {
+    const raw = shot[field]?.trim();
+    if (!raw) return null;
+    const value = normalizeShotField(field, raw);
+    if (value !== raw) changes.push({ shotNumber: shot.shotNumber, field, original: raw, value });
+    return value;
+  };
+  return {
+    fields: {
+      shotType: normalized("shotType") as ShotType | null,
+      cameraAngle: normalized("cameraAngle") as CameraAngle | null,
+      cameraMovement: normalized("cameraMovement") as CameraMovement | null,
+    },
+    changes,
+  };
+}
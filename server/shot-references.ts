@@ -0,0 +1,97 @@
+import {
+  characterAssetTypeLabels,
+  characterPoseTypeLabels,
+  type Character,
+  type CharacterAssetReference,
+  type CharacterImageVariant,
+  type CharacterPoseType,
+  type Shot,
+} from "@shared/schema";
+import type { ReferenceImage } from "./gemini-image-client";
+import { loadImageData } from "./asset-store";
+
+// Storyboard frames keep faces and costumes consistent by sending each character's
+// applied reference images with the prompt. A character is in the shot when the shot
+// text names them; establishing shots without anyone named get no references.
+
+// Face first: with several characters in a frame the model keeps faces better than bodies
+const REFERENCE_POSES: CharacterPoseType[] = ["front_face", "full_body"];
+const MAX_ASSETS_PER_CHARACTER = 2;
+const MAX_REFERENCE_IMAGES = 10;
+
+export interface ShotCharacterReferences {
+  character: Character;
+  variants: CharacterImageVariant[];
+  assets: CharacterAssetReference[];
+}
+
+export interface ShotReferenceImage {
+  label: string;
+  url: string;
+}
+
+// Longer names first so "秦明" is not also matched inside "秦明远"
+export function charactersInShot(shot: Pick<Shot, "description" | "atmosphere" | "notes">, characters: Character[]): Character[] {
+  let text = [shot.description, shot.atmosphere, shot.notes].filter(Boolean).join("\n");
+  const found: Character[] = [];
+  for (const character of [...characters].sort((a, b) => b.name.length - a.name.length)) {
+    const name = character.name.trim();
+    if (!name || !text.includes(name)) continue;
+    found.push(character);
+    text = text.split(name).join(" ");
+  }
+  return found;
+}
+
+// The latest applied variant per pose; the character's main reference stands in when none is applied
+export function pickShotReferenceImages(entries: ShotCharacterReferences[]): ShotReferenceImage[] {
+  const images: ShotReferenceImage[] = [];
+  for (const { character, variants, assets } of entries) {
+    const applied = REFERENCE_POSES.flatMap(pose => {
+      const latest = variants
+        .filter(variant => variant.poseType === pose && variant.isApplied && variant.imageUrl)
+        .sort((a, b) => b.version - a.version || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+      return latest ? [{ label: `${character.name} ${characterPoseTypeLabels[pose]}`, url: latest.imageUrl! }] : [];
+    });
+    if (applied.length > 0) {
+      images.push(...applied);
+    } else if (character.imageReferenceUrl) {
+      images.push({ label: `${character.name} 形象参考`, url: character.imageReferenceUrl });
+    }
+
+    images.push(...assets
+      .filter(asset => asset.assetType !== "shoe")
+      .slice(0, MAX_ASSETS_PER_CHARACTER)
+      .map(asset => ({
+        label: `${character.name} ${characterAssetTypeLabels[asset.assetType]}${asset.description ? `：${asset.description}` : ""}`,
+        url: asset.imageUrl,
+      })));
+  }
+  return images.slice(0, MAX_REFERENCE_IMAGES);
+}
+
+// Text form of the references, for the prompt of every provider
+export function shotReferencePrompt(entries: ShotCharacterReferences[], withImages: boolean): string {
+  if (entries.length === 0) return "";
+  const lines = entries.map(({ character, variants }) => {
+    const descriptor = variants.find(variant => variant.isApplied && variant.appearanceDescriptor)?.appearanceDescriptor;
+    const appearance = descriptor
+      ? [descriptor.gender, descriptor.age, descriptor.hair, descriptor.face, descriptor.body, descriptor.clothing].filter(Boolean).join(", ")
+      : character.description ?? "";
+    return `- ${character.name}${appearance ? `: ${appearance}` : ""}`;
+  });
+  return `Characters in this shot:
+${lines.join("\n")}
+${withImages ? "Keep each character's face, hairstyle, build and costume identical to their reference images. Use the references for identity only; follow this shot's framing, pose and lighting." : ""}`;
+}
+
+// Stored images are asset URLs; older rows and asset references may hold data URLs or links
+export async function toReferenceImage(image: ShotReferenceImage): Promise<ReferenceImage | null> {
+  try {
+    const loaded = await loadImageData(image.url);
+    return loaded && { label: image.label, mimeType: loaded.mimeType, data: loaded.data.toString("base64") };
+  } catch (error) {
+    console.error(`[Shot References] Could not load ${image.label}:`, error);
+    return null;
+  }
+}
@@ -12,13 +12,23 @@ import {
   sceneAnalysis,
   productionNotes,
   callSheets,
+  callSheetVersions,
+  callSheetScenes,
   scriptVersions,
   shotVersions,
+  shotImageCandidates,
   scriptAnalysisGlobal,
   performanceGuidesV2,
+  breakdownElements,
+  breakdownTags,
+  scheduleStrips,
+  doodTravelDays,
+  assets,
 } from "@shared/schema";
-import { eq, and, desc, asc, sql } from "drizzle-orm";
+import { eq, and, desc, asc, isNull, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { calculatePageEighths } from "@shared/page-eighths";
+import { breakdownTextOf, reanchorTag } from "./breakdown";
 import type {
   User,
   InsertUser,
@@ -42,10 +52,16 @@ import type {
   InsertProductionNotes,
   CallSheet,
   InsertCallSheet,
+  CallSheetVersion,
+  InsertCallSheetVersion,
+  CallSheetScene,
+  InsertCallSheetScene,
   ScriptVersion,
   InsertScriptVersion,
   ShotVersion,
   InsertShotVersion,
+  ShotImageCandidate,
+  InsertShotImageCandidate,
   ScriptAnalysisGlobal,
   InsertScriptAnalysisGlobal,
   PerformanceGuideV2,
@@ -53,8 +69,45 @@ import type {
   CharacterAssetType,
   CharacterImageVariant,
   InsertCharacterImageVariant,
+  BreakdownElement,
+  InsertBreakdownElement,
+  BreakdownTag,
+  InsertBreakdownTag,
+  ScheduleStrip,
+  InsertScheduleStrip,
+  DoodTravelDay,
+  InsertDoodTravelDay,
+  Asset,
+  InsertAsset,
 } from "@shared/schema";
 
+// Page length follows the scene text, so every write that touches the text recomputes it
+const SCENE_TEXT_FIELDS = ["title", "scriptContent", "description", "action", "dialogue"] as const;
+
+function scenePageEighths(scene: Partial<Pick<Scene, typeof SCENE_TEXT_FIELDS[number]>>): number | null {
+  return calculatePageEighths(breakdownTextOf({
+    title: scene.title ?? "",
+    scriptContent: scene.scriptContent ?? null,
+    description: scene.description ?? null,
+    action: scene.action ?? null,
+    dialogue: scene.dialogue ?? null,
+  }));
+}
+
+function touchesSceneText(updates: Partial<InsertScene>): boolean {
+  return updates.pageEighths === undefined && SCENE_TEXT_FIELDS.some(field => updates[field] !== undefined);
+}
+
+// Breakdown tag offsets index into the scene text, so they are moved when the text is written;
+// reads re-anchor in memory only
+async function reanchorSceneTags(store: IStorage, scene: Scene): Promise<void> {
+  const text = breakdownTextOf(scene);
+  for (const tag of await store.getBreakdownTags(scene.id)) {
+    const offsets = reanchorTag(text, tag);
+    if (offsets) await store.updateBreakdownTag(tag.id, offsets);
+  }
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -75,6 +128,7 @@ export interface IStorage {
   getScene(id: string): Promise<Scene | undefined>;
   createScene(scene: InsertScene): Promise<Scene>;
   updateScene(id: string, scene: Partial<InsertScene>): Promise<Scene | undefined>;
+  backfillPageEighths(): Promise<number>; // Scenes saved before page lengths were stored
   deleteScene(id: string): Promise<void>;
 
   getShots(sceneId: string, directorStyle?: string): Promise<Shot[]>;
@@ -99,12 +153,23 @@ export interface IStorage {
   updateSceneAnalysis(id: string, analysis: Partial<InsertSceneAnalysis>): Promise<SceneAnalysis | undefined>;
 
   getProductionNotes(sceneId: string): Promise<ProductionNotes[]>;
+  getProductionNotesByProject(projectId: string): Promise<ProductionNotes[]>;
   getProductionNote(id: string): Promise<ProductionNotes | undefined>;
   createProductionNotes(notes: InsertProductionNotes): Promise<ProductionNotes>;
   updateProductionNotes(id: string, notes: Partial<InsertProductionNotes>): Promise<ProductionNotes | undefined>;
 
   getCallSheets(projectId: string): Promise<CallSheet[]>;
+  getCallSheet(id: string): Promise<CallSheet | undefined>;
   createCallSheet(callSheet: InsertCallSheet): Promise<CallSheet>;
+  updateCallSheet(id: string, callSheet: Partial<InsertCallSheet>): Promise<CallSheet | undefined>;
+  deleteCallSheet(id: string): Promise<void>;
+  getCallSheetVersions(callSheetId: string): Promise<CallSheetVersion[]>;
+  getCallSheetVersion(id: string): Promise<CallSheetVersion | undefined>;
+  createCallSheetVersion(version: InsertCallSheetVersion): Promise<CallSheetVersion>;
+  getCallSheetScenes(projectId: string): Promise<CallSheetScene[]>;
+  getCallSheetScene(id: string): Promise<CallSheetScene | undefined>;
+  setCallSheetScenes(callSheetId: string, projectId: string, sceneIds: string[]): Promise<CallSheetScene[]>;
+  updateCallSheetScene(id: string, link: Partial<InsertCallSheetScene>): Promise<CallSheetScene | undefined>;
 
   getScriptVersions(scriptId: string): Promise<ScriptVersion[]>;
   createScriptVersion(version: InsertScriptVersion): Promise<ScriptVersion>;
@@ -112,8 +177,15 @@ export interface IStorage {
 
   getShotVersions(shotId: string): Promise<ShotVersion[]>;
   createShotVersion(version: InsertShotVersion): Promise<ShotVersion>;
+  createNextShotVersion(version: Omit<InsertShotVersion, "version">): Promise<ShotVersion | undefined>;
   restoreShotVersion(shotId: string, versionId: string): Promise<Shot | undefined>;
 
+  getShotImageCandidates(shotId: string): Promise<ShotImageCandidate[]>;
+  getSceneShotImageCandidates(sceneId: string): Promise<ShotImageCandidate[]>;
+  getShotImageCandidate(id: string): Promise<ShotImageCandidate | undefined>;
+  createShotImageCandidate(candidate: InsertShotImageCandidate): Promise<ShotImageCandidate>;
+  deleteShotImageCandidate(id: string): Promise<void>;
+
   getScriptAnalysisGlobal(projectId: string): Promise<ScriptAnalysisGlobal | undefined>;
   createScriptAnalysisGlobal(analysis: InsertScriptAnalysisGlobal): Promise<ScriptAnalysisGlobal>;
   updateScriptAnalysisGlobal(id: string, analysis: Partial<InsertScriptAnalysisGlobal>): Promise<ScriptAnalysisGlobal | undefined>;
@@ -137,6 +209,38 @@ export interface IStorage {
   updateCharacterImageVariant(id: string, updates: Partial<InsertCharacterImageVariant>): Promise<CharacterImageVariant | undefined>;
   deleteCharacterImageVariantsByCharacter(characterId: string): Promise<void>;
   deleteCharacterImageVariantsByVersion(characterId: string, version: number): Promise<void>;
+
+  // Script breakdown
+  getBreakdownElements(projectId: string): Promise<BreakdownElement[]>;
+  getBreakdownElement(id: string): Promise<BreakdownElement | undefined>;
+  createBreakdownElement(element: InsertBreakdownElement): Promise<BreakdownElement>;
+  updateBreakdownElement(id: string, element: Partial<InsertBreakdownElement>): Promise<BreakdownElement | undefined>;
+  deleteBreakdownElement(id: string): Promise<void>;
+  getBreakdownTags(sceneId: string): Promise<BreakdownTag[]>;
+  getBreakdownTagsByElement(elementId: string): Promise<BreakdownTag[]>;
+  getBreakdownTagsByProject(projectId: string): Promise<BreakdownTag[]>;
+  getBreakdownTag(id: string): Promise<BreakdownTag | undefined>;
+  createBreakdownTag(tag: InsertBreakdownTag): Promise<BreakdownTag>;
+  updateBreakdownTag(id: string, tag: Partial<InsertBreakdownTag>): Promise<BreakdownTag | undefined>;
+  deleteBreakdownTag(id: string): Promise<void>;
+
+  // Stripboard schedule
+  getScheduleStrips(projectId: string): Promise<ScheduleStrip[]>;
+  getScheduleStrip(id: string): Promise<ScheduleStrip | undefined>;
+  createScheduleStrip(strip: InsertScheduleStrip): Promise<ScheduleStrip>;
+  createSceneStrips(projectId: string, sceneIds: string[], position: number): Promise<void>;
+  updateScheduleStrip(id: string, strip: Partial<InsertScheduleStrip>): Promise<ScheduleStrip | undefined>;
+  deleteScheduleStrip(id: string): Promise<void>;
+  reorderScheduleStrips(projectId: string, stripIds: string[]): Promise<void>;
+
+  // Day Out of Days
+  getDoodTravelDays(projectId: string): Promise<DoodTravelDay[]>;
+  createDoodTravelDay(travelDay: InsertDoodTravelDay): Promise<DoodTravelDay>;
+  deleteDoodTravelDay(id: string): Promise<void>;
+
+  // Asset store records; creating an existing asset returns the stored row
+  getAsset(id: string): Promise<Asset | undefined>;
+  createAsset(asset: InsertAsset): Promise<Asset>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -235,15 +339,41 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createScene(insertScene: InsertScene): Promise<Scene> {
-    const result = await db.insert(scenes).values(insertScene).returning();
+    const result = await db
+      .insert(scenes)
+      .values({
+        ...insertScene,
+        pageEighths: insertScene.pageEighths ?? scenePageEighths(insertScene),
+      })
+      .returning();
     return result[0];
   }
 
   async updateScene(id: string, updates: Partial<InsertScene>): Promise<Scene | undefined> {
+    const textChanged = SCENE_TEXT_FIELDS.some(field => updates[field] !== undefined);
+    if (touchesSceneText(updates)) {
+      const existing = await this.getScene(id);
+      if (existing) {
+        updates = { ...updates, pageEighths: scenePageEighths({ ...existing, ...updates }) };
+      }
+    }
     const result = await db.update(scenes).set(updates).where(eq(scenes.id, id)).returning();
+    if (result[0] && textChanged) await reanchorSceneTags(this, result[0]);
     return result[0];
   }
 
+  async backfillPageEighths(): Promise<number> {
+    const pending = await db.select().from(scenes).where(isNull(scenes.pageEighths));
+    let updated = 0;
+    for (const scene of pending) {
+      const pageEighths = scenePageEighths(scene);
+      if (pageEighths === null) continue;
+      await db.update(scenes).set({ pageEighths }).where(eq(scenes.id, scene.id));
+      updated++;
+    }
+    return updated;
+  }
+
   async deleteScene(id: string): Promise<void> {
     await db.delete(scenes).where(eq(scenes.id, id));
   }
@@ -278,8 +408,10 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // A new frame replaces any legacy base64 one, so the asset migration cannot bring the old frame back
   async updateShot(id: string, updates: Partial<InsertShot>): Promise<Shot | undefined> {
-    const result = await db.update(shots).set(updates).where(eq(shots.id, id)).returning();
+    const set = updates.imageUrl !== undefined ? { ...updates, imageBase64: null } : updates;
+    const result = await db.update(shots).set(set).where(eq(shots.id, id)).returning();
     return result[0];
   }
 
@@ -403,6 +535,15 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(productionNotes.sceneId, sceneId), eq(productionNotes.isActive, true)));
   }
 
+  async getProductionNotesByProject(projectId: string): Promise<ProductionNotes[]> {
+    const rows = await db
+      .select({ notes: productionNotes })
+      .from(productionNotes)
+      .innerJoin(scenes, eq(productionNotes.sceneId, scenes.id))
+      .where(and(eq(scenes.projectId, projectId), eq(productionNotes.isActive, true)));
+    return rows.map(row => row.notes);
+  }
+
   async getProductionNote(id: string): Promise<ProductionNotes | undefined> {
     const result = await db.select().from(productionNotes).where(eq(productionNotes.id, id));
     return result[0];
@@ -433,11 +574,78 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(callSheets.createdAt));
   }
 
+  async getCallSheet(id: string): Promise<CallSheet | undefined> {
+    const result = await db.select().from(callSheets).where(eq(callSheets.id, id));
+    return result[0];
+  }
+
   async createCallSheet(insertCallSheet: InsertCallSheet): Promise<CallSheet> {
     const result = await db.insert(callSheets).values(insertCallSheet).returning();
     return result[0];
   }
 
+  async updateCallSheet(id: string, updates: Partial<InsertCallSheet>): Promise<CallSheet | undefined> {
+    const result = await db.update(callSheets).set(updates).where(eq(callSheets.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCallSheet(id: string): Promise<void> {
+    await db.delete(callSheets).where(eq(callSheets.id, id));
+  }
+
+  async getCallSheetVersions(callSheetId: string): Promise<CallSheetVersion[]> {
+    return db
+      .select()
+      .from(callSheetVersions)
+      .where(eq(callSheetVersions.callSheetId, callSheetId))
+      .orderBy(desc(callSheetVersions.revision));
+  }
+
+  async getCallSheetVersion(id: string): Promise<CallSheetVersion | undefined> {
+    const result = await db.select().from(callSheetVersions).where(eq(callSheetVersions.id, id));
+    return result[0];
+  }
+
+  async createCallSheetVersion(insertVersion: InsertCallSheetVersion): Promise<CallSheetVersion> {
+    const result = await db.insert(callSheetVersions).values(insertVersion).returning();
+    return result[0];
+  }
+
+  async getCallSheetScenes(projectId: string): Promise<CallSheetScene[]> {
+    return db
+      .select()
+      .from(callSheetScenes)
+      .where(eq(callSheetScenes.projectId, projectId))
+      .orderBy(asc(callSheetScenes.position));
+  }
+
+  async getCallSheetScene(id: string): Promise<CallSheetScene | undefined> {
+    const result = await db.select().from(callSheetScenes).where(eq(callSheetScenes.id, id));
+    return result[0];
+  }
+
+  // Replaces the scene list in order; scenes that stay keep their status
+  async setCallSheetScenes(callSheetId: string, projectId: string, sceneIds: string[]): Promise<CallSheetScene[]> {
+    return db.transaction(async (tx) => {
+      const existing = await tx.select().from(callSheetScenes).where(eq(callSheetScenes.callSheetId, callSheetId));
+      const statusBySceneId = new Map(existing.map(link => [link.sceneId, link.status]));
+      await tx.delete(callSheetScenes).where(eq(callSheetScenes.callSheetId, callSheetId));
+      if (sceneIds.length === 0) return [];
+      return tx.insert(callSheetScenes).values(sceneIds.map((sceneId, position) => ({
+        callSheetId,
+        sceneId,
+        projectId,
+        position,
+        status: statusBySceneId.get(sceneId) ?? "scheduled",
+      }))).onConflictDoNothing({ target: [callSheetScenes.callSheetId, callSheetScenes.sceneId] }).returning();
+    });
+  }
+
+  async updateCallSheetScene(id: string, updates: Partial<InsertCallSheetScene>): Promise<CallSheetScene | undefined> {
+    const result = await db.update(callSheetScenes).set(updates).where(eq(callSheetScenes.id, id)).returning();
+    return result[0];
+  }
+
   async getScriptVersions(scriptId: string): Promise<ScriptVersion[]> {
     return db
       .select()
@@ -473,6 +681,7 @@ export class DatabaseStorage implements IStorage {
       .set({
         content: version.content,
         version: currentVersion + 1,
+        elements: null,
       })
       .where(eq(scripts.id, scriptId))
       .returning();
@@ -492,6 +701,50 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Numbers the version after the highest one saved (or the shot's own number, if higher) and
+  // moves the shot to it. The shot row is locked so concurrent saves never share a number.
+  async createNextShotVersion(insertVersion: Omit<InsertShotVersion, "version">): Promise<ShotVersion | undefined> {
+    return db.transaction(async (tx) => {
+      const [shot] = await tx.select({ version: shots.version }).from(shots)
+        .where(eq(shots.id, insertVersion.shotId))
+        .for("update");
+      if (!shot) return undefined;
+      const [latest] = await tx.select({ version: sql<number | null>`max(${shotVersions.version})` }).from(shotVersions)
+        .where(eq(shotVersions.shotId, insertVersion.shotId));
+      const version = Math.max(shot.version, latest?.version ?? 0) + 1;
+      const values = { ...insertVersion, version } as typeof shotVersions.$inferInsert;
+      const result = await tx.insert(shotVersions).values(values).returning();
+      await tx.update(shots).set({ version }).where(eq(shots.id, insertVersion.shotId));
+      return result[0];
+    });
+  }
+
+  async getShotImageCandidates(shotId: string): Promise<ShotImageCandidate[]> {
+    return db.select().from(shotImageCandidates)
+      .where(eq(shotImageCandidates.shotId, shotId))
+      .orderBy(asc(shotImageCandidates.createdAt));
+  }
+
+  async getSceneShotImageCandidates(sceneId: string): Promise<ShotImageCandidate[]> {
+    return db.select().from(shotImageCandidates)
+      .where(eq(shotImageCandidates.sceneId, sceneId))
+      .orderBy(asc(shotImageCandidates.createdAt));
+  }
+
+  async getShotImageCandidate(id: string): Promise<ShotImageCandidate | undefined> {
+    const result = await db.select().from(shotImageCandidates).where(eq(shotImageCandidates.id, id));
+    return result[0];
+  }
+
+  async createShotImageCandidate(insertCandidate: InsertShotImageCandidate): Promise<ShotImageCandidate> {
+    const result = await db.insert(shotImageCandidates).values(insertCandidate).returning();
+    return result[0];
+  }
+
+  async deleteShotImageCandidate(id: string): Promise<void> {
+    await db.delete(shotImageCandidates).where(eq(shotImageCandidates.id, id));
+  }
+
   async restoreShotVersion(shotId: string, versionId: string): Promise<Shot | undefined> {
     const versionResult = await db.select().from(shotVersions).where(eq(shotVersions.id, versionId));
     const version = versionResult[0];
@@ -512,7 +765,6 @@ export class DatabaseStorage implements IStorage {
       atmosphere: shot.atmosphere,
       notes: shot.notes,
       imageUrl: shot.imageUrl,
-      imageBase64: shot.imageBase64,
       version: currentVersion,
       changeDescription: `恢复前自动保存 v${currentVersion}`,
     });
@@ -528,7 +780,7 @@ export class DatabaseStorage implements IStorage {
         atmosphere: version.atmosphere,
         notes: version.notes,
         imageUrl: version.imageUrl,
-        imageBase64: version.imageBase64,
+        imageBase64: null,
         version: currentVersion + 1,
       })
       .where(eq(shots.id, shotId))
@@ -666,6 +918,143 @@ export class DatabaseStorage implements IStorage {
       )
     );
   }
+
+  async getBreakdownElements(projectId: string): Promise<BreakdownElement[]> {
+    return db
+      .select()
+      .from(breakdownElements)
+      .where(eq(breakdownElements.projectId, projectId))
+      .orderBy(asc(breakdownElements.category), asc(breakdownElements.name));
+  }
+
+  async getBreakdownElement(id: string): Promise<BreakdownElement | undefined> {
+    const result = await db.select().from(breakdownElements).where(eq(breakdownElements.id, id));
+    return result[0];
+  }
+
+  async createBreakdownElement(insertElement: InsertBreakdownElement): Promise<BreakdownElement> {
+    const result = await db.insert(breakdownElements).values(insertElement).returning();
+    return result[0];
+  }
+
+  async updateBreakdownElement(id: string, updates: Partial<InsertBreakdownElement>): Promise<BreakdownElement | undefined> {
+    const result = await db.update(breakdownElements).set(updates).where(eq(breakdownElements.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteBreakdownElement(id: string): Promise<void> {
+    await db.delete(breakdownElements).where(eq(breakdownElements.id, id));
+  }
+
+  async getBreakdownTags(sceneId: string): Promise<BreakdownTag[]> {
+    return db
+      .select()
+      .from(breakdownTags)
+      .where(eq(breakdownTags.sceneId, sceneId))
+      .orderBy(asc(breakdownTags.startOffset), asc(breakdownTags.createdAt));
+  }
+
+  async getBreakdownTagsByElement(elementId: string): Promise<BreakdownTag[]> {
+    return db.select().from(breakdownTags).where(eq(breakdownTags.elementId, elementId));
+  }
+
+  async getBreakdownTagsByProject(projectId: string): Promise<BreakdownTag[]> {
+    const rows = await db
+      .select({ tag: breakdownTags })
+      .from(breakdownTags)
+      .innerJoin(scenes, eq(breakdownTags.sceneId, scenes.id))
+      .where(eq(scenes.projectId, projectId))
+      .orderBy(asc(breakdownTags.startOffset));
+    return rows.map(row => row.tag);
+  }
+
+  async getBreakdownTag(id: string): Promise<BreakdownTag | undefined> {
+    const result = await db.select().from(breakdownTags).where(eq(breakdownTags.id, id));
+    return result[0];
+  }
+
+  async createBreakdownTag(insertTag: InsertBreakdownTag): Promise<BreakdownTag> {
+    const result = await db.insert(breakdownTags).values(insertTag).returning();
+    return result[0];
+  }
+
+  async updateBreakdownTag(id: string, updates: Partial<InsertBreakdownTag>): Promise<BreakdownTag | undefined> {
+    const result = await db.update(breakdownTags).set(updates).where(eq(breakdownTags.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteBreakdownTag(id: string): Promise<void> {
+    await db.delete(breakdownTags).where(eq(breakdownTags.id, id));
+  }
+
+  async getScheduleStrips(projectId: string): Promise<ScheduleStrip[]> {
+    return db
+      .select()
+      .from(scheduleStrips)
+      .where(eq(scheduleStrips.projectId, projectId))
+      .orderBy(asc(scheduleStrips.position), asc(scheduleStrips.createdAt));
+  }
+
+  async getScheduleStrip(id: string): Promise<ScheduleStrip | undefined> {
+    const result = await db.select().from(scheduleStrips).where(eq(scheduleStrips.id, id));
+    return result[0];
+  }
+
+  async createScheduleStrip(insertStrip: InsertScheduleStrip): Promise<ScheduleStrip> {
+    const result = await db.insert(scheduleStrips).values(insertStrip).returning();
+    return result[0];
+  }
+
+  // Appends strips from the given position; scenes that already have one are skipped
+  async createSceneStrips(projectId: string, sceneIds: string[], position: number): Promise<void> {
+    if (sceneIds.length === 0) return;
+    await db
+      .insert(scheduleStrips)
+      .values(sceneIds.map((sceneId, i) => ({ projectId, kind: "scene" as const, sceneId, position: position + i })))
+      .onConflictDoNothing({ target: [scheduleStrips.projectId, scheduleStrips.sceneId] });
+  }
+
+  async updateScheduleStrip(id: string, updates: Partial<InsertScheduleStrip>): Promise<ScheduleStrip | undefined> {
+    const result = await db.update(scheduleStrips).set(updates).where(eq(scheduleStrips.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteScheduleStrip(id: string): Promise<void> {
+    await db.delete(scheduleStrips).where(eq(scheduleStrips.id, id));
+  }
+
+  async reorderScheduleStrips(projectId: string, stripIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < stripIds.length; i++) {
+        await tx.update(scheduleStrips)
+          .set({ position: i })
+          .where(and(eq(scheduleStrips.id, stripIds[i]), eq(scheduleStrips.projectId, projectId)));
+      }
+    });
+  }
+
+  async getDoodTravelDays(projectId: string): Promise<DoodTravelDay[]> {
+    return db.select().from(doodTravelDays).where(eq(doodTravelDays.projectId, projectId));
+  }
+
+  async createDoodTravelDay(insertTravelDay: InsertDoodTravelDay): Promise<DoodTravelDay> {
+    const result = await db.insert(doodTravelDays).values(insertTravelDay).returning();
+    return result[0];
+  }
+
+  async deleteDoodTravelDay(id: string): Promise<void> {
+    await db.delete(doodTravelDays).where(eq(doodTravelDays.id, id));
+  }
+
+  async getAsset(id: string): Promise<Asset | undefined> {
+    const result = await db.select().from(assets).where(eq(assets.id, id));
+    return result[0];
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const result = await db.insert(assets).values(insertAsset).onConflictDoNothing().returning();
+    return result[0] ?? (await this.getAsset(insertAsset.id))!;
+  }
 }
 
 export class MemStorage implements IStorage {
@@ -679,8 +1068,16 @@ export class MemStorage implements IStorage {
   private sceneAnalyses: Map<string, SceneAnalysis>;
   private productionNotes: Map<string, ProductionNotes>;
   private callSheets: Map<string, CallSheet>;
+  private callSheetVersions: Map<string, CallSheetVersion>;
+  private callSheetScenes: Map<string, CallSheetScene>;
   private scriptVersions: Map<string, ScriptVersion>;
   private shotVersions: Map<string, ShotVersion>;
+  private shotImageCandidates: Map<string, ShotImageCandidate>;
+  private breakdownElements: Map<string, BreakdownElement>;
+  private breakdownTags: Map<string, BreakdownTag>;
+  private scheduleStrips: Map<string, ScheduleStrip>;
+  private doodTravelDays: Map<string, DoodTravelDay>;
+  private assets: Map<string, Asset>;
 
   constructor() {
     this.users = new Map();
@@ -693,8 +1090,16 @@ export class MemStorage implements IStorage {
     this.sceneAnalyses = new Map();
     this.productionNotes = new Map();
     this.callSheets = new Map();
+    this.callSheetVersions = new Map();
+    this.callSheetScenes = new Map();
     this.scriptVersions = new Map();
     this.shotVersions = new Map();
+    this.shotImageCandidates = new Map();
+    this.breakdownElements = new Map();
+    this.breakdownTags = new Map();
+    this.scheduleStrips = new Map();
+    this.doodTravelDays = new Map();
+    this.assets = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -791,6 +1196,11 @@ export class MemStorage implements IStorage {
       version,
       isActive: insertScript.isActive ?? true,
       suggestions: insertScript.suggestions || null,
+      sourceFormat: insertScript.sourceFormat || null,
+      elements: insertScript.elements || null,
+      isLocked: insertScript.isLocked ?? false,
+      lockedAt: insertScript.lockedAt || null,
+      revisionColor: insertScript.revisionColor || null,
       createdAt: new Date(),
     };
     this.scripts.set(id, script);
@@ -823,11 +1233,13 @@ export class MemStorage implements IStorage {
       scriptId: insertScene.scriptId || null,
       location: insertScene.location || null,
       timeOfDay: insertScene.timeOfDay || null,
+      intExt: insertScene.intExt || null,
       description: insertScene.description || null,
       dialogue: insertScene.dialogue || null,
       action: insertScene.action || null,
       duration: insertScene.duration || null,
-      isInCallSheet: insertScene.isInCallSheet ?? false,
+      pageEighths: insertScene.pageEighths ?? scenePageEighths(insertScene),
+      isOmitted: insertScene.isOmitted ?? false,
       createdAt: new Date(),
     };
     this.scenes.set(id, scene);
@@ -838,7 +1250,25 @@ export class MemStorage implements IStorage {
     const scene = this.scenes.get(id);
     if (!scene) return undefined;
     const updated: Scene = { ...scene, ...updates };
+    if (touchesSceneText(updates)) {
+      updated.pageEighths = scenePageEighths(updated);
+    }
     this.scenes.set(id, updated);
+    if (SCENE_TEXT_FIELDS.some(field => updates[field] !== undefined)) {
+      await reanchorSceneTags(this, updated);
+    }
+    return updated;
+  }
+
+  async backfillPageEighths(): Promise<number> {
+    let updated = 0;
+    this.scenes.forEach((scene) => {
+      if (scene.pageEighths !== null) return;
+      const pageEighths = scenePageEighths(scene);
+      if (pageEighths === null) return;
+      scene.pageEighths = pageEighths;
+      updated++;
+    });
     return updated;
   }
 
@@ -847,6 +1277,9 @@ export class MemStorage implements IStorage {
     for (const [shotId, shot] of this.shots) {
       if (shot.sceneId === id) this.shots.delete(shotId);
     }
+    Array.from(this.callSheetScenes.values())
+      .filter((link) => link.sceneId === id)
+      .forEach((link) => this.callSheetScenes.delete(link.id));
   }
 
   async getShots(sceneId: string, directorStyle?: string): Promise<Shot[]> {
@@ -889,7 +1322,7 @@ export class MemStorage implements IStorage {
   async updateShot(id: string, updates: Partial<InsertShot>): Promise<Shot | undefined> {
     const shot = this.shots.get(id);
     if (!shot) return undefined;
-    const updated: Shot = { ...shot, ...updates };
+    const updated: Shot = { ...shot, ...updates, ...(updates.imageUrl !== undefined ? { imageBase64: null } : {}) };
     this.shots.set(id, updated);
     return updated;
   }
@@ -1021,6 +1454,11 @@ export class MemStorage implements IStorage {
       .filter((n) => n.sceneId === sceneId && n.isActive);
   }
 
+  async getProductionNotesByProject(projectId: string): Promise<ProductionNotes[]> {
+    return Array.from(this.productionNotes.values())
+      .filter((n) => n.isActive && this.scenes.get(n.sceneId)?.projectId === projectId);
+  }
+
   async getProductionNote(id: string): Promise<ProductionNotes | undefined> {
     return this.productionNotes.get(id);
   }
@@ -1057,6 +1495,10 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
+  async getCallSheet(id: string): Promise<CallSheet | undefined> {
+    return this.callSheets.get(id);
+  }
+
   async createCallSheet(insertCallSheet: InsertCallSheet): Promise<CallSheet> {
     const id = randomUUID();
     const callSheet: CallSheet = {
@@ -1065,12 +1507,99 @@ export class MemStorage implements IStorage {
       rawText: insertCallSheet.rawText || null,
       sceneNumbers: insertCallSheet.sceneNumbers || null,
       fileMetadata: insertCallSheet.fileMetadata || null,
+      generalCall: insertCallSheet.generalCall ?? null,
+      shootingCall: insertCallSheet.shootingCall ?? null,
+      details: insertCallSheet.details ?? null,
+      revision: insertCallSheet.revision ?? 0,
       createdAt: new Date(),
     };
     this.callSheets.set(id, callSheet);
     return callSheet;
   }
 
+  async updateCallSheet(id: string, updates: Partial<InsertCallSheet>): Promise<CallSheet | undefined> {
+    const callSheet = this.callSheets.get(id);
+    if (!callSheet) return undefined;
+    const updated = { ...callSheet, ...updates };
+    this.callSheets.set(id, updated);
+    return updated;
+  }
+
+  async deleteCallSheet(id: string): Promise<void> {
+    this.callSheets.delete(id);
+    Array.from(this.callSheetVersions.entries())
+      .filter(([, version]) => version.callSheetId === id)
+      .forEach(([versionId]) => this.callSheetVersions.delete(versionId));
+    Array.from(this.callSheetScenes.entries())
+      .filter(([, link]) => link.callSheetId === id)
+      .forEach(([linkId]) => this.callSheetScenes.delete(linkId));
+  }
+
+  async getCallSheetVersions(callSheetId: string): Promise<CallSheetVersion[]> {
+    return Array.from(this.callSheetVersions.values())
+      .filter((v) => v.callSheetId === callSheetId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  async getCallSheetVersion(id: string): Promise<CallSheetVersion | undefined> {
+    return this.callSheetVersions.get(id);
+  }
+
+  async createCallSheetVersion(insertVersion: InsertCallSheetVersion): Promise<CallSheetVersion> {
+    const id = randomUUID();
+    const version: CallSheetVersion = {
+      ...insertVersion,
+      id,
+      rawText: insertVersion.rawText ?? null,
+      sceneNumbers: insertVersion.sceneNumbers ?? null,
+      sceneIdentifiers: insertVersion.sceneIdentifiers ?? null,
+      shootDate: insertVersion.shootDate ?? null,
+      generalCall: insertVersion.generalCall ?? null,
+      shootingCall: insertVersion.shootingCall ?? null,
+      details: insertVersion.details ?? null,
+      changeDescription: insertVersion.changeDescription ?? null,
+      createdAt: new Date(),
+    };
+    this.callSheetVersions.set(id, version);
+    return version;
+  }
+
+  async getCallSheetScenes(projectId: string): Promise<CallSheetScene[]> {
+    return Array.from(this.callSheetScenes.values())
+      .filter((link) => link.projectId === projectId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getCallSheetScene(id: string): Promise<CallSheetScene | undefined> {
+    return this.callSheetScenes.get(id);
+  }
+
+  async setCallSheetScenes(callSheetId: string, projectId: string, sceneIds: string[]): Promise<CallSheetScene[]> {
+    const existing = Array.from(this.callSheetScenes.values()).filter((link) => link.callSheetId === callSheetId);
+    const statusBySceneId = new Map(existing.map(link => [link.sceneId, link.status]));
+    existing.forEach(link => this.callSheetScenes.delete(link.id));
+    return sceneIds.filter((sceneId, i) => sceneIds.indexOf(sceneId) === i).map((sceneId, position) => {
+      const link: CallSheetScene = {
+        id: randomUUID(),
+        callSheetId,
+        sceneId,
+        projectId,
+        position,
+        status: statusBySceneId.get(sceneId) ?? "scheduled",
+      };
+      this.callSheetScenes.set(link.id, link);
+      return link;
+    });
+  }
+
+  async updateCallSheetScene(id: string, updates: Partial<InsertCallSheetScene>): Promise<CallSheetScene | undefined> {
+    const link = this.callSheetScenes.get(id);
+    if (!link) return undefined;
+    const updated = { ...link, ...updates };
+    this.callSheetScenes.set(id, updated);
+    return updated;
+  }
+
   async getScriptVersions(scriptId: string): Promise<ScriptVersion[]> {
     return Array.from(this.scriptVersions.values())
       .filter((v) => v.scriptId === scriptId)
@@ -1084,6 +1613,8 @@ export class MemStorage implements IStorage {
       id,
       changeDescription: insertVersion.changeDescription || null,
       changedBy: insertVersion.changedBy || null,
+      revisionColor: insertVersion.revisionColor || null,
+      changedScenes: insertVersion.changedScenes || null,
       createdAt: new Date(),
     };
     this.scriptVersions.set(id, version);
@@ -1110,6 +1641,7 @@ export class MemStorage implements IStorage {
       ...script,
       content: version.content,
       version: currentVersion + 1,
+      elements: null,
     };
     this.scripts.set(scriptId, updated);
     return updated;
@@ -1142,6 +1674,49 @@ export class MemStorage implements IStorage {
     return version;
   }
 
+  async createNextShotVersion(insertVersion: Omit<InsertShotVersion, "version">): Promise<ShotVersion | undefined> {
+    const shot = this.shots.get(insertVersion.shotId);
+    if (!shot) return undefined;
+    const latest = Math.max(0, ...(await this.getShotVersions(shot.id)).map((v) => v.version));
+    const version = await this.createShotVersion({ ...insertVersion, version: Math.max(shot.version, latest) + 1 });
+    this.shots.set(shot.id, { ...shot, version: version.version });
+    return version;
+  }
+
+  async getShotImageCandidates(shotId: string): Promise<ShotImageCandidate[]> {
+    return Array.from(this.shotImageCandidates.values())
+      .filter((c) => c.shotId === shotId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSceneShotImageCandidates(sceneId: string): Promise<ShotImageCandidate[]> {
+    return Array.from(this.shotImageCandidates.values())
+      .filter((c) => c.sceneId === sceneId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getShotImageCandidate(id: string): Promise<ShotImageCandidate | undefined> {
+    return this.shotImageCandidates.get(id);
+  }
+
+  async createShotImageCandidate(insertCandidate: InsertShotImageCandidate): Promise<ShotImageCandidate> {
+    const id = randomUUID();
+    const candidate: ShotImageCandidate = {
+      ...insertCandidate,
+      id,
+      provider: insertCandidate.provider || null,
+      prompt: insertCandidate.prompt || null,
+      seed: insertCandidate.seed ?? null,
+      createdAt: new Date(),
+    };
+    this.shotImageCandidates.set(id, candidate);
+    return candidate;
+  }
+
+  async deleteShotImageCandidate(id: string): Promise<void> {
+    this.shotImageCandidates.delete(id);
+  }
+
   async restoreShotVersion(shotId: string, versionId: string): Promise<Shot | undefined> {
     const version = this.shotVersions.get(versionId);
     if (!version || version.shotId !== shotId) return undefined;
@@ -1161,7 +1736,6 @@ export class MemStorage implements IStorage {
       atmosphere: shot.atmosphere,
       notes: shot.notes,
       imageUrl: shot.imageUrl,
-      imageBase64: shot.imageBase64,
       version: currentVersion,
       changeDescription: `恢复前自动保存 v${currentVersion}`,
     });
@@ -1176,7 +1750,7 @@ export class MemStorage implements IStorage {
       atmosphere: version.atmosphere,
       notes: version.notes,
       imageUrl: version.imageUrl,
-      imageBase64: version.imageBase64,
+      imageBase64: null,
       version: currentVersion + 1,
     };
     this.shots.set(shotId, updated);
@@ -1258,6 +1832,183 @@ export class MemStorage implements IStorage {
   async deleteCharacterImageVariantsByVersion(_characterId: string, _version: number): Promise<void> {
     // No-op for MemStorage
   }
+
+  async getBreakdownElements(projectId: string): Promise<BreakdownElement[]> {
+    return Array.from(this.breakdownElements.values())
+      .filter((e) => e.projectId === projectId)
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  }
+
+  async getBreakdownElement(id: string): Promise<BreakdownElement | undefined> {
+    return this.breakdownElements.get(id);
+  }
+
+  async createBreakdownElement(insertElement: InsertBreakdownElement): Promise<BreakdownElement> {
+    const id = randomUUID();
+    const element: BreakdownElement = {
+      ...insertElement,
+      id,
+      description: insertElement.description || null,
+      characterId: insertElement.characterId || null,
+      createdAt: new Date(),
+    };
+    this.breakdownElements.set(id, element);
+    return element;
+  }
+
+  async updateBreakdownElement(id: string, updates: Partial<InsertBreakdownElement>): Promise<BreakdownElement | undefined> {
+    const element = this.breakdownElements.get(id);
+    if (!element) return undefined;
+    const updated: BreakdownElement = { ...element, ...updates };
+    this.breakdownElements.set(id, updated);
+    return updated;
+  }
+
+  async deleteBreakdownElement(id: string): Promise<void> {
+    this.breakdownElements.delete(id);
+    Array.from(this.breakdownTags.values())
+      .filter((t) => t.elementId === id)
+      .forEach((t) => this.breakdownTags.delete(t.id));
+  }
+
+  async getBreakdownTags(sceneId: string): Promise<BreakdownTag[]> {
+    return Array.from(this.breakdownTags.values())
+      .filter((t) => t.sceneId === sceneId)
+      .sort((a, b) => (a.startOffset ?? Infinity) - (b.startOffset ?? Infinity));
+  }
+
+  async getBreakdownTagsByElement(elementId: string): Promise<BreakdownTag[]> {
+    return Array.from(this.breakdownTags.values()).filter((t) => t.elementId === elementId);
+  }
+
+  async getBreakdownTagsByProject(projectId: string): Promise<BreakdownTag[]> {
+    return Array.from(this.breakdownTags.values())
+      .filter((t) => this.scenes.get(t.sceneId)?.projectId === projectId)
+      .sort((a, b) => (a.startOffset ?? Infinity) - (b.startOffset ?? Infinity));
+  }
+
+  async getBreakdownTag(id: string): Promise<BreakdownTag | undefined> {
+    return this.breakdownTags.get(id);
+  }
+
+  async createBreakdownTag(insertTag: InsertBreakdownTag): Promise<BreakdownTag> {
+    const id = randomUUID();
+    const tag: BreakdownTag = {
+      ...insertTag,
+      id,
+      startOffset: insertTag.startOffset ?? null,
+      endOffset: insertTag.endOffset ?? null,
+      excerpt: insertTag.excerpt || null,
+      quantity: insertTag.quantity ?? null,
+      notes: insertTag.notes || null,
+      source: insertTag.source ?? "manual",
+      status: insertTag.status ?? "confirmed",
+      createdAt: new Date(),
+    };
+    this.breakdownTags.set(id, tag);
+    return tag;
+  }
+
+  async updateBreakdownTag(id: string, updates: Partial<InsertBreakdownTag>): Promise<BreakdownTag | undefined> {
+    const tag = this.breakdownTags.get(id);
+    if (!tag) return undefined;
+    const updated: BreakdownTag = { ...tag, ...updates };
+    this.breakdownTags.set(id, updated);
+    return updated;
+  }
+
+  async deleteBreakdownTag(id: string): Promise<void> {
+    this.breakdownTags.delete(id);
+  }
+
+  async getScheduleStrips(projectId: string): Promise<ScheduleStrip[]> {
+    return Array.from(this.scheduleStrips.values())
+      .filter((s) => s.projectId === projectId && (!s.sceneId || this.scenes.has(s.sceneId)))
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getScheduleStrip(id: string): Promise<ScheduleStrip | undefined> {
+    return this.scheduleStrips.get(id);
+  }
+
+  async createScheduleStrip(insertStrip: InsertScheduleStrip): Promise<ScheduleStrip> {
+    const id = randomUUID();
+    const strip: ScheduleStrip = {
+      ...insertStrip,
+      id,
+      position: insertStrip.position ?? 0,
+      sceneId: insertStrip.sceneId || null,
+      label: insertStrip.label || null,
+      color: insertStrip.color || null,
+      shootDate: insertStrip.shootDate ?? null,
+      estimatedMinutes: insertStrip.estimatedMinutes ?? null,
+      createdAt: new Date(),
+    };
+    this.scheduleStrips.set(id, strip);
+    return strip;
+  }
+
+  async createSceneStrips(projectId: string, sceneIds: string[], position: number): Promise<void> {
+    const existing = new Set(Array.from(this.scheduleStrips.values())
+      .filter((s) => s.projectId === projectId)
+      .map((s) => s.sceneId));
+    for (let i = 0; i < sceneIds.length; i++) {
+      if (existing.has(sceneIds[i])) continue;
+      await this.createScheduleStrip({ projectId, kind: "scene", sceneId: sceneIds[i], position: position + i });
+    }
+  }
+
+  async updateScheduleStrip(id: string, updates: Partial<InsertScheduleStrip>): Promise<ScheduleStrip | undefined> {
+    const strip = this.scheduleStrips.get(id);
+    if (!strip) return undefined;
+    const updated: ScheduleStrip = { ...strip, ...updates };
+    this.scheduleStrips.set(id, updated);
+    return updated;
+  }
+
+  async deleteScheduleStrip(id: string): Promise<void> {
+    this.scheduleStrips.delete(id);
+  }
+
+  async reorderScheduleStrips(projectId: string, stripIds: string[]): Promise<void> {
+    stripIds.forEach((id, position) => {
+      const strip = this.scheduleStrips.get(id);
+      if (strip?.projectId === projectId) this.scheduleStrips.set(id, { ...strip, position });
+    });
+  }
+
+  async getDoodTravelDays(projectId: string): Promise<DoodTravelDay[]> {
+    return Array.from(this.doodTravelDays.values()).filter((t) => t.projectId === projectId);
+  }
+
+  async createDoodTravelDay(insertTravelDay: InsertDoodTravelDay): Promise<DoodTravelDay> {
+    const id = randomUUID();
+    const travelDay: DoodTravelDay = { ...insertTravelDay, id, createdAt: new Date() };
+    this.doodTravelDays.set(id, travelDay);
+    return travelDay;
+  }
+
+  async deleteDoodTravelDay(id: string): Promise<void> {
+    this.doodTravelDays.delete(id);
+  }
+
+  async getAsset(id: string): Promise<Asset | undefined> {
+    return this.assets.get(id);
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const existing = this.assets.get(insertAsset.id);
+    if (existing) return existing;
+    const asset: Asset = {
+      ...insertAsset,
+      width: insertAsset.width ?? null,
+      height: insertAsset.height ?? null,
+      thumbnailKey: insertAsset.thumbnailKey ?? null,
+      createdAt: new Date(),
+    };
+    this.assets.set(asset.id, asset);
+    return asset;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,26 +1,52 @@
 import type { VideoModel } from "@shared/schema";
+import { Buffer } from "node:buffer";
+import { closestAspectRatio, fitImageToFrame, framePrompt, parseAspectRatio, type OutputFrame } from "./output-frame";
 
 export interface VideoGenerationResult {
   success: boolean;
   videoUrl?: string;
+  downloadHeaders?: Record<string, string>; // needed to fetch videoUrl
   error?: string;
 }
 
+const VEO_ASPECT_RATIOS = ["16:9", "9:16"] as const;
+const KLING_ASPECT_RATIOS = ["16:9", "9:16", "1:1"] as const;
+const JIMENG_ASPECT_RATIOS = ["16:9", "9:16", "1:1", "4:3", "3:4", "21:9"] as const;
+
+const supportedAspectRatios: Record<VideoModel, readonly string[]> = {
+  veo: VEO_ASPECT_RATIOS,
+  kling: KLING_ASPECT_RATIOS,
+  jimeng: JIMENG_ASPECT_RATIOS,
+};
+
 export async function generateVideoFromImage(
   imageBase64: string,
   description: string,
   model: VideoModel,
+  frame: OutputFrame,
   duration: number = 5
 ): Promise<VideoGenerationResult> {
+  if (!supportedAspectRatios[model]) {
+    return { success: false, error: "Unknown video model" };
+  }
+
+  // Letterbox the frame into the closest ratio the model renders so nothing is cropped
+  const aspectRatio = closestAspectRatio(frame.ratio, supportedAspectRatios[model]);
+  const image = await fitImageToFrame(
+    Buffer.from(imageBase64.replace(/^data:image\/[a-z]+;base64,/, ""), "base64"),
+    parseAspectRatio(aspectRatio)!,
+    "letterbox"
+  );
+  const framedImage = image.toString("base64");
+  const prompt = `${description}\n${framePrompt(frame)}`;
+
   switch (model) {
     case "veo":
-      return generateWithVeo(imageBase64, description, duration);
+      return generateWithVeo(framedImage, prompt, aspectRatio, duration);
     case "kling":
-      return generateWithKling(imageBase64, description, duration);
+      return generateWithKling(framedImage, prompt, aspectRatio, duration);
     case "jimeng":
-      return generateWithJimeng(imageBase64, description, duration);
-    default:
-      return { success: false, error: "Unknown video model" };
+      return generateWithJimeng(framedImage, prompt, aspectRatio, duration);
   }
 }
 
@@ -51,6 +77,7 @@ function getGeminiApiConfig() {
 async function generateWithVeo(
   imageBase64: string,
   description: string,
+  aspectRatio: string,
   duration: number
 ): Promise<VideoGenerationResult> {
   const apiConfig = getGeminiApiConfig();
@@ -83,7 +110,7 @@ async function generateWithVeo(
           },
         }],
         parameters: {
-          aspectRatio: "16:9",
+          aspectRatio,
           durationSeconds: Math.min(duration, 8),
           sampleCount: 1,
           personGeneration: "allow_adult",
@@ -103,7 +130,7 @@ async function generateWithVeo(
     if (result.name) {
       const videoUrl = await pollForVeoResult(result.name, apiConfig);
       if (videoUrl) {
-        return { success: true, videoUrl };
+        return { success: true, videoUrl, downloadHeaders: { "x-goog-api-key": apiConfig.apiKey } };
       }
       return { success: false, error: "Video generation timed out" };
     }
@@ -152,6 +179,7 @@ async function pollForVeoResult(operationName: string, apiConfig: { apiKey: stri
 async function generateWithKling(
   imageBase64: string,
   description: string,
+  aspectRatio: string,
   duration: number
 ): Promise<VideoGenerationResult> {
   const accessKey = process.env.KLING_ACCESS_KEY;
@@ -173,6 +201,7 @@ async function generateWithKling(
         image: `data:image/png;base64,${imageBase64}`,
         prompt: description,
         duration: String(duration),
+        aspect_ratio: aspectRatio,
         mode: "std",
         cfg_scale: 0.5,
       }),
@@ -237,6 +266,7 @@ async function pollForKlingResult(taskId: string, accessKey: string): Promise<st
 async function generateWithJimeng(
   imageBase64: string,
   description: string,
+  aspectRatio: string,
   duration: number
 ): Promise<VideoGenerationResult> {
   const apiKey = process.env.JIMENG_API_KEY;
@@ -257,7 +287,7 @@ async function generateWithJimeng(
         image: imageBase64,
         prompt: description,
         duration: duration,
-        aspect_ratio: "16:9",
+        aspect_ratio: aspectRatio,
       }),
     });
 
@@ -1,12 +1,16 @@
 import type { VideoModel } from "@shared/schema";
 import { generateVideoFromImage } from "./video-generator";
+import type { OutputFrame } from "./output-frame";
+import { loadImageData, storeRemoteAsset } from "./asset-store";
+import { assetUrl } from "@shared/asset-url";
 
 interface VideoJob {
   id: string;
   shotId: string;
   model: VideoModel;
-  imageBase64: string;
+  imageUrl: string;
   description: string;
+  frame: OutputFrame;
   duration: number;
   status: "pending" | "processing" | "completed" | "failed";
   createdAt: Date;
@@ -28,8 +32,9 @@ export function initializeVideoJobQueue(updateShot: StorageUpdater) {
 export function enqueueVideoJob(
   shotId: string,
   model: VideoModel,
-  imageBase64: string,
+  imageUrl: string,
   description: string,
+  frame: OutputFrame,
   duration: number
 ): string {
   const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -38,8 +43,9 @@ export function enqueueVideoJob(
     id: jobId,
     shotId,
     model,
-    imageBase64,
+    imageUrl,
     description,
+    frame,
     duration,
     status: "pending",
     createdAt: new Date(),
@@ -94,17 +100,30 @@ async function processJob(job: VideoJob) {
   console.log(`[VideoJobQueue] Processing job ${job.id} for shot ${job.shotId}`);
   
   try {
+    const image = await loadImageData(job.imageUrl);
+    if (!image) {
+      throw new Error(`Shot image ${job.imageUrl} could not be loaded`);
+    }
+
     const result = await generateVideoFromImage(
-      job.imageBase64,
+      image.data.toString("base64"),
       job.description,
       job.model,
+      job.frame,
       job.duration
     );
     
     if (result.success && result.videoUrl) {
       console.log(`[VideoJobQueue] Job ${job.id} completed successfully`);
+      // Provider links expire; keep the provider link only if the copy fails
+      const videoUrl = await storeRemoteAsset(result.videoUrl, result.downloadHeaders)
+        .then(asset => assetUrl(asset.id))
+        .catch(error => {
+          console.error(`[VideoJobQueue] Could not store video of job ${job.id}:`, error);
+          return result.videoUrl!;
+        });
       const updated = await updateShotWithRetry(job.shotId, {
-        videoUrl: result.videoUrl,
+        videoUrl,
         videoStatus: "completed",
         videoError: null,
       });
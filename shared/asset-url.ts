@@ -0,0 +1,20 @@
+// Stored images and videos are referenced by their /api/assets URL; the same route
+// serves a small thumbnail for images under /thumbnail.
+
+const ASSET_URL = /^\/api\/assets\/([0-9a-f]{64})(?:\/thumbnail)?$/;
+
+export function assetUrl(id: string): string {
+  return `/api/assets/${id}`;
+}
+
+export function assetIdFromUrl(url: string | null | undefined): string | null {
+  return url?.match(ASSET_URL)?.[1] ?? null;
+}
+
+// Other URLs (remote links, data URLs) have no thumbnail and are returned unchanged
+export function assetThumbnailUrl(url: string): string;
+export function assetThumbnailUrl(url: string | null | undefined): string | null;
+export function assetThumbnailUrl(url: string | null | undefined): string | null {
+  const id = assetIdFromUrl(url);
+  return id ? `${assetUrl(id)}/thumbnail` : url ?? null;
+}
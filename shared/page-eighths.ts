@@ -0,0 +1,158 @@
+import { parseSceneHeading } from "./scene-heading";
+
+// ============================================
+// 页长（八分之一页）(Page Eighths)
+// 排期按标准剧本页的八分之一计算场次长度，如 "1 3/8" 页。
+// 场次文本按标准排版规则折行，再按每页行数折算。宽度以半角字符列计，
+// 中文等全角字符占两列。
+// ============================================
+
+export type ScriptLayoutConvention = "chinese" | "english";
+
+interface LayoutRules {
+  linesPerPage: number;
+  action: number;
+  heading: number;
+  character: number;
+  dialogue: number;
+  parenthetical: number;
+}
+
+// English: Courier 12pt on US Letter, 1.5" left / 1" right margins
+// Chinese: A4, 小四宋体, 35 full-width characters by 40 lines
+const layoutRules: Record<ScriptLayoutConvention, LayoutRules> = {
+  english: { linesPerPage: 55, action: 60, heading: 60, character: 38, dialogue: 35, parenthetical: 25 },
+  chinese: { linesPerPage: 40, action: 70, heading: 70, character: 70, dialogue: 70, parenthetical: 70 },
+};
+
+const FULL_WIDTH = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of Array.from(text)) width += FULL_WIDTH.test(char) ? 2 : 1;
+  return width;
+}
+
+export function detectLayoutConvention(text: string): ScriptLayoutConvention {
+  const fullWidth = (text.match(new RegExp(FULL_WIDTH.source, "g")) || []).length;
+  const latin = (text.match(/[A-Za-z]/g) || []).length;
+  return fullWidth * 2 >= latin ? "chinese" : "english";
+}
+
+// Greedy wrap: Latin words stay whole, full-width characters break anywhere
+export function wrappedLineCount(line: string, columns: number, indent = 0): number {
+  const tokens = line.trim().match(/[A-Za-z0-9'’\-.,!?;:"“”]+|\s+|./g) || [];
+  let lines = 1;
+  let used = 0;
+  const limit = () => (lines === 1 ? columns : Math.max(1, columns - indent));
+
+  for (const token of tokens) {
+    const width = textWidth(token);
+    if (/^\s+$/.test(token)) {
+      if (used > 0) used += width;
+      continue;
+    }
+    if (used > 0 && used + width > limit()) {
+      lines++;
+      used = 0;
+    }
+    // A single word wider than the line (URLs, long Latin runs) hard-wraps
+    if (used === 0 && width > limit()) {
+      const extra = Math.ceil(width / limit()) - 1;
+      used = width - extra * limit();
+      lines += extra;
+      continue;
+    }
+    used += width;
+  }
+  return lines;
+}
+
+type LayoutElement = "heading" | "action" | "character" | "parenthetical" | "dialogue" | "transition";
+
+function isCharacterCue(line: string, next: string | undefined): boolean {
+  if (!next?.trim()) return false;
+  const name = line.replace(/\s*\((V\.O\.|O\.S\.|O\.C\.|CONT'D|CONT’D)\)\s*$/i, "").trim();
+  return name.length > 0 && name.length <= 38 && /[A-Z]/.test(name) && name === name.toUpperCase() && !/[.!?:]$/.test(name);
+}
+
+// Lines the text occupies once laid out; blank spacing between elements included
+export function layoutLineCount(text: string, convention: ScriptLayoutConvention = detectLayoutConvention(text)): number {
+  const rules = layoutRules[convention];
+  const source = text.replace(/\r\n?/g, "\n").split("\n");
+  let total = 0;
+  let previous: LayoutElement | null = null;
+  let blankPending = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const line = source[i].trim();
+    if (!line) {
+      blankPending = previous !== null;
+      continue;
+    }
+
+    let element: LayoutElement;
+    let columns = rules.action;
+    let indent = 0;
+
+    if (parseSceneHeading(line)) {
+      element = "heading";
+      columns = rules.heading;
+    } else if (convention === "english") {
+      const inDialogue = !blankPending && (previous === "character" || previous === "parenthetical" || previous === "dialogue");
+      if (inDialogue && line.startsWith("(")) {
+        element = "parenthetical";
+        columns = rules.parenthetical;
+      } else if (inDialogue) {
+        element = "dialogue";
+        columns = rules.dialogue;
+      } else if (/^[A-Z\s]+TO:$/.test(line) || /^(FADE (IN|OUT)|CUT TO BLACK)[.:]?$/.test(line)) {
+        element = "transition";
+      } else if (isCharacterCue(line, source[i + 1])) {
+        element = "character";
+        columns = rules.character;
+      } else {
+        element = "action";
+      }
+    } else {
+      // "秦天：台词" wraps under the dialogue, not under the name
+      const speaker = line.match(/^([^：:\s]{1,10}(?:[（(][^）)]*[）)])?)[：:]/);
+      element = speaker ? "dialogue" : "action";
+      if (speaker) {
+        indent = textWidth(speaker[0]);
+      }
+    }
+
+    // English scripts separate elements with a blank line; dialogue hangs off its cue.
+    // Chinese scripts keep the writer's own paragraph spacing.
+    const continuesDialogue = element === "dialogue" || element === "parenthetical";
+    if (previous !== null) {
+      if (convention === "english" ? !continuesDialogue || blankPending : blankPending) total++;
+      if (element === "heading" && convention === "english") total++;
+    }
+
+    total += wrappedLineCount(line, columns, indent);
+    if (element === "heading" && convention === "chinese") total++;
+    previous = element;
+    blankPending = false;
+  }
+
+  return total;
+}
+
+export function calculatePageEighths(text: string | null | undefined): number | null {
+  if (!text?.trim()) return null;
+  const convention = detectLayoutConvention(text);
+  const lines = layoutLineCount(text, convention);
+  // Nothing on a schedule is shorter than 1/8 page
+  return Math.max(1, Math.round((lines / layoutRules[convention].linesPerPage) * 8));
+}
+
+// 11 -> "1 3/8", 8 -> "1", 3 -> "3/8"
+export function formatPageEighths(eighths: number | null | undefined): string {
+  if (!eighths) return "";
+  const pages = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (rest === 0) return String(pages);
+  return pages > 0 ? `${pages} ${rest}/8` : `${rest}/8`;
+}
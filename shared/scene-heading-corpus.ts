@@ -0,0 +1,73 @@
+import type { ParsedSceneHeading } from "./scene-heading";
+
+// ============================================
+// 场次标题样例库 (Scene Heading Corpus)
+// 从实际上传的剧本和通告单中整理的标题写法及其期望解析结果。
+// 修改 ./scene-heading.ts 的规则后运行 npm run check:scene-headings 核对。
+// ============================================
+
+export type SceneHeadingExpectation = Pick<
+  ParsedSceneHeading,
+  "identifier" | "intExt" | "location" | "timeOfDay"
+>;
+
+export interface SceneHeadingSample {
+  input: string;
+  expected: SceneHeadingExpectation | null; // null: the line must NOT be treated as a heading
+}
+
+export const sceneHeadingCorpus: SceneHeadingSample[] = [
+  // 第X场
+  { input: "第1场 医院走廊 日 内", expected: { identifier: "1", intExt: "INT", location: "医院走廊", timeOfDay: "日" } },
+  { input: "第十二场 秦天家客厅 夜 内", expected: { identifier: "12", intExt: "INT", location: "秦天家客厅", timeOfDay: "夜" } },
+  { input: "第一百零五场 河边 黄昏 外", expected: { identifier: "105", intExt: "EXT", location: "河边", timeOfDay: "黄昏" } },
+  { input: "第壹拾叁场 别墅花园 清晨 外景", expected: { identifier: "13", intExt: "EXT", location: "别墅花园", timeOfDay: "清晨" } },
+  { input: "第 3 场：办公室（日/内）", expected: { identifier: "3", intExt: "INT", location: "办公室", timeOfDay: "日" } },
+  { input: "第3集", expected: { identifier: "3", intExt: null, location: null, timeOfDay: null } },
+
+  // X-Y / X.Y
+  { input: "1-1 医院走廊 日 内", expected: { identifier: "1-1", intExt: "INT", location: "医院走廊", timeOfDay: "日" } },
+  { input: "4-8 书房 夜 内/外", expected: { identifier: "4-8", intExt: "INT/EXT", location: "书房", timeOfDay: "夜" } },
+  { input: "4.1：街道 白天 外", expected: { identifier: "4-1", intExt: "EXT", location: "街道", timeOfDay: "白天" } },
+  { input: "12-3A 天台 深夜 外", expected: { identifier: "12-3A", intExt: "EXT", location: "天台", timeOfDay: "深夜" } },
+  { input: "1-1 INT. KITCHEN - NIGHT", expected: { identifier: "1-1", intExt: "INT", location: "KITCHEN", timeOfDay: "NIGHT" } },
+
+  // 场次X
+  { input: "场次1 咖啡馆 日 内", expected: { identifier: "1", intExt: "INT", location: "咖啡馆", timeOfDay: "日" } },
+  { input: "场次：7 地下车库 夜 内", expected: { identifier: "7", intExt: "INT", location: "地下车库", timeOfDay: "夜" } },
+
+  // English sluglines
+  { input: "INT. KITCHEN - NIGHT", expected: { identifier: null, intExt: "INT", location: "KITCHEN", timeOfDay: "NIGHT" } },
+  { input: "12A EXT. ROOFTOP - DAY 12A", expected: { identifier: "12A", intExt: "EXT", location: "ROOFTOP", timeOfDay: "DAY" } },
+  { input: "A1 INT. FARMHOUSE - DAWN A1", expected: { identifier: "A1", intExt: "INT", location: "FARMHOUSE", timeOfDay: "DAWN" } },
+  { input: "INT./EXT. CAR (MOVING) - CONTINUOUS", expected: { identifier: null, intExt: "INT/EXT", location: "CAR (MOVING)", timeOfDay: "CONTINUOUS" } },
+  { input: "I/E POLICE STATION - DAWN", expected: { identifier: null, intExt: "INT/EXT", location: "POLICE STATION", timeOfDay: "DAWN" } },
+  { input: "Int. Hospital corridor - Day", expected: { identifier: null, intExt: "INT", location: "Hospital corridor", timeOfDay: "Day" } },
+
+  // Not headings
+  { input: "int the end he leaves.", expected: null },
+  { input: "△秦天走进第1场戏的布景", expected: null },
+  { input: "2024-05-01 拍摄", expected: null },
+  { input: "07-30 集合", expected: null },
+  { input: "秦天：第一场我们就输了。", expected: null },
+];
+
+// Call-sheet text and the scene identifiers extractSceneReferences must find, in sort order
+export const sceneReferenceCorpus: { input: string; expected: string[] }[] = [
+  { input: "拍摄日期：2024-05-01\n场次：1-1、1-2、3-5", expected: ["1-1", "1-2", "3-5"] },
+  { input: "今日拍摄 第十二场、第3场", expected: ["3", "12"] },
+  { input: "场次：壹、贰、12A", expected: ["1", "2", "12A"] },
+  { input: "Scenes: 4, 5A, 6\nSc. 12", expected: ["4", "5A", "6", "12"] },
+  { input: "Sc. 1, A1, 2", expected: ["A1", "1", "2"] },
+  { input: "12A EXT. ROOFTOP - DAY\n4.1 街道 日 外", expected: ["4-1", "12A"] },
+  // Phone numbers and call times are not scenes
+  { input: "制片 138-0013-8000 集合时间 6:30", expected: [] },
+  { input: "07-30 集合", expected: [] },
+  { input: "07:30 集合，08:00 开机\n第5场 客厅 日 内", expected: ["5"] },
+  { input: "联系电话：010-6543-2100\n今日拍摄 3场、第4场", expected: ["3", "4"] },
+  // Counts of scenes, episodes and takes are not scene numbers
+  { input: "今日共5场戏，第12场 日 内 客厅\n演员需试妆2次", expected: ["12"] },
+  { input: "拍3场，需补拍2场，共八场", expected: [] },
+  { input: "本周拍摄第3集，每条保3次", expected: [] },
+  { input: "场次：3、5（共2场）", expected: ["3", "5"] },
+];
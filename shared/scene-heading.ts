@@ -0,0 +1,345 @@
+import type { SceneIntExt } from "./schema";
+
+// ============================================
+// 场次标题解析 (Scene Heading Parsing)
+// 剧本上传、场次预览与通告单解析共用的唯一实现，
+// 保证同一个场次在剧本和通告单里得到相同的标识符。
+// 已覆盖的真实标题格式见 ./scene-heading-corpus.ts
+// ============================================
+
+export type SceneHeadingFormat = "chinese_ordinal" | "dashed" | "changci" | "slugline";
+
+export interface ParsedSceneHeading {
+  raw: string;
+  format: SceneHeadingFormat;
+  identifier: string | null; // normalized: "12", "1-1", "12A", "4-8B", "A1"; null for unnumbered sluglines
+  prefix: string | null; // "A" in "A1": a scene inserted before scene 1 after the script was locked
+  mainNumber: number | null;
+  subNumber: number | null;
+  suffix: string | null;
+  sortKey: number | null;
+  intExt: SceneIntExt | null;
+  location: string | null;
+  timeOfDay: string | null;
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  "零": 0, "〇": 0,
+  "一": 1, "壹": 1, "二": 2, "贰": 2, "两": 2, "三": 3, "叁": 3, "四": 4, "肆": 4,
+  "五": 5, "伍": 5, "六": 6, "陆": 6, "七": 7, "柒": 7, "八": 8, "捌": 8, "九": 9, "玖": 9,
+};
+const CHINESE_UNITS: Record<string, number> = {
+  "十": 10, "拾": 10, "百": 100, "佰": 100, "千": 1000, "仟": 1000,
+};
+const CHINESE_NUMERAL_CLASS = "零〇一壹二贰两三叁四肆五伍六陆七柒八捌九玖十拾百佰千仟";
+
+// "十二" -> 12, "一百零五" -> 105, "壹拾叁" -> 13, "二〇" -> 20, "12" -> 12
+export function chineseToNumber(str: string): number {
+  const text = str.trim();
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+
+  const chars = Array.from(text);
+  if (chars.length > 1 && chars.every(c => c in CHINESE_DIGITS)) {
+    // Digit-by-digit form such as "二〇"
+    return parseInt(chars.map(c => CHINESE_DIGITS[c]).join(""), 10);
+  }
+
+  let result = 0;
+  let digit = 0;
+  for (const char of chars) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char];
+    } else if (char in CHINESE_UNITS) {
+      result += (digit === 0 ? 1 : digit) * CHINESE_UNITS[char];
+      digit = 0;
+    } else {
+      return NaN;
+    }
+  }
+  return result + digit;
+}
+
+const SUFFIX_PATTERN = "[A-Za-z]{0,2}";
+// Call sheets write times as "07-30 集合", which would otherwise read as scene 7-30
+const CALL_TIME_LOOKAHEAD = "(?!\\s*(?:集合|出发|到场|开机|收工))";
+const NUMBER_TOKEN = `([A-Za-z](?=\\d))?(\\d+)(?:[-.](\\d+))?(${SUFFIX_PATTERN})`;
+const IDENTIFIER_PATTERN = /^([A-Z])?(\d+)(?:-(\d+))?([A-Z]*)$/;
+
+function suffixOrder(suffix: string): number {
+  let order = 0;
+  for (const char of suffix.toUpperCase()) {
+    order = order * 27 + (char.charCodeAt(0) - 64);
+  }
+  return order;
+}
+
+function buildIdentifier(main: number, sub: number | null, suffix: string | null, prefix: string | null = null): string {
+  return `${prefix || ""}${main}${sub !== null ? `-${sub}` : ""}${suffix || ""}`;
+}
+
+// A1 < B1 < 1 < 12 < 12A < 12B < 12-1 ... ordering keeps inserted scenes right after their base scene
+function computeSortKey(main: number, sub: number | null, suffix: string | null, prefix: string | null = null): number {
+  if (prefix) return main * 1_000_000 - 1000 + suffixOrder(prefix);
+  return main * 1_000_000 + (sub ?? 0) * 1000 + (suffix ? suffixOrder(suffix) : 0);
+}
+
+function identifierParts(identifier: string | null | undefined) {
+  const match = identifier?.match(IDENTIFIER_PATTERN);
+  if (!match) return null;
+  return {
+    prefix: match[1] || null,
+    main: parseInt(match[2], 10),
+    sub: match[3] ? parseInt(match[3], 10) : null,
+    suffix: match[4] || null,
+  };
+}
+
+// "4.1" -> "4-1", "12a" -> "12A", "第十二场" -> "12", "Sc. 5" -> "5"
+export function normalizeSceneIdentifier(token: string): string | null {
+  const text = token.trim()
+    .replace(/^(?:第|场次|scenes?|sc)\s*[.:：#]?\s*/i, "")
+    .replace(/\s*[场集次]$/, "");
+
+  const numeric = text.match(new RegExp(`^${NUMBER_TOKEN}$`));
+  if (numeric) {
+    return buildIdentifier(
+      parseInt(numeric[2], 10),
+      numeric[3] !== undefined ? parseInt(numeric[3], 10) : null,
+      numeric[4] ? numeric[4].toUpperCase() : null,
+      numeric[1] ? numeric[1].toUpperCase() : null,
+    );
+  }
+
+  if (new RegExp(`^[${CHINESE_NUMERAL_CLASS}]+$`).test(text)) {
+    const value = chineseToNumber(text);
+    return isNaN(value) || value <= 0 ? null : String(value);
+  }
+
+  return null;
+}
+
+export function sceneSortKey(identifier: string): number {
+  const parts = identifierParts(normalizeSceneIdentifier(identifier));
+  if (!parts) return Number.MAX_SAFE_INTEGER;
+  return computeSortKey(parts.main, parts.sub, parts.suffix, parts.prefix);
+}
+
+export function sceneMainNumber(identifier: string): number | null {
+  return identifierParts(normalizeSceneIdentifier(identifier))?.main ?? null;
+}
+
+// Chinese time-of-day words, longest first so "夜晚" wins over "夜"
+const CHINESE_TIMES = ["白天", "夜晚", "深夜", "黄昏", "清晨", "傍晚", "午后", "凌晨", "黎明", "早晨", "上午", "中午", "下午", "日", "夜", "晨", "晚"];
+const CHINESE_TIME_PATTERN = new RegExp(`(?:^|[\\s,，、/|（(])(${CHINESE_TIMES.join("|")})(?=$|[\\s,，、/|）)])`);
+const CHINESE_INT_EXT_PATTERN = /(?:^|[\s,，、/|（(])(内\s*[\/／]\s*外|外\s*[\/／]\s*内|内外|内景|外景|内|外)(?=$|[\s,，、/|）)])/;
+
+function parseChineseIntExt(token: string | undefined): SceneIntExt | null {
+  if (!token) return null;
+  if (/内.*外|外.*内/.test(token)) return "INT/EXT";
+  return token.startsWith("内") ? "INT" : "EXT";
+}
+
+function parseChineseDetails(rest: string): Pick<ParsedSceneHeading, "intExt" | "location" | "timeOfDay"> {
+  const timeMatch = rest.match(CHINESE_TIME_PATTERN);
+  const intExtMatch = rest.match(CHINESE_INT_EXT_PATTERN);
+
+  const location = rest
+    .replace(new RegExp(CHINESE_TIME_PATTERN.source, "g"), " ")
+    .replace(new RegExp(CHINESE_INT_EXT_PATTERN.source, "g"), " ")
+    .replace(/[（(]\s*[）)]/g, " ")
+    .split(/[\s,，、/|]+/)
+    .map(part => part.replace(/^[：:.\-—）)]+|[：:.\-—（(]+$/g, "").trim())
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    intExt: parseChineseIntExt(intExtMatch?.[1]),
+    location: location || null,
+    timeOfDay: timeMatch ? timeMatch[1] : null,
+  };
+}
+
+// English slugline: [12A] INT./EXT. LOCATION - TIME [12A]
+const SLUGLINE_PATTERN = new RegExp(
+  `^(?:([A-Za-z]?\\d+(?:[-.]\\d+)?${SUFFIX_PATTERN})[.)]?\\s+)?(INT\\.?\\s*\\/\\s*EXT|EXT\\.?\\s*\\/\\s*INT|I\\/E|INT|EXT|EST)(\\.|\\s)\\s*(.*)$`,
+  "i",
+);
+
+function parseSluglineDetails(prefix: string, rest: string, identifier: string | null) {
+  const upper = prefix.toUpperCase().replace(/[.\s]/g, "");
+  const intExt: SceneIntExt = upper === "INT" ? "INT" : upper === "EXT" || upper === "EST" ? "EXT" : "INT/EXT";
+
+  let text = rest.trim();
+  // Numbered scripts repeat the scene number at the right margin
+  const trailing = text.match(new RegExp(`\\s+([A-Za-z]?\\d+(?:[-.]\\d+)?${SUFFIX_PATTERN})$`));
+  if (trailing && identifier && normalizeSceneIdentifier(trailing[1]) === identifier) {
+    text = text.slice(0, trailing.index).trim();
+  }
+
+  const dash = text.match(/^(.*?)\s+[-–—]+\s+([^-–—]+)$/);
+  return {
+    intExt,
+    location: (dash ? dash[1] : text).trim() || null,
+    timeOfDay: dash ? dash[2].trim() || null : null,
+  };
+}
+
+function withIdentifier(
+  raw: string,
+  format: SceneHeadingFormat,
+  identifier: string | null,
+  details: Pick<ParsedSceneHeading, "intExt" | "location" | "timeOfDay">,
+): ParsedSceneHeading {
+  const parts = identifierParts(identifier);
+  return {
+    raw,
+    format,
+    identifier,
+    prefix: parts?.prefix ?? null,
+    mainNumber: parts?.main ?? null,
+    subNumber: parts?.sub ?? null,
+    suffix: parts?.suffix ?? null,
+    sortKey: parts ? computeSortKey(parts.main, parts.sub, parts.suffix, parts.prefix) : null,
+    ...details,
+  };
+}
+
+// Parses a single line. Returns null when the line is not a scene heading.
+export function parseSceneHeading(line: string): ParsedSceneHeading | null {
+  const raw = line.trim();
+  if (!raw) return null;
+
+  // 第X场 / 第十二场 / 第3集
+  const ordinal = raw.match(new RegExp(`^第\\s*([\\d${CHINESE_NUMERAL_CLASS}]+)\\s*[场集次](.*)$`));
+  if (ordinal) {
+    const identifier = normalizeSceneIdentifier(ordinal[1]);
+    if (identifier) {
+      return withIdentifier(raw, "chinese_ordinal", identifier, parseHeadingDetails(ordinal[2]));
+    }
+  }
+
+  // 场次X / 场次：X
+  const changci = raw.match(new RegExp(`^场次\\s*[:：]?\\s*(\\d+(?:[-.]\\d+)?${SUFFIX_PATTERN})(?![\\d])(.*)$`));
+  if (changci) {
+    return withIdentifier(raw, "changci", normalizeSceneIdentifier(changci[1]), parseHeadingDetails(changci[2]));
+  }
+
+  // Slugline, optionally numbered ("12A EXT. ROOFTOP - DAY", "1-1 INT. KITCHEN - NIGHT")
+  const slugline = raw.match(SLUGLINE_PATTERN);
+  if (slugline && (slugline[2] === slugline[2].toUpperCase() || slugline[3] === ".")) {
+    const identifier = slugline[1] ? normalizeSceneIdentifier(slugline[1]) : null;
+    return withIdentifier(raw, "slugline", identifier, parseSluglineDetails(slugline[2], slugline[4], identifier));
+  }
+
+  // X-Y / X.Y / X-YA at line start ("1-1 医院走廊 日 内", "4.8：书房")
+  const dashed = raw.match(new RegExp(`^(\\d+)[-.](\\d+)(${SUFFIX_PATTERN})(?=$|[\\s：:.、,，])${CALL_TIME_LOOKAHEAD}(.*)$`));
+  if (dashed) {
+    const identifier = buildIdentifier(
+      parseInt(dashed[1], 10),
+      parseInt(dashed[2], 10),
+      dashed[3] ? dashed[3].toUpperCase() : null,
+    );
+    return withIdentifier(raw, "dashed", identifier, parseHeadingDetails(dashed[4]));
+  }
+
+  return null;
+}
+
+// Location, time of day and INT/EXT from heading text without a scene number
+// ("医院走廊 日 内", "INT. KITCHEN - NIGHT"). The rest of a Chinese heading may
+// itself be an English slugline ("1-1 INT. KITCHEN - NIGHT").
+export function parseHeadingDetails(rest: string): Pick<ParsedSceneHeading, "intExt" | "location" | "timeOfDay"> {
+  const text = rest.replace(/^[\s：:.、,，]+/, "").trim();
+  const slugline = text.match(SLUGLINE_PATTERN);
+  if (slugline && !slugline[1]) {
+    return parseSluglineDetails(slugline[2], slugline[4], null);
+  }
+  return parseChineseDetails(text);
+}
+
+export interface ScriptSceneBlock {
+  heading: ParsedSceneHeading;
+  identifier: string;
+  mainNumber: number;
+  sortKey: number;
+  title: string;
+  body: string;
+}
+
+// Splits a whole script into scene blocks in document order.
+// Unnumbered sluglines are numbered by position, but only when the script has no
+// numbered headings at all; otherwise they are treated as part of the current scene.
+// Repeated identifiers (e.g. a scene list at the top of the file) keep the first block.
+export function splitScriptIntoScenes(content: string): ScriptSceneBlock[] {
+  const lines = content.split(/\r?\n/);
+  const headings: { lineIndex: number; heading: ParsedSceneHeading }[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const heading = parseSceneHeading(lines[i]);
+    if (heading) headings.push({ lineIndex: i, heading });
+  }
+
+  const hasNumbered = headings.some(h => h.heading.identifier);
+  const boundaries = hasNumbered ? headings.filter(h => h.heading.identifier) : headings;
+
+  const blocks: ScriptSceneBlock[] = [];
+  boundaries.forEach((entry, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1].lineIndex : lines.length;
+    const identifier = entry.heading.identifier || String(index + 1);
+    if (blocks.some(b => b.identifier === identifier)) return;
+
+    blocks.push({
+      heading: entry.heading,
+      identifier,
+      mainNumber: entry.heading.mainNumber ?? index + 1,
+      sortKey: entry.heading.sortKey ?? sceneSortKey(identifier),
+      title: entry.heading.raw,
+      body: lines.slice(entry.lineIndex + 1, end).join("\n").trim(),
+    });
+  });
+
+  return blocks;
+}
+
+// Finds every scene referenced in free text such as a call sheet:
+// heading lines, "第X场", "场次：1、2、3", "Sc. 12A", "Scenes 4, 5A" and bare "X-Y" tokens.
+export function extractSceneReferences(text: string): string[] {
+  const found: string[] = [];
+  const add = (token: string) => {
+    const identifier = normalizeSceneIdentifier(token);
+    if (identifier && sceneMainNumber(identifier)! > 0 && !found.includes(identifier)) {
+      found.push(identifier);
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = parseSceneHeading(line);
+    if (heading?.identifier) add(heading.identifier);
+  }
+
+  const patterns: { pattern: RegExp; list: boolean }[] = [
+    // 第X场 anywhere in a line
+    { pattern: new RegExp(`第\\s*([\\d${CHINESE_NUMERAL_CLASS}]+(?:[-.]\\d+)?${SUFFIX_PATTERN})\\s*场(?!次)`, "g"), list: false },
+    // "3场" without 第. The number must start on its own, so the tail of a phone number or a time
+    // is never read as one, and a count ("共5场", "拍3场", "需2场") is not a scene. 集 and 次
+    // count episodes and takes, so only 场 marks a scene here.
+    { pattern: new RegExp(`(?<![\\d${CHINESE_NUMERAL_CLASS}\\-.:：/第])(?<![共拍需]\\s*)([\\d${CHINESE_NUMERAL_CLASS}]+(?:[-.]\\d+)?${SUFFIX_PATTERN})\\s*场(?!次)`, "g"), list: false },
+    // 场次：1、2-3、12A
+    { pattern: new RegExp(`场次\\s*[:：]?\\s*((?:[\\d${CHINESE_NUMERAL_CLASS}]+(?:[-.]\\d+)?${SUFFIX_PATTERN}[\\s,，、&/]*)+)`, "g"), list: true },
+    // Sc. 12A / Scene 12 / Scenes: 4, 5A, 6
+    { pattern: new RegExp(`\\b(?:scenes?|sc)\\b\\.?\\s*(?:no\\.?|#)?\\s*[:：]?\\s*((?:[A-Za-z]?\\d+(?:[-.]\\d+)?${SUFFIX_PATTERN}\\b[\\s,，、&/]*)+)`, "gi"), list: true },
+    // Bare X-Y tokens, but not dates such as 2024-05-01 or 5.1-5.3, nor call times such as "07-30 集合"
+    { pattern: new RegExp(`(?<![\\d.\\-/])(\\d{1,3}-\\d{1,3}${SUFFIX_PATTERN})(?![\\d.\\-/])${CALL_TIME_LOOKAHEAD}`, "g"), list: false },
+  ];
+
+  for (const { pattern, list } of patterns) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      if (list) {
+        match[1].split(/[\s,，、&/]+/).filter(Boolean).forEach(add);
+      } else {
+        add(match[1]);
+      }
+    }
+  }
+
+  return found.sort((a, b) => sceneSortKey(a) - sceneSortKey(b));
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -92,6 +92,62 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
+// Screenplay source formats and structured elements (FDX / Fountain imports)
+export const scriptSourceFormats = ["plain", "fdx", "fountain"] as const;
+export type ScriptSourceFormat = typeof scriptSourceFormats[number];
+
+export const screenplayElementTypes = [
+  "scene_heading",
+  "action",
+  "character",
+  "parenthetical",
+  "dialogue",
+  "transition",
+  "shot",
+  "general",
+  "centered",
+  "lyric",
+  "section",
+  "synopsis",
+  "note",
+  "page_break",
+] as const;
+export type ScreenplayElementType = typeof screenplayElementTypes[number];
+
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+  sceneNumber?: string; // scene_heading: explicit number such as "12A" or "1-1"
+  dual?: boolean; // character: second speaker of a dual dialogue block
+  depth?: number; // section: number of leading "#"
+}
+
+// Production revision colors, in the order drafts cycle through them once a script is locked
+export const revisionColors = [
+  "white",
+  "blue",
+  "pink",
+  "yellow",
+  "green",
+  "goldenrod",
+  "buff",
+  "salmon",
+  "cherry",
+] as const;
+export type RevisionColor = typeof revisionColors[number];
+
+export const revisionColorInfo: Record<RevisionColor, { name: string; nameCN: string; hex: string }> = {
+  white: { name: "White", nameCN: "白色", hex: "#FFFFFF" },
+  blue: { name: "Blue", nameCN: "蓝色", hex: "#A7C7E7" },
+  pink: { name: "Pink", nameCN: "粉色", hex: "#F4C2C2" },
+  yellow: { name: "Yellow", nameCN: "黄色", hex: "#FFF3A0" },
+  green: { name: "Green", nameCN: "绿色", hex: "#B8E0B8" },
+  goldenrod: { name: "Goldenrod", nameCN: "金菊色", hex: "#DAA520" },
+  buff: { name: "Buff", nameCN: "米黄色", hex: "#F0DC82" },
+  salmon: { name: "Salmon", nameCN: "鲑红色", hex: "#FA8072" },
+  cherry: { name: "Cherry", nameCN: "樱桃红", hex: "#DE3163" },
+};
+
 // Scripts table
 export const scripts = pgTable("scripts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -100,10 +156,18 @@ export const scripts = pgTable("scripts", {
   version: integer("version").notNull().default(1),
   isActive: boolean("is_active").notNull().default(true),
   suggestions: text("suggestions"), // AI suggestions for improvements
+  sourceFormat: text("source_format").$type<ScriptSourceFormat>(),
+  elements: jsonb("elements").$type<ScreenplayElement[]>(), // Original element structure, null once content is edited
+  isLocked: boolean("is_locked").notNull().default(false), // Production lock: scene numbers are frozen
+  lockedAt: timestamp("locked_at"),
+  revisionColor: text("revision_color").$type<RevisionColor>(), // Color of the current draft, null until locked
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
-export const insertScriptSchema = createInsertSchema(scripts).omit({
+export const insertScriptSchema = createInsertSchema(scripts, {
+  sourceFormat: z.enum(scriptSourceFormats).nullable().optional(),
+  revisionColor: z.enum(revisionColors).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -111,6 +175,16 @@ export const insertScriptSchema = createInsertSchema(scripts).omit({
 export type InsertScript = z.infer<typeof insertScriptSchema>;
 export type Script = typeof scripts.$inferSelect;
 
+// Interior / exterior marker of a scene heading (INT./EXT., 内/外)
+export const sceneIntExtTypes = ["INT", "EXT", "INT/EXT"] as const;
+export type SceneIntExt = typeof sceneIntExtTypes[number];
+
+export const sceneIntExtLabels: Record<SceneIntExt, string> = {
+  INT: "内景",
+  EXT: "外景",
+  "INT/EXT": "内外景",
+};
+
 // Scenes table
 export const scenes = pgTable("scenes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -122,16 +196,20 @@ export const scenes = pgTable("scenes", {
   title: text("title").notNull(),
   location: text("location"),
   timeOfDay: text("time_of_day"),
+  intExt: text("int_ext").$type<SceneIntExt>(),
   description: text("description"),
   dialogue: text("dialogue"),
   action: text("action"),
   scriptContent: text("script_content"), // Original script content for this scene
   duration: integer("duration"), // in seconds
-  isInCallSheet: boolean("is_in_call_sheet").notNull().default(false),
+  pageEighths: integer("page_eighths"), // formatted script length in 1/8 pages, derived from the scene text
+  isOmitted: boolean("is_omitted").notNull().default(false), // Removed from a locked script; kept so its number and shots survive
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
-export const insertSceneSchema = createInsertSchema(scenes).omit({
+export const insertSceneSchema = createInsertSchema(scenes, {
+  intExt: z.enum(sceneIntExtTypes).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -149,6 +227,10 @@ export const callSheets = pgTable("call_sheets", {
   sceneIdentifiers: jsonb("scene_identifiers").$type<string[]>(), // Full scene identifiers like ["1-1", "1-2", "2-1"]
   fileMetadata: jsonb("file_metadata").$type<{fileName?: string; fileType?: string; uploadedAt?: string}>(),
   shootDate: timestamp("shoot_date"), // The date this call sheet is for (shooting date)
+  generalCall: text("general_call"), // "07:00"; generated call sheets and uploaded tables only
+  shootingCall: text("shooting_call"),
+  details: jsonb("details").$type<CallSheetDetails>(), // null for pasted call sheets and uploads without tables
+  revision: integer("revision").notNull().default(0), // 0 for the original, n for "revised call sheet #n"
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -160,6 +242,128 @@ export const insertCallSheetSchema = createInsertSchema(callSheets).omit({
 export type InsertCallSheet = z.infer<typeof insertCallSheetSchema>;
 export type CallSheet = typeof callSheets.$inferSelect;
 
+// Scenes listed on each call sheet, in call sheet order. A scene can sit on several
+// call sheets, e.g. when it is only partly shot and carried over to the next day.
+export const callSheetSceneStatuses = ["scheduled", "shot", "partial"] as const;
+export type CallSheetSceneStatus = typeof callSheetSceneStatuses[number];
+
+export const callSheetSceneStatusLabels: Record<CallSheetSceneStatus, string> = {
+  scheduled: "待拍",
+  shot: "已拍",
+  partial: "部分完成",
+};
+
+export const callSheetScenes = pgTable("call_sheet_scenes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  callSheetId: varchar("call_sheet_id").notNull().references(() => callSheets.id, { onDelete: "cascade" }),
+  sceneId: varchar("scene_id").notNull().references(() => scenes.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  status: text("status").notNull().default("scheduled").$type<CallSheetSceneStatus>(),
+}, (table) => [
+  uniqueIndex("call_sheet_scenes_call_sheet_scene_idx").on(table.callSheetId, table.sceneId),
+]);
+
+export const insertCallSheetSceneSchema = createInsertSchema(callSheetScenes, {
+  status: z.enum(callSheetSceneStatuses).optional(),
+}).omit({
+  id: true,
+});
+
+export type InsertCallSheetScene = z.infer<typeof insertCallSheetSceneSchema>;
+export type CallSheetScene = typeof callSheetScenes.$inferSelect;
+
+// Call sheet revision history: the state of a call sheet before each edit or restore
+export const callSheetVersions = pgTable("call_sheet_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  callSheetId: varchar("call_sheet_id").notNull().references(() => callSheets.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  title: text("title").notNull(),
+  rawText: text("raw_text"),
+  sceneNumbers: jsonb("scene_numbers").$type<number[]>(),
+  sceneIdentifiers: jsonb("scene_identifiers").$type<string[]>(),
+  shootDate: timestamp("shoot_date"),
+  generalCall: text("general_call"),
+  shootingCall: text("shooting_call"),
+  details: jsonb("details").$type<CallSheetDetails>(),
+  changeDescription: text("change_description"), // describes the edit that replaced this state
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertCallSheetVersionSchema = createInsertSchema(callSheetVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCallSheetVersion = z.infer<typeof insertCallSheetVersionSchema>;
+export type CallSheetVersion = typeof callSheetVersions.$inferSelect;
+
+// Structured content of a generated call sheet; times are "HH:MM" on the shoot date
+export interface CallSheetSceneEntry {
+  sceneId: string;
+  sceneIdentifier: string;
+  intExt: SceneIntExt | null;
+  dayNight: "day" | "night" | null;
+  location: string | null;
+  synopsis: string;
+  pageEighths: number | null;
+  castIds: number[];
+  startTime: string; // estimated from the shooting call and page counts
+}
+
+export interface CallSheetCastCall {
+  castId: number;
+  name: string;
+  characterId: string | null;
+  status: string | null; // Day Out of Days marker for this date, e.g. "SW"
+  pickup: string;
+  makeup: string;
+  onSet: string;
+  remarks: string | null;
+}
+
+export interface CallSheetBackgroundCall {
+  name: string;
+  quantity: number | null;
+  callTime: string;
+  sceneIdentifiers: string[];
+  notes: string | null;
+}
+
+export interface CallSheetRequirement {
+  label: string;
+  items: string[];
+}
+
+export interface CallSheetAdvanceScene {
+  sceneIdentifier: string;
+  intExt: SceneIntExt | null;
+  dayNight: "day" | "night" | null;
+  location: string | null;
+  pageEighths: number | null;
+  castIds: number[];
+}
+
+export interface CallSheetAdvanceSchedule {
+  dayNumber: number;
+  date: string | null;
+  scenes: CallSheetAdvanceScene[];
+}
+
+export interface CallSheetDetails {
+  projectTitle: string;
+  dayNumber: number | null; // from the stripboard when this date is scheduled
+  totalDays: number | null;
+  scenes: CallSheetSceneEntry[];
+  totalPageEighths: number;
+  cast: CallSheetCastCall[];
+  background: CallSheetBackgroundCall[];
+  requirements: CallSheetRequirement[];
+  advance: CallSheetAdvanceSchedule | null;
+  notes: string;
+}
+
 // Aspect ratios for storyboard images
 export const aspectRatios = ["16:9", "2.35:1", "4:3", "1:1", "9:16", "1.85:1", "custom"] as const;
 export type AspectRatio = typeof aspectRatios[number];
@@ -194,8 +398,8 @@ export const shots = pgTable("shots", {
   customVisualStyle: text("custom_visual_style"),
   aspectRatio: text("aspect_ratio").$type<AspectRatio>().default("16:9"),
   customAspectRatio: text("custom_aspect_ratio"),
-  imageUrl: text("image_url"),
-  imageBase64: text("image_base64"),
+  imageUrl: text("image_url"), // /api/assets/<id>
+  imageBase64: text("image_base64"), // legacy, moved into the asset store by script/migrate-assets.ts
   videoUrl: text("video_url"),
   videoModel: text("video_model").$type<VideoModel>(),
   videoStatus: text("video_status").$type<VideoStatus>(),
@@ -215,6 +419,21 @@ export const insertShotSchema = createInsertSchema(shots).omit({
 export type InsertShot = z.infer<typeof insertShotSchema>;
 export type Shot = typeof shots.$inferSelect;
 
+export type ShotEnumField = "shotType" | "cameraAngle" | "cameraMovement";
+
+// An AI-generated shot field that was not an enum key as returned
+export interface ShotFieldNormalization {
+  shotNumber: number;
+  field: ShotEnumField;
+  original: string;
+  value: string | null; // null when nothing matched, even after asking the model again
+}
+
+export interface GeneratedShots {
+  shots: Shot[];
+  normalizations: ShotFieldNormalization[];
+}
+
 // Script version history table
 export const scriptVersions = pgTable("script_versions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -224,10 +443,14 @@ export const scriptVersions = pgTable("script_versions", {
   version: integer("version").notNull(),
   changeDescription: text("change_description"),
   changedBy: text("changed_by"),
+  revisionColor: text("revision_color").$type<RevisionColor>(), // Set for versions of a locked script
+  changedScenes: jsonb("changed_scenes").$type<string[]>(), // Scene identifiers revised in this version
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
-export const insertScriptVersionSchema = createInsertSchema(scriptVersions).omit({
+export const insertScriptVersionSchema = createInsertSchema(scriptVersions, {
+  revisionColor: z.enum(revisionColors).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -235,6 +458,46 @@ export const insertScriptVersionSchema = createInsertSchema(scriptVersions).omit
 export type InsertScriptVersion = z.infer<typeof insertScriptVersionSchema>;
 export type ScriptVersion = typeof scriptVersions.$inferSelect;
 
+// Script version diff (GET /api/scripts/:id/diff)
+export type ScriptDiffSegmentType = "equal" | "added" | "removed";
+export type ScriptDiffLineType = "equal" | "added" | "removed" | "changed";
+export type ScriptDiffSceneStatus = "unchanged" | "added" | "removed" | "modified";
+
+export interface ScriptDiffSegment {
+  type: ScriptDiffSegmentType;
+  text: string;
+}
+
+export interface ScriptDiffLine {
+  type: ScriptDiffLineType;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+  oldText: string | null;
+  newText: string | null;
+  segments?: ScriptDiffSegment[]; // word-level detail for "changed" lines
+}
+
+export interface ScriptDiffSceneGroup {
+  identifier: string | null; // null for text before the first scene heading
+  heading: string | null;
+  status: ScriptDiffSceneStatus;
+  lines: ScriptDiffLine[];
+}
+
+export interface ScriptDiffSide {
+  versionId: string | null; // null: the current script content
+  version: number;
+  label: string;
+  createdAt: string | null;
+}
+
+export interface ScriptDiffResult {
+  from: ScriptDiffSide;
+  to: ScriptDiffSide;
+  stats: { added: number; removed: number; changed: number; unchanged: number };
+  scenes: ScriptDiffSceneGroup[];
+}
+
 // Shot version history table
 export const shotVersions = pgTable("shot_versions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -248,7 +511,7 @@ export const shotVersions = pgTable("shot_versions", {
   atmosphere: text("atmosphere"),
   notes: text("notes"),
   imageUrl: text("image_url"),
-  imageBase64: text("image_base64"),
+  imageBase64: text("image_base64"), // legacy, see shots.imageBase64
   version: integer("version").notNull(),
   changeDescription: text("change_description"),
   changedBy: text("changed_by"),
@@ -348,15 +611,40 @@ export type CharacterImageVariantStatus = typeof characterImageVariantStatuses[n
 export const imageProviders = ["openai", "gemini", "jimeng", "kling", "hailuo", "tongyi"] as const;
 export type ImageProvider = typeof imageProviders[number];
 
-export const imageProviderInfo: Record<ImageProvider, { name: string; nameCN: string; available: boolean }> = {
-  openai: { name: "OpenAI DALL-E 3", nameCN: "OpenAI", available: true },
-  gemini: { name: "Gemini Nano Banana", nameCN: "Nano Banana", available: true },
-  jimeng: { name: "Jimeng", nameCN: "即梦", available: false },
-  kling: { name: "Kling", nameCN: "可灵", available: false },
-  hailuo: { name: "Hailuo", nameCN: "海螺", available: false },
-  tongyi: { name: "Tongyi Wanxiang", nameCN: "通义万象", available: false },
+// referenceImages: accepts character reference images, so faces and costumes stay consistent across shots
+// imageEdits: can repaint a masked region of an existing frame
+export const imageProviderInfo: Record<ImageProvider, { name: string; nameCN: string; available: boolean; referenceImages: boolean; imageEdits: boolean }> = {
+  openai: { name: "OpenAI DALL-E 3", nameCN: "OpenAI", available: true, referenceImages: false, imageEdits: true },
+  gemini: { name: "Gemini Nano Banana", nameCN: "Nano Banana", available: true, referenceImages: true, imageEdits: true },
+  jimeng: { name: "Jimeng", nameCN: "即梦", available: false, referenceImages: false, imageEdits: false },
+  kling: { name: "Kling", nameCN: "可灵", available: false, referenceImages: false, imageEdits: false },
+  hailuo: { name: "Hailuo", nameCN: "海螺", available: false, referenceImages: false, imageEdits: false },
+  tongyi: { name: "Tongyi Wanxiang", nameCN: "通义万象", available: false, referenceImages: false, imageEdits: false },
 };
 
+// Every generated storyboard frame is kept as a candidate; the one whose image is the
+// shot's imageUrl is the selected frame
+export const shotImageCandidates = pgTable("shot_image_candidates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shotId: varchar("shot_id").notNull().references(() => shots.id, { onDelete: "cascade" }),
+  sceneId: varchar("scene_id").notNull().references(() => scenes.id, { onDelete: "cascade" }),
+  imageUrl: text("image_url").notNull(),
+  provider: text("provider").$type<ImageProvider>(), // null for frames generated before candidates were kept
+  prompt: text("prompt"),
+  seed: integer("seed"), // null when the provider takes no seed
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertShotImageCandidateSchema = createInsertSchema(shotImageCandidates, {
+  provider: z.enum(imageProviders).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertShotImageCandidate = z.infer<typeof insertShotImageCandidateSchema>;
+export type ShotImageCandidate = typeof shotImageCandidates.$inferSelect;
+
 export const characterImageVariants = pgTable("character_image_variants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   characterId: varchar("character_id").notNull().references(() => characters.id, { onDelete: "cascade" }),
@@ -459,6 +747,369 @@ export const insertProductionNotesSchema = createInsertSchema(productionNotes).o
 export type InsertProductionNotes = z.infer<typeof insertProductionNotesSchema>;
 export type ProductionNotes = typeof productionNotes.$inferSelect;
 
+// ============================================
+// 剧本拆解 (Script Breakdown)
+// 场次文本中的片段被标注为演员、群演、道具等拆解元素。
+// 元素在项目内唯一（同一把道具跨场次复用），标注记录其在场次中的出现位置。
+// ============================================
+
+export const breakdownCategories = [
+  "cast",
+  "extras",
+  "stunts",
+  "props",
+  "wardrobe",
+  "makeup_hair",
+  "vehicles",
+  "animals",
+  "sfx",
+  "vfx",
+  "set_dressing",
+  "sound",
+  "music",
+  "special_equipment",
+] as const;
+export type BreakdownCategory = typeof breakdownCategories[number];
+
+// Colors follow the conventional breakdown-sheet highlighter scheme
+export const breakdownCategoryInfo: Record<BreakdownCategory, { name: string; nameCN: string; color: string }> = {
+  cast: { name: "Cast", nameCN: "演员", color: "#E53935" },
+  extras: { name: "Extras", nameCN: "群演", color: "#43A047" },
+  stunts: { name: "Stunts", nameCN: "特技", color: "#FB8C00" },
+  props: { name: "Props", nameCN: "道具", color: "#8E24AA" },
+  wardrobe: { name: "Wardrobe", nameCN: "服装", color: "#00ACC1" },
+  makeup_hair: { name: "Makeup/Hair", nameCN: "化妆/发型", color: "#D81B60" },
+  vehicles: { name: "Vehicles", nameCN: "车辆", color: "#F06292" },
+  animals: { name: "Animals", nameCN: "动物", color: "#6D4C41" },
+  sfx: { name: "Special Effects", nameCN: "特效(SFX)", color: "#1E88E5" },
+  vfx: { name: "Visual Effects", nameCN: "视效(VFX)", color: "#3949AB" },
+  set_dressing: { name: "Set Dressing", nameCN: "陈设", color: "#7CB342" },
+  sound: { name: "Sound", nameCN: "声音", color: "#8D6E63" },
+  music: { name: "Music", nameCN: "音乐", color: "#FDD835" },
+  special_equipment: { name: "Special Equipment", nameCN: "特殊器材", color: "#546E7A" },
+};
+
+export const breakdownTagSources = ["ai", "manual"] as const;
+export type BreakdownTagSource = typeof breakdownTagSources[number];
+
+export const breakdownTagStatuses = ["suggested", "confirmed"] as const;
+export type BreakdownTagStatus = typeof breakdownTagStatuses[number];
+
+export const breakdownElements = pgTable("breakdown_elements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  category: text("category").notNull().$type<BreakdownCategory>(),
+  name: text("name").notNull(),
+  description: text("description"),
+  characterId: varchar("character_id").references(() => characters.id, { onDelete: "set null" }), // cast elements
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertBreakdownElementSchema = createInsertSchema(breakdownElements, {
+  category: z.enum(breakdownCategories),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBreakdownElement = z.infer<typeof insertBreakdownElementSchema>;
+export type BreakdownElement = typeof breakdownElements.$inferSelect;
+
+// One occurrence of an element in a scene; offsets index into scenes.scriptContent
+export const breakdownTags = pgTable("breakdown_tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  elementId: varchar("element_id").notNull().references(() => breakdownElements.id, { onDelete: "cascade" }),
+  sceneId: varchar("scene_id").notNull().references(() => scenes.id, { onDelete: "cascade" }),
+  startOffset: integer("start_offset"), // null when the tagged text no longer exists in the scene
+  endOffset: integer("end_offset"),
+  excerpt: text("excerpt"),
+  quantity: integer("quantity"),
+  notes: text("notes"),
+  source: text("source").notNull().$type<BreakdownTagSource>().default("manual"),
+  status: text("status").notNull().$type<BreakdownTagStatus>().default("confirmed"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertBreakdownTagSchema = createInsertSchema(breakdownTags, {
+  source: z.enum(breakdownTagSources).optional(),
+  status: z.enum(breakdownTagStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBreakdownTag = z.infer<typeof insertBreakdownTagSchema>;
+export type BreakdownTag = typeof breakdownTags.$inferSelect;
+
+export interface SceneBreakdownTag extends BreakdownTag {
+  element: BreakdownElement;
+}
+
+export interface SceneBreakdown {
+  sceneId: string;
+  text: string;
+  tags: SceneBreakdownTag[];
+}
+
+// Standard breakdown sheet, one per scene; cast carry the project-wide cast ID number
+export interface BreakdownSheetCastMember {
+  castId: number;
+  name: string;
+  characterId: string | null;
+}
+
+export interface BreakdownSheetItem {
+  name: string;
+  quantity: number | null;
+  notes: string | null;
+}
+
+export interface BreakdownSheet {
+  sceneId: string;
+  sceneIdentifier: string;
+  title: string;
+  isOmitted: boolean;
+  intExt: SceneIntExt | null;
+  dayNight: "day" | "night" | null;
+  timeOfDay: string | null;
+  location: string | null;
+  pageEighths: number | null;
+  synopsis: string;
+  cast: BreakdownSheetCastMember[];
+  background: BreakdownSheetItem[];
+  props: BreakdownSheetItem[];
+  wardrobe: BreakdownSheetItem[];
+  makeup: BreakdownSheetItem[];
+  vehicles: BreakdownSheetItem[];
+  specialEquipment: BreakdownSheetItem[];
+  other: { category: BreakdownCategory; items: BreakdownSheetItem[] }[]; // stunts, SFX, animals, ...
+  unconfirmedTags: number;
+}
+
+export interface BreakdownSheetReport {
+  projectId: string;
+  projectTitle: string;
+  generatedAt: string;
+  castList: BreakdownSheetCastMember[];
+  sheets: BreakdownSheet[];
+}
+
+// ============================================
+// 拍摄计划 (Stripboard Shooting Schedule)
+// 项目的拍摄计划是一条有序的场景条序列：场次条、分日条和标题条。
+// 每个分日条结束一个拍摄日，最后一个分日条之后的场次条尚未排期。
+// ============================================
+
+export const scheduleStripKinds = ["scene", "day_break", "banner"] as const;
+export type ScheduleStripKind = typeof scheduleStripKinds[number];
+
+// Industry stripboard colors by INT/EXT and day/night
+export const stripColors = ["white", "yellow", "blue", "green", "orange", "pink", "purple", "gray"] as const;
+export type StripColor = typeof stripColors[number];
+
+export const stripColorInfo: Record<StripColor, { nameCN: string; hex: string }> = {
+  white: { nameCN: "白（内景日）", hex: "#ffffff" },
+  yellow: { nameCN: "黄（外景日）", hex: "#fef08a" },
+  blue: { nameCN: "蓝（内景夜）", hex: "#bfdbfe" },
+  green: { nameCN: "绿（外景夜）", hex: "#bbf7d0" },
+  orange: { nameCN: "橙", hex: "#fed7aa" },
+  pink: { nameCN: "粉", hex: "#fbcfe8" },
+  purple: { nameCN: "紫", hex: "#e9d5ff" },
+  gray: { nameCN: "灰", hex: "#e5e7eb" },
+};
+
+export const scheduleStrips = pgTable("schedule_strips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().$type<ScheduleStripKind>(),
+  position: integer("position").notNull().default(0),
+  sceneId: varchar("scene_id").references(() => scenes.id, { onDelete: "cascade" }), // scene strips only
+  label: text("label"), // banner text, or the shoot day's notes on a day break
+  color: text("color").$type<StripColor>(), // overrides the INT/EXT day/night color
+  shootDate: timestamp("shoot_date"), // day breaks only
+  estimatedMinutes: integer("estimated_minutes"), // scene strips only; overrides the page-count estimate
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  // One strip per scene; banners and day breaks have no scene and are not constrained
+  uniqueIndex("schedule_strips_project_scene_idx").on(table.projectId, table.sceneId),
+]);
+
+export const insertScheduleStripSchema = createInsertSchema(scheduleStrips, {
+  kind: z.enum(scheduleStripKinds),
+  color: z.enum(stripColors).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertScheduleStrip = z.infer<typeof insertScheduleStripSchema>;
+export type ScheduleStrip = typeof scheduleStrips.$inferSelect;
+
+export interface ScheduleSceneStrip {
+  stripId: string;
+  sceneId: string;
+  sceneIdentifier: string;
+  title: string;
+  location: string | null;
+  intExt: SceneIntExt | null;
+  dayNight: "day" | "night" | null;
+  isOmitted: boolean;
+  pageEighths: number;
+  estimatedMinutes: number;
+  castIds: number[]; // breakdown sheet cast ID numbers
+  color: StripColor;
+}
+
+export type ScheduleBoardStrip =
+  | { kind: "scene"; strip: ScheduleStrip; scene: ScheduleSceneStrip }
+  | { kind: "day_break"; strip: ScheduleStrip }
+  | { kind: "banner"; strip: ScheduleStrip };
+
+export interface ShootDay {
+  dayNumber: number;
+  dayBreakStripId: string;
+  shootDate: string | null;
+  notes: string | null;
+  strips: ScheduleBoardStrip[]; // scenes and banners, in shooting order
+  sceneCount: number;
+  pageEighths: number;
+  estimatedMinutes: number;
+}
+
+export interface ShootingSchedule {
+  projectId: string;
+  strips: ScheduleBoardStrip[]; // the whole board in order, day breaks included
+  days: ShootDay[];
+  unscheduled: ScheduleBoardStrip[];
+  castList: BreakdownSheetCastMember[];
+  totals: { days: number; scenes: number; pageEighths: number; estimatedMinutes: number; unscheduledScenes: number };
+}
+
+// Automatic schedule proposals; every cost item is a count times a fixed weight
+export const scheduleStrategies = ["location", "cast"] as const;
+export type ScheduleStrategy = typeof scheduleStrategies[number];
+
+export const scheduleCostKeys = ["shoot_days", "company_moves", "location_changes", "hold_days", "turnarounds", "day_night_conflicts", "over_length"] as const;
+export type ScheduleCostKey = typeof scheduleCostKeys[number];
+
+export interface ScheduleCostItem {
+  key: ScheduleCostKey;
+  label: string;
+  count: number;
+  weight: number;
+  cost: number;
+  details: string[];
+}
+
+export interface ScheduleCost {
+  total: number;
+  items: ScheduleCostItem[];
+}
+
+export interface ProposedShootDay {
+  dayNumber: number;
+  dayNight: "day" | "night" | null;
+  sceneIds: string[];
+  sceneIdentifiers: string[];
+  locations: string[];
+  pageEighths: number;
+  estimatedMinutes: number;
+  castIds: number[];
+}
+
+export interface ScheduleProposal {
+  strategy: ScheduleStrategy;
+  label: string;
+  days: ProposedShootDay[];
+  cost: ScheduleCost;
+}
+
+export interface ScheduleOptimization {
+  maxPageEighthsPerDay: number;
+  current: ScheduleCost | null; // null when nothing is scheduled yet
+  proposals: ScheduleProposal[]; // cheapest first
+}
+
+// ============================================
+// 演员日程表 (Day Out of Days)
+// 按拍摄日列出每位演员的开工、工作、待命、杀青、中途放假和差旅日。
+// 拍摄日取自带日期的通告单；没有通告单时使用拍摄计划。
+// ============================================
+
+// SW start work, W work, WF work finish, SWF single day, H hold,
+// WD work then drop, PW pickup work, T travel
+export const doodMarkers = ["SW", "W", "WF", "SWF", "H", "WD", "PW", "T"] as const;
+export type DoodMarker = typeof doodMarkers[number];
+
+// Images and videos live in the asset store; rows record what is stored under which key.
+// The id is the SHA-256 of the content, so saving the same file twice stores it once.
+export const assets = pgTable("assets", {
+  id: varchar("id").primaryKey(),
+  mimeType: text("mime_type").notNull(),
+  byteSize: integer("byte_size").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"), // images only
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertAssetSchema = createInsertSchema(assets).omit({
+  createdAt: true,
+});
+
+export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type Asset = typeof assets.$inferSelect;
+
+// Travel days are entered by hand; castKey is the character id or "name:<cast name>"
+export const doodTravelDays = pgTable("dood_travel_days", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  castKey: text("cast_key").notNull(),
+  dayKey: text("day_key").notNull(), // shoot date (YYYY-MM-DD) or "day:<day break strip id>"
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertDoodTravelDaySchema = createInsertSchema(doodTravelDays).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertDoodTravelDay = z.infer<typeof insertDoodTravelDaySchema>;
+export type DoodTravelDay = typeof doodTravelDays.$inferSelect;
+
+export interface DoodDay {
+  dayNumber: number;
+  dayKey: string;
+  date: string | null;
+  sceneIdentifiers: string[];
+  castCount: number;
+}
+
+export interface DoodCastRow {
+  castId: number;
+  castKey: string;
+  name: string;
+  characterId: string | null;
+  markers: (DoodMarker | null)[]; // one per day
+  workDays: number;
+  holdDays: number;
+  travelDays: number;
+  dropDays: number;
+  totalDays: number; // work + hold + travel
+  startDay: number | null;
+  finishDay: number | null;
+}
+
+export interface DoodReport {
+  projectId: string;
+  projectTitle: string;
+  generatedAt: string;
+  source: "call_sheets" | "schedule";
+  days: DoodDay[];
+  cast: DoodCastRow[];
+}
+
 // ============================================
 // 全剧分析表 (Script Analysis Global)
 // 存储完整剧本的人物弧光、情绪地图、关系网络
@@ -0,0 +1,127 @@
+import {
+  cameraAngleInfo,
+  cameraAngles,
+  cameraMovementInfo,
+  cameraMovements,
+  shotTypeInfo,
+  shotTypes,
+  type Scene,
+  type Shot,
+  type ShotType,
+} from "./schema";
+
+// ============================================
+// 分镜覆盖与连贯性检查 (Shot Coverage Check)
+// 对一个场次的镜头列表做确定性检查，复核生成分镜时要求的规则：
+// 景别循序渐进、相邻镜头机位须有变化（30度规则）、开场建立镜头、
+// 总时长接近场次预估时长，以及景别/角度/运动取值是否合法。
+// ============================================
+
+export type ShotCheckCode =
+  | "shot_size_jump"
+  | "repeated_setup"
+  | "missing_establishing"
+  | "duration_mismatch"
+  | "missing_duration"
+  | "unknown_value";
+
+export interface ShotCheckWarning {
+  code: ShotCheckCode;
+  shotId: string | null; // null for warnings about the whole scene
+  message: string;
+}
+
+export interface ShotCoverageReport {
+  estimatedSeconds: number;
+  totalSeconds: number;
+  warnings: ShotCheckWarning[];
+}
+
+type CheckedScene = Pick<Scene, "description" | "dialogue" | "action" | "scriptContent">;
+type CheckedShot = Pick<Shot, "id" | "shotNumber" | "shotType" | "cameraAngle" | "cameraMovement" | "duration">;
+
+// Shot size from widest to tightest; over-the-shoulder framing sits with the medium shot
+// and a POV can be any size, so it never counts as a jump
+const SHOT_SIZE: Partial<Record<ShotType, number>> = {
+  extreme_wide: 0,
+  wide: 1,
+  full: 2,
+  medium: 3,
+  over_shoulder: 3,
+  close_up: 4,
+  extreme_close_up: 5,
+};
+
+// Skipping more than two sizes (e.g. 远景 straight to 特写) reads as a jump cut
+const MAX_SIZE_STEP = 3;
+const ESTABLISHING: ShotType[] = ["extreme_wide", "wide", "full"];
+// Total shot duration outside half to double the estimate
+const DURATION_TOLERANCE = 2;
+
+// About 300 characters of script per minute of screen time, at least half a minute
+export function estimateSceneSeconds(scene: CheckedScene): number {
+  const length = (scene.description?.length || 0) + (scene.dialogue?.length || 0) + (scene.action?.length || 0) + (scene.scriptContent?.length || 0);
+  return Math.round(Math.max(0.5, length / 300) * 60);
+}
+
+function shotTypeName(shotType: string | null): string {
+  return (shotType && shotTypeInfo[shotType as ShotType]?.nameCN) || "未指定";
+}
+
+export function checkShotCoverage(scene: CheckedScene, shots: CheckedShot[]): ShotCoverageReport {
+  const ordered = [...shots].sort((a, b) => a.shotNumber - b.shotNumber);
+  const warnings: ShotCheckWarning[] = [];
+  const warn = (code: ShotCheckCode, shot: CheckedShot | null, message: string) => {
+    warnings.push({ code, shotId: shot?.id ?? null, message });
+  };
+
+  ordered.forEach((shot, index) => {
+    const unknown = [
+      shot.shotType && !(shotTypes as readonly string[]).includes(shot.shotType) ? `景别 "${shot.shotType}"` : null,
+      shot.cameraAngle && !(cameraAngles as readonly string[]).includes(shot.cameraAngle) ? `角度 "${shot.cameraAngle}"` : null,
+      shot.cameraMovement && !(cameraMovements as readonly string[]).includes(shot.cameraMovement) ? `运动 "${shot.cameraMovement}"` : null,
+    ].filter(Boolean);
+    if (unknown.length > 0) {
+      warn("unknown_value", shot, `无法识别的${unknown.join("、")}`);
+    }
+    if (!shot.duration || shot.duration <= 0) {
+      warn("missing_duration", shot, "未设置镜头时长");
+    }
+
+    const previous = ordered[index - 1];
+    if (!previous) return;
+
+    const from = previous.shotType ? SHOT_SIZE[previous.shotType] : undefined;
+    const to = shot.shotType ? SHOT_SIZE[shot.shotType] : undefined;
+    if (from !== undefined && to !== undefined && Math.abs(to - from) > MAX_SIZE_STEP) {
+      warn("shot_size_jump", shot, `景别从${shotTypeName(previous.shotType)}直接跳到${shotTypeName(shot.shotType)}，建议加过渡景别`);
+    }
+
+    if (shot.shotType && shot.shotType === previous.shotType
+      && shot.cameraAngle === previous.cameraAngle
+      && shot.cameraMovement === previous.cameraMovement) {
+      const setup = [
+        shotTypeName(shot.shotType),
+        shot.cameraAngle ? cameraAngleInfo[shot.cameraAngle]?.nameCN ?? shot.cameraAngle : null,
+        shot.cameraMovement ? cameraMovementInfo[shot.cameraMovement]?.nameCN ?? shot.cameraMovement : null,
+      ].filter(Boolean).join("/");
+      warn("repeated_setup", shot, `与镜头 #${previous.shotNumber} 机位完全相同（${setup}），违反30度规则，易产生跳切`);
+    }
+  });
+
+  const first = ordered[0];
+  if (first && !(first.shotType && ESTABLISHING.includes(first.shotType))) {
+    const later = ordered.find(shot => shot.shotType && ESTABLISHING.includes(shot.shotType));
+    warn("missing_establishing", first, later
+      ? `开场为${shotTypeName(first.shotType)}，建立镜头在镜头 #${later.shotNumber} 才出现`
+      : "缺少交代环境的建立镜头（大远景/远景/全景）");
+  }
+
+  const estimatedSeconds = estimateSceneSeconds(scene);
+  const totalSeconds = ordered.reduce((sum, shot) => sum + (shot.duration && shot.duration > 0 ? shot.duration : 0), 0);
+  if (ordered.length > 0 && (totalSeconds * DURATION_TOLERANCE < estimatedSeconds || totalSeconds > estimatedSeconds * DURATION_TOLERANCE)) {
+    warn("duration_mismatch", null, `镜头总时长 ${totalSeconds} 秒，与场次预估的 ${estimatedSeconds} 秒相差过大`);
+  }
+
+  return { estimatedSeconds, totalSeconds, warnings };
+}